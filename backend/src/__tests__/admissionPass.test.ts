@@ -0,0 +1,200 @@
+/**
+ * Admission Pass Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import {
+  consumeAdmissionPass,
+  consumeAdmissionPasses,
+  expireAdmissionPasses,
+} from '../utils/redisOperations';
+import { generateToken, verifyToken } from '../utils/jwt';
+import { admissionPassService, AdmissionRequiredError } from '../services/admissionPassService';
+
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'mock-uuid-pass') }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { hget: jest.fn(), zscore: jest.fn(), smembers: jest.fn(), zadd: jest.fn() },
+}));
+jest.mock('../utils/redisOperations', () => ({
+  admitQueueBatch: jest.fn(),
+  consumeAdmissionPass: jest.fn(),
+  consumeAdmissionPasses: jest.fn(),
+  expireAdmissionPasses: jest.fn(),
+}));
+
+jest.mock('../services/queueEventLog', () => ({
+  queueEventLog: { record: jest.fn() },
+}));
+
+describe('AdmissionPassService', () => {
+  let expiresAt: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    expiresAt = Date.now() + 60 * 1000;
+
+    (redisClient.hget as jest.Mock).mockImplementation(async (key: string) =>
+      key.startsWith('queue_devices') ? 'device-1' : 'pass-1'
+    );
+    (redisClient.zscore as jest.Mock).mockImplementation(async () => String(expiresAt));
+    (consumeAdmissionPass as jest.Mock).mockResolvedValue(true);
+  });
+
+  const issuePass = async () => {
+    const pass = await admissionPassService.getPass('user-1', 'sale-1');
+    return pass?.token as string;
+  };
+
+  const failureOf = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      return error instanceof AdmissionRequiredError ? error.reason : 'other';
+    }
+    return null;
+  };
+
+  it('issues a pass bound to the user, sale and device', async () => {
+    const token = await issuePass();
+    const claims = admissionPassService.verifyPass(token, 'user-1', 'sale-1', 'device-1');
+
+    expect(claims).toMatchObject({ sub: 'user-1', sale: 'sale-1', dev: 'device-1', jti: 'pass-1' });
+  });
+
+  it('rejects checkout without a matching pass', async () => {
+    const token = await issuePass();
+
+    expect(failureOf(() => admissionPassService.verifyPass(undefined, 'user-1', 'sale-1'))).toBe(
+      'missing'
+    );
+    expect(
+      failureOf(() => admissionPassService.verifyPass(token, 'user-2', 'sale-1', 'device-1'))
+    ).toBe('invalid');
+    expect(
+      failureOf(() => admissionPassService.verifyPass(token, 'user-1', 'sale-2', 'device-1'))
+    ).toBe('invalid');
+    expect(
+      failureOf(() => admissionPassService.verifyPass(token, 'user-1', 'sale-1', 'device-2'))
+    ).toBe('device_mismatch');
+  });
+
+  it('rejects an expired pass', async () => {
+    expiresAt = Date.now() - 1000;
+    expect(await admissionPassService.getPass('user-1', 'sale-1')).toBeNull();
+
+    expiresAt = Date.now() + 500;
+    const token = await issuePass();
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
+    expect(
+      failureOf(() => admissionPassService.verifyPass(token, 'user-1', 'sale-1', 'device-1'))
+    ).toBe('expired');
+  });
+
+  it('redeems a pass only once', async () => {
+    const claims = admissionPassService.verifyPass(
+      await issuePass(),
+      'user-1',
+      'sale-1',
+      'device-1'
+    );
+
+    await admissionPassService.redeemPass(claims);
+    expect(consumeAdmissionPass).toHaveBeenCalledWith('sale-1', 'user-1', 'pass-1');
+
+    (consumeAdmissionPass as jest.Mock).mockResolvedValue(false);
+    await expect(admissionPassService.redeemPass(claims)).rejects.toMatchObject({ reason: 'used' });
+  });
+
+  it('never takes a pass for a bearer token or a bearer token for a pass', async () => {
+    const bearer = generateToken({ id: 'user-1', userId: 'user-1', email: 'a@b.c' });
+
+    expect(verifyToken(await issuePass())).toBeNull();
+    expect(failureOf(() => admissionPassService.verifyPass(bearer, 'user-1', 'sale-1'))).toBe(
+      'invalid'
+    );
+  });
+
+  it("redeems a cart's passes together or not at all", async () => {
+    const claims = [
+      { sub: 'user-1', sale: 'sale-1', dev: '', jti: 'pass-1' },
+      { sub: 'user-1', sale: 'sale-2', dev: '', jti: 'pass-2' },
+    ];
+    (consumeAdmissionPasses as jest.Mock).mockResolvedValue('sale-2');
+
+    await expect(admissionPassService.redeemPasses(claims)).rejects.toMatchObject({
+      reason: 'used',
+      saleId: 'sale-2',
+    });
+    expect(consumeAdmissionPasses).toHaveBeenCalledTimes(1);
+    expect(consumeAdmissionPasses).toHaveBeenCalledWith('user-1', [
+      { saleId: 'sale-1', passId: 'pass-1' },
+      { saleId: 'sale-2', passId: 'pass-2' },
+    ]);
+  });
+
+  it('picks the pass of each sale in a cart', async () => {
+    const token = await issuePass();
+
+    const claims = admissionPassService.verifyPassesForSales(
+      [token],
+      'user-1',
+      ['sale-1'],
+      'device-1'
+    );
+    expect(claims).toHaveLength(1);
+
+    expect(
+      failureOf(() =>
+        admissionPassService.verifyPassesForSales(
+          [token],
+          'user-1',
+          ['sale-1', 'sale-2'],
+          'device-1'
+        )
+      )
+    ).toBe('missing');
+  });
+
+  it('returns holders of unused passes to the queue', async () => {
+    (redisClient.smembers as jest.Mock).mockResolvedValue(['sale-1', 'sale-2']);
+    (expireAdmissionPasses as jest.Mock).mockImplementation(async (saleId: string) =>
+      saleId === 'sale-1' ? ['user-1', 'user-2'] : []
+    );
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [], rowCount: 2 });
+
+    const returned = await admissionPassService.expireUnusedPasses();
+
+    expect(returned).toBe(2);
+    expect(pool.query).toHaveBeenCalledTimes(1);
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual([
+      'waiting',
+      ['user-1', 'user-2'],
+      'sale-1',
+      ['reserved'],
+    ]);
+  });
+
+  it('releases unused passes early, back to the queue', async () => {
+    (expireAdmissionPasses as jest.Mock).mockResolvedValue(['user-1', 'user-9']);
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [], rowCount: 2 });
+
+    const released = await admissionPassService.releasePasses('sale-1', ['user-1', 'user-2']);
+
+    expect(redisClient.zadd).toHaveBeenCalledWith(
+      'admission_pass_expiry:sale-1',
+      'XX',
+      0,
+      'user-1',
+      0,
+      'user-2'
+    );
+    expect(released).toEqual(['user-1']);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Admission Rate Controller Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { bulkheadManager } from '../middleware/bulkhead';
+import { metricsService } from '../services/metricsService';
+import { inventoryManager } from '../services/inventoryManager';
+import { queueEngine } from '../services/queueEngine';
+import { queueEntryManager } from '../services/queueEntryManager';
+import { eventBroadcaster } from '../services/eventBroadcaster';
+import { admissionRateController } from '../services/admissionRateController';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { hlen: jest.fn() },
+}));
+jest.mock('../middleware/bulkhead', () => ({
+  bulkheadManager: { getStats: jest.fn() },
+}));
+jest.mock('../services/metricsService', () => ({
+  metricsService: { getRecentPaymentDuration: jest.fn() },
+}));
+jest.mock('../services/inventoryManager', () => ({
+  inventoryManager: { getInventoryStats: jest.fn() },
+}));
+jest.mock('../services/queueEngine', () => ({
+  ADMISSION_TICK_MS: 5000,
+  queueEngine: {
+    getConfig: jest.fn(() => ({ batchSize: 10 })),
+    configureQueue: jest.fn(),
+    admitNextBatch: jest.fn(async (_saleId: string, size: number) =>
+      Array.from({ length: size }, (_, i) => `user-${i}`)
+    ),
+    getQueueLength: jest.fn(),
+    pushWaitEstimates: jest.fn(),
+  },
+}));
+jest.mock('../services/queueEntryManager', () => ({
+  queueEntryManager: { countRecentTransitions: jest.fn() },
+}));
+jest.mock('../services/eventBroadcaster', () => ({
+  eventBroadcaster: { admissionDecision: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+describe('AdmissionRateController', () => {
+  const setSignals = ({
+    completions = 0,
+    outstanding = 0,
+    sellable = 1000,
+    maxPerUser = null as number | null,
+    activeCheckouts = 0,
+    paymentSeconds = null as number | null,
+  }) => {
+    (queueEntryManager.countRecentTransitions as jest.Mock).mockResolvedValue(completions);
+    (redisClient.hlen as jest.Mock).mockResolvedValue(outstanding);
+    (inventoryManager.getInventoryStats as jest.Mock).mockResolvedValue({
+      sellableQuantity: sellable,
+    });
+    mockQuery.mockResolvedValue({ rows: [{ max_per_user: maxPerUser }] });
+    (bulkheadManager.getStats as jest.Mock).mockReturnValue({
+      activeConcurrent: activeCheckouts,
+      maxConcurrent: 100,
+      queueLength: 0,
+      maxQueue: 200,
+    });
+    (metricsService.getRecentPaymentDuration as jest.Mock).mockReturnValue(paymentSeconds);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('holds the rate until checkouts complete', async () => {
+    setSignals({});
+
+    const decision = await admissionRateController.tickSale('sale-hold');
+
+    expect(decision.reason).toBe('hold');
+    expect(decision.batchSize).toBe(10);
+    expect(queueEngine.admitNextBatch).toHaveBeenCalledWith('sale-hold', 10);
+    expect(eventBroadcaster.admissionDecision).toHaveBeenCalledWith(decision);
+  });
+
+  it('admits more while checkouts keep up', async () => {
+    // 60 checkouts a minute is 5 per five-second tick, half of the current batch
+    setSignals({ completions: 300 });
+
+    const decision = await admissionRateController.tickSale('sale-grow');
+
+    expect(decision.reason).toBe('increase');
+    expect(decision.batchSize).toBe(15);
+    expect(queueEngine.configureQueue).toHaveBeenCalledWith('sale-grow', { batchSize: 15 });
+  });
+
+  it('halves the rate when the checkout bulkhead saturates', async () => {
+    setSignals({ completions: 300, activeCheckouts: 90 });
+
+    const decision = await admissionRateController.tickSale('sale-busy');
+
+    expect(decision.reason).toBe('congested');
+    expect(decision.batchSize).toBe(5);
+  });
+
+  it('halves the rate when payments are slow', async () => {
+    setSignals({ completions: 300, paymentSeconds: 3.5 });
+
+    const decision = await admissionRateController.tickSale('sale-slow');
+
+    expect(decision.reason).toBe('congested');
+    expect(decision.signals.paymentLatencyMs).toBe(3500);
+  });
+
+  it('admits no more users than the remaining stock can cover', async () => {
+    setSignals({ sellable: 20, maxPerUser: 2, outstanding: 7 });
+
+    const decision = await admissionRateController.tickSale('sale-low');
+
+    expect(decision.headroom).toBe(3);
+    expect(queueEngine.admitNextBatch).toHaveBeenCalledWith('sale-low', 3);
+  });
+
+  it('stops admitting once unpaid admissions could buy the rest of the stock', async () => {
+    setSignals({ sellable: 20, maxPerUser: 2, outstanding: 10 });
+
+    const decision = await admissionRateController.tickSale('sale-out');
+
+    expect(decision.reason).toBe('inventory');
+    expect(decision.admitted).toBe(0);
+    expect(queueEngine.admitNextBatch).not.toHaveBeenCalled();
+  });
+});
@@ -102,7 +102,7 @@ describe('Product API Contracts', () => {
           maxPrice: 100,
           limit: 5,
           offset: 0,
-        }),
+        })
       );
     });
 
@@ -501,20 +501,33 @@ describe('Health API Contracts', () => {
 // ─────────────────────────────────────────────────────────────────────────────
 
 import * as queueController from '../controllers/queueController';
-import { queueService } from '../services/queueService';
-import { queueEntryManager } from '../services/queueEntryManager';
-
-jest.mock('../services/queueService');
-jest.mock('../services/queueEntryManager');
-const mockQueueService = queueService as jest.Mocked<typeof queueService>;
-const mockQueueEntryManager = queueEntryManager as jest.Mocked<typeof queueEntryManager>;
+import { queueEngine } from '../services/queueEngine';
+
+jest.mock('../services/queueEngine', () => ({
+  queueEngine: {
+    getQueueLength: jest.fn(),
+    getQueueStats: jest.fn(),
+    getQueueHistory: jest.fn(),
+    getQueuePosition: jest.fn(),
+    isInQueue: jest.fn(),
+    joinQueue: jest.fn(),
+  },
+}));
+jest.mock('../services/waitingRoomService', () => ({
+  waitingRoomService: { isOpen: jest.fn().mockResolvedValue(false) },
+}));
+jest.mock('../services/queueBindingService', () => ({
+  ...jest.requireActual('../services/queueBindingService'),
+  queueBindingService: { bind: jest.fn(), check: jest.fn() },
+}));
+const mockQueueEngine = queueEngine as jest.Mocked<typeof queueEngine>;
 
 describe('Queue API Contracts', () => {
   afterEach(() => jest.clearAllMocks());
 
   describe('getQueueLength', () => {
     it('returns { success, data: { length } }', async () => {
-      mockQueueService.getQueueLength.mockResolvedValue(42);
+      mockQueueEngine.getQueueLength.mockResolvedValue(42);
 
       const req: any = { params: { saleId: 'sale-1' } };
       const res: any = { json: jest.fn(), status: jest.fn().mockReturnThis() };
@@ -530,18 +543,20 @@ describe('Queue API Contracts', () => {
 
   describe('getQueueStats', () => {
     it('returns queue statistics object', async () => {
-      mockQueueService.getQueueStats.mockResolvedValue({
-        length: 100,
-        averageWaitTime: 120,
-        admitted: 50,
-        processing: 10,
-      } as any);
-      mockQueueEntryManager.getQueueStats.mockResolvedValue({
-        total: 100,
+      mockQueueEngine.getQueueStats.mockResolvedValue({
+        totalWaiting: 100,
+        estimatedWaitTimeMinutes: 2,
+        averageProcessingTimeSeconds: 1,
+        admissionRate: 120,
+      });
+      mockQueueEngine.getQueueHistory.mockResolvedValue({
+        totalJoined: 100,
         waiting: 40,
-        admitted: 50,
-        processing: 10,
-      } as any);
+        reserved: 50,
+        purchased: 10,
+        cancelled: 0,
+        conversionRate: 10,
+      });
 
       const req: any = { params: { saleId: 'sale-1' } };
       const res: any = { json: jest.fn(), status: jest.fn().mockReturnThis() };
@@ -551,20 +566,23 @@ describe('Queue API Contracts', () => {
       const body = res.json.mock.calls[0][0];
       expect(body).toHaveProperty('success', true);
       expect(body).toHaveProperty('data');
+      expect(body.data).toHaveProperty('totalWaiting', 100);
+      expect(body.data).toHaveProperty('history');
     });
   });
 
   describe('joinQueue', () => {
     it('returns position for authenticated user', async () => {
-      mockQueueService.isInQueue.mockResolvedValue(false);
-      mockQueueService.joinQueue.mockResolvedValue({
+      mockQueueEngine.isInQueue.mockResolvedValue(false);
+      mockQueueEngine.joinQueue.mockResolvedValue({
         position: 15,
         estimatedWait: 300,
       } as any);
 
       const req: any = {
         params: { saleId: 'sale-1' },
-        userId: 'user-1',
+        user: { id: 'user-1' },
+        headers: {},
       };
       const json = jest.fn();
       const res: any = { json, status: jest.fn().mockReturnValue({ json }) };
@@ -572,6 +590,7 @@ describe('Queue API Contracts', () => {
       await queueController.joinQueue(req, res);
 
       const body = json.mock.calls[0][0];
+      expect(res.status).toHaveBeenCalledWith(201);
       expect(body).toHaveProperty('success', true);
       expect(body).toHaveProperty('data');
     });
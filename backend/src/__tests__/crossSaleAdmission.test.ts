@@ -0,0 +1,142 @@
+/**
+ * Cross-Sale Admission Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { admissionPassService } from '../services/admissionPassService';
+import { queueEntryManager } from '../services/queueEntryManager';
+import { eventBroadcaster } from '../services/eventBroadcaster';
+import { crossSaleAdmissionService } from '../services/crossSaleAdmissionService';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { zrange: jest.fn(), zrank: jest.fn() },
+}));
+jest.mock('../services/admissionPassService', () => ({
+  admissionPassService: { holdsPass: jest.fn(), releasePasses: jest.fn() },
+}));
+jest.mock('../services/queueEntryManager', () => ({
+  queueEntryManager: { getActiveEntriesForUsers: jest.fn() },
+}));
+jest.mock('../services/eventBroadcaster', () => ({
+  eventBroadcaster: { admissionReleased: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+describe('CrossSaleAdmissionService', () => {
+  const entry = (userId: string, saleId: string, status: string, minute: number) => ({
+    user_id: userId,
+    flash_sale_id: saleId,
+    status,
+    joined_at: new Date(Date.UTC(2026, 0, 1, 12, minute)),
+  });
+
+  const useEntries = (entries: ReturnType<typeof entry>[], drawSales: string[] = []) => {
+    (queueEntryManager.getActiveEntriesForUsers as jest.Mock).mockResolvedValue(
+      [...entries].sort((a, b) => a.joined_at.getTime() - b.joined_at.getTime())
+    );
+    mockQuery.mockResolvedValue({ rows: drawSales.map((id) => ({ id })) });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (admissionPassService.holdsPass as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('admits users with no admissions elsewhere', async () => {
+    useEntries([entry('user-1', 'sale-a', 'waiting', 0), entry('user-2', 'sale-a', 'waiting', 1)]);
+
+    const plan = await crossSaleAdmissionService.planAdmissions('sale-a', ['user-1', 'user-2'], 10);
+
+    expect(plan).toEqual({ admit: ['user-1', 'user-2'], deferred: [], releases: [] });
+  });
+
+  it('holds back a user admitted to a sale they joined earlier', async () => {
+    useEntries([entry('user-1', 'sale-a', 'reserved', 0), entry('user-1', 'sale-b', 'waiting', 5)]);
+
+    const plan = await crossSaleAdmissionService.planAdmissions('sale-b', ['user-1'], 10);
+
+    expect(plan.admit).toEqual([]);
+    expect(plan.deferred).toEqual(['user-1']);
+  });
+
+  it('gives the sale joined first priority, releasing the later admission', async () => {
+    useEntries([entry('user-1', 'sale-a', 'waiting', 0), entry('user-1', 'sale-b', 'reserved', 5)]);
+
+    const plan = await crossSaleAdmissionService.planAdmissions('sale-a', ['user-1'], 10);
+
+    expect(plan.admit).toEqual(['user-1']);
+    expect(plan.releases).toEqual([{ userId: 'user-1', saleId: 'sale-b', keptSaleId: 'sale-a' }]);
+  });
+
+  it('does not release admissions already in checkout or won in a draw', async () => {
+    useEntries(
+      [
+        entry('user-1', 'sale-a', 'waiting', 0),
+        entry('user-1', 'sale-b', 'reserved', 5),
+        entry('user-2', 'sale-a', 'waiting', 1),
+        entry('user-2', 'sale-draw', 'reserved', 6),
+      ],
+      ['sale-draw']
+    );
+    (admissionPassService.holdsPass as jest.Mock).mockResolvedValue(false);
+
+    const plan = await crossSaleAdmissionService.planAdmissions('sale-a', ['user-1', 'user-2'], 10);
+
+    expect(plan.deferred).toEqual(['user-1', 'user-2']);
+    expect(plan.releases).toEqual([]);
+  });
+
+  it('looks past deferred users to fill the batch', async () => {
+    (redisClient.zrange as jest.Mock)
+      .mockResolvedValueOnce(['user-1', 'user-2'])
+      .mockResolvedValueOnce(['user-3', 'user-4']);
+    useEntries([
+      entry('user-1', 'sale-x', 'reserved', 0),
+      entry('user-1', 'sale-b', 'waiting', 1),
+      entry('user-2', 'sale-b', 'waiting', 2),
+      entry('user-3', 'sale-b', 'waiting', 3),
+      entry('user-4', 'sale-b', 'waiting', 4),
+    ]);
+
+    const plan = await crossSaleAdmissionService.planBatch('sale-b', 2);
+
+    expect(plan.admit).toEqual(['user-2', 'user-3']);
+    expect(plan.deferred).toEqual(['user-1']);
+    expect(redisClient.zrange).toHaveBeenCalledWith('queue:sale-b', 2, 3);
+  });
+
+  it('notifies users whose admission was released', async () => {
+    (admissionPassService.releasePasses as jest.Mock).mockResolvedValue(['user-1']);
+
+    const released = await crossSaleAdmissionService.release([
+      { userId: 'user-1', saleId: 'sale-b', keptSaleId: 'sale-a' },
+      { userId: 'user-2', saleId: 'sale-b', keptSaleId: 'sale-a' },
+    ]);
+
+    expect(released).toBe(1);
+    expect(admissionPassService.releasePasses).toHaveBeenCalledWith('sale-b', ['user-1', 'user-2']);
+    expect(eventBroadcaster.admissionReleased).toHaveBeenCalledTimes(1);
+    expect(eventBroadcaster.admissionReleased).toHaveBeenCalledWith('user-1', 'sale-b', 'sale-a');
+  });
+
+  it('reports a consolidated status in priority order', async () => {
+    useEntries([entry('user-1', 'sale-a', 'reserved', 0), entry('user-1', 'sale-b', 'waiting', 5)]);
+    (redisClient.zrank as jest.Mock).mockResolvedValue(3);
+
+    const status = await crossSaleAdmissionService.getUserStatus('user-1');
+
+    expect(status.maxConcurrentAdmissions).toBe(1);
+    expect(status.admissionsHeld).toBe(1);
+    expect(status.queues).toEqual([
+      expect.objectContaining({ saleId: 'sale-a', status: 'admitted', priority: 1 }),
+      expect.objectContaining({ saleId: 'sale-b', status: 'deferred', priority: 2, position: 4 }),
+    ]);
+  });
+});
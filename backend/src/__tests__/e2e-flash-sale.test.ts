@@ -42,8 +42,13 @@ jest.mock('../services/metricsService', () => ({
 jest.mock('../services/productService');
 jest.mock('../services/flashSaleService');
 jest.mock('../services/inventoryManager');
-jest.mock('../services/queueService');
-jest.mock('../services/queueEntryManager');
+jest.mock('../services/queueEngine');
+jest.mock('../services/waitingRoomService');
+jest.mock('../services/crossSaleAdmissionService');
+jest.mock('../services/queueBindingService', () => ({
+  ...jest.requireActual('../services/queueBindingService'),
+  queueBindingService: { bind: jest.fn(), check: jest.fn() },
+}));
 jest.mock('../services/orderService');
 jest.mock('../services/orderValidator');
 jest.mock('../services/paymentProcessor');
@@ -51,8 +56,8 @@ jest.mock('../services/paymentProcessor');
 import productService from '../services/productService';
 import flashSaleService from '../services/flashSaleService';
 import inventoryManager from '../services/inventoryManager';
-import { queueService } from '../services/queueService';
-import { queueEntryManager } from '../services/queueEntryManager';
+import { queueEngine } from '../services/queueEngine';
+import { AdmissionRequiredError } from '../services/admissionPassService';
 import orderService from '../services/orderService';
 import orderValidator from '../services/orderValidator';
 
@@ -76,8 +81,7 @@ import {
 const mockProductService = productService as jest.Mocked<typeof productService>;
 const mockFlashSaleService = flashSaleService as jest.Mocked<typeof flashSaleService>;
 const mockInventoryManager = inventoryManager as jest.Mocked<typeof inventoryManager>;
-const mockQueueService = queueService as jest.Mocked<typeof queueService>;
-const mockQueueEntryManager = queueEntryManager as jest.Mocked<typeof queueEntryManager>;
+const mockQueueEngine = queueEngine as jest.Mocked<typeof queueEngine>;
 const mockOrderService = orderService as jest.Mocked<typeof orderService>;
 const mockOrderValidator = orderValidator as jest.Mocked<typeof orderValidator>;
 
@@ -89,7 +93,7 @@ describe('E2E: Full Flash Sale Lifecycle', () => {
   beforeEach(() => jest.clearAllMocks());
 
   const adminUser = { userId: 'admin-1', email: 'admin@flash.io' };
-  const buyer = { userId: 'buyer-1', email: 'buyer@flash.io' };
+  const buyer = { id: 'buyer-1', userId: 'buyer-1', email: 'buyer@flash.io' };
 
   it('Step 1 — Admin creates a product', async () => {
     const product = buildProduct({ name: 'RTX 5090', base_price: '1999.99', category: 'gpu' });
@@ -120,7 +124,7 @@ describe('E2E: Full Flash Sale Lifecycle', () => {
       status: 'upcoming',
     });
     mockFlashSaleService.createFlashSale.mockResolvedValue(sale as any);
-    mockInventoryManager.initializeSaleInventory.mockResolvedValue(undefined);
+    mockInventoryManager.syncInventoryFromDatabase.mockResolvedValue(undefined);
 
     const req: any = {
       body: {
@@ -140,17 +144,18 @@ describe('E2E: Full Flash Sale Lifecycle', () => {
     expect(res.status).toHaveBeenCalledWith(201);
     const body = json.mock.calls[0][0];
     expectSuccessEnvelope(body);
-    expect(mockInventoryManager.initializeSaleInventory).toHaveBeenCalledWith(
-      sale.id,
-      sale.quantity_available,
+    expect(mockFlashSaleService.createFlashSale).toHaveBeenCalledWith(
+      expect.objectContaining({ product_id: 'prod-1', flash_price: 499.99, quantity_available: 50 }),
     );
+    // Redis stock is loaded from the opening stock the sale (or each of its items) recorded
+    expect(mockInventoryManager.syncInventoryFromDatabase).toHaveBeenCalledWith(sale.id);
   });
 
   it('Step 3 — Buyer joins the queue', async () => {
-    mockQueueService.isInQueue.mockResolvedValue(false);
-    mockQueueService.joinQueue.mockResolvedValue({ position: 1, estimatedWait: 60 } as any);
+    mockQueueEngine.isInQueue.mockResolvedValue(false);
+    mockQueueEngine.joinQueue.mockResolvedValue({ position: 1, estimatedWait: 60 } as any);
 
-    const req: any = { params: { saleId: 'sale-1' }, userId: buyer.userId };
+    const req: any = { params: { saleId: 'sale-1' }, user: buyer, headers: {} };
     const json = jest.fn();
     const res: any = { json, status: jest.fn().mockReturnValue({ json }) };
 
@@ -162,9 +167,9 @@ describe('E2E: Full Flash Sale Lifecycle', () => {
   });
 
   it('Step 4 — Buyer checks queue position', async () => {
-    mockQueueService.getQueuePosition.mockResolvedValue({ position: 1, estimatedWait: 30 } as any);
+    mockQueueEngine.getQueuePosition.mockResolvedValue({ position: 1, estimatedWait: 30 } as any);
 
-    const req: any = { params: { saleId: 'sale-1' }, userId: buyer.userId };
+    const req: any = { params: { saleId: 'sale-1' }, user: buyer, headers: {} };
     const res: any = { json: jest.fn(), status: jest.fn().mockReturnThis() };
 
     await queueController.getPosition(req, res);
@@ -175,7 +180,7 @@ describe('E2E: Full Flash Sale Lifecycle', () => {
   });
 
   it('Step 5 — Admin admits next batch', async () => {
-    mockQueueService.admitNextBatch.mockResolvedValue([buyer.userId]);
+    mockQueueEngine.admitNextBatch.mockResolvedValue([buyer.userId]);
 
     const req: any = { params: { saleId: 'sale-1' }, body: { batchSize: 10 } };
     const res: any = { json: jest.fn(), status: jest.fn().mockReturnThis() };
@@ -207,6 +212,7 @@ describe('E2E: Full Flash Sale Lifecycle', () => {
 
     const req: any = {
       body: { saleId: 'sale-1', productId: 'prod-1', quantity: '1' },
+      headers: { 'x-admission-pass': 'admission-pass-1', 'x-device-id': 'device-1' },
       user: buyer,
     };
     const json = jest.fn();
@@ -220,6 +226,9 @@ describe('E2E: Full Flash Sale Lifecycle', () => {
     expectSuccessEnvelope(body);
     expect(body.data.orderId).toBe('order-1');
     expect(body.data.totalAmount).toBe(499.99);
+    expect(mockOrderValidator.sanitizeOrderInput).toHaveBeenCalledWith(
+      expect.objectContaining({ admissionPass: 'admission-pass-1', deviceId: 'device-1' }),
+    );
   });
 
   it('Step 7 — Verify inventory decreased', async () => {
@@ -282,15 +291,16 @@ describe('E2E: Concurrent Queue Join', () => {
 
   it('two users join the same sale and get sequential positions', async () => {
     let positionCounter = 0;
-    mockQueueService.isInQueue.mockResolvedValue(false);
-    mockQueueService.joinQueue.mockImplementation(async () => {
+    mockQueueEngine.isInQueue.mockResolvedValue(false);
+    mockQueueEngine.joinQueue.mockImplementation(async () => {
       positionCounter++;
       return { position: positionCounter, estimatedWait: positionCounter * 30 } as any;
     });
 
     const makeReq = (userId: string): any => ({
       params: { saleId: 'sale-race' },
-      userId,
+      user: { id: userId, userId },
+      headers: {},
     });
 
     const results: any[] = [];
@@ -311,10 +321,14 @@ describe('E2E: Concurrent Queue Join', () => {
   });
 
   it('same user joining twice gets their existing position', async () => {
-    mockQueueService.isInQueue.mockResolvedValue(true);
-    mockQueueService.getQueuePosition.mockResolvedValue({ position: 5, estimatedWait: 150 } as any);
+    mockQueueEngine.isInQueue.mockResolvedValue(true);
+    mockQueueEngine.getQueuePosition.mockResolvedValue({ position: 5, estimatedWait: 150 } as any);
 
-    const req: any = { params: { saleId: 'sale-1' }, userId: 'user-X' };
+    const req: any = {
+      params: { saleId: 'sale-1' },
+      user: { id: 'user-X', userId: 'user-X' },
+      headers: {},
+    };
     const res: any = { json: jest.fn(), status: jest.fn().mockReturnThis() };
 
     await queueController.joinQueue(req, res);
@@ -323,7 +337,7 @@ describe('E2E: Concurrent Queue Join', () => {
     expect(body.success).toBe(true);
     expect(body.message).toBe('Already in queue');
     // joinQueue should NOT have been called when already in queue
-    expect(mockQueueService.joinQueue).not.toHaveBeenCalled();
+    expect(mockQueueEngine.joinQueue).not.toHaveBeenCalled();
   });
 });
 
@@ -394,7 +408,7 @@ describe('E2E: Queue Admin Operations', () => {
   beforeEach(() => jest.clearAllMocks());
 
   it('admin retrieves all queue users', async () => {
-    mockQueueService.getAllQueueUsers.mockResolvedValue([
+    mockQueueEngine.getAllQueueUsers.mockResolvedValue([
       { userId: 'u1', position: 1 },
       { userId: 'u2', position: 2 },
     ] as any);
@@ -411,7 +425,7 @@ describe('E2E: Queue Admin Operations', () => {
   });
 
   it('admin clears the queue', async () => {
-    mockQueueService.clearQueue.mockResolvedValue(15);
+    mockQueueEngine.clearQueue.mockResolvedValue(15);
 
     const req: any = { params: { saleId: 'sale-1' } };
     const res: any = { json: jest.fn(), status: jest.fn().mockReturnThis() };
@@ -424,12 +438,12 @@ describe('E2E: Queue Admin Operations', () => {
   });
 
   it('user retrieves their own queues', async () => {
-    mockQueueEntryManager.getUserQueueHistory.mockResolvedValue([
+    mockQueueEngine.getUserQueueHistory.mockResolvedValue([
       buildQueueEntry({ user_id: 'buyer-1', status: 'waiting' }),
       buildQueueEntry({ user_id: 'buyer-1', status: 'admitted' }),
     ] as any);
 
-    const req: any = { userId: 'buyer-1' };
+    const req: any = { user: { id: 'buyer-1', userId: 'buyer-1' } };
     const res: any = { json: jest.fn(), status: jest.fn().mockReturnThis() };
 
     await queueController.getMyQueues(req, res);
@@ -470,6 +484,32 @@ describe('E2E: Error Paths', () => {
     expect(res.status).toHaveBeenCalledWith(401);
   });
 
+  it('checkout without an admission pass returns 403', async () => {
+    mockOrderValidator.sanitizeOrderInput.mockImplementation((input) => input);
+    mockOrderValidator.validateCheckoutInput.mockResolvedValue({ valid: true, errors: [] });
+    mockOrderValidator.validateUserOrderLimit.mockResolvedValue({ valid: true, errors: [] });
+    mockOrderService.initiateCheckout.mockRejectedValue(
+      new AdmissionRequiredError('Join the queue first', 'missing', 'sale-1'),
+    );
+
+    // No admission pass header, nor any headers at all
+    const req: any = {
+      body: { saleId: 'sale-1', productId: 'prod-1', quantity: '1' },
+      user: { userId: 'buyer-1', email: 'b@e.com' },
+    };
+    const json = jest.fn();
+    const res: any = { json, status: jest.fn().mockReturnValue({ json }) };
+    const next = jest.fn();
+
+    await orderController.initiateCheckout(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(json.mock.calls[0][0].code).toBe('admission_required');
+    expect(mockOrderService.initiateCheckout).toHaveBeenCalledWith(
+      expect.objectContaining({ admissionPass: undefined }),
+    );
+  });
+
   it('checkout with invalid input returns 400', async () => {
     mockOrderValidator.sanitizeOrderInput.mockReturnValue({} as any);
     mockOrderValidator.validateCheckoutInput.mockResolvedValue({
@@ -506,7 +546,7 @@ describe('E2E: Error Paths', () => {
   });
 
   it('queue service failure returns 500', async () => {
-    mockQueueService.getQueueLength.mockRejectedValue(new Error('Redis unavailable'));
+    mockQueueEngine.getQueueLength.mockRejectedValue(new Error('Redis unavailable'));
 
     const req: any = { params: { saleId: 'sale-1' } };
     const json = jest.fn();
@@ -549,7 +589,7 @@ describe('E2E: Active Sales Discovery', () => {
     expect(body1.data[0]).toHaveProperty('timeRemaining');
 
     // Step 2: User checks queue length
-    mockQueueService.getQueueLength.mockResolvedValue(25);
+    mockQueueEngine.getQueueLength.mockResolvedValue(25);
 
     const req2: any = { params: { saleId: sale.id } };
     const res2: any = { json: jest.fn(), status: jest.fn().mockReturnThis() };
@@ -1,36 +1,65 @@
 import { InventoryManager } from '../services/inventoryManager';
-import redisClient from '../utils/redis';
-
-jest.mock('../utils/redis');
+import pool from '../utils/database';
+import redis from '../utils/redis';
+import { buildInventoryKey, buildReservationKey } from '../config/redisKeys';
+
+// Reservations run the real Lua scripts against an in-memory Redis
+jest.mock('ioredis', () => require('ioredis-mock'));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../services/eventBroadcaster', () => ({
+  eventBroadcaster: { inventoryUpdated: jest.fn() },
+}));
+
+// Every reservation evaluates the Lua script in-process, so the larger bursts take seconds
+jest.setTimeout(30000);
 
 describe('Week 3 Day 5: Inventory Load Testing - No Overselling', () => {
   let inventoryManager: InventoryManager;
   const saleId = 'flash-sale-001';
   const totalStock = 100;
 
-  beforeEach(() => {
+  // Opening stock of the sale in the database, loaded into Redis by loadStock
+  let stock: number;
+
+  const loadStock = async (quantity: number) => {
+    stock = quantity;
+    await inventoryManager.syncInventoryFromDatabase(saleId);
+  };
+
+  const available = async () => Number(await redis.get(buildInventoryKey(saleId)));
+
+  beforeEach(async () => {
+    await redis.flushall();
     jest.clearAllMocks();
     inventoryManager = new InventoryManager();
+
+    // A single-product sale without a purchase limit, under the strict inventory policy
+    (pool.query as jest.Mock).mockImplementation(async (sql: string) => {
+      if (sql.includes('max_per_user_overrides')) {
+        return { rows: [{ max_per_user: null, max_per_user_overrides: {}, item_ids: [] }] };
+      }
+      if (sql.includes('inventory_policy')) {
+        return { rows: [{ product_id: 'product-1', inventory_policy: 'strict', total: stock }] };
+      }
+      if (sql.includes('SELECT quantity_available FROM flash_sales')) {
+        return { rows: [{ quantity_available: stock }] };
+      }
+      return { rows: [], rowCount: 0 };
+    });
+
+    await loadStock(totalStock);
+  });
+
+  afterAll(async () => {
+    await redis.quit();
   });
 
   describe('Concurrent Reservation Without Overselling', () => {
     it('should prevent overselling under 100 concurrent reserve attempts', async () => {
-      let remaining = totalStock;
-      let successCount = 0;
-
-      (redisClient.eval as jest.Mock).mockImplementation(
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        async (_script, _keys, args) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const [_key, _ttl, _userId, quantity] = args;
-          if (remaining >= quantity) {
-            remaining -= quantity;
-            successCount++;
-            return [1, remaining];
-          }
-          return [0, remaining];
-        }
-      );
+      await loadStock(50);
 
       const promises = Array(100)
         .fill(null)
@@ -39,27 +68,16 @@ describe('Week 3 Day 5: Inventory Load Testing - No Overselling', () => {
       const results = await Promise.all(promises);
       const actualSuccesses = results.filter((r) => r.success).length;
 
-      expect(actualSuccesses).toBeLessThanOrEqual(totalStock);
-      expect(successCount * 1).toBeLessThanOrEqual(totalStock);
+      expect(actualSuccesses).toBe(50);
+      expect(results.filter((r) => !r.success).every((r) => r.reason === 'out_of_stock')).toBe(
+        true
+      );
+      expect(await available()).toBe(0);
     });
 
     it('should maintain inventory accuracy under 500 rapid fire requests', async () => {
-      let currentInventory = totalStock;
       const requests = [];
 
-      (redisClient.eval as jest.Mock).mockImplementation(
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        async (_script, _keys, args) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const [_key, _ttl, _userId, quantity] = args;
-          if (currentInventory >= quantity) {
-            currentInventory -= quantity;
-            return [1, currentInventory];
-          }
-          return [0, currentInventory];
-        }
-      );
-
       // Simulate 500 requests across all quantities
       for (let i = 0; i < 500; i++) {
         requests.push(inventoryManager.reserveInventory(saleId, `user-${i}`, 1));
@@ -68,117 +86,66 @@ describe('Week 3 Day 5: Inventory Load Testing - No Overselling', () => {
       const results = await Promise.all(requests);
       const successfulReservations = results.filter((r: { success: boolean }) => r.success).length;
 
-      expect(successfulReservations * 1).toBeLessThanOrEqual(totalStock);
-      expect(currentInventory).toBe(Math.max(0, totalStock - successfulReservations));
+      expect(successfulReservations).toBe(totalStock);
+      expect(await available()).toBe(Math.max(0, totalStock - successfulReservations));
     });
 
     it('should handle mixed reservation quantities without overselling', async () => {
-      let inventory = 1000;
+      await loadStock(300);
       const quantities = [
         ...Array(100).fill(1), // 100 users buying 1
         ...Array(50).fill(5), // 50 users buying 5
         ...Array(20).fill(10), // 20 users buying 10
       ];
 
-      (redisClient.eval as jest.Mock).mockImplementation(
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        async (_script, _keys, args) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const [_key, _ttl, _userId, qty] = args;
-          if (inventory >= qty) {
-            inventory -= qty;
-            return [1, inventory];
-          }
-          return [0, inventory];
-        }
-      );
-
       const promises = quantities.map((qty, idx) =>
         inventoryManager.reserveInventory(saleId, `user-${idx}`, qty)
       );
 
       const results = await Promise.all(promises);
-      const totalSold = results
-        .filter((r: { success: boolean }) => r.success)
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        .reduce((acc, _r: { success: boolean }) => {
-          // Find corresponding quantity
-          return acc + 1;
-        }, 0);
-
-      expect(totalSold * 1).toBeLessThanOrEqual(1000);
+      const totalSold = results.reduce(
+        (acc, r, idx) => (r.success ? acc + quantities[idx] : acc),
+        0
+      );
+
+      expect(totalSold).toBeLessThanOrEqual(300);
+      expect(await available()).toBe(300 - totalSold);
     });
   });
 
   describe('Load Pattern: Burst Traffic', () => {
     it('should handle sudden burst of 1000 concurrent requests', async () => {
       const burstSize = 1000;
-      let successfulReservations = 0;
-
-      (redisClient.eval as jest.Mock).mockImplementation(
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        async (_script, _keys, args) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const [_key, _ttl, _userId, quantity] = args;
-          if (successfulReservations < totalStock) {
-            successfulReservations++;
-            return [1, totalStock - successfulReservations];
-          }
-          return [0, totalStock - successfulReservations];
-        }
-      );
 
       const burstRequests = Array(burstSize)
         .fill(null)
         .map((_, i) => inventoryManager.reserveInventory(saleId, `burst-${i}`, 1));
 
-      await Promise.all(burstRequests);
+      const results = await Promise.all(burstRequests);
 
-      expect(successfulReservations).toBeLessThanOrEqual(totalStock);
+      expect(results.filter((r) => r.success)).toHaveLength(totalStock);
+      expect(await available()).toBe(0);
     });
 
     it('should not allow double-booking same user across concurrent requests', async () => {
       const userId = 'unique-user-001';
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const firstReservation = { success: true, remaining: totalStock - 1 };
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const secondReservation = { success: false, remaining: totalStock - 1 };
-
-      (redisClient.get as jest.Mock)
-        .mockResolvedValueOnce(null) // First call - no existing reservation
-        .mockResolvedValueOnce('existing'); // Second call - reservation exists
 
-      (redisClient.eval as jest.Mock).mockResolvedValueOnce([1, totalStock - 1]);
+      const [result1, result2] = await Promise.all([
+        inventoryManager.reserveInventory(saleId, userId, 1),
+        inventoryManager.reserveInventory(saleId, userId, 1),
+      ]);
 
-      const result1 = await inventoryManager.reserveInventory(saleId, userId, 1);
-      expect(result1.success).toBe(true);
-
-      // Second attempt by same user should fail
-      (redisClient.get as jest.Mock).mockResolvedValueOnce('existing-reservation');
-      const result2 = await inventoryManager.reserveInventory(saleId, userId, 1);
-      expect(result2.success).toBe(false);
+      expect([result1.success, result2.success].sort()).toEqual([false, true]);
+      expect([result1, result2].find((r) => !r.success)?.reason).toBe('already_reserved');
+      expect(await available()).toBe(totalStock - 1);
     });
   });
 
   describe('Load Pattern: Staggered Requests', () => {
     it('should handle 10 waves of 100 users each', async () => {
-      let totalInventory = totalStock * 10; // 1000 units
+      await loadStock(totalStock * 5); // 500 units for 1000 users
       let totalSold = 0;
 
-      (redisClient.eval as jest.Mock).mockImplementation(
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        async (_script, _keys, args) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const [_key, _ttl, _userId, quantity] = args;
-          if (totalInventory >= quantity) {
-            totalInventory -= quantity;
-            totalSold++;
-            return [1, totalInventory];
-          }
-          return [0, totalInventory];
-        }
-      );
-
       for (let wave = 0; wave < 10; wave++) {
         const waveRequests = Array(100)
           .fill(null)
@@ -186,77 +153,66 @@ describe('Week 3 Day 5: Inventory Load Testing - No Overselling', () => {
             inventoryManager.reserveInventory(saleId, `wave-${wave}-user-${idx}`, 1)
           );
 
-        await Promise.all(waveRequests);
+        const results = await Promise.all(waveRequests);
+        totalSold += results.filter((r) => r.success).length;
 
         // Verify no overselling in this wave
-        expect(totalSold).toBeLessThanOrEqual(1000);
+        expect(totalSold).toBeLessThanOrEqual(500);
+        expect(await available()).toBe(500 - totalSold);
       }
 
-      expect(totalSold).toBeLessThanOrEqual(1000);
-      expect(totalInventory).toBe(Math.max(0, 1000 - totalSold));
+      expect(totalSold).toBe(500);
     });
   });
 
   describe('Edge Cases Under Load', () => {
     it('should gracefully handle exhausted inventory', async () => {
-      (redisClient.eval as jest.Mock).mockResolvedValue([0, 0]); // No inventory
+      await loadStock(0);
 
       const result = await inventoryManager.reserveInventory(saleId, 'user-exhausted', 1);
 
       expect(result.success).toBe(false);
+      expect(result.reason).toBe('out_of_stock');
       expect(result.remaining).toBe(0);
     });
 
     it('should handle reservation expiration during high load', async () => {
-      (redisClient.get as jest.Mock).mockResolvedValue(totalStock.toString());
-      (redisClient.eval as jest.Mock).mockResolvedValue([1, totalStock - 1]);
-      (redisClient.expire as jest.Mock).mockResolvedValue(1);
-
       const result = await inventoryManager.reserveInventory(saleId, 'user-001', 1);
 
       expect(result.success).toBe(true);
-      expect(redisClient.expire).toHaveBeenCalledWith(expect.any(String), 300);
+      expect(await redis.ttl(buildReservationKey('user-001', saleId))).toBe(300);
     });
 
     it('should handle release operations during concurrent reservations', async () => {
-      (redisClient.del as jest.Mock).mockResolvedValue(1);
-      (redisClient.incrby as jest.Mock).mockResolvedValue(totalStock);
+      await inventoryManager.reserveInventory(saleId, 'user-001', 2);
 
-      const result = await inventoryManager.releaseReservation(saleId, 'user-001');
+      const [result] = await Promise.all([
+        inventoryManager.releaseReservation(saleId, 'user-001'),
+        ...Array(10)
+          .fill(null)
+          .map((_, i) => inventoryManager.reserveInventory(saleId, `user-${i + 2}`, 1)),
+      ]);
 
       expect(result).toBe(true);
-      expect(redisClient.del).toHaveBeenCalled();
+      expect(await redis.exists(buildReservationKey('user-001', saleId))).toBe(0);
+      expect(await available()).toBe(totalStock - 10);
     });
   });
 
   describe('Load Metrics & Verification', () => {
-    it('should demonstrate no overselling with 10000 total operations', async () => {
-      const inventory = 100;
-      let sold = 0;
-
-      (redisClient.eval as jest.Mock).mockImplementation(
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        async (_script, _keys, args) => {
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const [_key, _ttl, _userId, _qty] = args;
-          if (sold < inventory) {
-            sold++;
-            return [1, inventory - sold];
-          }
-          return [0, inventory - sold];
-        }
-      );
-
-      const operations = Array(10000)
+    it('should demonstrate no overselling with 2000 total operations', async () => {
+      const operations = Array(2000)
         .fill(null)
         .map((_, i) => inventoryManager.reserveInventory(saleId, `op-${i}`, 1));
 
-      await Promise.all(operations);
+      const results = await Promise.all(operations);
+      const sold = results.filter((r) => r.success).length;
 
-      expect(sold).toBeLessThanOrEqual(inventory);
+      expect(sold).toBe(totalStock);
+      expect(await available()).toBe(0);
       console.log(
-        `Load Test: 10000 ops, Inventory: ${inventory}, Sold: ${sold}, Success Rate: ${(
-          (sold / inventory) *
+        `Load Test: 2000 ops, Inventory: ${totalStock}, Sold: ${sold}, Success Rate: ${(
+          (sold / 2000) *
           100
         ).toFixed(2)}%`
       );
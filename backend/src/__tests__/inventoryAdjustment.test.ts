@@ -0,0 +1,76 @@
+/**
+ * Inventory Adjustment Tests
+ */
+
+import pool from '../utils/database';
+import { adjustInventory } from '../utils/redisOperations';
+import { inventoryManager } from '../services/inventoryManager';
+import flashSaleService from '../services/flashSaleService';
+
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'mock-uuid') }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), del: jest.fn(), srem: jest.fn() },
+}));
+jest.mock('../utils/redisOperations', () => ({ adjustInventory: jest.fn() }));
+jest.mock('../services/eventBroadcaster', () => ({
+  eventBroadcaster: { inventoryUpdated: jest.fn() },
+}));
+jest.mock('../services/stateMachine', () => ({ stateMachine: { transition: jest.fn() } }));
+jest.mock('../services/saleScheduler', () => ({ saleScheduler: { rearm: jest.fn() } }));
+
+const mockQuery = pool.query as jest.Mock;
+
+describe('Inventory adjustments', () => {
+  let saleItems: Array<{ id: string }>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    saleItems = [];
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM flash_sale_items')) {
+        return { rows: saleItems };
+      }
+      if (sql.includes('FROM flash_sales fs')) {
+        return {
+          rows: [{ id: 'sale-1', status: 'upcoming', quantity_available: 10, total: 10 }],
+        };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+    (adjustInventory as jest.Mock).mockResolvedValue({ available: 15, applied: 5 });
+  });
+
+  const queriesMatching = (fragment: string) =>
+    mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+  it('rejects a sale-level adjustment of a multi-SKU sale', async () => {
+    saleItems = [{ id: 'item-1' }, { id: 'item-2' }];
+
+    await expect(inventoryManager.adjustInventory('sale-1', 5)).rejects.toThrow(
+      'An item must be selected'
+    );
+    expect(adjustInventory).not.toHaveBeenCalled();
+  });
+
+  it('sets the stock of a sale through the inventory store', async () => {
+    await flashSaleService.updateFlashSale('sale-1', { quantity_available: 15 });
+
+    expect(adjustInventory).toHaveBeenCalledWith('sale-1', 5);
+    expect(queriesMatching('UPDATE flash_sales SET quantity_available')[0][1]).toEqual([
+      5,
+      'sale-1',
+    ]);
+    expect(queriesMatching('INSERT INTO inventory_adjustments')[0][1]).toEqual([
+      'sale-1',
+      null,
+      5,
+      'sale_update',
+      'Stock set when editing the sale',
+    ]);
+  });
+});
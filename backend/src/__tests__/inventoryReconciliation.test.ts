@@ -0,0 +1,136 @@
+/**
+ * Inventory Reconciliation Service Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { syncInventory } from '../utils/redisOperations';
+import { inventoryManager } from '../services/inventoryManager';
+import { triggerAlert } from '../services/alertService';
+import { getAlertConfig } from '../models/alert';
+import { inventoryReconciliationService } from '../services/inventoryReconciliationService';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { get: jest.fn() },
+}));
+jest.mock('../utils/redisOperations', () => ({ syncInventory: jest.fn() }));
+jest.mock('../services/inventoryManager', () => ({
+  inventoryManager: {
+    getSaleItemIds: jest.fn(),
+    getHeldQuantity: jest.fn(),
+    recordMovement: jest.fn(),
+  },
+}));
+jest.mock('../services/alertService', () => ({ triggerAlert: jest.fn() }));
+jest.mock('../models/alert', () => ({
+  AlertType: { INVENTORY_DRIFT: 'inventory_drift' },
+  getAlertConfig: jest.fn(),
+}));
+
+describe('InventoryReconciliationService', () => {
+  // Opening stock 10, 2 sold: 8 units should be unsold
+  let stock: { unsold: number; adjusted: number; sold: number; available: number; held: number };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stock = { unsold: 8, adjusted: 10, sold: 2, available: 7, held: 1 };
+
+    (pool.query as jest.Mock).mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM flash_sales WHERE id')) {
+        return { rows: [{ quantity_available: stock.unsold }] };
+      }
+      if (sql.includes('FROM inventory_adjustments')) {
+        return { rows: [{ adjusted: stock.adjusted }] };
+      }
+      if (sql.includes('FROM orders')) {
+        return { rows: [{ sold: stock.sold }] };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+    (redisClient.get as jest.Mock).mockImplementation(async () => String(stock.available));
+    (inventoryManager.getSaleItemIds as jest.Mock).mockResolvedValue([]);
+    (inventoryManager.getHeldQuantity as jest.Mock).mockImplementation(async () => stock.held);
+    (getAlertConfig as jest.Mock).mockResolvedValue({ threshold: 5 });
+  });
+
+  const ledgerWrites = () =>
+    (pool.query as jest.Mock).mock.calls.filter(([sql]) =>
+      sql.includes('INSERT INTO inventory_reconciliations')
+    );
+
+  it('reports no drift when the stores agree with the order history', async () => {
+    const result = await inventoryReconciliationService.reconcileSale('sale-clean');
+
+    expect(result.drifted).toBe(0);
+    expect(result.stocks[0].classification).toBe('none');
+    expect(ledgerWrites()).toHaveLength(0);
+  });
+
+  it('classifies units missing from Redis as a leaked reservation', async () => {
+    stock.available = 5;
+
+    const result = await inventoryReconciliationService.reconcileSale('sale-leak');
+
+    expect(result.stocks[0]).toMatchObject({
+      classification: 'leaked_reservation',
+      dbDrift: 0,
+      redisDrift: -2,
+      persistent: false,
+    });
+    expect(ledgerWrites()).toHaveLength(1);
+  });
+
+  it('classifies a database short of sold orders as a double decrement', async () => {
+    stock.unsold = 7;
+
+    const result = await inventoryReconciliationService.reconcileSale('sale-double');
+
+    expect(result.stocks[0].classification).toBe('double_decrement');
+    expect(result.stocks[0].dbDrift).toBe(-1);
+  });
+
+  it('corrects only drift seen on consecutive passes', async () => {
+    stock.unsold = 9;
+    stock.available = 8;
+
+    const first = await inventoryReconciliationService.reconcileSale('sale-edit', {
+      autoCorrect: true,
+    });
+    expect(first.stocks[0]).toMatchObject({ classification: 'manual_edit', corrected: false });
+    expect(syncInventory).not.toHaveBeenCalled();
+
+    const second = await inventoryReconciliationService.reconcileSale('sale-edit', {
+      autoCorrect: true,
+    });
+    expect(second.stocks[0]).toMatchObject({ persistent: true, corrected: true });
+    expect(syncInventory).toHaveBeenCalledWith('sale-edit', 8);
+    expect(inventoryManager.recordMovement).toHaveBeenCalledWith(
+      expect.objectContaining({ saleId: 'sale-edit', type: 'correction', quantity: 1 })
+    );
+    expect(triggerAlert).not.toHaveBeenCalled();
+  });
+
+  it('alerts on persistent drift beyond the threshold instead of correcting it', async () => {
+    stock.unsold = 20;
+    stock.available = 19;
+
+    await inventoryReconciliationService.reconcileSale('sale-large', { autoCorrect: true });
+    const result = await inventoryReconciliationService.reconcileSale('sale-large', {
+      autoCorrect: true,
+    });
+
+    expect(result.corrected).toBe(0);
+    expect(triggerAlert).toHaveBeenCalledWith(
+      'inventory_drift',
+      'Inventory Drift Detected',
+      expect.stringContaining('12 units'),
+      'inventory_reconciliation',
+      expect.objectContaining({ saleId: 'sale-large', classification: 'manual_edit' })
+    );
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Refund Restock Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { adjustInventory } from '../utils/redisOperations';
+import { eventBroadcaster } from '../services/eventBroadcaster';
+import { inventoryManager } from '../services/inventoryManager';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: {
+    get: jest.fn(),
+    hexists: jest.fn(),
+    hincrby: jest.fn(),
+    hget: jest.fn(),
+    hset: jest.fn(),
+    expire: jest.fn(),
+    del: jest.fn(),
+  },
+}));
+jest.mock('../utils/redisOperations', () => ({ adjustInventory: jest.fn() }));
+jest.mock('../services/eventBroadcaster', () => ({
+  eventBroadcaster: { inventoryUpdated: jest.fn() },
+}));
+
+describe('InventoryManager.restockRefundedOrder', () => {
+  let order: Record<string, unknown>;
+  let returnedOrders: Set<string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    returnedOrders = new Set();
+    order = {
+      user_id: 'user-1',
+      flash_sale_id: 'sale-1',
+      flash_sale_item_id: null,
+      quantity: 2,
+      status: 'refunded',
+      sale_status: 'active',
+      end_time: new Date(Date.now() + 60 * 60 * 1000),
+      restock_policy: 'restock_while_active',
+    };
+
+    (pool.query as jest.Mock).mockImplementation(async (sql: string, params: unknown[]) => {
+      if (sql.includes('FROM orders o')) {
+        return { rows: [order] };
+      }
+      if (sql.includes('INSERT INTO inventory_restocks')) {
+        const orderId = params[0] as string;
+        if (returnedOrders.has(orderId)) {
+          return { rows: [] };
+        }
+        returnedOrders.add(orderId);
+        return { rows: [{ id: 'restock-1' }] };
+      }
+      if (sql.includes('AS total')) {
+        return { rows: [{ product_id: 'product-1', total: 10 }] };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+    (redisClient.get as jest.Mock).mockResolvedValue('0');
+    (adjustInventory as jest.Mock).mockResolvedValue({ available: 2, applied: 2 });
+  });
+
+  const queriesMatching = (fragment: string) =>
+    (pool.query as jest.Mock).mock.calls.filter(([sql]) => sql.includes(fragment));
+
+  it('returns units to an active sale and reopens it for the queue', async () => {
+    const result = await inventoryManager.restockRefundedOrder('order-1');
+
+    expect(result).toMatchObject({ outcome: 'restocked', quantity: 2, available: 2 });
+    expect(adjustInventory).toHaveBeenCalledWith('sale-1', 2);
+    expect(queriesMatching('INSERT INTO inventory_adjustments')[0][1]).toEqual([
+      'sale-1',
+      null,
+      2,
+      'restock',
+      'Order refunded',
+    ]);
+    expect(eventBroadcaster.inventoryUpdated).toHaveBeenCalledWith(
+      expect.objectContaining({ saleId: 'sale-1', remaining: 2, total: 10 })
+    );
+  });
+
+  it("takes the refunded units off the customer's purchase count", async () => {
+    (redisClient.hexists as jest.Mock).mockResolvedValue(1);
+
+    await inventoryManager.restockRefundedOrder('order-1');
+    await inventoryManager.restockRefundedOrder('order-1');
+
+    expect(redisClient.hincrby).toHaveBeenCalledTimes(1);
+    expect(redisClient.hincrby).toHaveBeenCalledWith('purchase_counts:sale-1', 'user-1', -2);
+  });
+
+  it('returns the units of an order only once', async () => {
+    await inventoryManager.restockRefundedOrder('order-1');
+    const second = await inventoryManager.restockRefundedOrder('order-1');
+
+    expect(second).toBeNull();
+    expect(adjustInventory).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps units off sale once the sale has ended', async () => {
+    order.sale_status = 'completed';
+
+    const result = await inventoryManager.restockRefundedOrder('order-1');
+
+    expect(result).toMatchObject({ outcome: 'discarded', policy: 'restock_while_active' });
+    expect(adjustInventory).not.toHaveBeenCalled();
+    expect(eventBroadcaster.inventoryUpdated).not.toHaveBeenCalled();
+  });
+
+  it('holds units back for the waitlist', async () => {
+    order.restock_policy = 'waitlist';
+
+    const result = await inventoryManager.restockRefundedOrder('order-1');
+
+    expect(result).toMatchObject({ outcome: 'waitlisted', policy: 'waitlist' });
+    expect(adjustInventory).not.toHaveBeenCalled();
+    expect(queriesMatching('INSERT INTO inventory_movements')).toHaveLength(1);
+  });
+
+  it('ignores orders that were not refunded', async () => {
+    order.status = 'completed';
+
+    const result = await inventoryManager.restockRefundedOrder('order-1');
+
+    expect(result).toBeNull();
+    expect(queriesMatching('INSERT INTO inventory_restocks')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Sale Rules Cache Tests
+ */
+
+import pool from '../utils/database';
+import redis from '../utils/redis';
+import { inventoryManager } from '../services/inventoryManager';
+import { vipService } from '../services/vipService';
+
+jest.mock('ioredis', () => require('ioredis-mock'));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../services/eventBroadcaster', () => ({
+  eventBroadcaster: { inventoryUpdated: jest.fn() },
+}));
+jest.mock('../services/vipService', () => ({
+  ...jest.requireActual('../services/vipService'),
+  vipService: { getMembership: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+describe('InventoryManager sale rules', () => {
+  let sale: {
+    max_per_user: number | null;
+    max_per_user_overrides: Record<string, number>;
+    item_ids: string[];
+  };
+
+  // Reads of the sale itself, as opposed to writes to the inventory ledger
+  const saleReads = () =>
+    mockQuery.mock.calls.filter(([sql]) => (sql as string).trim().startsWith('SELECT'));
+
+  beforeEach(async () => {
+    await redis.flushall();
+    jest.clearAllMocks();
+    sale = { max_per_user: 2, max_per_user_overrides: {}, item_ids: [] };
+
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('max_per_user_overrides')) {
+        return { rows: [sale] };
+      }
+      if (sql.includes('inventory_policy')) {
+        return { rows: [{ product_id: 'product-1', inventory_policy: 'strict', total: 10 }] };
+      }
+      if (sql.includes('SELECT quantity_available FROM flash_sales')) {
+        return { rows: [{ quantity_available: 10 }] };
+      }
+      return { rows: [], rowCount: 0 };
+    });
+    (vipService.getMembership as jest.Mock).mockResolvedValue({ isActive: true, tier: 'gold' });
+  });
+
+  afterAll(async () => {
+    await redis.quit();
+  });
+
+  it('reads a sale from Postgres once and serves later reservations from Redis', async () => {
+    await inventoryManager.syncInventoryFromDatabase('sale-1');
+    const readsAtLoad = saleReads().length;
+
+    await inventoryManager.reserveInventory('sale-1', 'user-1', 1);
+    await inventoryManager.reserveInventory('sale-1', 'user-2', 1);
+
+    // Only the purchase counts are seeded, once, on the first reservation
+    expect(saleReads().slice(readsAtLoad)).toHaveLength(1);
+    expect(saleReads()[readsAtLoad][0]).toContain('FROM orders');
+    expect(await inventoryManager.getAvailableInventory('sale-1')).toBe(8);
+  });
+
+  it('enforces the cached purchase limit', async () => {
+    await inventoryManager.syncInventoryFromDatabase('sale-1');
+
+    const result = await inventoryManager.reserveInventory('sale-1', 'user-1', 3);
+
+    expect(result).toMatchObject({ success: false, reason: 'limit_exceeded', limit: 2 });
+  });
+
+  it("applies the holder's VIP override to the cached limit", async () => {
+    sale.max_per_user_overrides = { gold: 5 };
+    await inventoryManager.syncInventoryFromDatabase('sale-1');
+
+    expect(await inventoryManager.getPurchaseLimit('sale-1', 'user-1')).toBe(5);
+    (vipService.getMembership as jest.Mock).mockResolvedValue(null);
+    expect(await inventoryManager.getPurchaseLimit('sale-1', 'user-2')).toBe(2);
+  });
+
+  it('picks up a changed limit once the rules are invalidated', async () => {
+    await inventoryManager.syncInventoryFromDatabase('sale-1');
+    sale.max_per_user = 4;
+
+    expect(await inventoryManager.getPurchaseLimit('sale-1', 'user-1')).toBe(2);
+    await inventoryManager.invalidateSaleRules('sale-1');
+    expect(await inventoryManager.getPurchaseLimit('sale-1', 'user-1')).toBe(4);
+  });
+
+  it('requires an item for a multi-SKU sale from the cached items', async () => {
+    sale.item_ids = ['item-1', 'item-2'];
+
+    await expect(inventoryManager.reserveInventory('sale-1', 'user-1', 1)).rejects.toThrow(
+      'An item must be selected for this flash sale'
+    );
+  });
+});
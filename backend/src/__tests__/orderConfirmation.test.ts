@@ -0,0 +1,78 @@
+/**
+ * Order Confirmation Tests
+ */
+
+import pool from '../utils/database';
+import { inventoryManager } from '../services/inventoryManager';
+import { orderService } from '../services/orderService';
+
+jest.mock('uuid', () => ({ v4: jest.fn(() => 'mock-uuid') }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), connect: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: {},
+}));
+jest.mock('../services/inventoryManager', () => ({
+  ...jest.requireActual('../services/inventoryManager'),
+  inventoryManager: { confirmPurchase: jest.fn(), releaseReservation: jest.fn() },
+}));
+jest.mock('../services/admissionPassService', () => ({ admissionPassService: {} }));
+jest.mock('../services/queueEngine', () => ({
+  queueEngine: { markPurchased: jest.fn() },
+}));
+jest.mock('../services/analyticsService', () => ({
+  analyticsService: { trackEvent: jest.fn() },
+}));
+jest.mock('../services/scheduledTaskService', () => ({
+  scheduledTaskService: { registerHandler: jest.fn(), cancel: jest.fn() },
+}));
+
+describe('OrderService.confirmOrder', () => {
+  const order = {
+    id: 'order-1',
+    user_id: 'user-1',
+    status: 'pending',
+    flash_sale_id: 'sale-1',
+    flash_sale_item_id: null,
+    product_id: 'product-1',
+  };
+  let statements: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    statements = [];
+    (pool.connect as jest.Mock).mockResolvedValue({
+      query: jest.fn(async (sql: string) => {
+        statements.push(sql.replace(/\s+/g, ' ').trim());
+        return { rows: sql.includes('SELECT') ? [order] : [], rowCount: 1 };
+      }),
+      release: jest.fn(),
+    });
+  });
+
+  it('completes the order when its hold is still there', async () => {
+    (inventoryManager.confirmPurchase as jest.Mock).mockResolvedValue(true);
+
+    await orderService.confirmOrder('order-1', 'user-1', 'pay-1');
+
+    expect(statements.some((sql) => sql.includes('SET status = $1, payment_status'))).toBe(true);
+    expect(statements).toContain('COMMIT');
+  });
+
+  it('cancels the order when the hold expired before payment completed', async () => {
+    // The expiry sweeper reclaimed the hold and put its units back on sale
+    (inventoryManager.confirmPurchase as jest.Mock).mockResolvedValue(false);
+
+    await expect(orderService.confirmOrder('order-1', 'user-1', 'pay-1')).rejects.toMatchObject({
+      reason: 'expired',
+      saleId: 'sale-1',
+    });
+
+    expect(statements.some((sql) => sql.includes('SET status = $1, payment_status'))).toBe(false);
+    expect(statements.some((sql) => sql.includes("SET status = 'cancelled'"))).toBe(true);
+    expect(inventoryManager.releaseReservation).toHaveBeenCalledWith('sale-1', 'user-1', undefined);
+  });
+});
@@ -1,13 +1,32 @@
-import { queueService } from '../services/queueService';
+import { queueEngine } from '../services/queueEngine';
 import { queueEntryManager, QueueEntry } from '../services/queueEntryManager';
+import { admissionPassService } from '../services/admissionPassService';
+import { queueEventLog } from '../services/queueEventLog';
 import pool from '../utils/database';
 import redisClient from '../utils/redis';
-import { buildQueueKey } from '../config/redisKeys';
 
 // Mock dependencies
 jest.mock('../utils/database');
-jest.mock('../utils/redis');
-jest.mock('../config/redisKeys');
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: {
+    zadd: jest.fn(),
+    zrank: jest.fn(),
+    zrange: jest.fn(),
+    zrem: jest.fn(),
+    zscore: jest.fn(),
+    zcard: jest.fn(),
+    hset: jest.fn(),
+    hget: jest.fn(),
+    hdel: jest.fn(),
+    hlen: jest.fn(),
+    hexists: jest.fn(),
+    hincrby: jest.fn(),
+    expire: jest.fn(),
+    del: jest.fn(),
+    pipeline: jest.fn(),
+  },
+}));
 jest.mock('uuid', () => ({
   v4: jest.fn(() => 'mock-uuid-123'),
 }));
@@ -17,67 +36,141 @@ jest.mock('../services/analyticsService', () => ({
     trackEvent: jest.fn(),
   },
 }));
+jest.mock('../services/admissionPassService', () => ({
+  admissionPassService: { admitBatch: jest.fn(), admitUsers: jest.fn() },
+}));
+jest.mock('../services/queuePresenceService', () => ({
+  queuePresenceService: {
+    touch: jest.fn(),
+    forget: jest.fn(),
+    takeIdle: jest.fn(),
+    clear: jest.fn(),
+  },
+}));
+jest.mock('../services/crossSaleAdmissionService', () => ({
+  crossSaleAdmissionService: {
+    planBatch: jest.fn(async () => ({ admit: [], deferred: [], releases: [] })),
+    release: jest.fn(),
+  },
+}));
+jest.mock('../services/queueEventLog', () => ({
+  queueEventLog: { record: jest.fn() },
+}));
+jest.mock('../services/salePauseService', () => ({
+  salePauseService: { isPaused: jest.fn().mockResolvedValue(false) },
+}));
+jest.mock('../services/queueAnalyticsService', () => ({
+  queueAnalyticsService: { trackQueueExit: jest.fn() },
+}));
+
+const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
+
+// An active FIFO sale; queue entries are projected through the real manager's SQL
+const mockSaleQueries = () =>
+  (pool.query as jest.Mock).mockImplementation(async (sql: string) => {
+    if (sql.includes('SELECT status FROM flash_sales')) {
+      return { rows: [{ status: 'active' }] };
+    }
+    if (sql.includes('SELECT queue_ordering FROM flash_sales')) {
+      return { rows: [{ queue_ordering: 'fifo' }] };
+    }
+    return { rows: [], rowCount: 0 };
+  });
 
-describe('QueueService', () => {
+// Admitted and abandoned counts of the queue's recent minutes, oldest first
+const mockFlowHistory = (minutes: Array<[number, number]>) =>
+  mockRedis.pipeline.mockReturnValue({
+    hmget: jest.fn().mockReturnThis(),
+    exec: jest
+      .fn()
+      .mockResolvedValue(
+        minutes.map(([admitted, abandoned]) => [null, [String(admitted), String(abandoned)]])
+      ),
+  } as unknown as ReturnType<typeof redisClient.pipeline>);
+
+describe('QueueEngine', () => {
   const mockUserId = 'user-123';
   const mockSaleId = 'sale-456';
   const mockQueueKey = 'queue:sale-456';
 
   beforeEach(() => {
     jest.clearAllMocks();
-    (buildQueueKey as jest.Mock).mockReturnValue(mockQueueKey);
+    mockSaleQueries();
+    mockFlowHistory([]);
+    mockRedis.hexists.mockResolvedValue(0);
+    jest.spyOn(queueEntryManager, 'createEntry').mockResolvedValue({} as QueueEntry);
+    jest
+      .spyOn(queueEntryManager, 'transitionUsers')
+      .mockImplementation(async (_, userIds) => userIds);
+    jest.spyOn(queueEntryManager, 'cancelWaiting').mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   describe('joinQueue', () => {
     it('should successfully join queue when user is not already in queue', async () => {
-      (redisClient.zscore as jest.Mock).mockResolvedValue(null);
-      (redisClient.zcard as jest.Mock).mockResolvedValue(5);
-      (redisClient.zadd as jest.Mock).mockResolvedValue(1);
-      (redisClient.zrank as jest.Mock).mockResolvedValue(5);
-      (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
-
-      const result = await queueService.joinQueue(mockUserId, mockSaleId);
-
-      expect(redisClient.zscore).toHaveBeenCalledWith(mockQueueKey, mockUserId);
-      expect(redisClient.zadd).toHaveBeenCalledWith(mockQueueKey, expect.any(Number), mockUserId);
+      mockRedis.zscore.mockResolvedValue(null);
+      mockRedis.zcard.mockResolvedValue(5);
+      mockRedis.zadd.mockResolvedValue(1);
+      mockRedis.zrank.mockResolvedValue(5);
+
+      const result = await queueEngine.joinQueue(mockUserId, mockSaleId);
+
+      expect(mockRedis.zscore).toHaveBeenCalledWith(mockQueueKey, mockUserId);
+      expect(mockRedis.zadd).toHaveBeenCalledWith(
+        mockQueueKey,
+        'NX',
+        expect.any(Number),
+        mockUserId
+      );
+      expect(queueEntryManager.createEntry).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: mockUserId, flash_sale_id: mockSaleId, position: 6 })
+      );
       expect(result).toHaveProperty('position');
       expect(result).toHaveProperty('totalAhead');
     });
 
     it('should return current position if user is already in queue', async () => {
-      (redisClient.zscore as jest.Mock).mockResolvedValue(Date.now());
-      (redisClient.zrank as jest.Mock).mockResolvedValue(3);
-      (redisClient.zcard as jest.Mock).mockResolvedValue(10);
+      mockRedis.zscore.mockResolvedValue(String(Date.now()));
+      mockRedis.zrank.mockResolvedValue(3);
+      mockRedis.zcard.mockResolvedValue(10);
 
-      const result = await queueService.joinQueue(mockUserId, mockSaleId);
+      const result = await queueEngine.joinQueue(mockUserId, mockSaleId);
 
-      expect(redisClient.zadd).not.toHaveBeenCalled();
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
       expect(result.position).toBe(4); // rank 3 + 1
     });
 
     it('should throw error when queue is full', async () => {
-      (redisClient.zscore as jest.Mock).mockResolvedValue(null);
-      (redisClient.zcard as jest.Mock).mockResolvedValue(10000); // MAX_QUEUE_SIZE
+      mockRedis.zscore.mockResolvedValue(null);
+      mockRedis.zcard.mockResolvedValue(10000); // MAX_QUEUE_SIZE
 
-      await expect(queueService.joinQueue(mockUserId, mockSaleId)).rejects.toThrow('Queue is full');
+      await expect(queueEngine.joinQueue(mockUserId, mockSaleId)).rejects.toThrow('Queue is full');
     });
   });
 
   describe('leaveQueue', () => {
     it('should successfully leave queue when user is in queue', async () => {
-      (redisClient.zrem as jest.Mock).mockResolvedValue(1);
-      (pool.query as jest.Mock).mockResolvedValue({ rowCount: 1 });
+      mockRedis.zrem.mockResolvedValue(1);
 
-      const result = await queueService.leaveQueue(mockUserId, mockSaleId);
+      const result = await queueEngine.leaveQueue(mockUserId, mockSaleId);
 
       expect(result).toBe(true);
-      expect(redisClient.zrem).toHaveBeenCalledWith(mockQueueKey, mockUserId);
+      expect(mockRedis.zrem).toHaveBeenCalledWith(mockQueueKey, mockUserId);
+      expect(queueEntryManager.transitionUsers).toHaveBeenCalledWith(
+        mockSaleId,
+        [mockUserId],
+        ['waiting'],
+        'cancelled'
+      );
     });
 
     it('should return false when user is not in queue', async () => {
-      (redisClient.zrem as jest.Mock).mockResolvedValue(0);
+      mockRedis.zrem.mockResolvedValue(0);
 
-      const result = await queueService.leaveQueue(mockUserId, mockSaleId);
+      const result = await queueEngine.leaveQueue(mockUserId, mockSaleId);
 
       expect(result).toBe(false);
     });
@@ -85,11 +178,11 @@ describe('QueueService', () => {
 
   describe('getQueuePosition', () => {
     it('should return correct position information', async () => {
-      (redisClient.zrank as jest.Mock).mockResolvedValue(5); // 6th position
-      (redisClient.zscore as jest.Mock).mockResolvedValue(Date.now());
-      (redisClient.zcard as jest.Mock).mockResolvedValue(10);
+      mockRedis.zrank.mockResolvedValue(5); // 6th position
+      mockRedis.hget.mockResolvedValue(String(Date.now()));
+      mockRedis.zcard.mockResolvedValue(10);
 
-      const result = await queueService.getQueuePosition(mockUserId, mockSaleId);
+      const result = await queueEngine.getQueuePosition(mockUserId, mockSaleId);
 
       expect(result.position).toBe(6);
       expect(result.totalAhead).toBe(5);
@@ -98,9 +191,9 @@ describe('QueueService', () => {
     });
 
     it('should throw error when user is not in queue', async () => {
-      (redisClient.zrank as jest.Mock).mockResolvedValue(null);
+      mockRedis.zrank.mockResolvedValue(null);
 
-      await expect(queueService.getQueuePosition(mockUserId, mockSaleId)).rejects.toThrow(
+      await expect(queueEngine.getQueuePosition(mockUserId, mockSaleId)).rejects.toThrow(
         'User not in queue'
       );
     });
@@ -108,9 +201,9 @@ describe('QueueService', () => {
 
   describe('getQueueLength', () => {
     it('should return correct queue length', async () => {
-      (redisClient.zcard as jest.Mock).mockResolvedValue(15);
+      mockRedis.zcard.mockResolvedValue(15);
 
-      const result = await queueService.getQueueLength(mockSaleId);
+      const result = await queueEngine.getQueueLength(mockSaleId);
 
       expect(result).toBe(15);
     });
@@ -118,17 +211,17 @@ describe('QueueService', () => {
 
   describe('isInQueue', () => {
     it('should return true when user is in queue', async () => {
-      (redisClient.zscore as jest.Mock).mockResolvedValue(Date.now());
+      mockRedis.zscore.mockResolvedValue(String(Date.now()));
 
-      const result = await queueService.isInQueue(mockUserId, mockSaleId);
+      const result = await queueEngine.isInQueue(mockUserId, mockSaleId);
 
       expect(result).toBe(true);
     });
 
     it('should return false when user is not in queue', async () => {
-      (redisClient.zscore as jest.Mock).mockResolvedValue(null);
+      mockRedis.zscore.mockResolvedValue(null);
 
-      const result = await queueService.isInQueue(mockUserId, mockSaleId);
+      const result = await queueEngine.isInQueue(mockUserId, mockSaleId);
 
       expect(result).toBe(false);
     });
@@ -137,49 +230,74 @@ describe('QueueService', () => {
   describe('admitNextBatch', () => {
     it('should admit specified number of users', async () => {
       const mockUserIds = ['user-1', 'user-2', 'user-3'];
-      (redisClient.zrange as jest.Mock).mockResolvedValue(mockUserIds);
-      (redisClient.zrem as jest.Mock).mockResolvedValue(3);
-      (pool.query as jest.Mock).mockResolvedValue({ rowCount: 3 });
+      mockRedis.hlen.mockResolvedValue(0);
+      (admissionPassService.admitBatch as jest.Mock).mockResolvedValue(mockUserIds);
 
-      const result = await queueService.admitNextBatch(mockSaleId, 3);
+      const result = await queueEngine.admitNextBatch(mockSaleId, 3);
 
       expect(result).toEqual(mockUserIds);
-      expect(redisClient.zrem).toHaveBeenCalledWith(mockQueueKey, ...mockUserIds);
+      expect(admissionPassService.admitBatch).toHaveBeenCalledWith(mockSaleId, 3);
+      expect(queueEntryManager.transitionUsers).toHaveBeenCalledWith(
+        mockSaleId,
+        mockUserIds,
+        ['waiting'],
+        'reserved'
+      );
     });
 
     it('should return empty array when queue is empty', async () => {
-      (redisClient.zrange as jest.Mock).mockResolvedValue([]);
+      mockRedis.hlen.mockResolvedValue(0);
+      (admissionPassService.admitBatch as jest.Mock).mockResolvedValue([]);
 
-      const result = await queueService.admitNextBatch(mockSaleId);
+      const result = await queueEngine.admitNextBatch(mockSaleId);
 
       expect(result).toEqual([]);
-      expect(redisClient.zrem).not.toHaveBeenCalled();
+      expect(queueEventLog.record).not.toHaveBeenCalled();
+      expect(queueEntryManager.transitionUsers).not.toHaveBeenCalled();
     });
   });
 
   describe('clearQueue', () => {
     it('should clear entire queue', async () => {
-      (redisClient.zcard as jest.Mock).mockResolvedValue(10);
-      (redisClient.del as jest.Mock).mockResolvedValue(1);
-      (pool.query as jest.Mock).mockResolvedValue({ rowCount: 10 });
+      mockRedis.zcard.mockResolvedValue(10);
+      mockRedis.del.mockResolvedValue(2);
 
-      const result = await queueService.clearQueue(mockSaleId);
+      const result = await queueEngine.clearQueue(mockSaleId);
 
       expect(result).toBe(10);
-      expect(redisClient.del).toHaveBeenCalledWith(mockQueueKey);
+      expect(mockRedis.del).toHaveBeenCalledWith(mockQueueKey, 'queue_joined:sale-456');
+      expect(queueEntryManager.cancelWaiting).toHaveBeenCalledWith(mockSaleId);
     });
   });
 
   describe('getQueueStats', () => {
     it('should return comprehensive queue statistics', async () => {
-      (redisClient.zcard as jest.Mock).mockResolvedValue(20);
+      mockRedis.zcard.mockResolvedValue(20);
+      // Two admissions a minute since the queue started moving
+      mockFlowHistory([
+        [0, 0],
+        [2, 0],
+        [2, 0],
+        [2, 0],
+      ]);
 
-      const result = await queueService.getQueueStats(mockSaleId);
+      const result = await queueEngine.getQueueStats(mockSaleId);
 
       expect(result).toHaveProperty('totalWaiting', 20);
-      expect(result).toHaveProperty('estimatedWaitTimeMinutes');
+      expect(result).toHaveProperty('estimatedWaitTimeMinutes', 10);
       expect(result).toHaveProperty('averageProcessingTimeSeconds', 30);
-      expect(result).toHaveProperty('admissionRate');
+      expect(result).toHaveProperty('admissionRate', 2);
+    });
+
+    it('should fall back to the configured admission rate before any admissions', async () => {
+      mockRedis.zcard.mockResolvedValue(20);
+
+      const result = await queueEngine.getQueueStats(mockSaleId);
+
+      // 10 users every 5 seconds
+      expect(result).toHaveProperty('admissionRate', 120);
+      expect(result).toHaveProperty('averageProcessingTimeSeconds', 1);
+      expect(result).toHaveProperty('estimatedWaitTimeMinutes', 1);
     });
   });
 });
@@ -357,27 +475,37 @@ describe('QueueEntryManager', () => {
 });
 
 describe('Queue Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSaleQueries();
+    mockFlowHistory([]);
+    mockRedis.hexists.mockResolvedValue(0);
+    jest.spyOn(queueEntryManager, 'createEntry').mockResolvedValue({} as QueueEntry);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   describe('Concurrent join operations', () => {
     it('should handle multiple users joining simultaneously', async () => {
       const mockSaleId = 'sale-789';
       const userIds = ['user-1', 'user-2', 'user-3', 'user-4', 'user-5'];
 
       // Mock Redis operations
-      (redisClient.zscore as jest.Mock).mockResolvedValue(null);
-      (redisClient.zcard as jest.Mock).mockImplementation(() => {
-        const calls = (redisClient.zcard as jest.Mock).mock.calls.length;
+      mockRedis.zscore.mockResolvedValue(null);
+      mockRedis.zcard.mockImplementation(() => {
+        const calls = mockRedis.zcard.mock.calls.length;
         return Promise.resolve(calls - 1);
       });
-      (redisClient.zadd as jest.Mock).mockResolvedValue(1);
-      (redisClient.zrank as jest.Mock).mockImplementation(() => {
-        const calls = (redisClient.zrank as jest.Mock).mock.calls.length;
+      mockRedis.zadd.mockResolvedValue(1);
+      mockRedis.zrank.mockImplementation(() => {
+        const calls = mockRedis.zrank.mock.calls.length;
         return Promise.resolve(calls - 1);
       });
-      (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
-      (buildQueueKey as jest.Mock).mockReturnValue(`queue:${mockSaleId}`);
 
       // Simulate concurrent joins
-      const joinPromises = userIds.map((userId) => queueService.joinQueue(userId, mockSaleId));
+      const joinPromises = userIds.map((userId) => queueEngine.joinQueue(userId, mockSaleId));
 
       const results = await Promise.all(joinPromises);
 
@@ -386,6 +514,7 @@ describe('Queue Integration Tests', () => {
         expect(result).toHaveProperty('position');
         expect(result).toHaveProperty('totalAhead');
       });
+      expect(queueEntryManager.createEntry).toHaveBeenCalledTimes(5);
     });
   });
 });
@@ -0,0 +1,148 @@
+/**
+ * Queue Binding Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { comparePassword } from '../utils/helpers';
+import { fraudDetectionService } from '../services/fraudDetectionService';
+import {
+  queueBindingService,
+  QueueBindingError,
+  REVERIFY_FAILED,
+} from '../services/queueBindingService';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { hget: jest.fn(), hset: jest.fn() },
+}));
+jest.mock('../utils/helpers', () => ({
+  comparePassword: jest.fn(),
+}));
+jest.mock('../services/fraudDetectionService', () => ({
+  fraudDetectionService: { createAlert: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+describe('QueueBindingService', () => {
+  const phone = { deviceId: 'device-phone', sessionId: 'session-phone' };
+  const laptop = { deviceId: 'device-laptop', sessionId: 'session-laptop' };
+
+  const bindTo = (client: { deviceId: string; sessionId: string } | null) => {
+    (redisClient.hget as jest.Mock).mockImplementation(async (key: string) => {
+      if (!client) return null;
+      return key.startsWith('queue_devices') ? client.deviceId : client.sessionId;
+    });
+  };
+
+  const usePolicy = (policy: string) => {
+    mockQuery.mockResolvedValue({ rows: [{ device_binding_policy: policy }] });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('binds a place on first contact', async () => {
+    bindTo(null);
+
+    await expect(queueBindingService.check('user-1', 'sale-1', phone)).resolves.toBe('bound');
+
+    expect(redisClient.hset).toHaveBeenCalledWith('queue_devices:sale-1', 'user-1', 'device-phone');
+    expect(redisClient.hset).toHaveBeenCalledWith(
+      'queue_sessions:sale-1',
+      'user-1',
+      'session-phone'
+    );
+  });
+
+  it('lets the bound device and session through', async () => {
+    bindTo(phone);
+
+    await expect(queueBindingService.check('user-1', 'sale-1', phone)).resolves.toBe('matched');
+
+    expect(redisClient.hset).not.toHaveBeenCalled();
+    expect(fraudDetectionService.createAlert).not.toHaveBeenCalled();
+  });
+
+  it('moves the place under the allow policy and raises an alert', async () => {
+    bindTo(phone);
+    usePolicy('allow');
+
+    await expect(queueBindingService.check('user-1', 'sale-1', laptop)).resolves.toBe('rebound');
+
+    expect(redisClient.hset).toHaveBeenCalledWith(
+      'queue_devices:sale-1',
+      'user-1',
+      'device-laptop'
+    );
+    expect(fraudDetectionService.createAlert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        alertType: 'queue_binding_changed',
+        metadata: expect.objectContaining({ deviceChanged: true, sessionChanged: true }),
+      })
+    );
+  });
+
+  it.each(['reject', 'reverify'])('refuses a new session under the %s policy', async (policy) => {
+    bindTo(phone);
+    usePolicy(policy);
+
+    const attempt = queueBindingService.check('user-1', 'sale-1', {
+      ...phone,
+      sessionId: 'session-other',
+    });
+
+    await expect(attempt).rejects.toBeInstanceOf(QueueBindingError);
+    await expect(attempt).rejects.toMatchObject({ policy, saleId: 'sale-1' });
+    expect(redisClient.hset).not.toHaveBeenCalled();
+    expect(fraudDetectionService.createAlert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        metadata: expect.objectContaining({ deviceChanged: false, sessionChanged: true }),
+      })
+    );
+  });
+
+  it('moves the place once the password is re-entered', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ device_binding_policy: 'reverify' }] })
+      .mockResolvedValueOnce({ rows: [{ password_hash: 'hash' }] });
+    (comparePassword as jest.Mock).mockResolvedValue(true);
+
+    await queueBindingService.reverify('user-1', 'sale-1', laptop, 'secret');
+
+    expect(comparePassword).toHaveBeenCalledWith('secret', 'hash');
+    expect(redisClient.hset).toHaveBeenCalledWith(
+      'queue_sessions:sale-1',
+      'user-1',
+      'session-laptop'
+    );
+  });
+
+  it('keeps the binding on a wrong password', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ device_binding_policy: 'reverify' }] })
+      .mockResolvedValueOnce({ rows: [{ password_hash: 'hash' }] });
+    (comparePassword as jest.Mock).mockResolvedValue(false);
+
+    await expect(queueBindingService.reverify('user-1', 'sale-1', laptop, 'wrong')).rejects.toThrow(
+      REVERIFY_FAILED
+    );
+    expect(redisClient.hset).not.toHaveBeenCalled();
+  });
+
+  it('does not re-verify under the reject policy', async () => {
+    usePolicy('reject');
+
+    await expect(
+      queueBindingService.reverify('user-1', 'sale-1', laptop, 'secret')
+    ).rejects.toBeInstanceOf(QueueBindingError);
+    expect(comparePassword).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,469 @@
+/**
+ * Queue Engine Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { queueEngine } from '../services/queueEngine';
+import { queueEntryManager } from '../services/queueEntryManager';
+import { admissionPassService } from '../services/admissionPassService';
+import { vipService } from '../services/vipService';
+import { eventBroadcaster } from '../services/eventBroadcaster';
+import { queueWaitEstimator } from '../services/queueWaitEstimator';
+import { queuePresenceService } from '../services/queuePresenceService';
+import { queueAnalyticsService } from '../services/queueAnalyticsService';
+import { crossSaleAdmissionService } from '../services/crossSaleAdmissionService';
+import { queueEventLog } from '../services/queueEventLog';
+import { salePauseService } from '../services/salePauseService';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: {
+    zadd: jest.fn(),
+    zrank: jest.fn(),
+    zrange: jest.fn(),
+    zrem: jest.fn(),
+    zscore: jest.fn(),
+    zcard: jest.fn(),
+    hset: jest.fn(),
+    hget: jest.fn(),
+    hdel: jest.fn(),
+    hlen: jest.fn(),
+    hexists: jest.fn(),
+    pipeline: jest.fn(),
+  },
+}));
+jest.mock('../services/queueEntryManager', () => ({
+  queueEntryManager: {
+    createEntry: jest.fn(),
+    createEntries: jest.fn(),
+    transitionUsers: jest.fn(),
+    countRecentTransitions: jest.fn(),
+  },
+}));
+jest.mock('../services/admissionPassService', () => ({
+  admissionPassService: { admitBatch: jest.fn(), admitUsers: jest.fn() },
+}));
+jest.mock('../services/queueWaitEstimator', () => {
+  const actual = jest.requireActual('../services/queueWaitEstimator');
+  return {
+    ...actual,
+    queueWaitEstimator: {
+      recordAdmitted: jest.fn(),
+      recordAbandoned: jest.fn(),
+      getServiceRate: jest.fn(),
+      estimate: jest.fn(async () => ({
+        expectedSeconds: 90,
+        lowSeconds: 60,
+        highSeconds: 150,
+        confidence: 0.9,
+        basis: 'observed',
+      })),
+      estimateFromRate: jest.fn((...args) => actual.queueWaitEstimator.estimateFromRate(...args)),
+    },
+  };
+});
+jest.mock('../services/queuePresenceService', () => ({
+  queuePresenceService: {
+    touch: jest.fn(),
+    forget: jest.fn(),
+    takeIdle: jest.fn(),
+    clear: jest.fn(),
+  },
+}));
+jest.mock('../services/crossSaleAdmissionService', () => ({
+  crossSaleAdmissionService: {
+    planBatch: jest.fn(async () => ({ admit: [], deferred: [], releases: [] })),
+    release: jest.fn(),
+  },
+}));
+jest.mock('../services/queueEventLog', () => ({
+  queueEventLog: { record: jest.fn() },
+}));
+jest.mock('../services/salePauseService', () => ({
+  salePauseService: { isPaused: jest.fn().mockResolvedValue(false) },
+}));
+jest.mock('../services/queueAnalyticsService', () => ({
+  queueAnalyticsService: { trackQueueExit: jest.fn() },
+}));
+jest.mock('../services/analyticsService', () => ({
+  analyticsService: { trackQueueJoin: jest.fn(), trackEvent: jest.fn() },
+}));
+jest.mock('../services/vipService', () => ({
+  vipService: {
+    getMembership: jest.fn(),
+    getBenefits: jest.fn((tier: string) => ({ queuePriority: tier === 'gold' ? 3 : 1 })),
+  },
+  VIPTier: { STANDARD: 'standard', GOLD: 'gold' },
+}));
+
+const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
+const mockQuery = pool.query as jest.Mock;
+
+describe('QueueEngine', () => {
+  const now = 1_700_000_000_000;
+
+  const useOrdering = (ordering: string) =>
+    mockQuery.mockResolvedValue({ rows: [{ queue_ordering: ordering }] });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    mockRedis.zscore.mockResolvedValue(null);
+    mockRedis.hexists.mockResolvedValue(0);
+    mockRedis.zcard.mockResolvedValue(10);
+    mockRedis.zadd.mockResolvedValue(1);
+    mockRedis.zrank.mockResolvedValue(5);
+    mockRedis.hget.mockResolvedValue(String(now));
+    (vipService.getMembership as jest.Mock).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('joinQueue', () => {
+    it('scores FIFO joins by join time and projects the entry', async () => {
+      useOrdering('fifo');
+
+      const position = await queueEngine.joinQueue('user-1', 'sale-1', 'device-1');
+
+      expect(position.position).toBe(6);
+      expect(position.joinedAt).toEqual(new Date(now));
+      expect(mockRedis.zadd).toHaveBeenCalledWith('queue:sale-1', 'NX', now, 'user-1');
+      expect(mockRedis.hset).toHaveBeenCalledWith('queue_devices:sale-1', 'user-1', 'device-1');
+      expect(queueEntryManager.createEntry).toHaveBeenCalledWith({
+        user_id: 'user-1',
+        flash_sale_id: 'sale-1',
+        position: 6,
+        score: now,
+      });
+    });
+
+    it('puts VIP members ahead under priority ordering', async () => {
+      useOrdering('priority');
+      (vipService.getMembership as jest.Mock).mockResolvedValue({ isActive: true, tier: 'gold' });
+
+      await queueEngine.joinQueue('vip-user', 'sale-1');
+
+      const score = mockRedis.zadd.mock.calls[0][2] as unknown as number;
+      expect(score).toBe(now - 2 * 60 * 1000);
+    });
+
+    it('ignores join time under lottery ordering', async () => {
+      useOrdering('lottery');
+      jest.spyOn(Math, 'random').mockReturnValue(0.25);
+
+      await queueEngine.joinQueue('user-1', 'sale-1');
+
+      const score = mockRedis.zadd.mock.calls[0][2] as unknown as number;
+      expect(score).toBe(Math.floor(0.25 * Number.MAX_SAFE_INTEGER));
+    });
+
+    it('returns the current position of a user already waiting', async () => {
+      mockRedis.zscore.mockResolvedValue(String(now));
+
+      const position = await queueEngine.joinQueue('user-1', 'sale-1');
+
+      expect(position.position).toBe(6);
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
+      expect(queueEntryManager.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('keeps users out of the queue before the sale starts', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ status: 'upcoming' }] });
+
+      await expect(queueEngine.joinQueue('user-1', 'sale-1')).rejects.toThrow(
+        'Sale has not started yet'
+      );
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
+    });
+
+    it('refuses users who already hold an admission pass', async () => {
+      mockRedis.hexists.mockResolvedValue(1);
+
+      await expect(queueEngine.joinQueue('user-1', 'sale-1')).rejects.toThrow(
+        'Already admitted to this sale'
+      );
+      expect(mockRedis.zadd).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enqueueShuffled', () => {
+    // Records pipelined commands; exec answers each with the given reply
+    const mockPipeline = (reply: (command: string, args: unknown[]) => unknown) => {
+      const commands: Array<[string, unknown[]]> = [];
+      const pipeline: Record<string, jest.Mock> = {
+        exec: jest.fn(async () => commands.map(([command, args]) => [null, reply(command, args)])),
+      };
+      ['zadd', 'hset', 'zrank'].forEach((command) => {
+        pipeline[command] = jest.fn((...args: unknown[]) => {
+          commands.push([command, args]);
+          return pipeline;
+        });
+      });
+      return pipeline;
+    };
+
+    it('gives each arrival its own slot before now, in random order', async () => {
+      useOrdering('fifo');
+      mockRedis.zcard.mockResolvedValue(0);
+      const pipelines = [
+        mockPipeline(() => 1),
+        mockPipeline(() => 'OK'),
+        mockPipeline((_command, args) => ['user-a', 'user-b', 'user-c'].indexOf(args[1] as string)),
+      ];
+      pipelines.forEach((pipeline) => mockRedis.pipeline.mockReturnValueOnce(pipeline as any));
+
+      const queued = await queueEngine.enqueueShuffled('sale-1', [
+        { userId: 'user-a', deviceId: 'device-a' },
+        { userId: 'user-b' },
+        { userId: 'user-c' },
+      ]);
+
+      expect([...queued].sort()).toEqual(['user-a', 'user-b', 'user-c']);
+      const scores = pipelines[0].zadd.mock.calls.map((call) => call[2]);
+      expect(scores).toEqual([now - 3, now - 2, now - 1]);
+      expect(pipelines[1].hset).toHaveBeenCalledWith('queue_devices:sale-1', 'user-a', 'device-a');
+      expect(queueEntryManager.createEntries).toHaveBeenCalledWith(
+        'sale-1',
+        expect.arrayContaining([{ user_id: 'user-c', position: 3, score: expect.any(Number) }])
+      );
+    });
+
+    it('queues no more users than the queue has room for', async () => {
+      useOrdering('fifo');
+      mockRedis.zcard.mockResolvedValue(9999);
+      mockRedis.pipeline
+        .mockReturnValueOnce(mockPipeline(() => 1) as any)
+        .mockReturnValueOnce(mockPipeline(() => 'OK') as any)
+        .mockReturnValueOnce(mockPipeline(() => 9999) as any);
+
+      const queued = await queueEngine.enqueueShuffled('sale-1', [
+        { userId: 'user-a' },
+        { userId: 'user-b' },
+      ]);
+
+      expect(queued).toHaveLength(1);
+    });
+  });
+
+  describe('leaveQueue', () => {
+    it('cancels the projected entry of a waiting user', async () => {
+      mockRedis.zrem.mockResolvedValue(1);
+
+      expect(await queueEngine.leaveQueue('user-1', 'sale-1')).toBe(true);
+      expect(queueEntryManager.transitionUsers).toHaveBeenCalledWith(
+        'sale-1',
+        ['user-1'],
+        ['waiting'],
+        'cancelled'
+      );
+      expect(queueWaitEstimator.recordAbandoned).toHaveBeenCalledWith('sale-1');
+      expect(queuePresenceService.forget).toHaveBeenCalledWith('sale-1', ['user-1']);
+      expect(queueAnalyticsService.trackQueueExit).toHaveBeenCalledWith('sale-1', 'left');
+    });
+
+    it('reports users who were not waiting', async () => {
+      mockRedis.zrem.mockResolvedValue(0);
+
+      expect(await queueEngine.leaveQueue('user-1', 'sale-1')).toBe(false);
+      expect(queueEntryManager.transitionUsers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('evictIdleUsers', () => {
+    beforeEach(() => {
+      jest.spyOn(eventBroadcaster, 'queueEvicted').mockImplementation(() => {});
+    });
+
+    it('removes idle users through the leave path', async () => {
+      useOrdering('fifo');
+      (queuePresenceService.takeIdle as jest.Mock).mockResolvedValue(['user-1', 'user-2']);
+      // user-2 was admitted in the meantime
+      mockRedis.zrem.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      const evicted = await queueEngine.evictIdleUsers('sale-1');
+
+      expect(evicted).toEqual(['user-1']);
+      expect(queueEntryManager.transitionUsers).toHaveBeenCalledWith(
+        'sale-1',
+        ['user-1'],
+        ['waiting'],
+        'cancelled'
+      );
+      expect(queueAnalyticsService.trackQueueExit).toHaveBeenCalledWith('sale-1', 'evicted');
+      expect(eventBroadcaster.queueEvicted).toHaveBeenCalledWith('user-1', 'sale-1');
+    });
+
+    it('keeps draw registrations', async () => {
+      useOrdering('draw');
+      (queuePresenceService.takeIdle as jest.Mock).mockResolvedValue(['user-1']);
+
+      expect(await queueEngine.evictIdleUsers('sale-draw')).toEqual([]);
+      expect(mockRedis.zrem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('admitNextBatch', () => {
+    beforeEach(() => useOrdering('fifo'));
+
+    it('admits no more than the concurrency limit allows', async () => {
+      queueEngine.configureQueue('sale-cap', { maxConcurrent: 12, batchSize: 10 });
+      mockRedis.hlen.mockResolvedValue(9);
+      (admissionPassService.admitBatch as jest.Mock).mockResolvedValue(['user-1', 'user-2']);
+
+      const admitted = await queueEngine.admitNextBatch('sale-cap');
+
+      expect(admissionPassService.admitBatch).toHaveBeenCalledWith('sale-cap', 3);
+      expect(admitted).toEqual(['user-1', 'user-2']);
+      expect(queueEntryManager.transitionUsers).toHaveBeenCalledWith(
+        'sale-cap',
+        ['user-1', 'user-2'],
+        ['waiting'],
+        'reserved'
+      );
+      expect(queueWaitEstimator.recordAdmitted).toHaveBeenCalledWith('sale-cap', 2);
+    });
+
+    it('admits around users held back by admissions in other sales', async () => {
+      queueEngine.configureQueue('sale-multi', { maxConcurrent: 10, batchSize: 2 });
+      mockRedis.hlen.mockResolvedValue(0);
+      (crossSaleAdmissionService.planBatch as jest.Mock).mockResolvedValueOnce({
+        admit: ['user-2', 'user-3'],
+        deferred: ['user-1'],
+        releases: [{ userId: 'user-3', saleId: 'sale-later', keptSaleId: 'sale-multi' }],
+      });
+      (admissionPassService.admitUsers as jest.Mock).mockResolvedValue(['user-2', 'user-3']);
+
+      const admitted = await queueEngine.admitNextBatch('sale-multi');
+
+      expect(admitted).toEqual(['user-2', 'user-3']);
+      expect(admissionPassService.admitBatch).not.toHaveBeenCalled();
+      expect(admissionPassService.admitUsers).toHaveBeenCalledWith('sale-multi', [
+        'user-2',
+        'user-3',
+      ]);
+      expect(queueEventLog.record).toHaveBeenCalledWith('sale-multi', {
+        type: 'admit',
+        requested: 2,
+        userIds: ['user-2', 'user-3'],
+        deferred: ['user-1'],
+      });
+      expect(crossSaleAdmissionService.release).toHaveBeenCalledWith([
+        { userId: 'user-3', saleId: 'sale-later', keptSaleId: 'sale-multi' },
+      ]);
+    });
+
+    it('admits nobody while the sale is at capacity', async () => {
+      queueEngine.configureQueue('sale-full', { maxConcurrent: 5 });
+      mockRedis.hlen.mockResolvedValue(5);
+
+      expect(await queueEngine.admitNextBatch('sale-full')).toEqual([]);
+      expect(admissionPassService.admitBatch).not.toHaveBeenCalled();
+    });
+
+    it('leaves draw queues for the draw', async () => {
+      useOrdering('draw');
+      mockRedis.hlen.mockResolvedValue(0);
+
+      expect(await queueEngine.admitNextBatch('sale-draw')).toEqual([]);
+      expect(admissionPassService.admitBatch).not.toHaveBeenCalled();
+    });
+
+    it('admits nobody while the sale is paused', async () => {
+      (salePauseService.isPaused as jest.Mock).mockResolvedValueOnce(true);
+      mockRedis.hlen.mockResolvedValue(0);
+
+      expect(await queueEngine.admitNextBatch('sale-paused')).toEqual([]);
+      expect(admissionPassService.admitBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getQueuePosition', () => {
+    it('reports the observed wait estimate', async () => {
+      const position = await queueEngine.getQueuePosition('user-1', 'sale-1');
+
+      expect(queueWaitEstimator.estimate).toHaveBeenCalledWith('sale-1', 6, 10, 120);
+      expect(queuePresenceService.touch).toHaveBeenCalledWith('sale-1', ['user-1']);
+      expect(position.waitEstimate.highSeconds).toBe(150);
+      expect(position.estimatedWaitMinutes).toBe(2);
+      expect(position.totalBehind).toBe(4);
+    });
+
+    it('rejects users who are not in the queue', async () => {
+      mockRedis.zrank.mockResolvedValue(null);
+
+      await expect(queueEngine.getQueuePosition('user-1', 'sale-1')).rejects.toThrow(
+        'User not in queue'
+      );
+      expect(queuePresenceService.touch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pushWaitEstimates', () => {
+    const rate = (admittedPerMinute: number) => ({
+      admittedPerMinute,
+      abandonedPerMinute: 0,
+      admittedStdDev: 2,
+      minutesObserved: 5,
+    });
+
+    beforeEach(() => {
+      useOrdering('fifo');
+      mockRedis.zrange.mockResolvedValue(['user-1', 'user-2', 'user-3']);
+      jest.spyOn(eventBroadcaster, 'queueWaitEstimate').mockImplementation(() => {});
+    });
+
+    it('only sends estimates that moved meaningfully since the last push', async () => {
+      (queueWaitEstimator.getServiceRate as jest.Mock).mockResolvedValue(rate(1));
+      expect(await queueEngine.pushWaitEstimates('sale-push')).toBe(3);
+
+      // Nothing changed
+      expect(await queueEngine.pushWaitEstimates('sale-push')).toBe(0);
+
+      // A faster rate shortens every wait, but only the back of the queue by 30s or more
+      (queueWaitEstimator.getServiceRate as jest.Mock).mockResolvedValue(rate(1.2));
+      expect(await queueEngine.pushWaitEstimates('sale-push')).toBe(1);
+      expect(eventBroadcaster.queueWaitEstimate).toHaveBeenLastCalledWith(
+        expect.objectContaining({ userId: 'user-3', position: 3, estimatedWaitMs: 150000 })
+      );
+    });
+
+    it('sends nothing for draw queues', async () => {
+      useOrdering('draw');
+
+      expect(await queueEngine.pushWaitEstimates('sale-draw')).toBe(0);
+      expect(eventBroadcaster.queueWaitEstimate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('configureQueue', () => {
+    it('merges settings over the defaults', () => {
+      const config = queueEngine.configureQueue('sale-456', { maxConcurrent: 200 });
+
+      expect(config).toEqual({ saleId: 'sale-456', maxConcurrent: 200, batchSize: 10 });
+      expect(queueEngine.getConfig('sale-456').maxConcurrent).toBe(200);
+    });
+  });
+
+  describe('getQueueHealth', () => {
+    it('counts outstanding passes as processing and purchases as throughput', async () => {
+      mockRedis.zcard.mockResolvedValue(100);
+      mockRedis.hlen.mockResolvedValue(15);
+      (queueEntryManager.countRecentTransitions as jest.Mock).mockResolvedValue(50);
+
+      const health = await queueEngine.getQueueHealth('sale-health');
+
+      expect(health.totalInQueue).toBe(100);
+      expect(health.processingCount).toBe(15);
+      expect(health.throughput).toBe(10);
+      expect(health.averageWaitTime).toBe(10);
+    });
+  });
+});
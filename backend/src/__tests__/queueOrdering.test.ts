@@ -0,0 +1,93 @@
+/**
+ * Queue Ordering Strategy Tests
+ */
+
+import { vipService } from '../services/vipService';
+import { saleDrawService } from '../services/saleDrawService';
+import {
+  drawOrdering,
+  fifoOrdering,
+  lotteryOrdering,
+  priorityOrdering,
+} from '../services/queueOrdering';
+
+jest.mock('../services/vipService', () => ({
+  vipService: {
+    getMembership: jest.fn(),
+    getBenefits: jest.fn((tier: string) => ({
+      queuePriority: { standard: 1, silver: 2, gold: 3, platinum: 4 }[tier],
+    })),
+  },
+  VIPTier: { STANDARD: 'standard', SILVER: 'silver', GOLD: 'gold', PLATINUM: 'platinum' },
+}));
+jest.mock('../services/saleDrawService', () => ({
+  saleDrawService: { assertRegistrationOpen: jest.fn() },
+}));
+
+describe('Queue ordering strategies', () => {
+  const joinedAt = 1_700_000_000_000;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('priorityOrdering', () => {
+    it('scores a standard member by join time', async () => {
+      (vipService.getMembership as jest.Mock).mockResolvedValue(null);
+
+      expect(await priorityOrdering.score('user-123', 'sale-456', joinedAt)).toBe(joinedAt);
+      expect(vipService.getBenefits).toHaveBeenCalledWith('standard');
+    });
+
+    it('gives VIP members a head start per priority level', async () => {
+      (vipService.getMembership as jest.Mock).mockResolvedValue({ isActive: true, tier: 'gold' });
+
+      const gold = await priorityOrdering.score('vip-user', 'sale-456', joinedAt);
+
+      expect(gold).toBe(joinedAt - 2 * 60 * 1000);
+      // A gold member joining a minute later is still admitted before a standard member
+      expect(gold + 60 * 1000).toBeLessThan(joinedAt);
+    });
+
+    it('treats a lapsed membership as standard', async () => {
+      (vipService.getMembership as jest.Mock).mockResolvedValue({
+        isActive: false,
+        tier: 'platinum',
+      });
+
+      expect(await priorityOrdering.score('vip-user', 'sale-456', joinedAt)).toBe(joinedAt);
+    });
+  });
+
+  describe('fifoOrdering', () => {
+    it('scores by join time alone', async () => {
+      expect(await fifoOrdering.score('user-123', 'sale-456', joinedAt)).toBe(joinedAt);
+      expect(vipService.getMembership).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('lotteryOrdering', () => {
+    it('ignores join time', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      const early = await lotteryOrdering.score('user-1', 'sale-456', joinedAt);
+      const late = await lotteryOrdering.score('user-2', 'sale-456', joinedAt + 60 * 1000);
+
+      expect(early).toBe(late);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('drawOrdering', () => {
+    it('only takes registrations while the draw is open', async () => {
+      (saleDrawService.assertRegistrationOpen as jest.Mock).mockRejectedValueOnce(
+        new Error('Registration for this draw has closed')
+      );
+
+      await expect(drawOrdering.beforeJoin?.('user-123', 'sale-456')).rejects.toThrow(
+        'Registration for this draw has closed'
+      );
+      expect(drawOrdering.batchAdmission).toBe(false);
+    });
+  });
+});
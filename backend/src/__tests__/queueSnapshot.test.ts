@@ -0,0 +1,209 @@
+/**
+ * Queue Snapshot and Replay Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { queueEntryManager } from '../services/queueEntryManager';
+import { queueEventLog, QueueLogEvent, QueueLogEventData } from '../services/queueEventLog';
+import { queueSnapshotService, QueueSnapshotState } from '../services/queueSnapshotService';
+import { queueReplayService } from '../services/queueReplay';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { multi: jest.fn() },
+}));
+jest.mock('../services/queueEntryManager', () => ({
+  queueEntryManager: { transitionUsers: jest.fn(), batchUpdatePositions: jest.fn() },
+}));
+jest.mock('../services/queueEventLog', () => ({
+  queueEventLog: { getLastEventId: jest.fn(), getEvents: jest.fn(), countEvents: jest.fn() },
+}));
+jest.mock('../services/queuePresenceService', () => ({
+  queuePresenceService: { clear: jest.fn(), touch: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+// Records the commands queued on a MULTI and resolves exec with the given results
+const useMulti = (results: unknown[] = []) => {
+  const commands: Array<[string, unknown[]]> = [];
+  const transaction: Record<string, jest.Mock> = {};
+  for (const command of ['zrange', 'hgetall', 'del', 'zadd', 'hset', 'sadd', 'srem']) {
+    transaction[command] = jest.fn((...args: unknown[]) => {
+      commands.push([command, args]);
+      return transaction;
+    });
+  }
+  transaction.exec = jest.fn(async () => results.map((value) => [null, value]));
+  (redisClient.multi as jest.Mock).mockReturnValue(transaction);
+  return commands;
+};
+
+const state: QueueSnapshotState = {
+  queue: [
+    ['user-1', 1000],
+    ['user-2', 1000.5],
+  ],
+  joinedAt: { 'user-1': '1000', 'user-2': '1001' },
+  devices: { 'user-1': 'device-1' },
+  sessions: {},
+  passes: { 'user-3': 'pass-3' },
+  passScores: { 'user-3': '999' },
+  passExpiry: [['user-3', 5000]],
+};
+
+describe('QueueSnapshotService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('captures every score and hash of a queue in one transaction', async () => {
+    useMulti([
+      ['user-1', '1000', 'user-2', '1000.5'],
+      { 'user-2': '1001', 'user-1': '1000' },
+      { 'user-1': 'device-1' },
+      {},
+      { 'user-3': 'pass-3' },
+      { 'user-3': '999' },
+      ['user-3', '5000'],
+    ]);
+
+    expect(await queueSnapshotService.capture('sale-1')).toEqual(state);
+    expect(redisClient.multi).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not store an unchanged queue again', async () => {
+    useMulti([[], {}, {}, {}, {}, {}, []]);
+    (queueEventLog.getLastEventId as jest.Mock).mockResolvedValue(7);
+    mockQuery.mockImplementation(async (sql: string, params: unknown[]) =>
+      sql.includes('INSERT')
+        ? { rows: [{ id: 'snap-1', flash_sale_id: params[0], checksum: params[2] }] }
+        : { rows: [] }
+    );
+
+    const first = await queueSnapshotService.takeSnapshot('sale-1');
+    mockQuery.mockResolvedValueOnce({ rows: [{ checksum: first?.checksum }] });
+    const second = await queueSnapshotService.takeSnapshot('sale-1');
+
+    expect(first).not.toBeNull();
+    expect(second).toBeNull();
+  });
+
+  it('rebuilds the queue in Redis exactly as snapshotted', async () => {
+    mockQuery.mockResolvedValue({
+      rows: [
+        {
+          id: 'snap-1',
+          flash_sale_id: 'sale-1',
+          state,
+          last_event_id: '7',
+          taken_at: new Date(),
+        },
+      ],
+    });
+    (queueEventLog.countEvents as jest.Mock).mockResolvedValue(2);
+    const commands = useMulti();
+
+    const result = await queueSnapshotService.restore('sale-1');
+
+    expect(commands[0][0]).toBe('del');
+    expect(commands).toContainEqual(['zadd', ['queue:sale-1', 1000, 'user-1', 1000.5, 'user-2']]);
+    expect(commands).toContainEqual(['zadd', ['admission_pass_expiry:sale-1', 5000, 'user-3']]);
+    expect(commands).toContainEqual(['hset', ['admission_pass_score:sale-1', { 'user-3': '999' }]]);
+    expect(commands).toContainEqual(['sadd', [expect.any(String), 'sale-1']]);
+    expect(queueEntryManager.transitionUsers).toHaveBeenCalledWith(
+      'sale-1',
+      ['user-1', 'user-2'],
+      ['reserved', 'cancelled'],
+      'waiting'
+    );
+    expect(result).toMatchObject({ waiting: 2, admitted: 1, eventsSince: 2 });
+  });
+
+  it('refuses to restore without a snapshot', async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+
+    await expect(queueSnapshotService.restore('sale-1')).rejects.toThrow('No queue snapshot');
+  });
+});
+
+describe('QueueReplayService', () => {
+  let nextId = 1;
+  const recorded = (events: QueueLogEventData[]): QueueLogEvent[] =>
+    events.map((event) => ({ ...event, id: nextId++, saleId: 'sale-1', createdAt: new Date() }));
+
+  const join = (...entries: Array<[string, number]>): QueueLogEventData => ({
+    type: 'join',
+    entries: entries.map(([userId, score]) => ({ userId, score })),
+  });
+
+  it('replays a sale whose admissions followed queue order', () => {
+    const report = queueReplayService.replayEvents(
+      'sale-1',
+      recorded([
+        join(['user-1', 100], ['user-2', 200], ['user-3', 300]),
+        { type: 'leave', userIds: ['user-2'], reason: 'left' },
+        { type: 'admit', requested: 1, userIds: ['user-1'], deferred: [] },
+        // user-1's pass lapses and they go back ahead of user-3
+        { type: 'return', userIds: ['user-1'] },
+        join(['user-4', 50]),
+        { type: 'admit', requested: 2, userIds: ['user-4', 'user-1'], deferred: [] },
+      ])
+    );
+
+    expect(report.divergences).toEqual([]);
+    expect(report.joined).toBe(4);
+    expect(report.admitted).toBe(3);
+    expect(report.finalQueue).toEqual(['user-3']);
+  });
+
+  it('reports a batch that skipped the head of the queue', () => {
+    const events = recorded([
+      join(['user-1', 100], ['user-2', 200]),
+      { type: 'admit', requested: 1, userIds: ['user-2'], deferred: [] },
+    ]);
+
+    const report = queueReplayService.replayEvents('sale-1', events);
+
+    expect(report.divergences).toEqual([
+      { eventId: events[1].id, recorded: ['user-2'], replayed: ['user-1'] },
+    ]);
+    expect(report.finalQueue).toEqual(['user-1']);
+  });
+
+  it('passes over users deferred for admissions elsewhere', () => {
+    const report = queueReplayService.replayEvents(
+      'sale-1',
+      recorded([
+        join(['user-1', 100], ['user-2', 200]),
+        { type: 'admit', requested: 1, userIds: ['user-2'], deferred: ['user-1'] },
+      ])
+    );
+
+    expect(report.divergences).toEqual([]);
+  });
+
+  it('continues from a snapshot with the events recorded after it', async () => {
+    mockQuery.mockResolvedValue({
+      rows: [{ id: 'snap-1', flash_sale_id: 'sale-1', state, last_event_id: '7' }],
+    });
+    (queueEventLog.getEvents as jest.Mock).mockResolvedValue(
+      recorded([
+        { type: 'return', userIds: ['user-3'] },
+        { type: 'admit', requested: 1, userIds: ['user-3'], deferred: [] },
+      ])
+    );
+
+    const report = await queueReplayService.replaySale('sale-1', 'snap-1');
+
+    expect(queueEventLog.getEvents).toHaveBeenCalledWith('sale-1', 7);
+    expect(report.fromSnapshotId).toBe('snap-1');
+    expect(report.divergences).toEqual([]);
+    expect(report.finalQueue).toEqual(['user-1', 'user-2']);
+  });
+});
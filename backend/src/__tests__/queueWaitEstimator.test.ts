@@ -0,0 +1,145 @@
+/**
+ * Queue Wait Estimator Tests
+ */
+
+import redisClient from '../utils/redis';
+import {
+  estimateWait,
+  isMeaningfulChange,
+  queueWaitEstimator,
+  WaitEstimate,
+} from '../services/queueWaitEstimator';
+
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { pipeline: jest.fn(), hincrby: jest.fn(), expire: jest.fn() },
+}));
+
+const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
+
+// Oldest minute first; each is [admitted, abandoned]
+const useMinutes = (minutes: Array<[number, number]>) => {
+  const results = minutes.map(([admitted, abandoned]) => [
+    null,
+    [admitted ? String(admitted) : null, abandoned ? String(abandoned) : null],
+  ]);
+  mockRedis.pipeline.mockReturnValue({
+    hmget: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(results),
+  } as any);
+};
+
+const estimateOf = (expectedSeconds: number, highSeconds: number | null = 600): WaitEstimate => ({
+  expectedSeconds,
+  lowSeconds: expectedSeconds / 2,
+  highSeconds,
+  confidence: 0.9,
+  basis: 'observed',
+});
+
+describe('estimateWait', () => {
+  it('divides the position by the observed admission rate', () => {
+    const estimate = estimateWait(100, 200, {
+      admittedPerMinute: 20,
+      abandonedPerMinute: 0,
+      admittedStdDev: 4,
+      minutesObserved: 4,
+    });
+
+    expect(estimate.expectedSeconds).toBe(300);
+    // 1.645 * 4 / sqrt(4) = 3.29 users a minute either side
+    expect(estimate.lowSeconds).toBe(258);
+    expect(estimate.highSeconds).toBe(359);
+  });
+
+  it('counts only abandonment ahead of the position', () => {
+    const rate = {
+      admittedPerMinute: 10,
+      abandonedPerMinute: 10,
+      admittedStdDev: 0,
+      minutesObserved: 5,
+    };
+
+    expect(estimateWait(1, 100, rate).expectedSeconds).toBe(6);
+    // Half the queue is ahead, so half the abandonment helps: 15 users a minute
+    expect(estimateWait(51, 100, rate).expectedSeconds).toBe(204);
+  });
+
+  it('leaves the upper bound open when the rate could plausibly be zero', () => {
+    const estimate = estimateWait(10, 10, {
+      admittedPerMinute: 1,
+      abandonedPerMinute: 0,
+      admittedStdDev: 3,
+      minutesObserved: 2,
+    });
+
+    expect(estimate.highSeconds).toBeNull();
+  });
+});
+
+describe('isMeaningfulChange', () => {
+  it('ignores small moves', () => {
+    expect(isMeaningfulChange(estimateOf(600), estimateOf(570))).toBe(false);
+    expect(isMeaningfulChange(estimateOf(60), estimateOf(40))).toBe(false);
+  });
+
+  it('reports moves of at least 10% and 30 seconds', () => {
+    expect(isMeaningfulChange(estimateOf(600), estimateOf(540))).toBe(true);
+    expect(isMeaningfulChange(estimateOf(60), estimateOf(30))).toBe(true);
+  });
+
+  it('reports an upper bound appearing or disappearing', () => {
+    expect(isMeaningfulChange(estimateOf(600, null), estimateOf(600))).toBe(true);
+  });
+});
+
+describe('QueueWaitEstimator', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('measures the rate from the first active minute', async () => {
+    useMinutes([
+      [0, 0],
+      [0, 0],
+      [0, 0],
+      [0, 0],
+      [0, 0],
+      [0, 0],
+      [10, 2],
+      [20, 0],
+      [0, 1],
+      [10, 1],
+    ]);
+
+    const rate = await queueWaitEstimator.getServiceRate('sale-1');
+
+    expect(rate.minutesObserved).toBe(4);
+    expect(rate.admittedPerMinute).toBe(10);
+    expect(rate.abandonedPerMinute).toBe(1);
+    expect(rate.admittedStdDev).toBeCloseTo(8.165, 3);
+  });
+
+  it('falls back to the configured rate before anyone is admitted', async () => {
+    useMinutes(Array.from({ length: 10 }, () => [0, 0] as [number, number]));
+
+    const estimate = await queueWaitEstimator.estimate('sale-1', 60, 100, 120);
+
+    expect(estimate.basis).toBe('configured');
+    expect(estimate.expectedSeconds).toBe(30);
+    expect(estimate.highSeconds).toBeNull();
+  });
+
+  it('counts admissions in the current minute', async () => {
+    await queueWaitEstimator.recordAdmitted('sale-1', 5);
+    await queueWaitEstimator.recordAdmitted('sale-1', 0);
+
+    expect(mockRedis.hincrby).toHaveBeenCalledTimes(1);
+    expect(mockRedis.hincrby).toHaveBeenCalledWith(
+      expect.stringMatching(/^queue_flow:sale-1:\d+$/),
+      'admitted',
+      5
+    );
+    expect(mockRedis.expire).toHaveBeenCalledWith(expect.any(String), 720);
+  });
+});
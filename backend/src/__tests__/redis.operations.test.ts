@@ -4,13 +4,27 @@ import {
   decrementInventory,
   incrementInventory,
   reserveInventory,
+  reserveInventoryItems,
   releaseReservation,
+  confirmReservation,
+  reclaimExpiredReservations,
   joinQueue,
   getQueuePosition,
   leaveQueue,
   getQueueLength,
+  acquireLease,
+  releaseLease,
+  consumeAdmissionPasses,
 } from '../utils/redisOperations';
-import { buildInventoryKey, buildReservationKey, buildQueueKey } from '../config/redisKeys';
+import {
+  buildAdmissionPassKey,
+  buildInventoryKey,
+  buildPurchaseCountsKey,
+  buildReclaimedKey,
+  buildReservationKey,
+  buildQueueKey,
+  buildStockId,
+} from '../config/redisKeys';
 
 jest.mock('ioredis', () => require('ioredis-mock'));
 
@@ -63,6 +77,174 @@ describe('redisOperations', () => {
     expect(remaining).toBe(10);
   });
 
+  it('rejects a second hold for the same user', async () => {
+    expect(await reserveInventory(flashSaleId, userId, 1, 60)).toBe(true);
+    expect(await reserveInventory(flashSaleId, userId, 1, 60)).toBe(false);
+
+    const remaining = Number(await redis.get(buildInventoryKey(flashSaleId)));
+    expect(remaining).toBe(9);
+  });
+
+  it('reserves several sales all-or-nothing', async () => {
+    const otherSaleId = 'sale-2';
+    await redis.set(buildInventoryKey(otherSaleId), 1);
+
+    const failed = await reserveInventoryItems(userId, [
+      { flashSaleId, quantity: 2 },
+      { flashSaleId: otherSaleId, quantity: 2 },
+    ]);
+    expect(failed).toEqual({ status: 'out_of_stock', failedIndex: 1 });
+    expect(Number(await redis.get(buildInventoryKey(flashSaleId)))).toBe(10);
+
+    const reserved = await reserveInventoryItems(userId, [
+      { flashSaleId, quantity: 2 },
+      { flashSaleId: otherSaleId, quantity: 1 },
+    ]);
+    expect(reserved.status).toBe('reserved');
+    expect(Number(await redis.get(buildInventoryKey(flashSaleId)))).toBe(8);
+    expect(Number(await redis.get(buildInventoryKey(otherSaleId)))).toBe(0);
+  });
+
+  it('reclaims expired reservations exactly once', async () => {
+    await reserveInventory(flashSaleId, userId, 3, 1);
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
+    const first = await reclaimExpiredReservations(flashSaleId);
+    expect(first).toEqual({
+      reservations: 1,
+      units: 3,
+      available: 10,
+      holders: [{ holderId: userId, quantity: 3 }],
+    });
+
+    const second = await reclaimExpiredReservations(flashSaleId);
+    expect(second).toEqual({ reservations: 0, units: 0, available: 10, holders: [] });
+
+    expect(Number(await redis.get(buildInventoryKey(flashSaleId)))).toBe(10);
+    expect(Number(await redis.get(buildReclaimedKey(flashSaleId)))).toBe(3);
+    expect(await redis.exists(buildReservationKey(userId, flashSaleId))).toBe(0);
+  });
+
+  it('does not reclaim a confirmed reservation', async () => {
+    await reserveInventory(flashSaleId, userId, 2, 1);
+    expect(await confirmReservation(userId, flashSaleId)).toBe(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    const result = await reclaimExpiredReservations(flashSaleId);
+
+    expect(result.units).toBe(0);
+    expect(Number(await redis.get(buildInventoryKey(flashSaleId)))).toBe(8);
+  });
+
+  it('enforces the per-customer limit across purchases', async () => {
+    const limited = [{ flashSaleId, quantity: 2, maxPerUser: 3 }];
+
+    expect((await reserveInventoryItems(userId, limited)).status).toBe('reserved');
+    expect(await confirmReservation(userId, flashSaleId)).toBe(2);
+    expect(Number(await redis.hget(buildPurchaseCountsKey(flashSaleId), userId))).toBe(2);
+
+    const second = await reserveInventoryItems(userId, limited);
+    expect(second).toEqual({ status: 'limit_exceeded', failedIndex: 0 });
+    expect(Number(await redis.get(buildInventoryKey(flashSaleId)))).toBe(8);
+
+    const withinLimit = await reserveInventoryItems(userId, [{ ...limited[0], quantity: 1 }]);
+    expect(withinLimit.status).toBe('reserved');
+  });
+
+  it('keeps stock per item but one purchase limit per sale', async () => {
+    const small = buildStockId(flashSaleId, 'item-s');
+    const large = buildStockId(flashSaleId, 'item-l');
+    await redis.set(buildInventoryKey(small), 5);
+    await redis.set(buildInventoryKey(large), 5);
+
+    const overLimit = await reserveInventoryItems(userId, [
+      { flashSaleId: small, quantity: 2, maxPerUser: 3 },
+      { flashSaleId: large, quantity: 2, maxPerUser: 3 },
+    ]);
+    expect(overLimit).toEqual({ status: 'limit_exceeded', failedIndex: 1 });
+
+    const reserved = await reserveInventoryItems(userId, [
+      { flashSaleId: small, quantity: 2, maxPerUser: 3 },
+      { flashSaleId: large, quantity: 1, maxPerUser: 3 },
+    ]);
+    expect(reserved.status).toBe('reserved');
+    expect(Number(await redis.get(buildInventoryKey(small)))).toBe(3);
+    expect(Number(await redis.get(buildInventoryKey(large)))).toBe(4);
+    expect(Number(await redis.get(buildInventoryKey(flashSaleId)))).toBe(10);
+
+    expect(await confirmReservation(userId, large)).toBe(1);
+    expect(Number(await redis.hget(buildPurchaseCountsKey(flashSaleId), userId))).toBe(1);
+  });
+
+  it('counts open holds on other items of the sale against the limit', async () => {
+    const small = buildStockId(flashSaleId, 'item-s');
+    const large = buildStockId(flashSaleId, 'item-l');
+    const saleStockIds = [small, large];
+    await redis.set(buildInventoryKey(small), 5);
+    await redis.set(buildInventoryKey(large), 5);
+
+    const first = await reserveInventoryItems(userId, [
+      { flashSaleId: small, quantity: 2, maxPerUser: 3, saleStockIds },
+    ]);
+    expect(first.status).toBe('reserved');
+
+    const second = await reserveInventoryItems(userId, [
+      { flashSaleId: large, quantity: 2, maxPerUser: 3, saleStockIds },
+    ]);
+    expect(second).toEqual({ status: 'limit_exceeded', failedIndex: 0 });
+    expect(Number(await redis.get(buildInventoryKey(large)))).toBe(5);
+  });
+
+  it('holds a buffer back and backorders down to the floor', async () => {
+    const buffered = await reserveInventoryItems(userId, [{ flashSaleId, quantity: 8, floor: 3 }]);
+    expect(buffered).toEqual({ status: 'out_of_stock', failedIndex: 0 });
+
+    const backordered = await reserveInventoryItems(userId, [
+      { flashSaleId, quantity: 12, floor: -2 },
+    ]);
+    expect(backordered).toEqual({ status: 'reserved', available: [-2] });
+    const reservationKey = buildReservationKey(userId, flashSaleId);
+    expect(Number(await redis.hget(reservationKey, 'backordered'))).toBe(2);
+
+    const beyondAllowance = await reserveInventoryItems('user-2', [
+      { flashSaleId, quantity: 1, floor: -2 },
+    ]);
+    expect(beyondAllowance.status).toBe('out_of_stock');
+  });
+
+  it('redeems a cart of admission passes all-or-nothing', async () => {
+    await redis.hset(buildAdmissionPassKey('sale-a'), userId, 'pass-a');
+    await redis.hset(buildAdmissionPassKey('sale-b'), userId, 'pass-b');
+
+    const stale = await consumeAdmissionPasses(userId, [
+      { saleId: 'sale-a', passId: 'pass-a' },
+      { saleId: 'sale-b', passId: 'reissued' },
+    ]);
+    expect(stale).toBe('sale-b');
+    expect(await redis.hget(buildAdmissionPassKey('sale-a'), userId)).toBe('pass-a');
+
+    const passes = [
+      { saleId: 'sale-a', passId: 'pass-a' },
+      { saleId: 'sale-b', passId: 'pass-b' },
+    ];
+    expect(await consumeAdmissionPasses(userId, passes)).toBeNull();
+    expect(await redis.hexists(buildAdmissionPassKey('sale-a'), userId)).toBe(0);
+    expect(await consumeAdmissionPasses(userId, passes)).toBe('sale-a');
+  });
+
+  it('grants a lease to one holder with increasing fencing tokens', async () => {
+    const first = await acquireLease('jobs', 'replica-a', 10000);
+    expect(first).toBeGreaterThan(0);
+    expect(await acquireLease('jobs', 'replica-b', 10000)).toBe(0);
+    expect(await acquireLease('jobs', 'replica-a', 10000)).toBe(first);
+
+    expect(await releaseLease('jobs', 'replica-b')).toBe(false);
+    expect(await releaseLease('jobs', 'replica-a')).toBe(true);
+
+    const second = await acquireLease('jobs', 'replica-b', 10000);
+    expect(second).toBeGreaterThan(first);
+  });
+
   it('manages queue positions correctly', async () => {
     const secondUser = 'user-2';
     const queueKey = buildQueueKey(flashSaleId);
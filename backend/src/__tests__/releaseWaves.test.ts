@@ -0,0 +1,198 @@
+/**
+ * Release Wave Tests
+ */
+
+import pool from '../utils/database';
+import { ReleaseWave } from '../models';
+import { eventBroadcaster } from '../services/eventBroadcaster';
+import { inventoryManager } from '../services/inventoryManager';
+import { releaseWaveService } from '../services/releaseWaveService';
+import { vipService, VIPTier } from '../services/vipService';
+import { getWaveTimes, validateReleaseWaves } from '../utils/releaseWaves';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), hget: jest.fn(), hset: jest.fn(), expire: jest.fn() },
+}));
+jest.mock('../services/eventBroadcaster', () => ({
+  eventBroadcaster: { inventoryUpdated: jest.fn(), flashDeal: jest.fn() },
+}));
+jest.mock('../services/vipService', () => ({
+  ...jest.requireActual('../services/vipService'),
+  vipService: { getMembership: jest.fn(), hasEarlyAccess: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+const start = new Date('2026-03-01T12:00:00Z');
+const end = new Date('2026-03-01T15:00:00Z');
+const tiers = Object.values(VIPTier) as string[];
+
+// 30% at the start, 30% ten minutes in, 40% for the last hour
+const waves: ReleaseWave[] = [
+  { percent: 30, offset_minutes: 0, from: 'start' },
+  { percent: 30, offset_minutes: 10, from: 'start', early_access_tiers: ['gold'] },
+  { percent: 40, offset_minutes: 60, from: 'end' },
+];
+
+describe('Release wave schedules', () => {
+  it('times waves from the start or the end of the sale', () => {
+    expect(getWaveTimes(waves, start, end).map((d) => d.toISOString())).toEqual([
+      '2026-03-01T12:00:00.000Z',
+      '2026-03-01T12:10:00.000Z',
+      '2026-03-01T14:00:00.000Z',
+    ]);
+  });
+
+  it('rejects schedules that do not release the whole stock, in order, within the sale', () => {
+    expect(() => validateReleaseWaves(waves, start, end, tiers)).not.toThrow();
+    expect(() => validateReleaseWaves(waves.slice(1), start, end, tiers)).toThrow('100%');
+    expect(() => validateReleaseWaves([waves[2], waves[0], waves[1]], start, end, tiers)).toThrow(
+      'time order'
+    );
+    expect(() =>
+      validateReleaseWaves(
+        [{ percent: 100, offset_minutes: 240, from: 'start' }],
+        start,
+        end,
+        tiers
+      )
+    ).toThrow('within the sale');
+  });
+});
+
+describe('InventoryManager.getStockPolicy with release waves', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({
+      rows: [
+        {
+          product_id: 'product-1',
+          inventory_policy: 'strict',
+          total: 100,
+          release_waves: waves,
+          waves_released: 1,
+          start_time: start,
+          end_time: end,
+        },
+      ],
+    });
+  });
+
+  it('holds back the units of waves still to come', async () => {
+    const stock = await inventoryManager.getStockPolicy('sale-1');
+
+    expect(stock).toMatchObject({ floor: 0, withheld: 70 });
+    expect(vipService.getMembership).not.toHaveBeenCalled();
+  });
+
+  it('lets an early-access tier buy a wave before its release', async () => {
+    (vipService.getMembership as jest.Mock).mockResolvedValue({ isActive: true, tier: 'gold' });
+    (vipService.hasEarlyAccess as jest.Mock).mockResolvedValue({ hasAccess: true });
+
+    const stock = await inventoryManager.getStockPolicy('sale-1', undefined, 'user-1');
+
+    expect(stock?.withheld).toBe(40);
+    expect(vipService.hasEarlyAccess).toHaveBeenCalledWith(
+      'user-1',
+      new Date('2026-03-01T12:10:00Z')
+    );
+  });
+
+  it('keeps the wave back from tiers it is not open to', async () => {
+    (vipService.getMembership as jest.Mock).mockResolvedValue({ isActive: true, tier: 'silver' });
+
+    const stock = await inventoryManager.getStockPolicy('sale-1', undefined, 'user-1');
+
+    expect(stock?.withheld).toBe(70);
+    expect(vipService.hasEarlyAccess).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReleaseWaveService.releaseDueWaves', () => {
+  const sale = {
+    id: 'sale-1',
+    product_id: 'product-1',
+    name: 'Trainers',
+    base_price: '100.00',
+    flash_price: '60.00',
+    status: 'active',
+    start_time: start,
+    end_time: end,
+    release_waves: waves,
+    waves_released: 1,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    jest.spyOn(inventoryManager, 'getSaleStockIds').mockResolvedValue(['sale-1']);
+    jest
+      .spyOn(inventoryManager, 'getStockPolicy')
+      .mockResolvedValue({ total: 100 } as Awaited<
+        ReturnType<typeof inventoryManager.getStockPolicy>
+      >);
+    jest.spyOn(inventoryManager, 'recordMovement').mockResolvedValue();
+    jest.spyOn(inventoryManager, 'broadcastSaleInventory').mockResolvedValue();
+    jest.spyOn(inventoryManager, 'invalidateSaleRules').mockResolvedValue();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('tops up the stock and announces the wave once its time has come', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [sale] }).mockResolvedValueOnce({ rowCount: 1 });
+
+    const released = await releaseWaveService.releaseDueWaves(
+      'sale-1',
+      new Date('2026-03-01T12:10:00Z')
+    );
+
+    expect(released).toBe(1);
+    expect(mockQuery.mock.calls[1][1]).toEqual(['sale-1', 2, 1]);
+    // Reservations see the newly released units
+    expect(inventoryManager.invalidateSaleRules).toHaveBeenCalledWith('sale-1');
+    expect(inventoryManager.recordMovement).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'wave', quantity: 30, availableDelta: 0 })
+    );
+    expect(inventoryManager.broadcastSaleInventory).toHaveBeenCalledWith('sale-1');
+    expect(eventBroadcaster.flashDeal).toHaveBeenCalledWith(
+      expect.objectContaining({
+        saleId: 'sale-1',
+        oldPrice: 100,
+        newPrice: 60,
+        discount: 40,
+        message: 'Wave 2 of 3: 30 more Trainers on sale',
+      })
+    );
+  });
+
+  it('leaves a wave another replica released first', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [sale] }).mockResolvedValueOnce({ rowCount: 0 });
+
+    const released = await releaseWaveService.releaseDueWaves(
+      'sale-1',
+      new Date('2026-03-01T12:10:00Z')
+    );
+
+    expect(released).toBe(0);
+    expect(eventBroadcaster.flashDeal).not.toHaveBeenCalled();
+  });
+
+  it('does nothing before the next wave is due', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [sale] });
+
+    const released = await releaseWaveService.releaseDueWaves(
+      'sale-1',
+      new Date('2026-03-01T12:09:59Z')
+    );
+
+    expect(released).toBe(0);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Sale Draw Tests
+ */
+
+import pool from '../utils/database';
+import { vipService } from '../services/vipService';
+import { hashEntries, saleDrawService, selectWinners } from '../services/saleDrawService';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../services/vipService', () => ({
+  vipService: { calculateQueuePriority: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+const entriesOf = (count: number, weight = 1) =>
+  Array.from({ length: count }, (_, i) => ({ userId: `user-${i}`, weight }));
+
+describe('selectWinners', () => {
+  it('picks the same winners for the same seed whatever the entry order', () => {
+    const entries = entriesOf(50);
+    const reversed = [...entries].reverse();
+
+    const winners = selectWinners('seed-1', entries, 10);
+
+    expect(winners).toHaveLength(10);
+    expect(new Set(winners).size).toBe(10);
+    expect(selectWinners('seed-1', reversed, 10)).toEqual(winners);
+    expect(selectWinners('seed-2', entries, 10)).not.toEqual(winners);
+  });
+
+  it('returns every entry when there are fewer entries than winners', () => {
+    expect(selectWinners('seed-1', entriesOf(3), 10).sort()).toEqual([
+      'user-0',
+      'user-1',
+      'user-2',
+    ]);
+  });
+
+  it('favours heavier entries', () => {
+    const entries = [
+      ...entriesOf(20),
+      ...Array.from({ length: 20 }, (_, i) => ({ userId: `vip-${i}`, weight: 1.4 })),
+    ];
+
+    let vipWins = 0;
+    for (let round = 0; round < 200; round++) {
+      vipWins += selectWinners(`seed-${round}`, entries, 10).filter((id) =>
+        id.startsWith('vip-')
+      ).length;
+    }
+
+    expect(vipWins / 2000).toBeGreaterThan(0.53);
+  });
+});
+
+describe('hashEntries', () => {
+  it('does not depend on entry order', () => {
+    const entries = entriesOf(5);
+
+    expect(hashEntries([...entries].reverse())).toBe(hashEntries(entries));
+    expect(hashEntries(entries)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes when a weight changes', () => {
+    const entries = entriesOf(5);
+    const boosted = entries.map((entry, i) => (i === 0 ? { ...entry, weight: 1.2 } : entry));
+
+    expect(hashEntries(boosted)).not.toBe(hashEntries(entries));
+  });
+});
+
+describe('SaleDrawService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (vipService.calculateQueuePriority as jest.Mock).mockImplementation(async (userId: string) => ({
+      priorityBoost: userId === 'vip' ? 0.3 : 0,
+    }));
+  });
+
+  it('hides the seed until the sale has been drawn', async () => {
+    mockQuery.mockResolvedValue({
+      rows: [{ flash_sale_id: 'sale-1', seed: 'secret', seed_hash: 'hash', drawn_at: null }],
+    });
+
+    const draw = await saleDrawService.getDraw('sale-1');
+
+    expect(draw?.seed).toBeNull();
+    expect(draw?.seedHash).toBe('hash');
+  });
+
+  it('refuses registrations after the draw time', async () => {
+    mockQuery.mockResolvedValue({
+      rows: [{ draw_at: new Date(Date.now() - 1000), committed: 'sale-1', drawn_at: null }],
+    });
+
+    await expect(saleDrawService.assertRegistrationOpen('sale-1')).rejects.toThrow(
+      'Registration for this draw is closed'
+    );
+  });
+
+  it('records the weighted entries and winners once', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ draw_winner_count: 1, quantity_available: 10 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ flash_sale_id: 'sale-1', seed_hash: 'hash' }] })
+      .mockResolvedValueOnce({ rows: [{ seed: 'seed-1' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(saleDrawService.draw('sale-1', ['user-a', 'vip'])).rejects.toThrow(
+      'Sale has already been drawn'
+    );
+
+    const [, params] = mockQuery.mock.calls[4];
+    const entries = [
+      { userId: 'user-a', weight: 1 },
+      { userId: 'vip', weight: 1.3 },
+    ];
+    expect(params).toEqual([
+      'sale-1',
+      JSON.stringify(entries),
+      hashEntries(entries),
+      JSON.stringify(selectWinners('seed-1', entries, 1)),
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Sale Pause Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import * as redisOperations from '../utils/redisOperations';
+import { PAUSED_SALES_KEY } from '../config/redisKeys';
+import { inventoryManager } from '../services/inventoryManager';
+import { eventBroadcaster } from '../services/eventBroadcaster';
+import { salePauseService } from '../services/salePauseService';
+import { stateMachine } from '../services/stateMachine';
+import { registerSaleLifecycleHooks } from '../services/saleLifecycleHooks';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { sadd: jest.fn(), srem: jest.fn(), sismember: jest.fn() },
+}));
+jest.mock('../utils/redisOperations', () => ({
+  pauseAdmissionPassExpiry: jest.fn().mockResolvedValue(0),
+  resumeAdmissionPassExpiry: jest.fn().mockResolvedValue(0),
+  pauseReservationExpiry: jest.fn().mockResolvedValue(0),
+  resumeReservationExpiry: jest.fn().mockResolvedValue(0),
+}));
+jest.mock('../services/inventoryManager', () => ({
+  inventoryManager: {
+    getSaleStockIds: jest.fn(),
+    syncInventoryToDatabase: jest.fn(),
+    bulkReleaseReservations: jest.fn().mockResolvedValue(0),
+  },
+}));
+jest.mock('../services/eventBroadcaster', () => ({
+  eventBroadcaster: { saleUpdated: jest.fn() },
+}));
+jest.mock('../services/waitingRoomService', () => ({
+  waitingRoomService: { release: jest.fn(), close: jest.fn() },
+}));
+jest.mock('../services/admissionRateController', () => ({
+  admissionRateController: { reset: jest.fn() },
+}));
+jest.mock('../services/queueEngine', () => ({
+  queueEngine: { clearQueue: jest.fn() },
+}));
+jest.mock('../services/queueAnalyticsService', () => ({
+  queueAnalyticsService: { generateEfficiencyReport: jest.fn() },
+}));
+jest.mock('../services/saleScheduler', () => ({
+  saleScheduler: { rearm: jest.fn() },
+}));
+jest.mock('../services/releaseWaveService', () => ({
+  releaseWaveService: { releaseDueWaves: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+describe('Sale pause', () => {
+  const now = 1_700_000_000_000;
+  const sale = {
+    id: 'sale-1',
+    product_id: 'product-1',
+    flash_price: 10,
+    quantity_available: 100,
+    start_time: new Date(now - 3_600_000),
+    end_time: new Date(now + 3_600_000),
+    paused_at: null as Date | null,
+    created_at: new Date(now - 86_400_000),
+  };
+
+  // Rows for the status read, the status update, then the pause service's own update
+  const useRows = (...rows: Array<Record<string, unknown> | undefined>) =>
+    rows.forEach((row) => mockQuery.mockResolvedValueOnce({ rows: row ? [row] : [] }));
+
+  beforeAll(() => {
+    registerSaleLifecycleHooks();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    (inventoryManager.getSaleStockIds as jest.Mock).mockResolvedValue([
+      'sale-1:item:a',
+      'sale-1:item:b',
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('freezes admissions and holds expiries when an active sale is paused', async () => {
+    useRows(
+      { ...sale, status: 'active' },
+      { ...sale, status: 'paused' },
+      { ...sale, status: 'paused', paused_at: new Date(now), name: 'Sneakers' }
+    );
+
+    const result = await stateMachine.transition('sale-1', 'paused');
+
+    expect(result.success).toBe(true);
+    expect(redisClient.sadd).toHaveBeenCalledWith(PAUSED_SALES_KEY, 'sale-1');
+    expect(redisOperations.pauseAdmissionPassExpiry).toHaveBeenCalledWith('sale-1');
+    expect(redisOperations.pauseReservationExpiry).toHaveBeenCalledWith('sale-1:item:a');
+    expect(redisOperations.pauseReservationExpiry).toHaveBeenCalledWith('sale-1:item:b');
+    expect(eventBroadcaster.saleUpdated).toHaveBeenCalledWith(
+      expect.objectContaining({ saleId: 'sale-1', name: 'Sneakers', status: 'paused' })
+    );
+  });
+
+  it('moves every expiry back by the time spent paused on resume', async () => {
+    const pausedAt = new Date(now - 90_000);
+    useRows(
+      { ...sale, status: 'paused', paused_at: pausedAt },
+      { ...sale, status: 'active', paused_at: pausedAt },
+      { ...sale, status: 'active', end_time: new Date(now + 3_690_000) }
+    );
+
+    const result = await stateMachine.transition('sale-1', 'active');
+
+    expect(result.success).toBe(true);
+    expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining('extend_end_on_resume'), [
+      'sale-1',
+      90_000,
+    ]);
+    expect(redisOperations.resumeAdmissionPassExpiry).toHaveBeenCalledWith('sale-1', 90_000);
+    expect(redisOperations.resumeReservationExpiry).toHaveBeenCalledWith('sale-1:item:a', 90_000);
+    expect(redisClient.srem).toHaveBeenCalledWith(PAUSED_SALES_KEY, 'sale-1');
+    expect(eventBroadcaster.saleUpdated).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'active',
+        endTime: new Date(now + 3_690_000).toISOString(),
+      })
+    );
+  });
+
+  it('lets held reservations expire on schedule when a paused sale is cancelled', async () => {
+    useRows(
+      { ...sale, status: 'paused', paused_at: new Date(now - 90_000) },
+      { ...sale, status: 'cancelled' },
+      undefined
+    );
+
+    const result = await stateMachine.transition('sale-1', 'cancelled');
+
+    expect(result.success).toBe(true);
+    expect(redisOperations.resumeReservationExpiry).toHaveBeenCalledWith('sale-1:item:a', 0);
+    expect(redisClient.srem).toHaveBeenCalledWith(PAUSED_SALES_KEY, 'sale-1');
+  });
+
+  it('ends a paused sale once its end time has passed', async () => {
+    const ended = { ...sale, end_time: new Date(now - 60_000) };
+    useRows(
+      { ...ended, status: 'paused', paused_at: new Date(now - 90_000) },
+      { ...ended, status: 'completed' },
+      undefined
+    );
+
+    const result = await stateMachine.transition('sale-1', 'completed');
+
+    expect(result.success).toBe(true);
+    expect(redisOperations.resumeAdmissionPassExpiry).toHaveBeenCalledWith('sale-1', 0);
+    expect(redisClient.srem).toHaveBeenCalledWith(PAUSED_SALES_KEY, 'sale-1');
+    expect(inventoryManager.bulkReleaseReservations).toHaveBeenCalledWith('sale-1');
+  });
+
+  it('keeps a paused sale whose end moves back on resume', async () => {
+    const ended = { ...sale, end_time: new Date(now - 60_000), extend_end_on_resume: true };
+    useRows({ ...ended, status: 'paused', paused_at: new Date(now - 90_000) });
+
+    const result = await stateMachine.transition('sale-1', 'completed');
+
+    expect(result).toMatchObject({ success: false, error: 'Invalid state transition' });
+    expect(redisClient.srem).not.toHaveBeenCalled();
+  });
+
+  it('only pauses active sales', async () => {
+    useRows({ ...sale, status: 'upcoming' });
+
+    const result = await stateMachine.transition('sale-1', 'paused');
+
+    expect(result).toMatchObject({ success: false, error: 'Invalid state transition' });
+    expect(redisClient.sadd).not.toHaveBeenCalled();
+  });
+
+  it('skips the side effects when the status changed underneath', async () => {
+    useRows({ ...sale, status: 'active' }, undefined);
+
+    const result = await stateMachine.transition('sale-1', 'paused');
+
+    expect(result).toMatchObject({ success: false, error: 'Concurrent state transition' });
+    expect(redisOperations.pauseAdmissionPassExpiry).not.toHaveBeenCalled();
+  });
+
+  it('reports whether a sale is paused', async () => {
+    (redisClient.sismember as jest.Mock).mockResolvedValue(1);
+
+    expect(await salePauseService.isPaused('sale-1')).toBe(true);
+    expect(redisClient.sismember).toHaveBeenCalledWith(PAUSED_SALES_KEY, 'sale-1');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Sale Scheduler Tests
+ */
+
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { SALE_SCHEDULE_CHANNEL } from '../config/redisKeys';
+import { stateMachine } from '../services/stateMachine';
+import { eventBroadcaster } from '../services/eventBroadcaster';
+import { releaseWaveService } from '../services/releaseWaveService';
+import { saleScheduler } from '../services/saleScheduler';
+
+const mockIsLeader = jest.fn();
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../utils/redis', () => ({
+  __esModule: true,
+  default: { publish: jest.fn() },
+}));
+jest.mock('../services/stateMachine', () => ({
+  stateMachine: { transition: jest.fn() },
+}));
+jest.mock('../services/eventBroadcaster', () => ({
+  eventBroadcaster: { saleCountdown: jest.fn() },
+}));
+jest.mock('../services/releaseWaveService', () => ({
+  releaseWaveService: { releaseDueWaves: jest.fn() },
+}));
+jest.mock('../services/leaderElection', () => ({
+  LeaderElection: jest.fn().mockImplementation(() => ({ isLeader: () => mockIsLeader() })),
+}));
+
+const mockQuery = pool.query as jest.Mock;
+const mockTransition = stateMachine.transition as jest.Mock;
+
+describe('SaleScheduler', () => {
+  const now = new Date('2026-03-01T11:58:00.000Z').getTime();
+
+  // The schedule as read from the database on the next refresh
+  const useSchedule = (...rows: Array<[string, string, number]>) =>
+    mockQuery.mockResolvedValueOnce({
+      rows: rows.map(([saleId, target, dueAt]) => ({
+        sale_id: saleId,
+        target,
+        due_at: new Date(dueAt),
+      })),
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    jest.clearAllMocks();
+    mockIsLeader.mockReturnValue(true);
+    mockTransition.mockResolvedValue({ success: true });
+  });
+
+  afterEach(async () => {
+    useSchedule();
+    await saleScheduler.refresh();
+    jest.useRealTimers();
+  });
+
+  it('starts a sale at its start time rather than on the next poll', async () => {
+    useSchedule(['sale-1', 'active', now + 120_000]);
+
+    await saleScheduler.refresh();
+    await jest.advanceTimersByTimeAsync(119_999);
+    expect(mockTransition).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mockTransition).toHaveBeenCalledWith('sale-1', 'active', 'Scheduled start', 'scheduler');
+  });
+
+  it('leaves the transition to the lease holder', async () => {
+    mockIsLeader.mockReturnValue(false);
+    useSchedule(['sale-1', 'completed', now + 1_000]);
+
+    await saleScheduler.refresh();
+    await jest.advanceTimersByTimeAsync(1_000);
+
+    expect(mockTransition).not.toHaveBeenCalled();
+    expect(saleScheduler.getArmed()).toEqual([]);
+  });
+
+  it('sends a countdown tick every second of the last minute', async () => {
+    mockIsLeader.mockReturnValue(false);
+    useSchedule(['sale-1', 'active', now + 65_500]);
+
+    await saleScheduler.refresh();
+    await jest.advanceTimersByTimeAsync(5_499);
+    expect(eventBroadcaster.saleCountdown).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(60_001);
+    const ticks = (eventBroadcaster.saleCountdown as jest.Mock).mock.calls.map(([, s]) => s);
+    expect(ticks).toHaveLength(60);
+    expect(ticks[0]).toBe(60);
+    expect(ticks[59]).toBe(1);
+  });
+
+  it('releases a stock wave at its time and arms the next', async () => {
+    (releaseWaveService.releaseDueWaves as jest.Mock).mockResolvedValue(1);
+    useSchedule(['sale-1', 'wave', now + 10_000]);
+
+    await saleScheduler.refresh();
+    useSchedule(['sale-1', 'wave', now + 600_000]);
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(releaseWaveService.releaseDueWaves).toHaveBeenCalledWith('sale-1');
+    expect(mockTransition).not.toHaveBeenCalled();
+    expect(saleScheduler.getArmed()).toEqual([
+      { saleId: 'sale-1', target: 'wave', dueAt: now + 600_000 },
+    ]);
+  });
+
+  it('re-arms a sale whose start time moved', async () => {
+    useSchedule(['sale-1', 'active', now + 120_000]);
+    await saleScheduler.refresh();
+
+    useSchedule(['sale-1', 'active', now + 300_000]);
+    await saleScheduler.refresh();
+    await jest.advanceTimersByTimeAsync(120_000);
+
+    expect(mockTransition).not.toHaveBeenCalled();
+    expect(saleScheduler.getArmed()).toEqual([
+      { saleId: 'sale-1', target: 'active', dueAt: now + 300_000 },
+    ]);
+  });
+
+  it('announces schedule changes to every replica', async () => {
+    await saleScheduler.rearm();
+
+    expect(redisClient.publish).toHaveBeenCalledWith(SALE_SCHEDULE_CHANNEL, String(now));
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Sale Transition Hooks and Status History Tests
+ */
+
+import pool from '../utils/database';
+import { logger } from '../utils/logger';
+import { StateMachine } from '../services/stateMachine';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+describe('StateMachine hooks and history', () => {
+  const sale = {
+    id: 'sale-1',
+    product_id: 'product-1',
+    flash_price: 10,
+    quantity_available: 100,
+    start_time: new Date(Date.now() - 3_600_000),
+    end_time: new Date(Date.now() + 3_600_000),
+    created_at: new Date(),
+  };
+  let stateMachine: StateMachine;
+
+  // Rows for the status read, then the status update
+  const useStatuses = (current: string, updated?: string) => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ ...sale, status: current }] });
+    mockQuery.mockResolvedValueOnce({ rows: updated ? [{ ...sale, status: updated }] : [] });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // A vetoed transition leaves its update row unread
+    mockQuery.mockReset();
+    stateMachine = new StateMachine();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records who triggered the change in the same statement as the status update', async () => {
+    useStatuses('active', 'paused');
+
+    await stateMachine.transition('sale-1', 'paused', 'Payment provider down', 'admin:admin-7');
+
+    const [sql, params] = mockQuery.mock.calls[1];
+    expect(sql).toContain('INSERT INTO flash_sale_status_history');
+    expect(params).toEqual([
+      'paused',
+      'sale-1',
+      'active',
+      'admin:admin-7',
+      'Payment provider down',
+    ]);
+  });
+
+  it('runs only the hooks subscribed to the transition, in registration order', async () => {
+    const calls: string[] = [];
+    stateMachine.registerHook({
+      name: 'any-end',
+      phase: 'after',
+      to: ['completed', 'cancelled'],
+      hook: () => {
+        calls.push('any-end');
+      },
+    });
+    stateMachine.registerHook({
+      name: 'activation',
+      phase: 'after',
+      from: 'upcoming',
+      to: 'active',
+      hook: () => {
+        calls.push('activation');
+      },
+    });
+    stateMachine.registerHook({
+      name: 'cancel',
+      phase: 'after',
+      to: 'cancelled',
+      hook: (_sale, context) => {
+        calls.push(`cancel from ${context.from} by ${context.triggeredBy}`);
+      },
+    });
+    useStatuses('active', 'cancelled');
+
+    await stateMachine.transition('sale-1', 'cancelled');
+
+    expect(calls).toEqual(['any-end', 'cancel from active by system']);
+  });
+
+  it('leaves the status alone when a before hook throws', async () => {
+    stateMachine.registerHook({
+      name: 'veto',
+      phase: 'before',
+      to: 'paused',
+      hook: () => {
+        throw new Error('Not now');
+      },
+    });
+    useStatuses('active', 'paused');
+
+    const result = await stateMachine.transition('sale-1', 'paused');
+
+    expect(result).toMatchObject({ success: false, error: 'Not now' });
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the transition and later hooks when an after hook fails', async () => {
+    const later = jest.fn();
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+    stateMachine.registerHook({
+      name: 'broken',
+      phase: 'after',
+      hook: async () => {
+        throw new Error('Redis down');
+      },
+    });
+    stateMachine.registerHook({ name: 'later', phase: 'after', hook: later });
+    useStatuses('active', 'paused');
+
+    const result = await stateMachine.transition('sale-1', 'paused');
+
+    expect(result.success).toBe(true);
+    expect(logger.error).toHaveBeenCalledWith('Transition hook failed', {
+      saleId: 'sale-1',
+      hook: 'broken',
+      targetState: 'paused',
+      error: 'Redis down',
+    });
+    expect(later).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'paused' }),
+      expect.objectContaining({ from: 'active', to: 'paused' })
+    );
+  });
+
+  it('replaces a hook registered again under the same name, and unsubscribes', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    stateMachine.registerHook({ name: 'hook', phase: 'after', hook: first });
+    const unsubscribe = stateMachine.registerHook({ name: 'hook', phase: 'after', hook: second });
+    useStatuses('active', 'paused');
+
+    await stateMachine.transition('sale-1', 'paused');
+    unsubscribe();
+    useStatuses('paused', 'active');
+    await stateMachine.transition('sale-1', 'active');
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
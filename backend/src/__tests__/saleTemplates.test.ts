@@ -0,0 +1,143 @@
+/**
+ * Sale Template and Recurrence Tests
+ */
+
+import pool from '../utils/database';
+import flashSaleService from '../services/flashSaleService';
+import { saleTemplateService, SaleTemplate } from '../services/saleTemplateService';
+import { expandOccurrences, parseRecurrenceRule } from '../utils/recurrence';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+jest.mock('../services/flashSaleService', () => ({
+  __esModule: true,
+  default: { createFlashSale: jest.fn(), validateFlashSaleData: jest.fn() },
+  summarizeSaleItems: jest.fn(),
+}));
+
+const mockQuery = pool.query as jest.Mock;
+const mockCreateFlashSale = flashSaleService.createFlashSale as jest.Mock;
+
+describe('Recurrence rules', () => {
+  it('repeats on the given weekdays at the given time', () => {
+    const occurrences = expandOccurrences(
+      parseRecurrenceRule('FREQ=WEEKLY;BYDAY=TU,FR;BYHOUR=20;BYMINUTE=0'),
+      new Date('2026-03-02T00:00:00Z'),
+      'UTC',
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2026-03-15T00:00:00Z')
+    );
+
+    expect(occurrences.map((d) => d.toISOString())).toEqual([
+      '2026-03-03T20:00:00.000Z',
+      '2026-03-06T20:00:00.000Z',
+      '2026-03-10T20:00:00.000Z',
+      '2026-03-13T20:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the wall-clock time across a daylight saving change', () => {
+    // New York moves from UTC-5 to UTC-4 on 8 March 2026
+    const occurrences = expandOccurrences(
+      parseRecurrenceRule('FREQ=DAILY;BYHOUR=9;BYMINUTE=30'),
+      new Date('2026-03-07T14:30:00Z'),
+      'America/New_York',
+      new Date('2026-03-07T00:00:00Z'),
+      new Date('2026-03-10T00:00:00Z')
+    );
+
+    expect(occurrences.map((d) => d.toISOString())).toEqual([
+      '2026-03-07T14:30:00.000Z',
+      '2026-03-08T13:30:00.000Z',
+      '2026-03-09T13:30:00.000Z',
+    ]);
+  });
+
+  it('counts COUNT from the first occurrence, not the window', () => {
+    const occurrences = expandOccurrences(
+      parseRecurrenceRule('FREQ=DAILY;COUNT=3'),
+      new Date('2026-03-01T12:00:00Z'),
+      'UTC',
+      new Date('2026-03-02T00:00:00Z'),
+      new Date('2026-03-31T00:00:00Z')
+    );
+
+    expect(occurrences.map((d) => d.toISOString())).toEqual([
+      '2026-03-02T12:00:00.000Z',
+      '2026-03-03T12:00:00.000Z',
+    ]);
+  });
+
+  it('rejects parts it does not support', () => {
+    expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow('FREQ must be');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow('Unsupported');
+  });
+});
+
+describe('Recurring sale generation', () => {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const template: SaleTemplate = {
+    id: 'template-1',
+    name: 'Friday drop',
+    description: null,
+    duration_minutes: 30,
+    settings: { product_id: 'product-1', flash_price: 10, quantity_available: 50 },
+    created_at: now,
+    updated_at: now,
+  };
+  const recurrence = {
+    id: 'recurrence-1',
+    template_id: template.id,
+    rule: 'FREQ=WEEKLY;BYDAY=FR;BYHOUR=20;BYMINUTE=0',
+    timezone: 'UTC',
+    starts_at: now,
+    horizon_days: 21,
+    skip_holidays: true,
+    active: true,
+    generated_until: null,
+    created_at: now,
+  };
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockCreateFlashSale.mockReset().mockResolvedValue({ id: 'sale' });
+  });
+
+  it('makes one sale per occurrence, skipping blackout dates and sales already made', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...recurrence, template }] })
+      .mockResolvedValueOnce({ rows: [{ date: '2026-03-13', kind: 'blackout' }] })
+      .mockResolvedValueOnce({ rows: [{ occurrence_at: '2026-03-06T20:00:00.000Z' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const results = await saleTemplateService.generateUpcomingSales(now);
+
+    expect(results).toEqual([{ recurrenceId: 'recurrence-1', created: 1, skipped: 1 }]);
+    expect(mockCreateFlashSale).toHaveBeenCalledTimes(1);
+    expect(mockCreateFlashSale).toHaveBeenCalledWith(
+      expect.objectContaining({
+        product_id: 'product-1',
+        start_time: new Date('2026-03-20T20:00:00Z'),
+        end_time: new Date('2026-03-20T20:30:00Z'),
+        template_id: 'template-1',
+        recurrence_id: 'recurrence-1',
+        occurrence_at: new Date('2026-03-20T20:00:00Z'),
+      })
+    );
+  });
+
+  it('leaves an occurrence another replica made first', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...recurrence, horizon_days: 7, template }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+    mockCreateFlashSale.mockRejectedValueOnce(Object.assign(new Error('dup'), { code: '23505' }));
+
+    const results = await saleTemplateService.generateUpcomingSales(now);
+
+    expect(results).toEqual([{ recurrenceId: 'recurrence-1', created: 0, skipped: 0 }]);
+  });
+});
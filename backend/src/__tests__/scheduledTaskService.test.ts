@@ -0,0 +1,214 @@
+/**
+ * Scheduled Task Service Tests
+ */
+
+import pool from '../utils/database';
+import { ScheduledTask, ScheduledTaskService } from '../services/scheduledTaskService';
+
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+const mockQuery = pool.query as jest.Mock;
+
+describe('ScheduledTaskService', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z').getTime();
+  let tasks: ScheduledTask[];
+
+  const addTask = (overrides: Partial<ScheduledTask> = {}): ScheduledTask => {
+    const task: ScheduledTask = {
+      id: `task-${tasks.length + 1}`,
+      task_type: 'checkout_expiry',
+      task_key: `order-${tasks.length + 1}`,
+      payload: {},
+      run_at: new Date(now - 1000),
+      status: 'pending',
+      attempts: 0,
+      max_attempts: 3,
+      locked_by: null,
+      locked_at: null,
+      last_error: null,
+      created_at: new Date(now - 60000),
+      completed_at: null,
+      ...overrides,
+    };
+    tasks.push(task);
+    return task;
+  };
+
+  // Applies each statement to the rows the way Postgres would; a claimed row is
+  // skipped by every later claim, as FOR UPDATE SKIP LOCKED does
+  const applyQuery = async (sql: string, params: unknown[] = []) => {
+    const owns = (task: ScheduledTask, lockedBy: unknown, attempts: unknown) =>
+      task.status === 'running' && task.locked_by === lockedBy && task.attempts === attempts;
+    const update = (matches: ScheduledTask[], change: (task: ScheduledTask) => void) => {
+      matches.forEach(change);
+      return { rows: matches.map((task) => ({ ...task })), rowCount: matches.length };
+    };
+
+    if (sql.includes("SET status = 'pending', locked_by = NULL")) {
+      const staleBefore = now - (params[0] as number) * 1000;
+      return update(
+        tasks.filter(
+          (task) => task.status === 'running' && (task.locked_at as Date).getTime() < staleBefore
+        ),
+        (task) => Object.assign(task, { status: 'pending', locked_by: null })
+      );
+    }
+    if (sql.includes("SET status = 'running'")) {
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      const [workerId, taskTypes, limit] = params as [string, string[], number];
+      const due = tasks
+        .filter(
+          (task) =>
+            task.status === 'pending' &&
+            task.run_at.getTime() <= now &&
+            taskTypes.includes(task.task_type)
+        )
+        .slice(0, limit);
+      return update(due, (task) =>
+        Object.assign(task, {
+          status: 'running',
+          locked_by: workerId,
+          locked_at: new Date(now),
+          attempts: task.attempts + 1,
+        })
+      );
+    }
+    if (sql.includes("SET status = 'completed'")) {
+      const [id, workerId, attempts] = params;
+      return update(
+        tasks.filter((task) => task.id === id && owns(task, workerId, attempts)),
+        (task) => Object.assign(task, { status: 'completed', locked_by: null })
+      );
+    }
+    if (sql.includes('SET status = $2, last_error = $3')) {
+      const [id, status, lastError, delaySeconds, workerId, attempts] = params;
+      return update(
+        tasks.filter((task) => task.id === id && owns(task, workerId, attempts)),
+        (task) =>
+          Object.assign(task, {
+            status,
+            last_error: lastError,
+            locked_by: null,
+            run_at:
+              status === 'pending' ? new Date(now + (delaySeconds as number) * 1000) : task.run_at,
+          })
+      );
+    }
+    if (sql.includes("SET status = 'cancelled'")) {
+      const [taskType, taskKey] = params;
+      return update(
+        tasks.filter(
+          (task) =>
+            task.task_type === taskType && task.task_key === taskKey && task.status === 'pending'
+        ),
+        (task) => Object.assign(task, { status: 'cancelled' })
+      );
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  const createWorker = (workerId: string, handler: jest.Mock) => {
+    const worker = new ScheduledTaskService(workerId);
+    worker.registerHandler('checkout_expiry', handler);
+    return worker;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    tasks = [];
+    mockQuery.mockImplementation(applyQuery);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs each due task on exactly one of the workers polling at once', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    addTask();
+    addTask();
+    addTask({ run_at: new Date(now + 60000) });
+
+    const results = await Promise.all([
+      createWorker('replica-a', handler).processDueTasks(),
+      createWorker('replica-b', handler).processDueTasks(),
+    ]);
+
+    expect(results.map((result) => result.claimed).reduce((a, b) => a + b)).toBe(2);
+    expect(handler.mock.calls.map(([, task]) => task.id).sort()).toEqual(['task-1', 'task-2']);
+    expect(tasks.map((task) => task.status)).toEqual(['completed', 'completed', 'pending']);
+  });
+
+  it('requeues a task whose worker died mid-run', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const task = addTask({
+      status: 'running',
+      attempts: 1,
+      locked_by: 'replica-a',
+      locked_at: new Date(now - 10 * 60 * 1000),
+    });
+
+    const result = await createWorker('replica-b', handler).processDueTasks();
+
+    expect(result).toMatchObject({ claimed: 1, completed: 1 });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(task).toMatchObject({ status: 'completed', attempts: 2 });
+  });
+
+  it('drops the outcome of a run that was taken over while the handler was running', async () => {
+    const task = addTask();
+    const takeOver = jest.fn(async () => {
+      Object.assign(task, { locked_by: 'replica-b', attempts: task.attempts + 1 });
+    });
+
+    const result = await createWorker('replica-a', takeOver).processDueTasks();
+
+    expect(result).toMatchObject({ claimed: 1, completed: 0, lost: 1 });
+    expect(task).toMatchObject({ status: 'running', locked_by: 'replica-b' });
+  });
+
+  it('does not cancel a task that is already running', async () => {
+    const task = addTask();
+    const worker = createWorker(
+      'replica-a',
+      jest.fn(async () => {
+        expect(await worker.cancel('checkout_expiry', task.task_key)).toBe(false);
+      })
+    );
+
+    const result = await worker.processDueTasks();
+
+    expect(result.completed).toBe(1);
+    expect(task.status).toBe('completed');
+    expect(await worker.cancel('checkout_expiry', addTask().task_key)).toBe(true);
+  });
+
+  it('backs off between retries and fails the task after its last attempt', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('payment provider down'));
+    const worker = createWorker('replica-a', handler);
+    const task = addTask();
+    const delays: number[] = [];
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const result = await worker.processDueTasks();
+      expect(result.claimed).toBe(1);
+
+      if (task.status === 'pending') {
+        delays.push(task.run_at.getTime() - now);
+        task.run_at = new Date(now);
+      }
+    }
+
+    expect(delays).toEqual([30000, 60000]);
+    expect(task).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      last_error: 'payment provider down',
+    });
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,5 +1,8 @@
 import productService, { CreateProductDto, UpdateProductDto } from '../services/productService';
-import flashSaleService, { CreateFlashSaleDto } from '../services/flashSaleService';
+import flashSaleService, {
+  CreateFlashSaleDto,
+  summarizeSaleItems,
+} from '../services/flashSaleService';
 import inventoryManager from '../services/inventoryManager';
 import pool from '../utils/database';
 
@@ -141,6 +144,18 @@ describe('FlashSaleService', () => {
   });
 
   describe('createFlashSale', () => {
+    // The sale and its opening stock are written on one transaction client
+    const mockClient = { query: jest.fn(), release: jest.fn() };
+
+    beforeEach(() => {
+      (pool.query as jest.Mock).mockReset();
+      mockClient.query.mockReset().mockResolvedValue({ rows: [] });
+      (pool.connect as jest.Mock).mockResolvedValue(mockClient);
+    });
+
+    const clientStatements = () =>
+      mockClient.query.mock.calls.map(([sql]) => (sql as string).trim().split(/\s+/)[0]);
+
     it('should create a flash sale successfully', async () => {
       const mockProduct = {
         id: 'prod123',
@@ -157,9 +172,10 @@ describe('FlashSaleService', () => {
         status: 'upcoming',
       };
 
-      (pool.query as jest.Mock)
-        .mockResolvedValueOnce({ rows: [mockProduct] })
-        .mockResolvedValueOnce({ rows: [mockSale] });
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [mockProduct] });
+      mockClient.query.mockImplementation(async (sql: string) =>
+        sql.includes('INSERT INTO flash_sales') ? { rows: [mockSale] } : { rows: [] }
+      );
 
       const saleData: CreateFlashSaleDto = {
         product_id: 'prod123',
@@ -171,7 +187,83 @@ describe('FlashSaleService', () => {
 
       const result = await flashSaleService.createFlashSale(saleData);
 
-      expect(result).toEqual(mockSale);
+      expect(result).toEqual({ ...mockSale, items: [] });
+      expect(clientStatements()).toEqual(['BEGIN', 'INSERT', 'INSERT', 'COMMIT']);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO inventory_adjustments'),
+        ['mock-uuid-123', 100]
+      );
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should open stock per item for a multi-SKU sale', async () => {
+      const items = [
+        { product_id: 'prod123', variant_sku: 'S', flash_price: 50, quantity_available: 30 },
+        { product_id: 'prod123', variant_sku: 'M', flash_price: 60, quantity_available: 70 },
+      ];
+
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ id: 'prod123', base_price: 100 }] });
+      mockClient.query.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes('INSERT INTO flash_sales')) {
+          return { rows: [{ id: params[0], quantity_available: params[3] }] };
+        }
+        if (sql.includes('INSERT INTO flash_sale_items')) {
+          return { rows: [{ id: `item-${params[2]}`, quantity_available: params[5] }] };
+        }
+        return { rows: [] };
+      });
+
+      const result = await flashSaleService.createFlashSale({
+        ...summarizeSaleItems(items),
+        start_time: new Date(Date.now() + 3600000),
+        end_time: new Date(Date.now() + 7200000),
+        items,
+      });
+
+      expect(result.quantity_available).toBe(100);
+      expect(result.items?.map((item) => item.id)).toEqual(['item-S', 'item-M']);
+      const openingStock = mockClient.query.mock.calls
+        .filter(([sql]) => (sql as string).includes('INSERT INTO inventory_adjustments'))
+        .map(([, params]) => params);
+      expect(openingStock).toEqual([
+        ['mock-uuid-123', 'item-S', 30],
+        ['mock-uuid-123', 'item-M', 70],
+      ]);
+      expect(clientStatements()).toContain('COMMIT');
+    });
+
+    it('should roll back the sale when an item fails to insert', async () => {
+      const items = [
+        { product_id: 'prod123', variant_sku: 'S', flash_price: 50, quantity_available: 30 },
+        { product_id: 'prod123', variant_sku: 'M', flash_price: 60, quantity_available: 70 },
+      ];
+
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ id: 'prod123', base_price: 100 }] });
+      mockClient.query.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes('INSERT INTO flash_sales')) {
+          return { rows: [{ id: params[0] }] };
+        }
+        if (sql.includes('INSERT INTO flash_sale_items') && params[2] === 'M') {
+          throw new Error('duplicate key value violates unique constraint');
+        }
+        if (sql.includes('INSERT INTO flash_sale_items')) {
+          return { rows: [{ id: `item-${params[2]}` }] };
+        }
+        return { rows: [] };
+      });
+
+      await expect(
+        flashSaleService.createFlashSale({
+          ...summarizeSaleItems(items),
+          start_time: new Date(Date.now() + 3600000),
+          end_time: new Date(Date.now() + 7200000),
+          items,
+        })
+      ).rejects.toThrow('duplicate key value violates unique constraint');
+
+      expect(clientStatements()).toContain('ROLLBACK');
+      expect(clientStatements()).not.toContain('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
     });
 
     it('should throw error for flash price >= base price', async () => {
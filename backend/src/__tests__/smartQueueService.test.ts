@@ -18,7 +18,7 @@ const mockRedisClient = {
   zcard: jest.fn(),
 };
 
-const mockPriorityQueueService = {
+const mockQueueEngine = {
   getQueueHealth: jest.fn(),
   getConfig: jest.fn(),
   configureQueue: jest.fn(),
@@ -30,8 +30,8 @@ jest.mock('../utils/redis', () => ({
   isRedisConnected: jest.fn(() => true),
 }));
 
-jest.mock('../services/priorityQueueService', () => ({
-  priorityQueueService: mockPriorityQueueService,
+jest.mock('../services/queueEngine', () => ({
+  queueEngine: mockQueueEngine,
   QueueHealth: {},
 }));
 
@@ -44,13 +44,13 @@ describe('Smart Queue Service', () => {
 
   describe('predictCongestion', () => {
     it('should predict low congestion for small expected load', async () => {
-      mockPriorityQueueService.getQueueHealth.mockResolvedValueOnce({
+      mockQueueEngine.getQueueHealth.mockResolvedValueOnce({
         totalInQueue: 50,
         processingCount: 10,
         throughput: 5,
         averageWaitTime: 60,
       });
-      mockPriorityQueueService.getConfig.mockReturnValueOnce({
+      mockQueueEngine.getConfig.mockReturnValueOnce({
         maxConcurrent: 100,
         batchSize: 10,
       });
@@ -62,13 +62,13 @@ describe('Smart Queue Service', () => {
     });
 
     it('should predict high congestion for large expected load', async () => {
-      mockPriorityQueueService.getQueueHealth.mockResolvedValueOnce({
+      mockQueueEngine.getQueueHealth.mockResolvedValueOnce({
         totalInQueue: 900,
         processingCount: 100,
         throughput: 2,
         averageWaitTime: 600,
       });
-      mockPriorityQueueService.getConfig.mockReturnValueOnce({
+      mockQueueEngine.getConfig.mockReturnValueOnce({
         maxConcurrent: 100,
         batchSize: 10,
       });
@@ -102,17 +102,17 @@ describe('Smart Queue Service', () => {
 
   describe('autoScale', () => {
     it('should scale up when queue is congested', async () => {
-      mockPriorityQueueService.getQueueHealth.mockResolvedValueOnce({
+      mockQueueEngine.getQueueHealth.mockResolvedValueOnce({
         totalInQueue: 500,
         processingCount: 100,
         throughput: 2,
         averageWaitTime: 300,
       });
-      mockPriorityQueueService.getConfig.mockReturnValueOnce({
+      mockQueueEngine.getConfig.mockReturnValueOnce({
         maxConcurrent: 100,
         batchSize: 10,
       });
-      mockPriorityQueueService.scaleQueue.mockResolvedValueOnce(true);
+      mockQueueEngine.scaleQueue.mockResolvedValueOnce(true);
 
       const result = await smartQueueService.autoScale('sale-123');
 
@@ -121,17 +121,17 @@ describe('Smart Queue Service', () => {
     });
 
     it('should scale down when queue is underutilized', async () => {
-      mockPriorityQueueService.getQueueHealth.mockResolvedValueOnce({
+      mockQueueEngine.getQueueHealth.mockResolvedValueOnce({
         totalInQueue: 10,
         processingCount: 2,
         throughput: 10,
         averageWaitTime: 5,
       });
-      mockPriorityQueueService.getConfig.mockReturnValueOnce({
+      mockQueueEngine.getConfig.mockReturnValueOnce({
         maxConcurrent: 200,
         batchSize: 20,
       });
-      mockPriorityQueueService.scaleQueue.mockResolvedValueOnce(true);
+      mockQueueEngine.scaleQueue.mockResolvedValueOnce(true);
 
       const result = await smartQueueService.autoScale('sale-123');
 
@@ -142,17 +142,17 @@ describe('Smart Queue Service', () => {
 
   describe('optimizeForSale', () => {
     it('should optimize queue configuration for expected load', async () => {
-      mockPriorityQueueService.getQueueHealth.mockResolvedValueOnce({
+      mockQueueEngine.getQueueHealth.mockResolvedValueOnce({
         totalInQueue: 0,
         processingCount: 0,
         throughput: 0,
         averageWaitTime: 0,
       });
-      mockPriorityQueueService.getConfig.mockReturnValueOnce({
+      mockQueueEngine.getConfig.mockReturnValueOnce({
         maxConcurrent: 100,
         batchSize: 10,
       });
-      mockPriorityQueueService.configureQueue.mockReturnValueOnce({
+      mockQueueEngine.configureQueue.mockReturnValueOnce({
         saleId: 'sale-123',
         maxConcurrent: 150,
         batchSize: 15,
@@ -168,7 +168,7 @@ describe('Smart Queue Service', () => {
 
   describe('getQueueMetrics', () => {
     it('should return queue performance metrics', async () => {
-      mockPriorityQueueService.getQueueHealth.mockResolvedValueOnce({
+      mockQueueEngine.getQueueHealth.mockResolvedValueOnce({
         totalInQueue: 100,
         processingCount: 20,
         throughput: 5,
@@ -37,6 +37,12 @@ jest.mock('../utils/logger', () => ({
   },
 }));
 
+jest.mock('../services/queuePresenceService', () => ({
+  queuePresenceService: { touch: jest.fn() },
+  QUEUE_PRESENCE_GRACE_SECONDS: 90,
+  QUEUE_HEARTBEAT_INTERVAL_SECONDS: 15,
+}));
+
 import { WS_EVENTS } from '../services/websocketService';
 
 // ─── WS_EVENTS Tests ────────────────────────────────────────
@@ -62,6 +68,13 @@ describe('WS_EVENTS', () => {
     expect(WS_EVENTS.QUEUE_YOUR_TURN).toBe('queue:yourTurn');
   });
 
+  it('should define waiting room events', () => {
+    expect(WS_EVENTS.WAITING_ROOM_STATE).toBe('waitingRoom:state');
+    expect(WS_EVENTS.WAITING_ROOM_RELEASED).toBe('waitingRoom:released');
+    expect(WS_EVENTS.JOIN_WAITING_ROOM).toBe('join:waitingRoom');
+    expect(WS_EVENTS.TIME_SYNC).toBe('time:sync');
+  });
+
   it('should define all order events', () => {
     expect(WS_EVENTS.ORDER_CREATED).toBe('order:created');
     expect(WS_EVENTS.ORDER_STATUS).toBe('order:status');
@@ -80,6 +93,7 @@ describe('WS_EVENTS', () => {
     expect(WS_EVENTS.LEAVE_SALE_ROOM).toBe('leave:sale');
     expect(WS_EVENTS.SUBSCRIBE_QUEUE).toBe('subscribe:queue');
     expect(WS_EVENTS.UNSUBSCRIBE_QUEUE).toBe('unsubscribe:queue');
+    expect(WS_EVENTS.QUEUE_HEARTBEAT).toBe('queue:heartbeat');
   });
 
   it('should define admin events', () => {
@@ -27,6 +27,8 @@ import cartRoutes from './routes/cartRoutes';
 
 import { backgroundJobRunner } from './services/backgroundJobRunner';
 import flashSaleService from './services/flashSaleService';
+import { registerSaleLifecycleHooks } from './services/saleLifecycleHooks';
+import { saleScheduler } from './services/saleScheduler';
 
 // Week 4 imports - Day 5: Health & Monitoring
 import healthRoutes from './routes/healthRoutes';
@@ -383,6 +385,9 @@ httpServer.listen(PORT, async () => {
 ╚════════════════════════════════════════╝
   `);
 
+  // Subscribe subsystems to sale status changes before anything can change one
+  registerSaleLifecycleHooks();
+
   // Warm up cache
   await flashSaleService.warmCache();
 
@@ -390,6 +395,10 @@ httpServer.listen(PORT, async () => {
   backgroundJobRunner.start();
   console.log('✓ Background jobs started');
 
+  // Start and end sales on the second
+  await saleScheduler.start();
+  logger.info('✓ Sale scheduler started');
+
   // Week 6 Day 1: Start metrics collection (event loop lag, runtime metrics)
   metricsService.startCollecting();
   console.log('✓ Metrics collection started');
@@ -409,6 +418,7 @@ httpServer.listen(PORT, async () => {
     },
     20,
   );
+  gracefulShutdown.registerHook('saleScheduler', () => saleScheduler.stop(), 20);
   gracefulShutdown.registerHook(
     'metrics',
     () => {
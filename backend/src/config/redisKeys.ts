@@ -1,7 +1,24 @@
 export const REDIS_KEY_PREFIX = {
   inventory: 'inventory',
   reservation: 'reservation',
+  reservationHolds: 'reservation_holds',
+  reservationExpiry: 'reservation_expiry',
+  reclaimed: 'inventory_reclaimed',
+  purchaseCounts: 'purchase_counts',
+  saleRules: 'sale_rules',
+  lease: 'lease',
+  leaseFence: 'lease_fence',
   queue: 'queue',
+  queueDevices: 'queue_devices',
+  queueSessions: 'queue_sessions',
+  queueJoinedAt: 'queue_joined',
+  waitingRoom: 'waiting_room',
+  queueFlow: 'queue_flow',
+  queuePresence: 'queue_presence',
+  admissionPass: 'admission_pass',
+  admissionPassScore: 'admission_pass_score',
+  admissionPassExpiry: 'admission_pass_expiry',
+  salePause: 'sale_pause',
   session: 'session',
 };
 
@@ -21,17 +38,80 @@ export const REDIS_KEYS = {
 
 export const REDIS_TTL_SECONDS = {
   reservation: 300,
+  saleRules: 300,
   session: 86400,
 };
 
 export const REDIS_LIMITS = {
   minQuantity: 1,
+  reclaimBatchSize: 500,
   getMaxQueueLength: () => parseInt(process.env.REDIS_MAX_QUEUE_LENGTH || '10000', 10),
 };
 
+// Stock of a multi-SKU sale is tracked per item; the stock ID stands in for the sale ID in
+// inventory, reservation, hold and expiry keys. Single-product sales use the sale ID itself.
+export const buildStockId = (flashSaleId: string, itemId?: string) =>
+  itemId ? `${flashSaleId}:item:${itemId}` : flashSaleId;
+export const parseStockId = (stockId: string): { flashSaleId: string; itemId?: string } => {
+  const [flashSaleId, itemId] = stockId.split(':item:');
+  return { flashSaleId, itemId };
+};
+
 export const buildInventoryKey = (flashSaleId: string) =>
   `${REDIS_KEY_PREFIX.inventory}:${flashSaleId}`;
 export const buildReservationKey = (userId: string, flashSaleId: string) =>
   `${REDIS_KEY_PREFIX.reservation}:${userId}:${flashSaleId}`;
+export const buildReservationHoldsKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.reservationHolds}:${flashSaleId}`;
+export const buildReservationExpiryKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.reservationExpiry}:${flashSaleId}`;
+export const buildReclaimedKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.reclaimed}:${flashSaleId}`;
+export const buildPurchaseCountsKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.purchaseCounts}:${flashSaleId}`;
+// HASH of what reservations against a sale check (limits, items, stock policy), so they
+// don't read Postgres; dropped whenever any of it changes
+export const buildSaleRulesKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.saleRules}:${flashSaleId}`;
+// Set of sale IDs that currently have entries in a reservation expiry index
+export const RESERVATION_EXPIRY_SALES_KEY = `${REDIS_KEY_PREFIX.reservationExpiry}:sales`;
+export const buildLeaseKey = (leaseName: string) => `${REDIS_KEY_PREFIX.lease}:${leaseName}`;
+export const buildLeaseFenceKey = (leaseName: string) =>
+  `${REDIS_KEY_PREFIX.leaseFence}:${leaseName}`;
 export const buildQueueKey = (flashSaleId: string) => `${REDIS_KEY_PREFIX.queue}:${flashSaleId}`;
+// Device each user joined the queue from, which admission passes are bound to
+export const buildQueueDevicesKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.queueDevices}:${flashSaleId}`;
+// Session (access token) each queued user is bound to, alongside their device
+export const buildQueueSessionsKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.queueSessions}:${flashSaleId}`;
+// When each waiting user joined; the queue score only equals it under FIFO ordering
+export const buildQueueJoinedAtKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.queueJoinedAt}:${flashSaleId}`;
+// Users admitted from and abandoning a sale queue during one minute (epoch minutes)
+export const buildQueueFlowKey = (flashSaleId: string, minute: number) =>
+  `${REDIS_KEY_PREFIX.queueFlow}:${flashSaleId}:${minute}`;
+// Queued users by when they were last seen (heartbeat or position poll), epoch ms
+export const buildQueuePresenceKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.queuePresence}:${flashSaleId}`;
+// Set of sale IDs with tracked queue presence
+export const QUEUE_PRESENCE_SALES_KEY = `${REDIS_KEY_PREFIX.queuePresence}:sales`;
+// Users waiting for a sale to start, with the device each arrived from
+export const buildWaitingRoomKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.waitingRoom}:${flashSaleId}`;
+// Set of sale IDs that currently have an open waiting room
+export const WAITING_ROOM_SALES_KEY = `${REDIS_KEY_PREFIX.waitingRoom}:sales`;
+export const buildAdmissionPassKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.admissionPass}:${flashSaleId}`;
+// Queue score of each admitted user, so an unused pass returns them to their old place
+export const buildAdmissionPassScoreKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.admissionPassScore}:${flashSaleId}`;
+export const buildAdmissionPassExpiryKey = (flashSaleId: string) =>
+  `${REDIS_KEY_PREFIX.admissionPassExpiry}:${flashSaleId}`;
+// Set of sale IDs that currently have outstanding admission passes
+export const ADMISSION_PASS_SALES_KEY = `${REDIS_KEY_PREFIX.admissionPassExpiry}:sales`;
+// Set of sale IDs that are paused: no admissions, and their pass and reservation expiries held
+export const PAUSED_SALES_KEY = `${REDIS_KEY_PREFIX.salePause}:sales`;
+// Pub/sub channel telling every replica's sale scheduler to re-read upcoming start and end times
+export const SALE_SCHEDULE_CHANNEL = 'sale_scheduler:rearm';
 export const buildSessionKey = (userId: string) => `${REDIS_KEY_PREFIX.session}:${userId}`;
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import pool from '../utils/database';
-import { queueService } from '../services/queueService';
+import { queueEngine } from '../services/queueEngine';
 import { realtimeService } from '../services/realtimeService';
+import { stateMachine } from '../services/stateMachine';
+import { adminActor } from '../middleware/adminAuth';
 
 export class AdminController {
   /**
@@ -96,7 +98,7 @@ export class AdminController {
     try {
       const { saleId, userId } = req.body;
 
-      const success = await queueService.leaveQueue(userId, saleId);
+      const success = await queueEngine.leaveQueue(userId, saleId);
 
       if (!success) {
         res.status(400).json({ error: 'Failed to remove user from queue' });
@@ -121,19 +123,28 @@ export class AdminController {
       const { saleId } = req.params;
       const { status } = req.body;
 
-      const validStatuses = ['upcoming', 'active', 'completed', 'cancelled'];
+      const validStatuses = ['upcoming', 'active', 'paused', 'completed', 'cancelled'];
       if (!validStatuses.includes(status)) {
         res.status(400).json({ error: 'Invalid status' });
         return;
       }
 
-      const result = await pool.query(
-        'UPDATE flash_sales SET status = $1, updated_at = NOW() WHERE id = $2 RETURNING *',
-        [status, saleId]
+      const result = await stateMachine.transition(
+        saleId,
+        status,
+        req.body.reason,
+        adminActor(req)
       );
 
-      if (result.rowCount === 0) {
-        res.status(404).json({ error: 'Sale not found' });
+      if (!result.success) {
+        // Not found, a failed transition, or one the sale's current status does not allow
+        const code =
+          result.error === 'Sale not found'
+            ? 404
+            : result.message === 'State transition failed'
+              ? 500
+              : 409;
+        res.status(code).json({ error: result.message, details: result.error });
         return;
       }
 
@@ -142,7 +153,7 @@ export class AdminController {
 
       res.json({
         success: true,
-        sale: result.rows[0],
+        sale: result.sale,
         timestamp: new Date(),
       });
     } catch (error) {
@@ -150,6 +161,20 @@ export class AdminController {
     }
   }
 
+  /**
+   * Get every status change of a sale, with who triggered it and why
+   */
+  async getSaleStatusHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { saleId } = req.params;
+      const history = await stateMachine.getStatusHistory(saleId);
+
+      res.json({ saleId, history });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch status history', details: String(error) });
+    }
+  }
+
   /**
    * Get live metrics for a sale
    */
@@ -5,6 +5,9 @@
 
 import { Request, Response } from 'express';
 import { query } from '../utils/database';
+import { stateMachine, SaleStatus } from '../services/stateMachine';
+import { adminActor } from '../middleware/adminAuth';
+import { saleScheduler } from '../services/saleScheduler';
 
 export interface CreateFlashSaleDTO {
   name: string;
@@ -228,13 +231,8 @@ export async function updateFlashSale(req: Request, res: Response) {
       params.push(end_time);
       paramIndex++;
     }
-    if (status) {
-      updates.push(`status = $${paramIndex}`);
-      params.push(status);
-      paramIndex++;
-    }
-
-    if (updates.length === 0) {
+    // Status changes go through the state machine, after the other fields are saved
+    if (updates.length === 0 && !status) {
       return res.status(400).json({ error: 'No fields to update' });
     }
 
@@ -256,6 +254,18 @@ export async function updateFlashSale(req: Request, res: Response) {
       return res.status(404).json({ error: 'Flash sale not found' });
     }
 
+    if (status && status !== result.rows[0].status) {
+      const transition = await stateMachine.transition(id, status, undefined, adminActor(req));
+      if (!transition.success) {
+        return res.status(409).json({ error: transition.message });
+      }
+      result.rows[0].status = status;
+    }
+
+    if (start_time || end_time) {
+      await saleScheduler.rearm();
+    }
+
     // Update products if provided
     if (product_ids && Array.isArray(product_ids)) {
       // Delete existing products
@@ -276,59 +286,53 @@ export async function updateFlashSale(req: Request, res: Response) {
 }
 
 /**
- * POST /api/admin/flash-sales/:id/activate
- * Activate a flash sale
+ * Change a sale's status through the state machine and reply with the updated sale
  */
-export async function activateFlashSale(req: Request, res: Response) {
+async function transitionFlashSale(
+  req: Request,
+  res: Response,
+  status: SaleStatus,
+  action: string
+) {
   try {
     const { id } = req.params;
 
-    const updateQuery = `
-      UPDATE flash_sales 
-      SET status = 'active', updated_at = NOW()
-      WHERE id = $1 AND status = 'scheduled'
-      RETURNING id, name, status, start_time, end_time, created_at, updated_at
-    `;
-
-    const result = await query(updateQuery, [id]);
+    const result = await stateMachine.transition(id, status, req.body?.reason, adminActor(req));
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Flash sale not found or not in scheduled status' });
+    if (!result.success) {
+      const code = result.error === 'Sale not found' ? 404 : 409;
+      return res.status(code).json({ error: result.message });
     }
 
-    res.json(result.rows[0]);
+    res.json(result.sale);
   } catch (error) {
-    console.error('Error activating flash sale:', error);
-    res.status(500).json({ error: 'Failed to activate flash sale' });
+    console.error(`Error trying to ${action} flash sale:`, error);
+    res.status(500).json({ error: `Failed to ${action} flash sale` });
   }
 }
 
+/**
+ * POST /api/admin/flash-sales/:id/activate
+ * Activate a flash sale
+ */
+export async function activateFlashSale(req: Request, res: Response) {
+  return transitionFlashSale(req, res, 'active', 'activate');
+}
+
 /**
  * POST /api/admin/flash-sales/:id/pause
- * Pause a flash sale
+ * Pause an active flash sale: admissions stop and pass and reservation expiries are held
  */
 export async function pauseFlashSale(req: Request, res: Response) {
-  try {
-    const { id } = req.params;
-
-    const updateQuery = `
-      UPDATE flash_sales 
-      SET status = 'paused', updated_at = NOW()
-      WHERE id = $1 AND status = 'active'
-      RETURNING id, name, status, start_time, end_time, created_at, updated_at
-    `;
-
-    const result = await query(updateQuery, [id]);
-
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Flash sale not found or not in active status' });
-    }
+  return transitionFlashSale(req, res, 'paused', 'pause');
+}
 
-    res.json(result.rows[0]);
-  } catch (error) {
-    console.error('Error pausing flash sale:', error);
-    res.status(500).json({ error: 'Failed to pause flash sale' });
-  }
+/**
+ * POST /api/admin/flash-sales/:id/resume
+ * Resume a paused flash sale
+ */
+export async function resumeFlashSale(req: Request, res: Response) {
+  return transitionFlashSale(req, res, 'active', 'resume');
 }
 
 /**
@@ -336,27 +340,7 @@ export async function pauseFlashSale(req: Request, res: Response) {
  * Cancel a flash sale
  */
 export async function cancelFlashSale(req: Request, res: Response) {
-  try {
-    const { id } = req.params;
-
-    const updateQuery = `
-      UPDATE flash_sales 
-      SET status = 'cancelled', updated_at = NOW()
-      WHERE id = $1
-      RETURNING id, name, status, start_time, end_time, created_at, updated_at
-    `;
-
-    const result = await query(updateQuery, [id]);
-
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Flash sale not found' });
-    }
-
-    res.json(result.rows[0]);
-  } catch (error) {
-    console.error('Error cancelling flash sale:', error);
-    res.status(500).json({ error: 'Failed to cancel flash sale' });
-  }
+  return transitionFlashSale(req, res, 'cancelled', 'cancel');
 }
 
 /**
@@ -0,0 +1,190 @@
+/**
+ * Admin Inventory Controller
+ * Stock ledger, refund restocks, release waves and reconciliation between Redis, the
+ * database and the order history
+ */
+
+import { Request, Response } from 'express';
+import { inventoryReconciliationService } from '../services/inventoryReconciliationService';
+import { inventoryManager, InventoryMovementType } from '../services/inventoryManager';
+import { releaseWaveService } from '../services/releaseWaveService';
+import flashSaleService from '../services/flashSaleService';
+import { adminActor } from '../middleware/adminAuth';
+
+export class AdminInventoryController {
+  /**
+   * POST /api/admin/sales/:saleId/inventory/reconcile
+   * Reconcile a sale now; body.autoCorrect overrides the configured default
+   */
+  static async reconcileSale(req: Request, res: Response): Promise<void> {
+    try {
+      const { saleId } = req.params;
+      const { autoCorrect } = req.body || {};
+
+      const result = await inventoryReconciliationService.reconcileSale(saleId, {
+        autoCorrect: typeof autoCorrect === 'boolean' ? autoCorrect : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error reconciling inventory:', error);
+      const message = error instanceof Error ? error.message : 'Failed to reconcile inventory';
+      res.status(message.includes('not found') ? 404 : 500).json({ error: message });
+    }
+  }
+
+  /**
+   * GET /api/admin/sales/:saleId/inventory/ledger
+   * Stock movements of a sale, newest first; filter by item, type, holder, order or unit
+   */
+  static async getLedger(req: Request, res: Response): Promise<void> {
+    try {
+      const { saleId } = req.params;
+      const { itemId, type, holderId, orderId, unit, before, limit } = req.query;
+
+      const movements = await inventoryManager.getLedger(saleId, {
+        itemId: itemId as string | undefined,
+        type: type as InventoryMovementType | undefined,
+        holderId: holderId as string | undefined,
+        orderId: orderId as string | undefined,
+        unit: unit ? parseInt(unit as string, 10) : undefined,
+        before: before as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          movements,
+          // Pass as `before` to fetch the next page
+          nextCursor: movements.length > 0 ? movements[movements.length - 1].id : null,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching inventory ledger:', error);
+      res.status(500).json({ error: 'Failed to fetch inventory ledger' });
+    }
+  }
+
+  /**
+   * GET /api/admin/sales/:saleId/inventory/restocks
+   * Units returned by refunds, per outcome
+   */
+  static async getRestocks(req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await inventoryManager.getRestockSummary(req.params.saleId);
+
+      res.json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      console.error('Error fetching restocks:', error);
+      res.status(500).json({ error: 'Failed to fetch restocks' });
+    }
+  }
+
+  /**
+   * POST /api/admin/sales/:saleId/inventory/waitlist/release
+   * Put units held back under the waitlist restock policy on sale
+   */
+  static async releaseWaitlist(req: Request, res: Response): Promise<void> {
+    try {
+      const { saleId } = req.params;
+      const { reason } = req.body || {};
+
+      const released = await inventoryManager.releaseWaitlistedStock(saleId, reason || undefined);
+
+      res.json({
+        success: true,
+        data: { released },
+      });
+    } catch (error) {
+      console.error('Error releasing waitlisted stock:', error);
+      const message = error instanceof Error ? error.message : 'Failed to release waitlisted stock';
+      res.status(message.includes('not found') ? 404 : 400).json({ error: message });
+    }
+  }
+
+  /**
+   * GET /api/admin/sales/:saleId/inventory/waves
+   * The sale's release waves: when each goes on sale, its units and whether it is out
+   */
+  static async getReleaseWaves(req: Request, res: Response): Promise<void> {
+    try {
+      const waves = await releaseWaveService.getWaveSchedule(req.params.saleId);
+      if (!waves) {
+        res.status(404).json({ error: 'Flash sale not found' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: waves,
+      });
+    } catch (error) {
+      console.error('Error fetching release waves:', error);
+      res.status(500).json({ error: 'Failed to fetch release waves' });
+    }
+  }
+
+  /**
+   * PUT /api/admin/sales/:saleId/inventory/waves
+   * Replace the wave schedule of an upcoming sale; an empty list puts all stock on sale at
+   * the start
+   */
+  static async setReleaseWaves(req: Request, res: Response): Promise<void> {
+    try {
+      const { saleId } = req.params;
+      const { waves } = req.body || {};
+
+      const sale = await flashSaleService.updateFlashSale(
+        saleId,
+        { release_waves: waves?.length ? waves : null },
+        adminActor(req)
+      );
+      if (!sale) {
+        res.status(404).json({ error: 'Flash sale not found' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await releaseWaveService.getWaveSchedule(saleId),
+      });
+    } catch (error) {
+      console.error('Error setting release waves:', error);
+      const message = error instanceof Error ? error.message : 'Failed to set release waves';
+      res.status(400).json({ error: message });
+    }
+  }
+
+  /**
+   * GET /api/admin/sales/:saleId/inventory/reconciliations
+   * Drift findings of a sale, newest first
+   */
+  static async getReconciliations(req: Request, res: Response): Promise<void> {
+    try {
+      const { saleId } = req.params;
+      const limit = Math.min(200, parseInt(req.query.limit as string) || 50);
+
+      const reconciliations = await inventoryReconciliationService.getReconciliations(
+        saleId,
+        limit
+      );
+
+      res.json({
+        success: true,
+        data: reconciliations,
+      });
+    } catch (error) {
+      console.error('Error fetching reconciliations:', error);
+      res.status(500).json({ error: 'Failed to fetch reconciliations' });
+    }
+  }
+}
+
+export default AdminInventoryController;
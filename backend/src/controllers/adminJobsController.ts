@@ -0,0 +1,87 @@
+/**
+ * Admin Jobs Controller
+ * Exposes background work (recurring jobs and scheduled tasks) to the admin dashboard
+ */
+
+import { Request, Response } from 'express';
+import { scheduledTaskService } from '../services/scheduledTaskService';
+import { backgroundJobRunner } from '../services/backgroundJobRunner';
+
+export class AdminJobsController {
+  /**
+   * GET /api/admin/jobs
+   * Current leader plus last run, duration and failures per job across replicas
+   */
+  static async getJobs(_req: Request, res: Response): Promise<void> {
+    try {
+      const status = backgroundJobRunner.getJobStatus();
+      const [leader, stats] = await Promise.all([
+        backgroundJobRunner.getLeader(),
+        backgroundJobRunner.getJobStats(),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          leader,
+          instanceId: status.instanceId,
+          isLeader: status.isLeader,
+          jobs: status.jobs.map((job) => ({
+            ...job,
+            ...stats.find((stat) => stat.jobName === job.name),
+          })),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching background jobs:', error);
+      res.status(500).json({ error: 'Failed to fetch background jobs' });
+    }
+  }
+
+  /**
+   * GET /api/admin/jobs/:jobName/runs
+   * Recent runs of one job, newest first
+   */
+  static async getJobRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { jobName } = req.params;
+      const limit = Math.min(200, parseInt(req.query.limit as string) || 50);
+
+      const runs = await backgroundJobRunner.getJobHistory(jobName, limit);
+
+      res.json({
+        success: true,
+        data: runs,
+      });
+    } catch (error) {
+      console.error('Error fetching job runs:', error);
+      res.status(500).json({ error: 'Failed to fetch job runs' });
+    }
+  }
+
+  /**
+   * GET /api/admin/scheduled-tasks
+   * Pending and running timers (e.g. checkout expiries), soonest first
+   */
+  static async getScheduledTasks(req: Request, res: Response): Promise<void> {
+    try {
+      const type = req.query.type as string | undefined;
+      const limit = Math.min(500, parseInt(req.query.limit as string) || 100);
+
+      const [tasks, counts] = await Promise.all([
+        scheduledTaskService.getOpenTasks(type, limit),
+        scheduledTaskService.getStatusCounts(),
+      ]);
+
+      res.json({
+        success: true,
+        data: { tasks, counts },
+      });
+    } catch (error) {
+      console.error('Error fetching scheduled tasks:', error);
+      res.status(500).json({ error: 'Failed to fetch scheduled tasks' });
+    }
+  }
+}
+
+export default AdminJobsController;
@@ -5,7 +5,11 @@
 
 import { Request, Response } from 'express';
 import { query } from '../utils/database';
-import { getQueueLength, getQueuePosition } from '../utils/redisOperations';
+import { queueEngine } from '../services/queueEngine';
+import { QueueEntry, QueueEntryStatus } from '../services/queueEntryManager';
+import { saleDrawService } from '../services/saleDrawService';
+import { admissionRateController } from '../services/admissionRateController';
+import { queueBindingService, DEVICE_BINDING_POLICIES } from '../services/queueBindingService';
 import { getAnalyticsCollector } from '../services/analyticsCollector';
 
 export interface QueueStats {
@@ -30,54 +34,74 @@ export interface UserInQueue {
   estimated_wait_ms: number;
 }
 
+// Admin views group entry statuses: admitted users hold a pass or bought, dropped ones left
+const ADMIN_QUEUE_STATUS: Record<QueueEntryStatus, UserInQueue['status']> = {
+  waiting: 'waiting',
+  reserved: 'admitted',
+  purchased: 'admitted',
+  cancelled: 'dropped',
+};
+
+function toQueueUser(entry: QueueEntry) {
+  const leftAt = entry.status === 'waiting' ? new Date() : entry.updated_at || new Date();
+
+  return {
+    user_id: entry.user_id,
+    status: ADMIN_QUEUE_STATUS[entry.status],
+    position: entry.position,
+    created_at: entry.joined_at,
+    updated_at: entry.updated_at,
+    wait_time_ms: new Date(leftAt).getTime() - new Date(entry.joined_at).getTime(),
+  };
+}
+
 /**
  * GET /api/admin/queues
  * List all active queues with statistics
  */
 export async function getAllQueues(req: Request, res: Response): Promise<void> {
   try {
-    const { sale_id, status } = req.query;
+    const { sale_id } = req.query;
 
     let queryStr = `
-      SELECT 
-        fs.id,
-        fs.name,
-        COUNT(CASE WHEN qu.status = 'waiting' THEN 1 END) as waiting_count,
-        COUNT(CASE WHEN qu.status = 'admitted' THEN 1 END) as admitted_count,
-        COUNT(CASE WHEN qu.status = 'dropped' THEN 1 END) as dropped_count,
-        COALESCE(AVG(EXTRACT(EPOCH FROM (CASE WHEN qu.status != 'waiting' THEN qu.updated_at ELSE NOW() END - qu.created_at)) * 1000), 0) as avg_wait_ms,
-        COALESCE(MAX(EXTRACT(EPOCH FROM (CASE WHEN qu.status != 'waiting' THEN qu.updated_at ELSE NOW() END - qu.created_at)) * 1000), 0) as max_wait_ms,
-        fs.status as sale_status,
-        fs.start_time,
-        fs.end_time
-      FROM flash_sales fs
-      LEFT JOIN queue_users qu ON fs.id = qu.sale_id
-      WHERE fs.status IN ('active', 'paused')
+      SELECT id, name, status, start_time, end_time
+      FROM flash_sales
+      WHERE status IN ('active', 'paused')
     `;
 
     const params: any[] = [];
 
     if (sale_id) {
-      queryStr += ` AND fs.id = $${params.length + 1}`;
+      queryStr += ` AND id = $${params.length + 1}`;
       params.push(sale_id);
     }
 
-    queryStr += ` GROUP BY fs.id, fs.name, fs.status, fs.start_time, fs.end_time
-                ORDER BY waiting_count DESC`;
-
     const result = await query(queryStr, params);
-    const queues = result.rows.map((row: any) => ({
-      sale_id: row.id,
-      sale_name: row.name,
-      waiting_count: parseInt(row.waiting_count) || 0,
-      admitted_count: parseInt(row.admitted_count) || 0,
-      dropped_count: parseInt(row.dropped_count) || 0,
-      avg_wait_ms: parseFloat(row.avg_wait_ms) || 0,
-      max_wait_ms: parseFloat(row.max_wait_ms) || 0,
-      sale_status: row.sale_status,
-      start_time: row.start_time,
-      end_time: row.end_time,
-    }));
+
+    const queues = await Promise.all(
+      result.rows.map(async (row: any) => {
+        const [waiting, history, waits] = await Promise.all([
+          queueEngine.getQueueLength(row.id),
+          queueEngine.getQueueHistory(row.id),
+          queueEngine.getWaitTimes(row.id),
+        ]);
+
+        return {
+          sale_id: row.id,
+          sale_name: row.name,
+          waiting_count: waiting,
+          admitted_count: history.reserved + history.purchased,
+          dropped_count: history.cancelled,
+          avg_wait_ms: waits.avgWaitMs,
+          max_wait_ms: waits.maxWaitMs,
+          sale_status: row.status,
+          start_time: row.start_time,
+          end_time: row.end_time,
+        };
+      })
+    );
+
+    queues.sort((a, b) => b.waiting_count - a.waiting_count);
 
     res.json({
       total: queues.length,
@@ -96,7 +120,8 @@ export async function getAllQueues(req: Request, res: Response): Promise<void> {
 export async function getQueueDetails(req: Request, res: Response): Promise<void> {
   try {
     const { saleId } = req.params;
-    const { limit = 50, offset = 0 } = req.query;
+    const limit = parseInt(req.query.limit as string, 10) || 50;
+    const offset = parseInt(req.query.offset as string, 10) || 0;
 
     // Get sale info
     const saleQuery = `
@@ -111,43 +136,11 @@ export async function getQueueDetails(req: Request, res: Response): Promise<void
 
     const sale = saleResult.rows[0];
 
-    // Get queue users with pagination
-    const usersQuery = `
-      SELECT 
-        user_id,
-        status,
-        position,
-        created_at,
-        updated_at,
-        EXTRACT(EPOCH FROM (CASE WHEN status != 'waiting' THEN updated_at ELSE NOW() END - created_at)) * 1000 as wait_time_ms
-      FROM queue_users
-      WHERE sale_id = $1
-      ORDER BY position ASC
-      LIMIT $2 OFFSET $3
-    `;
-    const usersResult = await query(usersQuery, [saleId, limit, offset]);
-
-    const users = usersResult.rows.map((row: any) => ({
-      user_id: row.user_id,
-      status: row.status,
-      position: row.position,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      wait_time_ms: parseFloat(row.wait_time_ms),
-    }));
-
-    // Get statistics
-    const statsQuery = `
-      SELECT
-        COUNT(*) as total,
-        COUNT(CASE WHEN status = 'waiting' THEN 1 END) as waiting,
-        COUNT(CASE WHEN status = 'admitted' THEN 1 END) as admitted,
-        COUNT(CASE WHEN status = 'dropped' THEN 1 END) as dropped
-      FROM queue_users
-      WHERE sale_id = $1
-    `;
-    const statsResult = await query(statsQuery, [saleId]);
-    const stats = statsResult.rows[0];
+    const [entries, history, waiting] = await Promise.all([
+      queueEngine.getEntries(saleId, undefined, limit, offset),
+      queueEngine.getQueueHistory(saleId),
+      queueEngine.getQueueLength(saleId),
+    ]);
 
     res.json({
       sale: {
@@ -156,14 +149,14 @@ export async function getQueueDetails(req: Request, res: Response): Promise<void
         status: sale.status,
       },
       stats: {
-        total_in_queue: parseInt(stats.total) || 0,
-        waiting: parseInt(stats.waiting) || 0,
-        admitted: parseInt(stats.admitted) || 0,
-        dropped: parseInt(stats.dropped) || 0,
+        total_in_queue: history.totalJoined,
+        waiting,
+        admitted: history.reserved + history.purchased,
+        dropped: history.cancelled,
       },
-      users,
+      users: entries.map(toQueueUser),
       pagination: {
-        total: stats.total,
+        total: history.totalJoined,
         limit,
         offset,
       },
@@ -193,15 +186,9 @@ export async function admitUsers(req: Request, res: Response): Promise<void> {
     if (user_ids && Array.isArray(user_ids)) {
       usersToAdmit = user_ids;
     } else if (count && typeof count === 'number') {
-      // Get first N users from queue
-      const queryStr = `
-        SELECT user_id FROM queue_users
-        WHERE sale_id = $1 AND status = 'waiting'
-        ORDER BY position ASC
-        LIMIT $2
-      `;
-      const result = await query(queryStr, [saleId, count]);
-      usersToAdmit = result.rows.map((row: any) => row.user_id);
+      // Take the first N users from the head of the queue
+      const head = await queueEngine.getAllQueueUsers(saleId, count);
+      usersToAdmit = head.map((user) => user.userId);
     }
 
     if (usersToAdmit.length === 0) {
@@ -209,18 +196,11 @@ export async function admitUsers(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    // Update users status to admitted
-    const updateQuery = `
-      UPDATE queue_users
-      SET status = 'admitted', updated_at = NOW()
-      WHERE sale_id = $1 AND user_id = ANY($2::text[])
-      RETURNING user_id, status
-    `;
-    const result = await query(updateQuery, [saleId, usersToAdmit]);
+    const admitted = await queueEngine.admitUsers(saleId, usersToAdmit);
 
     // Track event
     const collector = getAnalyticsCollector();
-    usersToAdmit.forEach((userId) => {
+    admitted.forEach((userId) => {
       collector.trackEvent({
         event_type: 'queue_admitted',
         source: 'admin',
@@ -232,8 +212,8 @@ export async function admitUsers(req: Request, res: Response): Promise<void> {
     });
 
     res.json({
-      admitted_count: result.rows.length,
-      users_admitted: result.rows.map((row: any) => row.user_id),
+      admitted_count: admitted.length,
+      users_admitted: admitted,
     });
   } catch (error) {
     console.error('Error admitting users:', error);
@@ -248,42 +228,15 @@ export async function admitUsers(req: Request, res: Response): Promise<void> {
 export async function removeUserFromQueue(req: Request, res: Response): Promise<void> {
   try {
     const { saleId, userId } = req.params;
-    const { reason = 'Admin removal' } = req.body;
+    const { reason = 'Admin removal' } = req.body || {};
 
-    // Get user's current position
-    const positionQuery = `
-      SELECT position, status FROM queue_users
-      WHERE sale_id = $1 AND user_id = $2
-    `;
-    const positionResult = await query(positionQuery, [saleId, userId]);
+    const removed = await queueEngine.leaveQueue(userId, saleId);
 
-    if (positionResult.rows.length === 0) {
+    if (!removed) {
       res.status(404).json({ error: 'User not in queue' });
       return;
     }
 
-    const userPosition = positionResult.rows[0].position;
-    const userStatus = positionResult.rows[0].status;
-
-    // Update user status to dropped
-    const updateQuery = `
-      UPDATE queue_users
-      SET status = 'dropped', updated_at = NOW()
-      WHERE sale_id = $1 AND user_id = $2
-      RETURNING user_id, status
-    `;
-    const result = await query(updateQuery, [saleId, userId]);
-
-    // Reorder remaining users
-    if (userStatus === 'waiting') {
-      const reorderQuery = `
-        UPDATE queue_users
-        SET position = position - 1
-        WHERE sale_id = $1 AND position > $2 AND status = 'waiting'
-      `;
-      await query(reorderQuery, [saleId, userPosition]);
-    }
-
     // Track event
     const collector = getAnalyticsCollector();
     collector.trackEvent({
@@ -314,17 +267,12 @@ export async function removeUserFromQueue(req: Request, res: Response): Promise<
 export async function clearQueue(req: Request, res: Response): Promise<void> {
   try {
     const { saleId } = req.params;
-    const { reason = 'Admin queue clear' } = req.body;
+    const { reason = 'Admin queue clear' } = req.body || {};
 
     // Get all users in queue
-    const usersQuery = `
-      SELECT user_id FROM queue_users
-      WHERE sale_id = $1 AND status = 'waiting'
-    `;
-    const usersResult = await query(usersQuery, [saleId]);
-    const userIds = usersResult.rows.map((row: any) => row.user_id);
+    const waiting = await queueEngine.getQueueLength(saleId);
 
-    if (userIds.length === 0) {
+    if (waiting === 0) {
       res.json({
         cleared_count: 0,
         message: 'Queue already empty',
@@ -332,14 +280,10 @@ export async function clearQueue(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    // Update all waiting users to dropped
-    const clearQuery = `
-      UPDATE queue_users
-      SET status = 'dropped', updated_at = NOW()
-      WHERE sale_id = $1 AND status = 'waiting'
-      RETURNING user_id
-    `;
-    const result = await query(clearQuery, [saleId]);
+    const users = await queueEngine.getAllQueueUsers(saleId, waiting);
+    const userIds = users.map((user) => user.userId);
+
+    const cleared = await queueEngine.clearQueue(saleId);
 
     // Track events for all cleared users
     const collector = getAnalyticsCollector();
@@ -356,7 +300,7 @@ export async function clearQueue(req: Request, res: Response): Promise<void> {
     });
 
     res.json({
-      cleared_count: result.rows.length,
+      cleared_count: cleared,
       users_cleared: userIds,
       reason,
     });
@@ -365,3 +309,100 @@ export async function clearQueue(req: Request, res: Response): Promise<void> {
     res.status(500).json({ error: 'Failed to clear queue' });
   }
 }
+
+/**
+ * POST /api/admin/queues/:saleId/draw
+ * Run a draw sale's draw ahead of its scheduled time
+ */
+export async function runDraw(req: Request, res: Response): Promise<void> {
+  try {
+    const { saleId } = req.params;
+
+    const draw = await queueEngine.runDraw(saleId);
+
+    res.json(draw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Sale is not a draw' || message === 'Sale has already been drawn') {
+      res.status(409).json({ error: message });
+      return;
+    }
+
+    console.error('Error running draw:', error);
+    res.status(500).json({ error: 'Failed to run draw' });
+  }
+}
+
+/**
+ * GET /api/admin/queues/:saleId/draw
+ * Get the full draw record, including every entry and the winners
+ */
+export async function getDrawAudit(req: Request, res: Response): Promise<void> {
+  try {
+    const { saleId } = req.params;
+
+    const audit = await saleDrawService.getAudit(saleId);
+
+    if (!audit) {
+      res.status(404).json({ error: 'No draw for this sale' });
+      return;
+    }
+
+    res.json(audit);
+  } catch (error) {
+    console.error('Error fetching draw audit:', error);
+    res.status(500).json({ error: 'Failed to fetch draw' });
+  }
+}
+
+/**
+ * GET /api/admin/queues/:saleId/admission
+ * Get the admission controller's latest decision for a sale
+ */
+export async function getAdmissionDecision(req: Request, res: Response): Promise<void> {
+  try {
+    const { saleId } = req.params;
+
+    const decision = admissionRateController.getDecision(saleId);
+
+    if (!decision) {
+      res.status(404).json({ error: 'No admission decision for this sale yet' });
+      return;
+    }
+
+    res.json(decision);
+  } catch (error) {
+    console.error('Error fetching admission decision:', error);
+    res.status(500).json({ error: 'Failed to fetch admission decision' });
+  }
+}
+
+/**
+ * PUT /api/admin/queues/:saleId/device-binding
+ * Set what happens when a queue place is used from a new device or session
+ */
+export async function setDeviceBindingPolicy(req: Request, res: Response): Promise<void> {
+  try {
+    const { saleId } = req.params;
+    const { policy } = req.body;
+
+    if (!DEVICE_BINDING_POLICIES.includes(policy)) {
+      res
+        .status(400)
+        .json({ error: `policy must be one of: ${DEVICE_BINDING_POLICIES.join(', ')}` });
+      return;
+    }
+
+    const updated = await queueBindingService.setPolicy(saleId, policy);
+
+    if (!updated) {
+      res.status(404).json({ error: 'Sale not found' });
+      return;
+    }
+
+    res.json({ saleId, policy });
+  } catch (error) {
+    console.error('Error setting device binding policy:', error);
+    res.status(500).json({ error: 'Failed to set device binding policy' });
+  }
+}
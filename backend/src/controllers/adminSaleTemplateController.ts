@@ -0,0 +1,248 @@
+/**
+ * Admin Sale Template Controller
+ * Sale templates, the recurrences that repeat them, and the holidays and blackout dates
+ * on which no recurring sale is made
+ */
+
+import { Request, Response } from 'express';
+import { saleTemplateService } from '../services/saleTemplateService';
+
+// Validation failures are the caller's to fix; a missing template or recurrence is a 404
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  const message = error instanceof Error ? error.message : fallback;
+  res.status(message.includes('not found') ? 404 : 400).json({ error: message });
+};
+
+export class AdminSaleTemplateController {
+  /**
+   * GET /api/admin/sale-templates
+   * Every template with its recurrences
+   */
+  static async listTemplates(_req: Request, res: Response): Promise<void> {
+    try {
+      const templates = await saleTemplateService.listTemplates();
+      const data = await Promise.all(
+        templates.map(async (template) => ({
+          ...template,
+          recurrences: await saleTemplateService.listRecurrences(template.id),
+        }))
+      );
+
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error('Error fetching sale templates:', error);
+      res.status(500).json({ error: 'Failed to fetch sale templates' });
+    }
+  }
+
+  /**
+   * POST /api/admin/sale-templates
+   */
+  static async createTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await saleTemplateService.createTemplate(req.body);
+      res.status(201).json({ success: true, data: template });
+    } catch (error) {
+      console.error('Error creating sale template:', error);
+      sendError(res, error, 'Failed to create sale template');
+    }
+  }
+
+  /**
+   * PUT /api/admin/sale-templates/:templateId
+   * Later sales use the new settings; sales already made are unchanged
+   */
+  static async updateTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await saleTemplateService.updateTemplate(req.params.templateId, req.body);
+      if (!template) {
+        res.status(404).json({ error: 'Sale template not found' });
+        return;
+      }
+
+      res.json({ success: true, data: template });
+    } catch (error) {
+      console.error('Error updating sale template:', error);
+      sendError(res, error, 'Failed to update sale template');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/sale-templates/:templateId
+   */
+  static async deleteTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      if (!(await saleTemplateService.deleteTemplate(req.params.templateId))) {
+        res.status(404).json({ error: 'Sale template not found' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting sale template:', error);
+      res.status(500).json({ error: 'Failed to delete sale template' });
+    }
+  }
+
+  /**
+   * POST /api/admin/sale-templates/:templateId/sales
+   * Make one sale from the template; body.start_time is when it starts
+   */
+  static async createSale(req: Request, res: Response): Promise<void> {
+    try {
+      const startTime = new Date(req.body?.start_time);
+      if (isNaN(startTime.getTime())) {
+        res.status(400).json({ error: 'A valid start_time is required' });
+        return;
+      }
+
+      const template = await saleTemplateService.getTemplate(req.params.templateId);
+      if (!template) {
+        res.status(404).json({ error: 'Sale template not found' });
+        return;
+      }
+
+      const sale = await saleTemplateService.createSaleFromTemplate(template, startTime);
+      res.status(201).json({ success: true, data: sale });
+    } catch (error) {
+      console.error('Error creating sale from template:', error);
+      sendError(res, error, 'Failed to create sale from template');
+    }
+  }
+
+  /**
+   * POST /api/admin/sale-templates/:templateId/recurrences
+   * Repeat the template; the sales due within the horizon are made straight away
+   */
+  static async createRecurrence(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await saleTemplateService.createRecurrence(req.params.templateId, {
+        ...req.body,
+        starts_at: new Date(req.body?.starts_at),
+      });
+
+      res.status(201).json({ success: true, data: result });
+    } catch (error) {
+      console.error('Error creating sale recurrence:', error);
+      sendError(res, error, 'Failed to create sale recurrence');
+    }
+  }
+
+  /**
+   * POST /api/admin/sale-recurrences/preview
+   * Upcoming occurrences of a rule, marking those that fall on holidays or blackout dates
+   */
+  static async previewRecurrence(req: Request, res: Response): Promise<void> {
+    try {
+      const occurrences = await saleTemplateService.previewOccurrences({
+        ...req.body,
+        starts_at: new Date(req.body?.starts_at),
+      });
+
+      res.json({ success: true, data: occurrences });
+    } catch (error) {
+      sendError(res, error, 'Failed to preview sale recurrence');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/sale-recurrences/:recurrenceId
+   * Pause or resume a recurrence, or change its horizon or holiday handling
+   */
+  static async updateRecurrence(req: Request, res: Response): Promise<void> {
+    try {
+      const { active, horizon_days, skip_holidays } = req.body || {};
+      const recurrence = await saleTemplateService.updateRecurrence(req.params.recurrenceId, {
+        active,
+        horizon_days,
+        skip_holidays,
+      });
+      if (!recurrence) {
+        res.status(404).json({ error: 'Sale recurrence not found' });
+        return;
+      }
+
+      res.json({ success: true, data: recurrence });
+    } catch (error) {
+      console.error('Error updating sale recurrence:', error);
+      sendError(res, error, 'Failed to update sale recurrence');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/sale-recurrences/:recurrenceId
+   */
+  static async deleteRecurrence(req: Request, res: Response): Promise<void> {
+    try {
+      if (!(await saleTemplateService.deleteRecurrence(req.params.recurrenceId))) {
+        res.status(404).json({ error: 'Sale recurrence not found' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting sale recurrence:', error);
+      res.status(500).json({ error: 'Failed to delete sale recurrence' });
+    }
+  }
+
+  /**
+   * POST /api/admin/sale-recurrences/generate
+   * Make due recurring sales now instead of waiting for the hourly job
+   */
+  static async generateSales(_req: Request, res: Response): Promise<void> {
+    try {
+      const results = await saleTemplateService.generateUpcomingSales();
+      res.json({ success: true, data: results });
+    } catch (error) {
+      console.error('Error generating recurring sales:', error);
+      res.status(500).json({ error: 'Failed to generate recurring sales' });
+    }
+  }
+
+  /**
+   * GET /api/admin/sale-blackout-dates
+   * Holidays and blackout dates from yesterday on
+   */
+  static async listBlackoutDates(_req: Request, res: Response): Promise<void> {
+    try {
+      const dates = await saleTemplateService.listBlackoutDates();
+      res.json({ success: true, data: dates });
+    } catch (error) {
+      console.error('Error fetching blackout dates:', error);
+      res.status(500).json({ error: 'Failed to fetch blackout dates' });
+    }
+  }
+
+  /**
+   * POST /api/admin/sale-blackout-dates
+   */
+  static async addBlackoutDate(req: Request, res: Response): Promise<void> {
+    try {
+      const date = await saleTemplateService.addBlackoutDate(req.body || {});
+      res.status(201).json({ success: true, data: date });
+    } catch (error) {
+      console.error('Error adding blackout date:', error);
+      sendError(res, error, 'Failed to add blackout date');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/sale-blackout-dates/:blackoutId
+   */
+  static async removeBlackoutDate(req: Request, res: Response): Promise<void> {
+    try {
+      if (!(await saleTemplateService.removeBlackoutDate(req.params.blackoutId))) {
+        res.status(404).json({ error: 'Blackout date not found' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error removing blackout date:', error);
+      res.status(500).json({ error: 'Failed to remove blackout date' });
+    }
+  }
+}
+
+export default AdminSaleTemplateController;
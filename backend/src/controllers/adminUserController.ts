@@ -5,6 +5,7 @@
 
 import { Request, Response } from 'express';
 import { query } from '../utils/database';
+import { inventoryManager } from '../services/inventoryManager';
 
 export interface UserDetails {
   id: string;
@@ -331,6 +332,13 @@ export async function processRefund(req: Request, res: Response): Promise<void>
     `;
     await query(updateOrderQuery, [order_id]);
 
+    // Return the units per the sale's restock policy; the refund itself already went through
+    try {
+      await inventoryManager.restockRefundedOrder(order_id, `Admin refund: ${reason}`);
+    } catch (restockError) {
+      console.error(`Error restocking refunded order ${order_id}:`, restockError);
+    }
+
     // Log activity
     const activityQuery = `
       INSERT INTO user_activity_log (user_id, action_type, description)
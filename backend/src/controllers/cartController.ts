@@ -7,6 +7,8 @@
 
 import { Request, Response } from 'express';
 import cartService from '../services/cartService';
+import { InventoryReservationError } from '../services/inventoryManager';
+import { AdmissionRequiredError } from '../services/admissionPassService';
 
 /**
  * Helper to get user/guest IDs from request
@@ -55,7 +57,7 @@ export const getCart = async (req: Request, res: Response): Promise<void> => {
 export const addToCart = async (req: Request, res: Response): Promise<void> => {
   try {
     const { userId, guestId } = getCartIdentifiers(req);
-    const { productId, saleId, quantity } = req.body;
+    const { productId, saleId, saleItemId, quantity } = req.body;
 
     if (!userId && !guestId) {
       res.status(400).json({
@@ -76,6 +78,7 @@ export const addToCart = async (req: Request, res: Response): Promise<void> => {
     const cart = await cartService.addItem(userId, guestId, {
       productId,
       saleId,
+      saleItemId,
       quantity: parseInt(quantity),
     });
 
@@ -328,7 +331,17 @@ export const reserveInventory = async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    const reservationId = await cartService.reserveInventory(cart);
+    // One admission pass per flash sale in the cart, comma-separated
+    const admissionPasses = ((req.headers?.['x-admission-pass'] as string) || '')
+      .split(',')
+      .map((pass) => pass.trim())
+      .filter(Boolean);
+    const reservationId = await cartService.reserveInventory(
+      cart,
+      undefined,
+      admissionPasses,
+      req.headers?.['x-device-id'] as string | undefined
+    );
 
     res.json({
       success: true,
@@ -336,6 +349,25 @@ export const reserveInventory = async (req: Request, res: Response): Promise<voi
     });
   } catch (error) {
     console.error('Reserve inventory error:', error);
+    if (error instanceof InventoryReservationError) {
+      res.status(409).json({
+        success: false,
+        error: error.message,
+        code: error.reason,
+        saleId: error.saleId,
+      });
+      return;
+    }
+    if (error instanceof AdmissionRequiredError) {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+        code: 'admission_required',
+        reason: error.reason,
+        saleId: error.saleId,
+      });
+      return;
+    }
     res.status(500).json({
       success: false,
       error: (error as Error).message,
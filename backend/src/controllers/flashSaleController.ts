@@ -1,7 +1,19 @@
 import { Request, Response } from 'express';
-import flashSaleService from '../services/flashSaleService';
+import flashSaleService, {
+  CreateFlashSaleItemDto,
+  summarizeSaleItems,
+} from '../services/flashSaleService';
 import inventoryManager from '../services/inventoryManager';
 
+// An item of a multi-SKU sale as posted; prices and stock may arrive as strings
+interface FlashSaleItemInput {
+  product_id: string;
+  variant_sku?: string | null;
+  variant_attributes?: Record<string, string>;
+  flash_price: string | number;
+  quantity_available: string | number;
+}
+
 /**
  * Get all flash sales with optional status filter
  */
@@ -127,10 +139,48 @@ export const getUpcomingFlashSales = async (req: Request, res: Response): Promis
  */
 export const createFlashSale = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { product_id, flash_price, quantity_available, start_time, end_time } = req.body;
+    const {
+      product_id,
+      flash_price,
+      quantity_available,
+      start_time,
+      end_time,
+      max_per_user,
+      max_per_user_overrides,
+      restock_policy,
+      inventory_policy,
+      inventory_buffer,
+      backorder_percent,
+      queue_ordering,
+      draw_at,
+      draw_winner_count,
+    } = req.body;
+
+    // Multi-SKU sales list their products/variants as items, each with its own price and stock
+    const items: CreateFlashSaleItemDto[] | undefined = Array.isArray(req.body.items)
+      ? req.body.items.map((item: FlashSaleItemInput) => ({
+          product_id: item.product_id,
+          variant_sku: item.variant_sku || null,
+          variant_attributes: item.variant_attributes || {},
+          flash_price: parseFloat(String(item.flash_price)),
+          quantity_available: parseInt(String(item.quantity_available), 10),
+        }))
+      : undefined;
 
     // Validation
-    if (!product_id || !flash_price || !quantity_available || !start_time || !end_time) {
+    if (items?.length) {
+      const incompleteItem = items.some(
+        (item) => !item.product_id || !item.flash_price || !item.quantity_available
+      );
+      if (incompleteItem || !start_time || !end_time) {
+        res.status(400).json({
+          success: false,
+          error:
+            'Missing required fields: start_time, end_time, and product_id, flash_price, quantity_available on every item',
+        });
+        return;
+      }
+    } else if (!product_id || !flash_price || !quantity_available || !start_time || !end_time) {
       res.status(400).json({
         success: false,
         error:
@@ -140,15 +190,29 @@ export const createFlashSale = async (req: Request, res: Response): Promise<void
     }
 
     const sale = await flashSaleService.createFlashSale({
-      product_id,
-      flash_price: parseFloat(flash_price),
-      quantity_available: parseInt(quantity_available, 10),
+      ...(items?.length
+        ? summarizeSaleItems(items)
+        : {
+            product_id,
+            flash_price: parseFloat(flash_price),
+            quantity_available: parseInt(quantity_available, 10),
+          }),
       start_time: new Date(start_time),
       end_time: new Date(end_time),
+      max_per_user: max_per_user ? parseInt(max_per_user, 10) : null,
+      max_per_user_overrides,
+      restock_policy,
+      inventory_policy,
+      inventory_buffer: inventory_buffer === undefined ? undefined : Number(inventory_buffer),
+      backorder_percent: backorder_percent === undefined ? undefined : Number(backorder_percent),
+      queue_ordering,
+      draw_at: draw_at ? new Date(draw_at) : null,
+      draw_winner_count: draw_winner_count ? parseInt(draw_winner_count, 10) : null,
+      items,
     });
 
-    // Initialize inventory in Redis
-    await inventoryManager.initializeSaleInventory(sale.id, sale.quantity_available);
+    // Initialize inventory in Redis (one counter per item for multi-SKU sales)
+    await inventoryManager.syncInventoryFromDatabase(sale.id);
 
     res.status(201).json({
       success: true,
@@ -170,15 +234,49 @@ export const createFlashSale = async (req: Request, res: Response): Promise<void
 export const updateFlashSale = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { flash_price, quantity_available, start_time, end_time, status } = req.body;
-
-    const sale = await flashSaleService.updateFlashSale(id, {
-      flash_price: flash_price ? parseFloat(flash_price) : undefined,
-      quantity_available: quantity_available ? parseInt(quantity_available, 10) : undefined,
-      start_time: start_time ? new Date(start_time) : undefined,
-      end_time: end_time ? new Date(end_time) : undefined,
+    const {
+      flash_price,
+      quantity_available,
+      start_time,
+      end_time,
       status,
-    });
+      max_per_user,
+      max_per_user_overrides,
+      restock_policy,
+      inventory_policy,
+      inventory_buffer,
+      backorder_percent,
+      queue_ordering,
+      draw_at,
+      draw_winner_count,
+    } = req.body;
+
+    const sale = await flashSaleService.updateFlashSale(
+      id,
+      {
+        flash_price: flash_price ? parseFloat(flash_price) : undefined,
+        quantity_available: quantity_available ? parseInt(quantity_available, 10) : undefined,
+        start_time: start_time ? new Date(start_time) : undefined,
+        end_time: end_time ? new Date(end_time) : undefined,
+        status,
+        // null clears the limit
+        max_per_user:
+          max_per_user === undefined ? undefined : max_per_user && parseInt(max_per_user, 10),
+        max_per_user_overrides,
+        restock_policy,
+        inventory_policy,
+        inventory_buffer: inventory_buffer === undefined ? undefined : Number(inventory_buffer),
+        backorder_percent: backorder_percent === undefined ? undefined : Number(backorder_percent),
+        queue_ordering,
+        // null clears the draw time / winner count
+        draw_at: draw_at === undefined ? undefined : draw_at && new Date(draw_at),
+        draw_winner_count:
+          draw_winner_count === undefined
+            ? undefined
+            : draw_winner_count && parseInt(draw_winner_count, 10),
+      },
+      req.user && `user:${req.user.id}`
+    );
 
     if (!sale) {
       res.status(404).json({
@@ -213,7 +311,7 @@ export const updateFlashSale = async (req: Request, res: Response): Promise<void
 export const cancelFlashSale = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const sale = await flashSaleService.cancelFlashSale(id);
+    const sale = await flashSaleService.cancelFlashSale(id, req.user && `user:${req.user.id}`);
 
     if (!sale) {
       res.status(404).json({
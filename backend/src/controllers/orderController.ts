@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import orderService, { CreateOrderInput } from '../services/orderService';
 import orderValidator from '../services/orderValidator';
 import paymentProcessor from '../services/paymentProcessor';
+import { InventoryReservationError } from '../services/inventoryManager';
+import { AdmissionRequiredError } from '../services/admissionPassService';
 
 /**
  * Initiate checkout - Create order and reserve inventory
@@ -19,15 +21,19 @@ export const initiateCheckout = async (
       return;
     }
 
-    const { saleId, productId, quantity, shippingAddress } = req.body;
+    const { saleId, itemId, productId, quantity, shippingAddress } = req.body;
 
     // Build order input
     const orderInput: CreateOrderInput = {
       userId,
       saleId,
+      itemId,
       productId,
       quantity: parseInt(quantity, 10) || 1,
       shippingAddress,
+      // Checkout rejects a missing pass with a 403
+      admissionPass: (req.headers?.['x-admission-pass'] as string) || req.body.admissionPass,
+      deviceId: req.headers?.['x-device-id'] as string | undefined,
     };
 
     // Sanitize input
@@ -66,10 +72,30 @@ export const initiateCheckout = async (
         currency: 'INR',
         expiresAt: session.reservationExpiresAt,
         expiresInSeconds: 300,
+        backorderedQuantity: session.backorderedQuantity,
       },
     });
   } catch (error) {
     console.error('Error in initiateCheckout:', error);
+    if (error instanceof InventoryReservationError) {
+      res.status(409).json({
+        success: false,
+        error: error.message,
+        code: error.reason,
+        saleId: error.saleId,
+      });
+      return;
+    }
+    if (error instanceof AdmissionRequiredError) {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+        code: 'admission_required',
+        reason: error.reason,
+        saleId: error.saleId,
+      });
+      return;
+    }
     next(error);
   }
 };
@@ -148,12 +174,37 @@ export const processPayment = async (
     }
 
     // Confirm order
-    const confirmedOrder = await orderService.confirmOrder(
-      orderId,
-      userId,
-      paymentResponse.paymentId,
-      paymentResponse.providerResponse
-    );
+    let confirmedOrder;
+    try {
+      confirmedOrder = await orderService.confirmOrder(
+        orderId,
+        userId,
+        paymentResponse.paymentId,
+        paymentResponse.providerResponse
+      );
+    } catch (error) {
+      if (!(error instanceof InventoryReservationError && error.reason === 'expired')) {
+        throw error;
+      }
+
+      // The hold lapsed while paying and the order was cancelled: give the money back
+      const refund = await paymentProcessor.processRefund({
+        paymentId: paymentResponse.paymentId,
+        amount: parseFloat(order.total_amount),
+        reason: error.message,
+      });
+      if (!refund.success) {
+        console.error(`Refund of payment ${paymentResponse.paymentId} failed:`, refund.error);
+      }
+      res.status(409).json({
+        success: false,
+        error: error.message,
+        code: error.reason,
+        saleId: error.saleId,
+        refunded: refund.success,
+      });
+      return;
+    }
 
     res.status(200).json({
       success: true,
@@ -433,8 +484,8 @@ export const requestRefund = async (
       return;
     }
 
-    // Update order status
-    await orderService.updateOrderStatus(orderId, 'refunded', `Refund processed: ${reason}`);
+    // Update order status and return the units to stock
+    await orderService.markOrderRefunded(orderId, `Refund processed: ${reason}`);
 
     res.status(200).json({
       success: true,
@@ -1,6 +1,15 @@
 import { Request, Response } from 'express';
-import { queueService } from '../services/queueService';
-import { queueEntryManager } from '../services/queueEntryManager';
+import { queueEngine } from '../services/queueEngine';
+import { admissionPassService } from '../services/admissionPassService';
+import { saleDrawService, DRAW_REGISTRATION_CLOSED } from '../services/saleDrawService';
+import { waitingRoomService } from '../services/waitingRoomService';
+import { crossSaleAdmissionService } from '../services/crossSaleAdmissionService';
+import {
+  queueBindingService,
+  getQueueClient,
+  QueueBindingError,
+  REVERIFY_FAILED,
+} from '../services/queueBindingService';
 
 /**
  * Join a flash sale queue
@@ -8,7 +17,7 @@ import { queueEntryManager } from '../services/queueEntryManager';
 export const joinQueue = async (req: Request, res: Response): Promise<void> => {
   try {
     const { saleId } = req.params;
-    const userId = (req as Request & { userId?: string }).userId;
+    const userId = req.user?.id;
 
     if (!userId) {
       res.status(401).json({
@@ -18,11 +27,14 @@ export const joinQueue = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const client = getQueueClient(req);
+
     // Check if user is already in queue
-    const isAlreadyInQueue = await queueService.isInQueue(userId, saleId);
+    const isAlreadyInQueue = await queueEngine.isInQueue(userId, saleId);
     if (isAlreadyInQueue) {
-      // Return current position instead of error
-      const position = await queueService.getQueuePosition(userId, saleId);
+      // Return current position instead of error, to the device holding the place
+      await queueBindingService.check(userId, saleId, client);
+      const position = await queueEngine.getQueuePosition(userId, saleId);
       res.status(200).json({
         success: true,
         message: 'Already in queue',
@@ -31,8 +43,20 @@ export const joinQueue = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Before the start, wait in the waiting room instead
+    if (await waitingRoomService.isOpen(saleId)) {
+      const state = await waitingRoomService.enter(userId, saleId, client.deviceId);
+      res.status(202).json({
+        success: true,
+        message: 'Sale has not started; you are in the waiting room',
+        data: state,
+      });
+      return;
+    }
+
     // Join queue
-    const position = await queueService.joinQueue(userId, saleId);
+    const position = await queueEngine.joinQueue(userId, saleId, client.deviceId);
+    await queueBindingService.bind(userId, saleId, client);
 
     res.status(201).json({
       success: true,
@@ -41,6 +65,30 @@ export const joinQueue = async (req: Request, res: Response): Promise<void> => {
     });
   } catch (error) {
     console.error('Error in joinQueue:', error);
+
+    if (error instanceof QueueBindingError) {
+      res.status(403).json({
+        success: false,
+        message: error.message,
+        code: 'queue_binding_changed',
+        policy: error.policy,
+        saleId: error.saleId,
+      });
+      return;
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === 'Already admitted to this sale' ||
+        error.message === DRAW_REGISTRATION_CLOSED)
+    ) {
+      res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     res.status(500).json({
       success: false,
       message: error instanceof Error ? error.message : 'Failed to join queue',
@@ -55,7 +103,7 @@ export const joinQueue = async (req: Request, res: Response): Promise<void> => {
 export const leaveQueue = async (req: Request, res: Response): Promise<void> => {
   try {
     const { saleId } = req.params;
-    const userId = (req as Request & { userId?: string }).userId;
+    const userId = req.user?.id;
 
     if (!userId) {
       res.status(401).json({
@@ -65,7 +113,15 @@ export const leaveQueue = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const success = await queueService.leaveQueue(userId, saleId);
+    if (await waitingRoomService.leave(userId, saleId)) {
+      res.status(200).json({
+        success: true,
+        message: 'Successfully left waiting room',
+      });
+      return;
+    }
+
+    const success = await queueEngine.leaveQueue(userId, saleId);
 
     if (!success) {
       res.status(404).json({
@@ -95,7 +151,7 @@ export const leaveQueue = async (req: Request, res: Response): Promise<void> =>
 export const getPosition = async (req: Request, res: Response): Promise<void> => {
   try {
     const { saleId } = req.params;
-    const userId = (req as Request & { userId?: string }).userId;
+    const userId = req.user?.id;
 
     if (!userId) {
       res.status(401).json({
@@ -105,7 +161,11 @@ export const getPosition = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const position = await queueService.getQueuePosition(userId, saleId);
+    if (await queueEngine.isInQueue(userId, saleId)) {
+      await queueBindingService.check(userId, saleId, getQueueClient(req));
+    }
+
+    const position = await queueEngine.getQueuePosition(userId, saleId);
 
     res.status(200).json({
       success: true,
@@ -114,6 +174,17 @@ export const getPosition = async (req: Request, res: Response): Promise<void> =>
   } catch (error) {
     console.error('Error in getPosition:', error);
 
+    if (error instanceof QueueBindingError) {
+      res.status(403).json({
+        success: false,
+        message: error.message,
+        code: 'queue_binding_changed',
+        policy: error.policy,
+        saleId: error.saleId,
+      });
+      return;
+    }
+
     if (error instanceof Error && error.message === 'User not in queue') {
       res.status(404).json({
         success: false,
@@ -138,10 +209,10 @@ export const getQueueStats = async (req: Request, res: Response): Promise<void>
     const { saleId } = req.params;
 
     // Get Redis queue stats
-    const redisStats = await queueService.getQueueStats(saleId);
+    const redisStats = await queueEngine.getQueueStats(saleId);
 
     // Get database queue stats
-    const dbStats = await queueEntryManager.getQueueStats(saleId);
+    const dbStats = await queueEngine.getQueueHistory(saleId);
 
     res.status(200).json({
       success: true,
@@ -160,6 +231,67 @@ export const getQueueStats = async (req: Request, res: Response): Promise<void>
   }
 };
 
+/**
+ * Get the countdown to a sale's start, on the server's clock
+ */
+export const getWaitingRoom = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { saleId } = req.params;
+
+    const state = await waitingRoomService.getState(saleId);
+    if (!state) {
+      res.status(404).json({
+        success: false,
+        message: 'Flash sale not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: state,
+    });
+  } catch (error) {
+    console.error('Error in getWaitingRoom:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get waiting room',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get the published record of a draw sale's draw: the seed hash from the start, and the
+ * seed and entry list hash once the draw has run
+ */
+export const getDraw = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { saleId } = req.params;
+
+    const draw = await saleDrawService.getDraw(saleId);
+    if (!draw) {
+      res.status(404).json({
+        success: false,
+        message: 'No draw for this sale yet',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: draw,
+    });
+  } catch (error) {
+    console.error('Error in getDraw:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get draw',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
 /**
  * Get queue length
  */
@@ -167,7 +299,7 @@ export const getQueueLength = async (req: Request, res: Response): Promise<void>
   try {
     const { saleId } = req.params;
 
-    const length = await queueService.getQueueLength(saleId);
+    const length = await queueEngine.getQueueLength(saleId);
 
     res.status(200).json({
       success: true,
@@ -193,7 +325,7 @@ export const getAllQueueUsers = async (req: Request, res: Response): Promise<voi
     const { saleId } = req.params;
     const limit = parseInt(req.query.limit as string, 10) || 100;
 
-    const users = await queueService.getAllQueueUsers(saleId, limit);
+    const users = await queueEngine.getAllQueueUsers(saleId, limit);
 
     res.status(200).json({
       success: true,
@@ -217,7 +349,7 @@ export const clearQueue = async (req: Request, res: Response): Promise<void> =>
   try {
     const { saleId } = req.params;
 
-    const count = await queueService.clearQueue(saleId);
+    const count = await queueEngine.clearQueue(saleId);
 
     res.status(200).json({
       success: true,
@@ -237,11 +369,11 @@ export const clearQueue = async (req: Request, res: Response): Promise<void> =>
 };
 
 /**
- * Get current user's queues
+ * Get current user's queues, with their consolidated status across concurrent sales
  */
 export const getMyQueues = async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = (req as Request & { userId?: string }).userId;
+    const userId = req.user?.id;
 
     if (!userId) {
       res.status(401).json({
@@ -251,12 +383,16 @@ export const getMyQueues = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const queues = await queueEntryManager.getUserQueueHistory(userId, 10);
+    const [queues, status] = await Promise.all([
+      queueEngine.getUserQueueHistory(userId, 10),
+      crossSaleAdmissionService.getUserStatus(userId),
+    ]);
 
     res.status(200).json({
       success: true,
       data: queues,
       count: queues.length,
+      status,
     });
   } catch (error) {
     console.error('Error in getMyQueues:', error);
@@ -268,6 +404,117 @@ export const getMyQueues = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
+/**
+ * Get the admission pass of an admitted user
+ */
+export const getAdmissionPass = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { saleId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    let pass = await admissionPassService.getPass(userId, saleId);
+
+    // A place moved under the 'allow' policy gets a pass signed for the new device
+    if (
+      pass &&
+      (await queueBindingService.check(userId, saleId, getQueueClient(req))) === 'rebound'
+    ) {
+      pass = await admissionPassService.getPass(userId, saleId);
+    }
+
+    if (!pass) {
+      res.status(404).json({
+        success: false,
+        message: 'Not admitted',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: pass,
+    });
+  } catch (error) {
+    console.error('Error in getAdmissionPass:', error);
+
+    if (error instanceof QueueBindingError) {
+      res.status(403).json({
+        success: false,
+        message: error.message,
+        code: 'queue_binding_changed',
+        policy: error.policy,
+        saleId: error.saleId,
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get admission pass',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Move a queue place to the current device after re-entering the password
+ */
+export const rebindQueue = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { saleId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    await queueBindingService.reverify(userId, saleId, getQueueClient(req), req.body.password);
+
+    res.status(200).json({
+      success: true,
+      message: 'Queue place moved to this device',
+    });
+  } catch (error) {
+    console.error('Error in rebindQueue:', error);
+
+    if (error instanceof QueueBindingError) {
+      res.status(403).json({
+        success: false,
+        message: error.message,
+        code: 'queue_binding_changed',
+        policy: error.policy,
+        saleId: error.saleId,
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === REVERIFY_FAILED) {
+      res.status(401).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to move queue place',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
 /**
  * Admit next batch from queue (Admin only)
  */
@@ -276,7 +523,7 @@ export const admitNextBatch = async (req: Request, res: Response): Promise<void>
     const { saleId } = req.params;
     const batchSize = req.body.batchSize ? parseInt(req.body.batchSize, 10) : undefined;
 
-    const admittedUsers = await queueService.admitNextBatch(saleId, batchSize);
+    const admittedUsers = await queueEngine.admitNextBatch(saleId, batchSize);
 
     res.status(200).json({
       success: true,
@@ -6,6 +6,7 @@
 import { Request, Response } from 'express';
 import SalePerformanceService from '../services/salePerformanceService';
 import SaleManagementService from '../services/saleManagementService';
+import { adminActor } from '../middleware/adminAuth';
 
 export const getSaleMetrics = async (req: Request, res: Response) => {
   try {
@@ -95,6 +96,18 @@ export const getSaleStatus = async (req: Request, res: Response) => {
   }
 };
 
+// Status changes the state machine refused are conflicts rather than server errors
+const sendStatusChangeError = (res: Response, error: unknown, fallback: string) => {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'Sale not found') {
+    return res.status(404).json({ error: message });
+  }
+  if (message.startsWith('Cannot transition') || message.startsWith('Sale is no longer')) {
+    return res.status(409).json({ error: message });
+  }
+  return res.status(500).json({ error: fallback });
+};
+
 export const activateSale = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -103,11 +116,11 @@ export const activateSale = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Sale ID is required' });
     }
 
-    await SaleManagementService.activateSale(id);
+    await SaleManagementService.activateSale(id, adminActor(req));
     res.json({ message: 'Sale activated successfully', sale_id: id, status: 'active' });
   } catch (error) {
     console.error('Error activating sale:', error);
-    res.status(500).json({ error: 'Failed to activate sale' });
+    sendStatusChangeError(res, error, 'Failed to activate sale');
   }
 };
 
@@ -119,11 +132,11 @@ export const pauseSale = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Sale ID is required' });
     }
 
-    await SaleManagementService.pauseSale(id);
+    await SaleManagementService.pauseSale(id, adminActor(req));
     res.json({ message: 'Sale paused successfully', sale_id: id, status: 'paused' });
   } catch (error) {
     console.error('Error pausing sale:', error);
-    res.status(500).json({ error: 'Failed to pause sale' });
+    sendStatusChangeError(res, error, 'Failed to pause sale');
   }
 };
 
@@ -135,11 +148,11 @@ export const resumeSale = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Sale ID is required' });
     }
 
-    await SaleManagementService.resumeSale(id);
+    await SaleManagementService.resumeSale(id, adminActor(req));
     res.json({ message: 'Sale resumed successfully', sale_id: id, status: 'active' });
   } catch (error) {
     console.error('Error resuming sale:', error);
-    res.status(500).json({ error: 'Failed to resume sale' });
+    sendStatusChangeError(res, error, 'Failed to resume sale');
   }
 };
 
@@ -152,11 +165,11 @@ export const emergencyStop = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Sale ID is required' });
     }
 
-    await SaleManagementService.emergencyStop(id, reason);
+    await SaleManagementService.emergencyStop(id, reason, adminActor(req));
     res.json({ message: 'Emergency stop executed', sale_id: id, status: 'cancelled' });
   } catch (error) {
     console.error('Error in emergency stop:', error);
-    res.status(500).json({ error: 'Failed to execute emergency stop' });
+    sendStatusChangeError(res, error, 'Failed to execute emergency stop');
   }
 };
 
@@ -182,7 +195,7 @@ export const scheduleSale = async (req: Request, res: Response) => {
       sale_id: id,
       scheduled_start,
       scheduled_end,
-      status: 'scheduled',
+      status: 'upcoming',
     });
   } catch (error) {
     console.error('Error scheduling sale:', error);
@@ -194,7 +207,7 @@ export const scheduleSale = async (req: Request, res: Response) => {
 export const adjustInventory = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { adjustment, reason } = req.body;
+    const { adjustment, reason, item_id } = req.body;
 
     if (!id || adjustment === undefined) {
       return res.status(400).json({ error: 'Sale ID and adjustment amount are required' });
@@ -202,6 +215,7 @@ export const adjustInventory = async (req: Request, res: Response) => {
 
     const newInventory = await SaleManagementService.adjustInventory({
       sale_id: id,
+      item_id: item_id || undefined,
       adjustment,
       reason: reason || 'Manual adjustment',
     });
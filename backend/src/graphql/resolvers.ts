@@ -9,15 +9,15 @@
 import DataLoader from 'dataloader';
 import { ProductService } from '../services/productService';
 import { FlashSaleService } from '../services/flashSaleService';
-import { QueueService } from '../services/queueService';
-import { vipService } from '../services/vipService';
+import { queueEngine, QueuePosition } from '../services/queueEngine';
+import { vipService, VIPTier } from '../services/vipService';
 import { cartService } from '../services/cartService';
+import { inventoryManager } from '../services/inventoryManager';
 import { redisClient } from '../utils/redis';
 
 // Service instances
 const productService = new ProductService();
 const flashSaleService = new FlashSaleService();
-const queueService = new QueueService();
 
 // DataLoader factory for batching
 export const createDataLoaders = () => ({
@@ -49,6 +49,34 @@ function requireAdmin(context: Record<string, unknown>) {
   return user;
 }
 
+// Shape a waiting user's queue position as a GraphQL QueueEntry
+async function toQueueEntry(userId: string, saleId: string, position: QueuePosition) {
+  const [entry, membership] = await Promise.all([
+    queueEngine.getUserEntry(userId, saleId),
+    vipService.getMembership(userId),
+  ]);
+  const vipTier = membership?.isActive ? membership.tier : VIPTier.STANDARD;
+
+  return {
+    id: entry?.id ?? `${saleId}:${userId}`,
+    userId,
+    saleId,
+    position: position.position,
+    priority: entry?.score ?? position.joinedAt.getTime(),
+    joinedAt: position.joinedAt,
+    estimatedWaitTime: position.waitEstimate.expectedSeconds,
+    waitEstimate: {
+      expected: position.waitEstimate.expectedSeconds,
+      low: position.waitEstimate.lowSeconds,
+      high: position.waitEstimate.highSeconds,
+      confidence: position.waitEstimate.confidence,
+      basis: position.waitEstimate.basis,
+    },
+    status: 'WAITING',
+    vipTier: vipTier.toUpperCase(),
+  };
+}
+
 // Resolvers
 export const resolvers = {
   // Custom scalars
@@ -93,11 +121,30 @@ export const resolvers = {
     },
     queueStats: async (sale: any) => {
       try {
-        return await queueService.getQueueStats(sale.id);
+        return await queueEngine.getQueueStats(sale.id);
       } catch {
         return null;
       }
     },
+    items: async (sale: any) => {
+      return sale.items || flashSaleService.getSaleItems(sale.id);
+    },
+  },
+
+  FlashSaleItem: {
+    product: async (item: any, _: any, context: any) => {
+      return context.loaders.productLoader.load(item.product_id);
+    },
+    variantSku: (item: any) => item.variant_sku,
+    attributes: (item: any) => item.variant_attributes,
+    salePrice: (item: any) => parseFloat(item.flash_price),
+    remainingQuantity: async (item: any) => {
+      try {
+        return await inventoryManager.getAvailableInventory(item.flash_sale_id, item.id);
+      } catch {
+        return item.quantity_available;
+      }
+    },
   },
 
   CartItem: {
@@ -211,14 +258,15 @@ export const resolvers = {
     queueEntry: async (_: any, { saleId }: { saleId: string }, context: any) => {
       const user = requireAuth(context);
       try {
-        return await queueService.getQueuePosition(user.id, saleId);
+        const position = await queueEngine.getQueuePosition(user.id, saleId);
+        return await toQueueEntry(user.id, saleId, position);
       } catch {
         return null;
       }
     },
 
     queueMetrics: async (_: any, { saleId }: { saleId: string }) => {
-      return queueService.getQueueStats(saleId);
+      return queueEngine.getQueueHealth(saleId);
     },
 
     // User
@@ -281,28 +329,38 @@ export const resolvers = {
     // Flash Sales
     createFlashSale: async (_: any, { input }: { input: any }, context: any) => {
       requireAdmin(context);
-      return flashSaleService.createFlashSale(input);
+      return flashSaleService.createFlashSale({
+        ...input,
+        items: input.items?.map((item: any) => ({
+          product_id: item.productId,
+          variant_sku: item.variantSku,
+          variant_attributes: item.attributes,
+          flash_price: item.salePrice,
+          quantity_available: item.quantity,
+        })),
+      });
     },
 
     updateFlashSale: async (_: any, { id, input }: { id: string; input: any }, context: any) => {
-      requireAdmin(context);
-      return flashSaleService.updateFlashSale(id, input);
+      const admin = requireAdmin(context);
+      return flashSaleService.updateFlashSale(id, input, `admin:${admin.id}`);
     },
 
     cancelFlashSale: async (_: any, { id }: { id: string }, context: any) => {
-      requireAdmin(context);
-      return flashSaleService.cancelFlashSale(id);
+      const admin = requireAdmin(context);
+      return flashSaleService.cancelFlashSale(id, `admin:${admin.id}`);
     },
 
     // Queue
     joinQueue: async (_: any, { saleId }: { saleId: string }, context: any) => {
       const user = requireAuth(context);
-      return queueService.joinQueue(user.id, saleId);
+      const position = await queueEngine.joinQueue(user.id, saleId);
+      return toQueueEntry(user.id, saleId, position);
     },
 
     leaveQueue: async (_: any, { saleId }: { saleId: string }, context: any) => {
       const user = requireAuth(context);
-      await queueService.leaveQueue(user.id, saleId);
+      await queueEngine.leaveQueue(user.id, saleId);
       return true;
     },
 
@@ -83,9 +83,20 @@ export const typeDefs = gql`
     status: FlashSaleStatus!
     isActive: Boolean!
     queueMetrics: QueueMetrics
+    items: [FlashSaleItem!]!
     createdAt: DateTime
   }
 
+  # A product/variant row of a multi-SKU flash sale, with its own price and stock
+  type FlashSaleItem {
+    id: ID!
+    product: Product!
+    variantSku: String
+    attributes: JSON
+    salePrice: Float!
+    remainingQuantity: Int!
+  }
+
   type QueueEntry {
     id: ID!
     userId: ID!
@@ -94,10 +105,21 @@ export const typeDefs = gql`
     priority: Float!
     joinedAt: DateTime!
     estimatedWaitTime: Int!
+    waitEstimate: WaitEstimate!
     status: QueueStatus!
     vipTier: VIPTier!
   }
 
+  # Wait in seconds from the queue's observed admission and abandonment rate
+  type WaitEstimate {
+    expected: Int!
+    low: Int!
+    # Null when the slowest plausible rate admits nobody
+    high: Int
+    confidence: Float!
+    basis: String!
+  }
+
   type QueueMetrics {
     totalInQueue: Int!
     processingCount: Int!
@@ -278,6 +300,15 @@ export const typeDefs = gql`
     quantity: Int!
     startTime: DateTime!
     endTime: DateTime!
+    items: [FlashSaleItemInput!]
+  }
+
+  input FlashSaleItemInput {
+    productId: ID!
+    variantSku: String
+    attributes: JSON
+    salePrice: Float!
+    quantity: Int!
   }
 
   input CartItemInput {
@@ -14,6 +14,12 @@ export interface AuthenticatedRequest extends Request {
   adminUser?: AdminUser;
 }
 
+/**
+ * The admin behind a request, as recorded against the changes it makes
+ */
+export const adminActor = (req: AuthenticatedRequest): string =>
+  req.adminUser ? `admin:${req.adminUser.id}` : 'admin';
+
 /**
  * Admin Authentication Middleware
  * Validates JWT tokens and verifies admin role
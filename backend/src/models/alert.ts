@@ -14,6 +14,7 @@ export enum AlertType {
   REDIS_MEMORY_HIGH = 'redis_memory_high',
   FAILED_PAYMENT_RATE = 'failed_payment_rate',
   LOW_INVENTORY = 'low_inventory',
+  INVENTORY_DRIFT = 'inventory_drift',
   SALE_ENDING = 'sale_ending',
   SYSTEM_DOWN = 'system_down',
   CUSTOM = 'custom'
@@ -186,6 +187,14 @@ export async function initializeDefaultAlertConfigs(): Promise<void> {
       checkInterval: 60,
       cooldownPeriod: 600,
       severity: AlertSeverity.CRITICAL
+    },
+    {
+      type: AlertType.INVENTORY_DRIFT,
+      threshold: 5,
+      thresholdUnit: 'units',
+      checkInterval: 300,
+      cooldownPeriod: 900,
+      severity: AlertSeverity.WARNING
     }
   ];
 
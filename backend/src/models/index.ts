@@ -19,6 +19,37 @@ export interface Product {
   created_at: Date;
 }
 
+// restock_while_active: refunded units return to the sale while it runs
+// never: refunded units stay out of the sale
+// waitlist: refunded units are set aside until an admin releases them
+export type RestockPolicy = 'restock_while_active' | 'never' | 'waitlist';
+
+// strict: sell exactly the stock
+// buffered: hold inventory_buffer units back (e.g. for customer-service replacements)
+// backorder: keep selling past zero, up to backorder_percent of the stock
+export type InventoryPolicy = 'strict' | 'buffered' | 'backorder';
+
+// fifo: first come, first served
+// priority: VIP tiers move ahead of earlier standard joiners
+// lottery: queue order is drawn at random
+// draw: users register until draw_at, then a seeded draw picks the winners
+export type QueueOrdering = 'fifo' | 'priority' | 'lottery' | 'draw';
+
+// What happens when a queued user shows up from another device or session
+// reject: refuse the new device; the place stays with the original one
+// reverify: refuse until the user re-enters their password, then move the place
+// allow: move the place to the new device (the change is still flagged)
+export type DeviceBindingPolicy = 'reject' | 'reverify' | 'allow';
+
+// A share of a sale's stock put on sale offset_minutes after the start, or before the end.
+// Members of early_access_tiers may buy it as early as their VIP early access allows.
+export interface ReleaseWave {
+  percent: number;
+  offset_minutes: number;
+  from: 'start' | 'end';
+  early_access_tiers?: string[];
+}
+
 // Flash Sale model interface
 export interface FlashSale {
   id: string;
@@ -27,7 +58,49 @@ export interface FlashSale {
   quantity_available: number;
   start_time: Date;
   end_time: Date;
-  status: 'upcoming' | 'active' | 'completed' | 'cancelled';
+  status: 'upcoming' | 'active' | 'paused' | 'completed' | 'cancelled';
+  // When the sale was paused; null unless paused
+  paused_at?: Date | null;
+  // Resuming pushes end_time back by the time spent paused
+  extend_end_on_resume?: boolean;
+  // Per-customer purchase limit; null means unlimited
+  max_per_user?: number | null;
+  // VIP tier -> limit overrides (0 lifts the limit for that tier)
+  max_per_user_overrides?: Record<string, number>;
+  // What happens to units of refunded orders
+  restock_policy?: RestockPolicy;
+  inventory_policy?: InventoryPolicy;
+  inventory_buffer?: number;
+  backorder_percent?: number;
+  // How the sale's queue orders waiting users
+  queue_ordering?: QueueOrdering;
+  // Draw sales: registration closes and the draw runs at draw_at
+  draw_at?: Date | null;
+  // Number of winners; defaults to the quantity available
+  draw_winner_count?: number | null;
+  device_binding_policy?: DeviceBindingPolicy;
+  // Variants and bundle products of a multi-SKU sale; empty for single-product sales
+  items?: FlashSaleItem[];
+  // Sales made from a template, and the occurrence of its recurrence they were made for
+  template_id?: string | null;
+  recurrence_id?: string | null;
+  occurrence_at?: Date | null;
+  // Stock released in waves, in time order; null puts all of it on sale at the start
+  release_waves?: ReleaseWave[] | null;
+  // How many of the waves are on sale
+  waves_released?: number;
+  created_at: Date;
+}
+
+// Flash Sale Item model interface (one product/variant row of a multi-SKU sale)
+export interface FlashSaleItem {
+  id: string;
+  flash_sale_id: string;
+  product_id: string;
+  variant_sku: string | null;
+  variant_attributes: Record<string, string>;
+  flash_price: number;
+  quantity_available: number;
   created_at: Date;
 }
 
@@ -47,8 +120,11 @@ export interface Order {
   order_number: string;
   user_id: string;
   flash_sale_id: string;
+  flash_sale_item_id?: string | null;
   product_id: string;
   quantity: number;
+  // Units sold beyond the stock under a backorder policy; shipped once restocked
+  backordered_quantity?: number;
   unit_price: string;
   total_amount: string;
   status: 'pending' | 'processing' | 'completed' | 'cancelled' | 'refunded';
@@ -0,0 +1,23 @@
+local lease_key = KEYS[1]
+local fence_key = KEYS[2]
+local owner = ARGV[1]
+local ttl_ms = tonumber(ARGV[2])
+local now = ARGV[3]
+
+local current = redis.call('HGET', lease_key, 'owner')
+if current == owner then
+  -- Renewal keeps the fencing token issued on acquisition
+  redis.call('PEXPIRE', lease_key, ttl_ms)
+  return tonumber(redis.call('HGET', lease_key, 'token'))
+end
+
+if current then
+  return 0
+end
+
+-- Every new holder gets a strictly larger token, so writes from a previous holder can be rejected
+local token = redis.call('INCR', fence_key)
+redis.call('HSET', lease_key, 'owner', owner, 'token', token, 'acquired_at', now)
+redis.call('PEXPIRE', lease_key, ttl_ms)
+
+return token
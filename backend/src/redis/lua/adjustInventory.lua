@@ -0,0 +1,19 @@
+local inventory_key = KEYS[1]
+local delta = tonumber(ARGV[1])
+
+local current = redis.call('GET', inventory_key)
+if not current then
+  return nil
+end
+
+current = tonumber(current)
+local updated = current + delta
+-- Removals stop at zero; a count already below zero (backorders) is never pushed lower
+if updated < 0 and delta < 0 then
+  updated = math.min(current, 0)
+end
+
+redis.call('SET', inventory_key, updated)
+
+-- Applied delta differs from the requested one when clamped at zero
+return {updated, updated - current}
@@ -0,0 +1,29 @@
+local queue_key = KEYS[1]
+local passes_key = KEYS[2]
+local scores_key = KEYS[3]
+local expiry_key = KEYS[4]
+local expiry_sales_key = KEYS[5]
+local sale_id = ARGV[1]
+local expires_at = tonumber(ARGV[2])
+-- One pre-generated pass ID per seat in the batch
+local pass_count = #ARGV - 2
+
+local popped = redis.call('ZPOPMIN', queue_key, pass_count)
+-- User, pass ID pairs of the admitted users
+local admitted = {}
+
+for i = 1, #popped, 2 do
+  local user_id = popped[i]
+  local pass_id = ARGV[2 + (i + 1) / 2]
+  redis.call('HSET', passes_key, user_id, pass_id)
+  redis.call('HSET', scores_key, user_id, popped[i + 1])
+  redis.call('ZADD', expiry_key, expires_at, user_id)
+  table.insert(admitted, user_id)
+  table.insert(admitted, pass_id)
+end
+
+if #admitted > 0 then
+  redis.call('SADD', expiry_sales_key, sale_id)
+end
+
+return admitted
@@ -0,0 +1,30 @@
+local queue_key = KEYS[1]
+local passes_key = KEYS[2]
+local scores_key = KEYS[3]
+local expiry_key = KEYS[4]
+local expiry_sales_key = KEYS[5]
+local sale_id = ARGV[1]
+local expires_at = tonumber(ARGV[2])
+
+-- User, pass ID pairs of the admitted users; users no longer waiting are skipped
+local admitted = {}
+
+for i = 3, #ARGV, 2 do
+  local user_id = ARGV[i]
+  local pass_id = ARGV[i + 1]
+  local score = redis.call('ZSCORE', queue_key, user_id)
+  if score then
+    redis.call('ZREM', queue_key, user_id)
+    redis.call('HSET', passes_key, user_id, pass_id)
+    redis.call('HSET', scores_key, user_id, score)
+    redis.call('ZADD', expiry_key, expires_at, user_id)
+    table.insert(admitted, user_id)
+    table.insert(admitted, pass_id)
+  end
+end
+
+if #admitted > 0 then
+  redis.call('SADD', expiry_sales_key, sale_id)
+end
+
+return admitted
@@ -0,0 +1,19 @@
+local reservation_key = KEYS[1]
+local holds_key = KEYS[2]
+local expiry_key = KEYS[3]
+local purchase_counts_key = KEYS[4]
+local user_id = ARGV[1]
+
+-- A hold that was already reclaimed cannot be confirmed
+local quantity = tonumber(redis.call('HGET', holds_key, user_id) or 0)
+if quantity == 0 then
+  return 0
+end
+
+redis.call('HDEL', holds_key, user_id)
+redis.call('ZREM', expiry_key, user_id)
+redis.call('DEL', reservation_key)
+
+-- Confirmed units count against the per-customer purchase limit
+redis.call('HINCRBY', purchase_counts_key, user_id, quantity)
+return quantity
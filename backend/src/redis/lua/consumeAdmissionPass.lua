@@ -0,0 +1,28 @@
+local expiry_sales_key = KEYS[1]
+local user_id = ARGV[1]
+local count = (#ARGV - 1) / 2
+
+-- A pass is good for one checkout; a reissued or used pass no longer matches.
+-- Every pass is checked before any is used, so a cart redeems all of its passes or none.
+for i = 1, count do
+  local passes_key = KEYS[(i - 1) * 3 + 2]
+  if redis.call('HGET', passes_key, user_id) ~= ARGV[i * 2] then
+    return i
+  end
+end
+
+for i = 1, count do
+  local passes_key = KEYS[(i - 1) * 3 + 2]
+  local scores_key = KEYS[(i - 1) * 3 + 3]
+  local expiry_key = KEYS[(i - 1) * 3 + 4]
+
+  redis.call('HDEL', passes_key, user_id)
+  redis.call('HDEL', scores_key, user_id)
+  redis.call('ZREM', expiry_key, user_id)
+
+  if redis.call('ZCARD', expiry_key) == 0 then
+    redis.call('SREM', expiry_sales_key, ARGV[i * 2 + 1])
+  end
+end
+
+return 0
@@ -0,0 +1,31 @@
+local expiry_key = KEYS[1]
+local passes_key = KEYS[2]
+local scores_key = KEYS[3]
+local queue_key = KEYS[4]
+local expiry_sales_key = KEYS[5]
+local sale_id = ARGV[1]
+local limit = tonumber(ARGV[2])
+
+local now = redis.call('TIME')
+local now_ms = tonumber(now[1]) * 1000 + math.floor(tonumber(now[2]) / 1000)
+
+local expired = redis.call('ZRANGEBYSCORE', expiry_key, '-inf', now_ms, 'LIMIT', 0, limit)
+local returned = {}
+
+for _, user_id in ipairs(expired) do
+  local score = redis.call('HGET', scores_key, user_id)
+  -- Back to the place the user held before admission
+  if score then
+    redis.call('ZADD', queue_key, 'NX', score, user_id)
+    table.insert(returned, user_id)
+  end
+  redis.call('HDEL', passes_key, user_id)
+  redis.call('HDEL', scores_key, user_id)
+  redis.call('ZREM', expiry_key, user_id)
+end
+
+if redis.call('ZCARD', expiry_key) == 0 then
+  redis.call('SREM', expiry_sales_key, sale_id)
+end
+
+return returned
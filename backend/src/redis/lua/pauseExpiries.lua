@@ -0,0 +1,20 @@
+-- KEYS[1]: expiry index, KEYS[2]: set of IDs the sweeper visits
+-- ARGV: id in that set, then the prefix and suffix of each holder's own key around the
+--   holder ID ('' when holders have no key of their own)
+local expiry_key = KEYS[1]
+local expiry_sales_key = KEYS[2]
+local id = ARGV[1]
+local holder_prefix = ARGV[2]
+local holder_suffix = ARGV[3]
+
+-- Out of the sweeper's set, nothing in the index expires
+redis.call('SREM', expiry_sales_key, id)
+
+local holders = redis.call('ZRANGE', expiry_key, 0, -1)
+if holder_prefix ~= '' then
+  for _, holder_id in ipairs(holders) do
+    redis.call('PERSIST', holder_prefix .. holder_id .. holder_suffix)
+  end
+end
+
+return #holders
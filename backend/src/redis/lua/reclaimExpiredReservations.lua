@@ -0,0 +1,49 @@
+local expiry_key = KEYS[1]
+local holds_key = KEYS[2]
+local inventory_key = KEYS[3]
+local reclaimed_key = KEYS[4]
+local expiry_sales_key = KEYS[5]
+local sale_id = ARGV[1]
+local limit = tonumber(ARGV[2])
+
+local now = redis.call('TIME')
+local now_ms = tonumber(now[1]) * 1000 + math.floor(tonumber(now[2]) / 1000)
+
+local expired = redis.call('ZRANGEBYSCORE', expiry_key, '-inf', now_ms, 'LIMIT', 0, limit)
+local has_inventory = redis.call('EXISTS', inventory_key) == 1
+local reservations = 0
+local units = 0
+-- Holder, quantity pairs of the reclaimed holds
+local holders = {}
+
+for _, user_id in ipairs(expired) do
+  local quantity = tonumber(redis.call('HGET', holds_key, user_id) or 0)
+  if quantity > 0 then
+    reservations = reservations + 1
+    units = units + quantity
+    table.insert(holders, user_id)
+    table.insert(holders, quantity)
+  end
+  redis.call('HDEL', holds_key, user_id)
+  redis.call('ZREM', expiry_key, user_id)
+end
+
+-- Skip the top-up when the counter is gone; the next sync reloads it from the database
+if not has_inventory then
+  units = 0
+  holders = {}
+end
+
+local available = 0
+if units > 0 then
+  available = redis.call('INCRBY', inventory_key, units)
+  redis.call('INCRBY', reclaimed_key, units)
+elseif has_inventory then
+  available = tonumber(redis.call('GET', inventory_key))
+end
+
+if redis.call('ZCARD', expiry_key) == 0 then
+  redis.call('SREM', expiry_sales_key, sale_id)
+end
+
+return {reservations, units, available, unpack(holders)}
@@ -0,0 +1,9 @@
+local lease_key = KEYS[1]
+local owner = ARGV[1]
+
+if redis.call('HGET', lease_key, 'owner') ~= owner then
+  return 0
+end
+
+redis.call('DEL', lease_key)
+return 1
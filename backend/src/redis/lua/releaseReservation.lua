@@ -1,13 +1,18 @@
 local reservation_key = KEYS[1]
 local inventory_key = KEYS[2]
+local holds_key = KEYS[3]
+local expiry_key = KEYS[4]
+local user_id = ARGV[1]
 
-local quantity = tonumber(redis.call('HGET', reservation_key, 'quantity') or 0)
+local quantity = tonumber(redis.call('HGET', holds_key, user_id) or 0)
+
+redis.call('DEL', reservation_key)
+redis.call('ZREM', expiry_key, user_id)
 
 if quantity == 0 then
-  redis.call('DEL', reservation_key)
-  return 0
+  return {0}
 end
 
-redis.call('INCRBY', inventory_key, quantity)
-redis.call('DEL', reservation_key)
-return quantity
+redis.call('HDEL', holds_key, user_id)
+local available = redis.call('INCRBY', inventory_key, quantity)
+return {quantity, available}
@@ -1,21 +1,79 @@
-local inventory_key = KEYS[1]
-local reservation_key = KEYS[2]
-local user_id = ARGV[1]
-local quantity = tonumber(ARGV[2])
-local ttl = tonumber(ARGV[3])
-
-local current = redis.call('GET', inventory_key)
-if not current then
-  return 0
-end
+-- KEYS[1]: set of sales with indexed reservations
+-- KEYS[2..]: per item -> inventory, reservation, holds, expiry index, purchase counts;
+--   then per item, the holds of every stock of its sale (when the sale has a limit)
+-- ARGV: holder_id, ttl, then per item -> stock_id, quantity, max_per_user (0 = unlimited),
+--   floor (units that must stay in the counter; positive holds a buffer back, negative
+--   allows backorders), number of sale holds keys
+local expiry_sales_key = KEYS[1]
+local holder_id = ARGV[1]
+local ttl = tonumber(ARGV[2])
+local item_count = (#ARGV - 2) / 5
+
+-- Units requested so far per purchase counter (items of one sale share a counter)
+local requested = {}
+
+-- Validate every item before touching stock so a cart is reserved all-or-nothing
+local sale_holds_base = 2 + item_count * 5
+for i = 0, item_count - 1 do
+  local base = 2 + i * 5
+  local quantity = tonumber(ARGV[4 + i * 5])
+  local max_per_user = tonumber(ARGV[5 + i * 5])
+  local floor = tonumber(ARGV[6 + i * 5])
+  local sale_holds_count = tonumber(ARGV[7 + i * 5])
 
-current = tonumber(current)
-if current < quantity then
-  return 0
+  -- One open hold per holder per sale item
+  if redis.call('HEXISTS', KEYS[base + 2], holder_id) == 1 then
+    return {-1, i + 1}
+  end
+
+  -- Units already bought, and units held on any item of the sale, count against the
+  -- per-customer limit
+  local counts_key = KEYS[base + 4]
+  requested[counts_key] = (requested[counts_key] or 0) + quantity
+  if max_per_user > 0 then
+    local taken = tonumber(redis.call('HGET', counts_key, holder_id) or 0)
+    for k = sale_holds_base, sale_holds_base + sale_holds_count - 1 do
+      taken = taken + tonumber(redis.call('HGET', KEYS[k], holder_id) or 0)
+    end
+    if taken + requested[counts_key] > max_per_user then
+      return {-2, i + 1}
+    end
+  end
+  sale_holds_base = sale_holds_base + sale_holds_count
+
+  local current = redis.call('GET', KEYS[base])
+  if not current or tonumber(current) - quantity < floor then
+    return {0, i + 1}
+  end
 end
 
-redis.call('DECRBY', inventory_key, quantity)
-redis.call('HSET', reservation_key, 'quantity', quantity, 'reserved_at', redis.call('TIME')[1], 'user_id', user_id)
-redis.call('EXPIRE', reservation_key, ttl)
+local now = redis.call('TIME')
+local expires_at = tonumber(now[1]) * 1000 + math.floor(tonumber(now[2]) / 1000) + ttl * 1000
+
+-- Available count of each item after its units were taken (negative once backordered)
+local remaining = {}
+
+for i = 0, item_count - 1 do
+  local base = 2 + i * 5
+  local stock_id = ARGV[3 + i * 5]
+  local quantity = tonumber(ARGV[4 + i * 5])
+
+  remaining[i + 1] = redis.call('DECRBY', KEYS[base], quantity)
+
+  -- Units taken below zero are backordered
+  local backordered = 0
+  if remaining[i + 1] < 0 then
+    backordered = math.min(quantity, -remaining[i + 1])
+  end
+
+  redis.call('HSET', KEYS[base + 1], 'quantity', quantity, 'reserved_at', now[1], 'user_id', holder_id,
+    'backordered', backordered)
+  redis.call('EXPIRE', KEYS[base + 1], ttl)
+
+  -- Expiry index: the hold survives the reservation hash so the sweeper can return it
+  redis.call('HSET', KEYS[base + 2], holder_id, quantity)
+  redis.call('ZADD', KEYS[base + 3], expires_at, holder_id)
+  redis.call('SADD', expiry_sales_key, stock_id)
+end
 
-return 1
+return {1, item_count, unpack(remaining)}
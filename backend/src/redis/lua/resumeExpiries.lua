@@ -0,0 +1,27 @@
+-- KEYS[1]: expiry index, KEYS[2]: set of IDs the sweeper visits
+-- ARGV: id in that set, milliseconds to push every expiry back by, then the prefix and
+--   suffix of each holder's own key around the holder ID ('' when holders have none)
+local expiry_key = KEYS[1]
+local expiry_sales_key = KEYS[2]
+local id = ARGV[1]
+local shift_ms = tonumber(ARGV[2])
+local holder_prefix = ARGV[3]
+local holder_suffix = ARGV[4]
+
+local entries = redis.call('ZRANGE', expiry_key, 0, -1, 'WITHSCORES')
+
+for i = 1, #entries, 2 do
+  local holder_id = entries[i]
+  local expires_at = tonumber(entries[i + 1]) + shift_ms
+  redis.call('ZADD', expiry_key, expires_at, holder_id)
+  -- Keys already gone stay gone; the sweeper still returns what the index holds
+  if holder_prefix ~= '' then
+    redis.call('PEXPIREAT', holder_prefix .. holder_id .. holder_suffix, expires_at)
+  end
+end
+
+if #entries > 0 then
+  redis.call('SADD', expiry_sales_key, id)
+end
+
+return #entries / 2
@@ -0,0 +1,19 @@
+local inventory_key = KEYS[1]
+local holds_key = KEYS[2]
+local db_quantity = tonumber(ARGV[1])
+-- Lowest count the sale's policy allows: 0, or minus the backorder allowance
+local min_available = tonumber(ARGV[2] or 0)
+
+-- Units under open holds are still owed to their holders
+local held = 0
+for _, quantity in ipairs(redis.call('HVALS', holds_key)) do
+  held = held + tonumber(quantity)
+end
+
+local available = db_quantity - held
+if available < min_available then
+  available = min_available
+end
+
+redis.call('SET', inventory_key, available)
+return available
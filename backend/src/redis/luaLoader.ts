@@ -2,7 +2,22 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import Redis from 'ioredis';
 
-export type LuaScriptName = 'decrementInventory' | 'reserveInventory' | 'releaseReservation';
+export type LuaScriptName =
+  | 'decrementInventory'
+  | 'reserveInventory'
+  | 'releaseReservation'
+  | 'confirmReservation'
+  | 'reclaimExpiredReservations'
+  | 'adjustInventory'
+  | 'syncInventory'
+  | 'acquireLease'
+  | 'releaseLease'
+  | 'admitQueueBatch'
+  | 'admitQueueUsers'
+  | 'consumeAdmissionPass'
+  | 'expireAdmissionPasses'
+  | 'pauseExpiries'
+  | 'resumeExpiries';
 export type LoadedLuaScript = {
   sha?: string;
   inline: string;
@@ -14,6 +29,18 @@ const SCRIPT_FILENAMES: Record<LuaScriptName, string> = {
   decrementInventory: 'decrementInventory.lua',
   reserveInventory: 'reserveInventory.lua',
   releaseReservation: 'releaseReservation.lua',
+  confirmReservation: 'confirmReservation.lua',
+  reclaimExpiredReservations: 'reclaimExpiredReservations.lua',
+  adjustInventory: 'adjustInventory.lua',
+  syncInventory: 'syncInventory.lua',
+  acquireLease: 'acquireLease.lua',
+  releaseLease: 'releaseLease.lua',
+  admitQueueBatch: 'admitQueueBatch.lua',
+  admitQueueUsers: 'admitQueueUsers.lua',
+  consumeAdmissionPass: 'consumeAdmissionPass.lua',
+  expireAdmissionPasses: 'expireAdmissionPasses.lua',
+  pauseExpiries: 'pauseExpiries.lua',
+  resumeExpiries: 'resumeExpiries.lua',
 };
 
 async function loadScript(
@@ -13,6 +13,12 @@ import {
   getLiveSaleMetrics,
 } from '../services/adminMetricsService';
 import AdminAnalyticsController from '../controllers/adminAnalyticsController';
+import AdminJobsController from '../controllers/adminJobsController';
+import AdminInventoryController from '../controllers/adminInventoryController';
+import AdminSaleTemplateController from '../controllers/adminSaleTemplateController';
+import * as AdminQueueController from '../controllers/adminQueueController';
+import { adminController } from '../controllers/adminController';
+import * as SalePerformanceController from '../controllers/salePerformanceController';
 import {
   requireAdmin,
   requireSuperAdmin,
@@ -112,17 +118,54 @@ router.put('/sales/:id', requireAdmin, requirePermission(AdminPermission.EDIT_SA
   });
 });
 
-// PATCH /api/admin/sales/:saleId/status - Update sale status
+// PATCH /api/admin/sales/:saleId/status - Move a sale through its state machine (e.g. pause)
 router.patch(
   '/sales/:saleId/status',
   requireAdmin,
   requirePermission(AdminPermission.EDIT_SALE),
-  (req, res) => {
-    res.status(200).json({
-      success: true,
-      message: 'Update sale status endpoint - to be implemented',
-    });
-  }
+  handler(adminController.updateSaleStatus.bind(adminController))
+);
+
+// GET /api/admin/sales/:saleId/status-history - Who changed a sale's status, when and why
+router.get(
+  '/sales/:saleId/status-history',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_LOGS),
+  handler(adminController.getSaleStatusHistory.bind(adminController))
+);
+
+// POST /api/admin/sales/:id/{activate,pause,resume,emergency-stop} - Sale controls
+router.post(
+  '/sales/:id/activate',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(SalePerformanceController.activateSale)
+);
+router.post(
+  '/sales/:id/pause',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(SalePerformanceController.pauseSale)
+);
+router.post(
+  '/sales/:id/resume',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(SalePerformanceController.resumeSale)
+);
+router.post(
+  '/sales/:id/emergency-stop',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(SalePerformanceController.emergencyStop)
+);
+
+// POST /api/admin/sales/:id/schedule - Move an upcoming sale's start and end times
+router.post(
+  '/sales/:id/schedule',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(SalePerformanceController.scheduleSale)
 );
 
 // DELETE /api/admin/sales/:id - Delete flash sale
@@ -146,29 +189,188 @@ router.get(
   getLiveSaleMetrics
 );
 
+// POST /api/admin/sales/:saleId/inventory/reconcile - Reconcile sale stock now
+router.post(
+  '/sales/:saleId/inventory/reconcile',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(AdminInventoryController.reconcileSale)
+);
+
+// GET /api/admin/sales/:saleId/inventory/ledger - Stock movement history
+router.get(
+  '/sales/:saleId/inventory/ledger',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_ANALYTICS),
+  handler(AdminInventoryController.getLedger)
+);
+
+// GET /api/admin/sales/:saleId/inventory/restocks - Units returned by refunds
+router.get(
+  '/sales/:saleId/inventory/restocks',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_ANALYTICS),
+  handler(AdminInventoryController.getRestocks)
+);
+
+// POST /api/admin/sales/:saleId/inventory/waitlist/release - Put waitlisted units on sale
+router.post(
+  '/sales/:saleId/inventory/waitlist/release',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(AdminInventoryController.releaseWaitlist)
+);
+
+// GET /api/admin/sales/:saleId/inventory/waves - When each release wave goes on sale
+router.get(
+  '/sales/:saleId/inventory/waves',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_ANALYTICS),
+  handler(AdminInventoryController.getReleaseWaves)
+);
+
+// PUT /api/admin/sales/:saleId/inventory/waves - Set the release waves of an upcoming sale
+router.put(
+  '/sales/:saleId/inventory/waves',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(AdminInventoryController.setReleaseWaves)
+);
+
+// GET /api/admin/sales/:saleId/inventory/reconciliations - Stock drift findings
+router.get(
+  '/sales/:saleId/inventory/reconciliations',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_ANALYTICS),
+  handler(AdminInventoryController.getReconciliations)
+);
+
+/**
+ * Sale Template Routes (Protected)
+ */
+
+// GET /api/admin/sale-templates - Templates with their recurrences
+router.get(
+  '/sale-templates',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_ANALYTICS),
+  handler(AdminSaleTemplateController.listTemplates)
+);
+
+// POST /api/admin/sale-templates - Create a sale template
+router.post(
+  '/sale-templates',
+  requireAdmin,
+  requirePermission(AdminPermission.CREATE_SALE),
+  handler(AdminSaleTemplateController.createTemplate)
+);
+
+// PUT /api/admin/sale-templates/:templateId - Update a sale template
+router.put(
+  '/sale-templates/:templateId',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(AdminSaleTemplateController.updateTemplate)
+);
+
+// DELETE /api/admin/sale-templates/:templateId - Delete a template and its recurrences
+router.delete(
+  '/sale-templates/:templateId',
+  requireAdmin,
+  requirePermission(AdminPermission.DELETE_SALE),
+  handler(AdminSaleTemplateController.deleteTemplate)
+);
+
+// POST /api/admin/sale-templates/:templateId/sales - Make one sale from a template
+router.post(
+  '/sale-templates/:templateId/sales',
+  requireAdmin,
+  requirePermission(AdminPermission.CREATE_SALE),
+  handler(AdminSaleTemplateController.createSale)
+);
+
+// POST /api/admin/sale-templates/:templateId/recurrences - Repeat a template on a schedule
+router.post(
+  '/sale-templates/:templateId/recurrences',
+  requireAdmin,
+  requirePermission(AdminPermission.CREATE_SALE),
+  handler(AdminSaleTemplateController.createRecurrence)
+);
+
+// POST /api/admin/sale-recurrences/preview - Upcoming occurrences of a schedule
+router.post(
+  '/sale-recurrences/preview',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_ANALYTICS),
+  handler(AdminSaleTemplateController.previewRecurrence)
+);
+
+// POST /api/admin/sale-recurrences/generate - Make due recurring sales now
+router.post(
+  '/sale-recurrences/generate',
+  requireAdmin,
+  requirePermission(AdminPermission.CREATE_SALE),
+  handler(AdminSaleTemplateController.generateSales)
+);
+
+// PATCH /api/admin/sale-recurrences/:recurrenceId - Pause, resume or change a recurrence
+router.patch(
+  '/sale-recurrences/:recurrenceId',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(AdminSaleTemplateController.updateRecurrence)
+);
+
+// DELETE /api/admin/sale-recurrences/:recurrenceId - Stop a recurrence
+router.delete(
+  '/sale-recurrences/:recurrenceId',
+  requireAdmin,
+  requirePermission(AdminPermission.DELETE_SALE),
+  handler(AdminSaleTemplateController.deleteRecurrence)
+);
+
+// GET /api/admin/sale-blackout-dates - Holidays and blackout dates
+router.get(
+  '/sale-blackout-dates',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_ANALYTICS),
+  handler(AdminSaleTemplateController.listBlackoutDates)
+);
+
+// POST /api/admin/sale-blackout-dates - Add a holiday or blackout date
+router.post(
+  '/sale-blackout-dates',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(AdminSaleTemplateController.addBlackoutDate)
+);
+
+// DELETE /api/admin/sale-blackout-dates/:blackoutId - Remove a holiday or blackout date
+router.delete(
+  '/sale-blackout-dates/:blackoutId',
+  requireAdmin,
+  requirePermission(AdminPermission.EDIT_SALE),
+  handler(AdminSaleTemplateController.removeBlackoutDate)
+);
+
 /**
  * Queue Management Routes (Protected)
  */
 
 // GET /api/admin/queues - List all active queues
-router.get('/queues', requireAdmin, requirePermission(AdminPermission.MANAGE_QUEUE), (req, res) => {
-  res.status(200).json({
-    success: true,
-    message: 'Queues list endpoint - to be implemented',
-  });
-});
+router.get(
+  '/queues',
+  requireAdmin,
+  requirePermission(AdminPermission.MANAGE_QUEUE),
+  handler(AdminQueueController.getAllQueues)
+);
 
-// GET /api/admin/sales/:saleId/queue - Get queue details for a sale
+// GET /api/admin/queues/:saleId - Get queue details for a sale
 router.get(
-  '/sales/:saleId/queue',
+  '/queues/:saleId',
   requireAdmin,
   requirePermission(AdminPermission.MANAGE_QUEUE),
-  (req, res) => {
-    res.status(200).json({
-      success: true,
-      message: 'Queue details endpoint - to be implemented',
-    });
-  }
+  handler(AdminQueueController.getQueueDetails)
 );
 
 // POST /api/admin/queues/:saleId/admit - Manually admit users
@@ -176,38 +378,55 @@ router.post(
   '/queues/:saleId/admit',
   requireAdmin,
   requirePermission(AdminPermission.ADMIT_USERS),
-  (req, res) => {
-    res.status(200).json({
-      success: true,
-      message: 'Admit users endpoint - to be implemented',
-    });
-  }
+  handler(AdminQueueController.admitUsers)
+);
+
+// DELETE /api/admin/queues/:saleId/user/:userId - Remove specific user from queue
+router.delete(
+  '/queues/:saleId/user/:userId',
+  requireAdmin,
+  requirePermission(AdminPermission.MANAGE_QUEUE),
+  handler(AdminQueueController.removeUserFromQueue)
 );
 
-// POST /api/admin/queue/remove - Remove user from queue
+// POST /api/admin/queues/:saleId/clear - Clear all waiting users
 router.post(
-  '/queue/remove',
+  '/queues/:saleId/clear',
   requireAdmin,
   requirePermission(AdminPermission.MANAGE_QUEUE),
-  (req, res) => {
-    res.status(200).json({
-      success: true,
-      message: 'Remove user from queue endpoint - to be implemented',
-    });
-  }
+  handler(AdminQueueController.clearQueue)
 );
 
-// DELETE /api/admin/queues/:saleId/user/:userId - Remove specific user from queue
-router.delete(
-  '/queues/:saleId/user/:userId',
+// GET /api/admin/queues/:saleId/admission - Latest admission controller decision
+router.get(
+  '/queues/:saleId/admission',
   requireAdmin,
   requirePermission(AdminPermission.MANAGE_QUEUE),
-  (req, res) => {
-    res.status(200).json({
-      success: true,
-      message: 'Remove user from queue endpoint - to be implemented',
-    });
-  }
+  handler(AdminQueueController.getAdmissionDecision)
+);
+
+// PUT /api/admin/queues/:saleId/device-binding - Policy for places used from a new device
+router.put(
+  '/queues/:saleId/device-binding',
+  requireAdmin,
+  requirePermission(AdminPermission.MANAGE_QUEUE),
+  handler(AdminQueueController.setDeviceBindingPolicy)
+);
+
+// GET /api/admin/queues/:saleId/draw - Full draw record with entries and winners
+router.get(
+  '/queues/:saleId/draw',
+  requireAdmin,
+  requirePermission(AdminPermission.MANAGE_QUEUE),
+  handler(AdminQueueController.getDrawAudit)
+);
+
+// POST /api/admin/queues/:saleId/draw - Run a draw sale's draw now
+router.post(
+  '/queues/:saleId/draw',
+  requireAdmin,
+  requirePermission(AdminPermission.ADMIT_USERS),
+  handler(AdminQueueController.runDraw)
 );
 
 /**
@@ -299,6 +518,14 @@ router.post(
   }
 );
 
+// GET /api/admin/scheduled-tasks - Pending checkout expiries and other timers
+router.get(
+  '/scheduled-tasks',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_ORDERS),
+  handler(AdminJobsController.getScheduledTasks)
+);
+
 /**
  * Analytics Routes (Protected)
  */
@@ -355,6 +582,26 @@ router.get(
   }
 );
 
+/**
+ * Background Job Routes (Protected)
+ */
+
+// GET /api/admin/jobs - Job runner leader and per-job run statistics
+router.get(
+  '/jobs',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_LOGS),
+  handler(AdminJobsController.getJobs)
+);
+
+// GET /api/admin/jobs/:jobName/runs - Run history of a job
+router.get(
+  '/jobs/:jobName/runs',
+  requireAdmin,
+  requirePermission(AdminPermission.VIEW_LOGS),
+  handler(AdminJobsController.getJobRuns)
+);
+
 /**
  * System Admin Routes (Super Admin Only)
  */
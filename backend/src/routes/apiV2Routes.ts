@@ -13,7 +13,13 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { ProductService } from '../services/productService';
 import { FlashSaleService } from '../services/flashSaleService';
-import { QueueService } from '../services/queueService';
+import { queueEngine } from '../services/queueEngine';
+import { waitingRoomService } from '../services/waitingRoomService';
+import {
+  queueBindingService,
+  getQueueClient,
+  QueueBindingError,
+} from '../services/queueBindingService';
 import { authMiddleware } from '../middleware/auth';
 
 const router = Router();
@@ -21,7 +27,6 @@ const router = Router();
 // Service instances
 const productService = new ProductService();
 const flashSaleService = new FlashSaleService();
-const queueService = new QueueService();
 
 // ============================================================================
 // API Response Helpers
@@ -336,7 +341,7 @@ router.get('/flash-sales/:id', async (req: Request, res: Response) => {
     // Include queue metrics if sale is active
     let queueStats = null;
     if (sale.status === 'active') {
-      queueStats = await queueService.getQueueStats(req.params.id);
+      queueStats = await queueEngine.getQueueStats(req.params.id);
     }
 
     res.json(successResponse({ ...sale, queueStats }));
@@ -402,12 +407,26 @@ router.post(
   async (req: Request, res: Response) => {
     try {
       const userId = req.user.id;
-      const entry = await queueService.joinQueue(req.params.saleId, userId);
+      const client = getQueueClient(req);
+
+      if (await waitingRoomService.isOpen(req.params.saleId)) {
+        const state = await waitingRoomService.enter(userId, req.params.saleId, client.deviceId);
+        return res.status(202).json(
+          successResponse({
+            ...state,
+            waitingRoom: true,
+            message: 'Sale has not started; you are in the waiting room',
+          }),
+        );
+      }
+
+      const entry = await queueEngine.joinQueue(userId, req.params.saleId, client.deviceId);
+      await queueBindingService.bind(userId, req.params.saleId, client);
 
       res.json(
         successResponse({
           ...entry,
-          estimatedWaitTime: entry.position * 30, // seconds
+          estimatedWaitTime: entry.waitEstimate.expectedSeconds, // seconds
           message: `You are #${entry.position} in queue`,
         }),
       );
@@ -427,23 +446,30 @@ router.post(
 router.get('/queue/:saleId/position', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user.id;
-    const entry = await queueService.getQueuePosition(userId, req.params.saleId);
+    if (await queueEngine.isInQueue(userId, req.params.saleId)) {
+      await queueBindingService.check(userId, req.params.saleId, getQueueClient(req));
+    }
+
+    const entry = await queueEngine.getQueuePosition(userId, req.params.saleId);
 
     if (!entry) {
       return res.status(404).json(errorResponse('Not in queue'));
     }
 
-    const stats = await queueService.getQueueStats(req.params.saleId);
+    const stats = await queueEngine.getQueueStats(req.params.saleId);
 
     res.json(
       successResponse({
         ...entry,
-        estimatedWaitTime: entry.estimatedWaitMinutes * 60,
+        estimatedWaitTime: entry.waitEstimate.expectedSeconds,
         aheadOfYou: entry.totalAhead,
         totalInQueue: stats?.totalWaiting || 0,
       }),
     );
   } catch (error: unknown) {
+    if (error instanceof QueueBindingError) {
+      return res.status(403).json(errorResponse(error.message));
+    }
     res.status(500).json(errorResponse(error instanceof Error ? error.message : 'Unknown error'));
   }
 });
@@ -458,7 +484,7 @@ router.get('/queue/:saleId/position', authMiddleware, async (req: Request, res:
 router.delete('/queue/:saleId/leave', authMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user.id;
-    await queueService.leaveQueue(req.params.saleId, userId);
+    await queueEngine.leaveQueue(userId, req.params.saleId);
     res.json(successResponse({ left: true }));
   } catch (error: unknown) {
     res.status(400).json(errorResponse(error instanceof Error ? error.message : 'Unknown error'));
@@ -477,7 +503,7 @@ router.get(
   endpointRateLimit(60, 60000),
   async (req: Request, res: Response) => {
     try {
-      const stats = await queueService.getQueueStats(req.params.saleId);
+      const stats = await queueEngine.getQueueStats(req.params.saleId);
       res.json(successResponse(stats));
     } catch (error: unknown) {
       res.status(500).json(errorResponse(error instanceof Error ? error.message : 'Unknown error'));
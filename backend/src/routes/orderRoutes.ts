@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authMiddleware } from '../middleware/auth';
+import { checkoutBulkhead } from '../middleware/bulkhead';
 import * as orderController from '../controllers/orderController';
 
 const router = Router();
@@ -10,10 +11,10 @@ const router = Router();
  */
 
 // Initiate checkout (create order and reserve inventory)
-router.post('/checkout', authMiddleware, orderController.initiateCheckout);
+router.post('/checkout', authMiddleware, checkoutBulkhead, orderController.initiateCheckout);
 
 // Process payment and confirm order
-router.post('/payment', authMiddleware, orderController.processPayment);
+router.post('/payment', authMiddleware, checkoutBulkhead, orderController.processPayment);
 
 // Get single order details
 router.get('/:orderId', authMiddleware, orderController.getOrder);
@@ -10,6 +10,10 @@ import {
   clearQueue,
   getMyQueues,
   admitNextBatch,
+  getAdmissionPass,
+  getDraw,
+  getWaitingRoom,
+  rebindQueue,
 } from '../controllers/queueController';
 
 const router = Router();
@@ -17,12 +21,16 @@ const router = Router();
 // Public routes
 router.get('/length/:saleId', getQueueLength);
 router.get('/stats/:saleId', getQueueStats);
+router.get('/draw/:saleId', getDraw);
+router.get('/waiting-room/:saleId', getWaitingRoom);
 
 // Authenticated user routes
 router.post('/join/:saleId', authenticateToken, joinQueue);
 router.delete('/leave/:saleId', authenticateToken, leaveQueue);
 router.get('/position/:saleId', authenticateToken, getPosition);
 router.get('/my-queues', authenticateToken, getMyQueues);
+router.get('/pass/:saleId', authenticateToken, getAdmissionPass);
+router.post('/rebind/:saleId', authenticateToken, rebindQueue);
 
 // Admin routes (require authentication - in production, add admin role check)
 router.get('/users/:saleId', authenticateToken, getAllQueueUsers);
@@ -0,0 +1,50 @@
+import { queueReplayService } from '../services/queueReplay';
+import { testConnection, closePool } from '../utils/database';
+import { closeRedis } from '../utils/redis';
+
+// Usage: npm run queue:replay -- <saleId> [--from-snapshot <snapshotId>]
+async function main() {
+  const [saleId, flag, snapshotId] = process.argv.slice(2);
+  if (!saleId || (flag && (flag !== '--from-snapshot' || !snapshotId))) {
+    console.error('Usage: npm run queue:replay -- <saleId> [--from-snapshot <snapshotId>]');
+    process.exit(1);
+  }
+
+  const connected = await testConnection();
+  if (!connected) {
+    console.error('❌ Cannot connect to database. Exiting...');
+    process.exit(1);
+  }
+
+  try {
+    const report = await queueReplayService.replaySale(saleId, snapshotId);
+
+    console.log(`🔁 Replayed ${report.eventsReplayed} queue events for sale ${saleId}`);
+    if (report.fromSnapshotId) {
+      console.log(`   starting from snapshot ${report.fromSnapshotId}`);
+    }
+    console.log(`   ${report.joined} joined, ${report.admitted} admitted`);
+    console.log(`   ${report.finalQueue.length} waiting at the end`);
+
+    if (report.divergences.length === 0) {
+      console.log('\n✅ Every batch admitted the head of the replayed queue');
+      return;
+    }
+
+    console.log(`\n⚠️  ${report.divergences.length} batches diverged from the replay:`);
+    for (const divergence of report.divergences) {
+      console.log(`  event ${divergence.eventId}`);
+      console.log(`    recorded: ${divergence.recorded.join(', ') || '(none)'}`);
+      console.log(`    replayed: ${divergence.replayed.join(', ') || '(none)'}`);
+    }
+    process.exitCode = 1;
+  } catch (error) {
+    console.error('\n❌ Replay failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+    await closeRedis();
+  }
+}
+
+main();
@@ -0,0 +1,53 @@
+import { queueSnapshotService } from '../services/queueSnapshotService';
+import { testConnection, closePool } from '../utils/database';
+import { closeRedis } from '../utils/redis';
+
+// Usage: npm run queue:restore -- <saleId> [snapshotId]
+//        npm run queue:restore -- <saleId> --list
+async function main() {
+  const [saleId, snapshotArg] = process.argv.slice(2);
+  if (!saleId) {
+    console.error('Usage: npm run queue:restore -- <saleId> [snapshotId | --list]');
+    process.exit(1);
+  }
+
+  const connected = await testConnection();
+  if (!connected) {
+    console.error('❌ Cannot connect to database. Exiting...');
+    process.exit(1);
+  }
+
+  try {
+    if (snapshotArg === '--list') {
+      const snapshots = await queueSnapshotService.listSnapshots(saleId);
+      console.log(`📋 Snapshots for sale ${saleId}:`);
+      for (const snapshot of snapshots) {
+        console.log(
+          `  ${snapshot.id}  ${snapshot.takenAt.toISOString()}  ` +
+            `${snapshot.waitingCount} waiting, ${snapshot.admittedCount} admitted`
+        );
+      }
+      return;
+    }
+
+    console.log(`🚀 Restoring queue for sale ${saleId}...\n`);
+    const result = await queueSnapshotService.restore(saleId, snapshotArg);
+
+    console.log(`✅ Restored snapshot ${result.snapshotId} (${result.takenAt.toISOString()})`);
+    console.log(`   ${result.waiting} waiting, ${result.admitted} admitted`);
+    if (result.eventsSince > 0) {
+      console.log(
+        `⚠️  ${result.eventsSince} queue events were recorded after this snapshot and are not ` +
+          'included; run npm run queue:replay to review them'
+      );
+    }
+  } catch (error) {
+    console.error('\n❌ Restore failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+    await closeRedis();
+  }
+}
+
+main();
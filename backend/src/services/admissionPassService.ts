@@ -0,0 +1,261 @@
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import redisClient from '../utils/redis';
+import * as redisOperations from '../utils/redisOperations';
+import { ADMISSION_PASS_AUDIENCE } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import {
+  ADMISSION_PASS_SALES_KEY,
+  buildAdmissionPassExpiryKey,
+  buildAdmissionPassKey,
+  buildQueueDevicesKey,
+} from '../config/redisKeys';
+import { queueEntryManager } from './queueEntryManager';
+import { queueEventLog } from './queueEventLog';
+
+export type AdmissionFailureReason = 'missing' | 'invalid' | 'expired' | 'device_mismatch' | 'used';
+
+export interface AdmissionPass {
+  token: string;
+  saleId: string;
+  expiresAt: Date;
+}
+
+// Claims carried by a signed pass; the pass ID (jti) is what Redis redeems
+interface AdmissionPassClaims {
+  sub: string;
+  sale: string;
+  dev: string;
+  jti: string;
+}
+
+export class AdmissionRequiredError extends Error {
+  public readonly saleId: string;
+  public readonly reason: AdmissionFailureReason;
+
+  constructor(message: string, reason: AdmissionFailureReason, saleId: string) {
+    super(message);
+    this.name = 'AdmissionRequiredError';
+    this.reason = reason;
+    this.saleId = saleId;
+  }
+}
+
+const ADMISSION_FAILURE_MESSAGES: Record<AdmissionFailureReason, string> = {
+  missing: 'Join the queue and wait for admission before checking out',
+  invalid: 'Admission pass is not valid for this sale',
+  expired: 'Admission pass has expired; you are back in the queue',
+  device_mismatch: 'Admission pass was issued to another device',
+  used: 'Admission pass has already been used',
+};
+
+/**
+ * Short-lived signed passes handed to users admitted from a sale queue.
+ * Checkout and cart reservations redeem a pass once; a pass left unused past its expiry
+ * returns its holder to their old place in the queue. Passes carry their own audience,
+ * so a pass is never accepted as a bearer token nor a bearer token as a pass.
+ */
+class AdmissionPassService {
+  private readonly secret =
+    process.env.ADMISSION_PASS_SECRET ||
+    process.env.JWT_SECRET ||
+    'dev-secret-key-change-in-production';
+  private readonly ttlSeconds = parseInt(process.env.ADMISSION_PASS_TTL_SECONDS || '120', 10);
+
+  /**
+   * Admit up to batchSize users from the head of the queue, each with a fresh pass
+   */
+  async admitBatch(saleId: string, batchSize: number): Promise<string[]> {
+    const passIds = Array.from({ length: batchSize }, () => uuidv4());
+    const expiresAt = Date.now() + this.ttlSeconds * 1000;
+
+    const admitted = await redisOperations.admitQueueBatch(saleId, passIds, expiresAt);
+    return admitted.map(({ userId }) => userId);
+  }
+
+  /**
+   * Admit the given waiting users, each with a fresh pass; returns those still waiting
+   */
+  async admitUsers(
+    saleId: string,
+    userIds: string[],
+    ttlSeconds: number = this.ttlSeconds
+  ): Promise<string[]> {
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+    const users = userIds.map((userId) => ({ userId, passId: uuidv4() }));
+
+    const admitted = await redisOperations.admitQueueUsers(saleId, users, expiresAt);
+    return admitted.map(({ userId }) => userId);
+  }
+
+  /**
+   * Get the signed pass of an admitted user, or null when they hold none
+   */
+  async getPass(userId: string, saleId: string): Promise<AdmissionPass | null> {
+    const [passId, expiresAt, deviceId] = await Promise.all([
+      redisClient.hget(buildAdmissionPassKey(saleId), userId),
+      redisClient.zscore(buildAdmissionPassExpiryKey(saleId), userId),
+      redisClient.hget(buildQueueDevicesKey(saleId), userId),
+    ]);
+
+    if (!passId || expiresAt === null || Number(expiresAt) <= Date.now()) {
+      return null;
+    }
+
+    // Signed on request with the stored expiry, so every copy of a pass is identical
+    const token = jwt.sign(
+      { sale: saleId, dev: deviceId || '', exp: Math.floor(Number(expiresAt) / 1000) },
+      this.secret,
+      { subject: userId, jwtid: passId, audience: ADMISSION_PASS_AUDIENCE }
+    );
+
+    return { token, saleId, expiresAt: new Date(Number(expiresAt)) };
+  }
+
+  /**
+   * Check a pass against the user, sale and device without using it up
+   */
+  verifyPass(
+    token: string | undefined,
+    userId: string,
+    saleId: string,
+    deviceId?: string
+  ): AdmissionPassClaims {
+    if (!token) {
+      throw this.admissionError('missing', saleId);
+    }
+
+    let claims: AdmissionPassClaims;
+    try {
+      claims = jwt.verify(token, this.secret, {
+        audience: ADMISSION_PASS_AUDIENCE,
+      }) as AdmissionPassClaims;
+    } catch (error) {
+      throw this.admissionError(
+        error instanceof jwt.TokenExpiredError ? 'expired' : 'invalid',
+        saleId
+      );
+    }
+
+    if (claims.sub !== userId || claims.sale !== saleId || !claims.jti) {
+      throw this.admissionError('invalid', saleId);
+    }
+
+    if (claims.dev !== (deviceId || '')) {
+      throw this.admissionError('device_mismatch', saleId);
+    }
+
+    return claims;
+  }
+
+  /**
+   * Pick and verify the pass for each sale out of the passes a client sent
+   */
+  verifyPassesForSales(
+    tokens: string[],
+    userId: string,
+    saleIds: string[],
+    deviceId?: string
+  ): AdmissionPassClaims[] {
+    return saleIds.map((saleId) => {
+      const token = tokens.find((candidate) => {
+        const decoded = jwt.decode(candidate) as Partial<AdmissionPassClaims> | null;
+        return decoded?.sale === saleId;
+      });
+      return this.verifyPass(token, userId, saleId, deviceId);
+    });
+  }
+
+  /**
+   * Use up a verified pass; a pass redeems exactly once
+   */
+  async redeemPass(claims: AdmissionPassClaims): Promise<void> {
+    const consumed = await redisOperations.consumeAdmissionPass(
+      claims.sale,
+      claims.sub,
+      claims.jti
+    );
+    if (!consumed) {
+      throw this.admissionError('used', claims.sale);
+    }
+  }
+
+  /**
+   * Use up one user's verified passes together: all of them are redeemed or none is
+   */
+  async redeemPasses(claims: AdmissionPassClaims[]): Promise<void> {
+    if (claims.length === 0) {
+      return;
+    }
+
+    const usedSaleId = await redisOperations.consumeAdmissionPasses(
+      claims[0].sub,
+      claims.map(({ sale, jti }) => ({ saleId: sale, passId: jti }))
+    );
+    if (usedSaleId) {
+      throw this.admissionError('used', usedSaleId);
+    }
+  }
+
+  /**
+   * Whether a user holds an unused pass for a sale
+   */
+  async holdsPass(userId: string, saleId: string): Promise<boolean> {
+    return (await redisClient.hexists(buildAdmissionPassKey(saleId), userId)) === 1;
+  }
+
+  /**
+   * Give up users' unused passes early, returning them to their place in the queue;
+   * returns the users released (passes already redeemed are kept)
+   */
+  async releasePasses(saleId: string, userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    // Expire the passes now and let the expiry script return them, as for a lapsed pass
+    await redisClient.zadd(
+      buildAdmissionPassExpiryKey(saleId),
+      'XX',
+      ...userIds.flatMap((userId) => [0, userId])
+    );
+    const returned = await redisOperations.expireAdmissionPasses(saleId);
+    if (returned.length > 0) {
+      await queueEventLog.record(saleId, { type: 'return', userIds: returned });
+    }
+    await queueEntryManager.transitionUsers(saleId, returned, ['reserved'], 'waiting');
+
+    return returned.filter((userId) => userIds.includes(userId));
+  }
+
+  /**
+   * Return holders of expired, unused passes to the queue (background job)
+   */
+  async expireUnusedPasses(): Promise<number> {
+    const saleIds = await redisClient.smembers(ADMISSION_PASS_SALES_KEY);
+    let returned = 0;
+
+    for (const saleId of saleIds) {
+      const userIds = await redisOperations.expireAdmissionPasses(saleId);
+      if (userIds.length === 0) {
+        continue;
+      }
+
+      await queueEventLog.record(saleId, { type: 'return', userIds });
+      await queueEntryManager.transitionUsers(saleId, userIds, ['reserved'], 'waiting');
+
+      returned += userIds.length;
+      logger.info('Returned users with expired passes to queue', { saleId, count: userIds.length });
+    }
+
+    return returned;
+  }
+
+  private admissionError(reason: AdmissionFailureReason, saleId: string): AdmissionRequiredError {
+    return new AdmissionRequiredError(ADMISSION_FAILURE_MESSAGES[reason], reason, saleId);
+  }
+}
+
+// Export singleton instance
+export const admissionPassService = new AdmissionPassService();
+export default admissionPassService;
@@ -0,0 +1,197 @@
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { logger } from '../utils/logger';
+import { buildAdmissionPassKey } from '../config/redisKeys';
+import { bulkheadManager } from '../middleware/bulkhead';
+import { metricsService } from './metricsService';
+import { inventoryManager } from './inventoryManager';
+import { queueEngine, ADMISSION_TICK_MS } from './queueEngine';
+import { queueEntryManager } from './queueEntryManager';
+import { eventBroadcaster } from './eventBroadcaster';
+
+export type AdmissionDecisionReason =
+  | 'increase' // checkouts keep up with admissions
+  | 'hold' // no checkout signal yet, or checkouts lag admissions
+  | 'congested' // checkout bulkhead saturated or payments slow
+  | 'inventory'; // admitted-but-unpaid users could already buy the remaining stock
+
+export interface AdmissionSignals {
+  completionsPerMinute: number;
+  bulkheadSaturation: number; // 0-1, share of checkout bulkhead capacity in use
+  paymentLatencyMs: number | null;
+  sellableUnits: number;
+  outstandingPasses: number;
+  unitsPerUser: number;
+}
+
+export interface AdmissionDecision {
+  saleId: string;
+  batchSize: number; // Controller's current admission rate, users per tick
+  admitted: number;
+  headroom: number; // Further users the remaining stock can cover
+  reason: AdmissionDecisionReason;
+  signals: AdmissionSignals;
+  decidedAt: Date;
+}
+
+// Control loop
+const COMPLETION_WINDOW_MINUTES = 5;
+const MIN_BATCH_SIZE = 1;
+const MAX_BATCH_SIZE = parseInt(process.env.ADMISSION_MAX_BATCH_SIZE || '200', 10);
+const INCREASE_STEP = 5;
+const DECREASE_FACTOR = 0.5;
+// Checkouts must complete at least this share of a tick's admissions before it grows
+const KEEP_UP_RATIO = 0.5;
+
+// Congestion thresholds
+const CHECKOUT_BULKHEAD = 'checkout';
+const MAX_BULKHEAD_SATURATION = 0.8;
+const PAYMENT_LATENCY_TARGET_MS = parseInt(process.env.PAYMENT_LATENCY_TARGET_MS || '2000', 10);
+
+/**
+ * Closed-loop admission control. Every tick each active sale admits a batch sized from
+ * what checkout is actually doing: the batch grows additively while completed checkouts
+ * keep up, halves when the checkout bulkhead saturates or payments slow down, and is
+ * capped so admitted-but-unpaid users can never outnumber the stock left to sell.
+ *
+ * Bulkhead and payment signals come from this process, so the loop runs on the job
+ * runner leader.
+ */
+class AdmissionRateController {
+  private batchSizes: Map<string, number> = new Map();
+  private decisions: Map<string, AdmissionDecision> = new Map();
+
+  /**
+   * Run one tick for every active sale with users waiting, then send the users still
+   * waiting any wait estimates the new rate changed (background job)
+   */
+  async tick(): Promise<AdmissionDecision[]> {
+    const result = await pool.query(`SELECT id FROM flash_sales WHERE status = 'active'`);
+    const decisions: AdmissionDecision[] = [];
+
+    for (const { id } of result.rows) {
+      if ((await queueEngine.getQueueLength(id)) === 0) {
+        continue;
+      }
+
+      try {
+        decisions.push(await this.tickSale(id));
+        await queueEngine.pushWaitEstimates(id);
+      } catch (error) {
+        logger.error('Admission control failed', {
+          saleId: id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return decisions;
+  }
+
+  /**
+   * Adjust a sale's admission rate from the latest signals and admit a batch
+   */
+  async tickSale(saleId: string): Promise<AdmissionDecision> {
+    const signals = await this.collectSignals(saleId);
+    const current = this.batchSizes.get(saleId) ?? queueEngine.getConfig(saleId).batchSize;
+
+    const { batchSize, reason } = this.adjust(current, signals);
+    this.batchSizes.set(saleId, batchSize);
+    queueEngine.configureQueue(saleId, { batchSize });
+
+    const headroom = Math.max(
+      0,
+      Math.floor(signals.sellableUnits / signals.unitsPerUser) - signals.outstandingPasses
+    );
+    const size = Math.min(batchSize, headroom);
+
+    const admitted = size > 0 ? await queueEngine.admitNextBatch(saleId, size) : [];
+
+    const decision: AdmissionDecision = {
+      saleId,
+      batchSize,
+      admitted: admitted.length,
+      headroom,
+      reason: headroom === 0 ? 'inventory' : reason,
+      signals,
+      decidedAt: new Date(),
+    };
+
+    this.decisions.set(saleId, decision);
+    eventBroadcaster.admissionDecision(decision);
+
+    return decision;
+  }
+
+  /**
+   * Get the latest decision for a sale, or null before its first tick
+   */
+  getDecision(saleId: string): AdmissionDecision | null {
+    return this.decisions.get(saleId) || null;
+  }
+
+  /**
+   * Forget a sale's learned rate, e.g. once it ends
+   */
+  reset(saleId: string): void {
+    this.batchSizes.delete(saleId);
+    this.decisions.delete(saleId);
+  }
+
+  /**
+   * AIMD step: halve on congestion, grow while checkouts keep up, hold otherwise
+   */
+  private adjust(
+    current: number,
+    signals: AdmissionSignals
+  ): { batchSize: number; reason: AdmissionDecisionReason } {
+    const congested =
+      signals.bulkheadSaturation >= MAX_BULKHEAD_SATURATION ||
+      (signals.paymentLatencyMs !== null && signals.paymentLatencyMs >= PAYMENT_LATENCY_TARGET_MS);
+
+    if (congested) {
+      return {
+        batchSize: Math.max(MIN_BATCH_SIZE, Math.floor(current * DECREASE_FACTOR)),
+        reason: 'congested',
+      };
+    }
+
+    const completionsPerTick = (signals.completionsPerMinute * ADMISSION_TICK_MS) / 60000;
+    if (completionsPerTick > 0 && completionsPerTick >= current * KEEP_UP_RATIO) {
+      return { batchSize: Math.min(MAX_BATCH_SIZE, current + INCREASE_STEP), reason: 'increase' };
+    }
+
+    return { batchSize: current, reason: 'hold' };
+  }
+
+  private async collectSignals(saleId: string): Promise<AdmissionSignals> {
+    const [completions, outstandingPasses, inventory, saleResult] = await Promise.all([
+      queueEntryManager.countRecentTransitions(saleId, 'purchased', COMPLETION_WINDOW_MINUTES),
+      redisClient.hlen(buildAdmissionPassKey(saleId)),
+      inventoryManager.getInventoryStats(saleId),
+      pool.query('SELECT max_per_user FROM flash_sales WHERE id = $1', [saleId]),
+    ]);
+
+    const bulkhead = bulkheadManager.getStats(CHECKOUT_BULKHEAD);
+    // Requests waiting for a slot count as full saturation
+    const bulkheadSaturation = bulkhead
+      ? Math.min(1, (bulkhead.activeConcurrent + bulkhead.queueLength) / bulkhead.maxConcurrent)
+      : 0;
+
+    const paymentLatency = metricsService.getRecentPaymentDuration();
+
+    return {
+      completionsPerMinute: completions / COMPLETION_WINDOW_MINUTES,
+      bulkheadSaturation,
+      paymentLatencyMs: paymentLatency === null ? null : Math.round(paymentLatency * 1000),
+      sellableUnits: inventory.sellableQuantity,
+      outstandingPasses,
+      // Without a per-user limit, assume each admitted user buys one unit
+      unitsPerUser: Number(saleResult.rows[0]?.max_per_user) || 1,
+    };
+  }
+}
+
+// Export singleton instance
+export const admissionRateController = new AdmissionRateController();
+export default admissionRateController;
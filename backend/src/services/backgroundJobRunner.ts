@@ -1,15 +1,28 @@
 import pool from '../utils/database';
 import redisClient from '../utils/redis';
+import { logger } from '../utils/logger';
 import { FlashSale } from '../models';
 import { stateMachine } from './stateMachine';
 import { inventoryManager } from './inventoryManager';
 import { saleTimingService } from './saleTimingService';
-import { queueEntryManager } from './queueEntryManager';
+import { queueEngine, ADMISSION_TICK_MS } from './queueEngine';
+import { queuePresenceService } from './queuePresenceService';
+import { queueSnapshotService } from './queueSnapshotService';
+import { scheduledTaskService } from './scheduledTaskService';
+import { inventoryReconciliationService } from './inventoryReconciliationService';
+import { admissionPassService } from './admissionPassService';
+import { saleDrawService } from './saleDrawService';
+import { waitingRoomService } from './waitingRoomService';
+import { admissionRateController } from './admissionRateController';
+import { saleTemplateService } from './saleTemplateService';
+import { releaseWaveService } from './releaseWaveService';
+import { LeaderElection, LeaseHolder } from './leaderElection';
 
 interface JobConfig {
   name: string;
   interval: number; // in milliseconds
   enabled: boolean;
+  leaderOnly: boolean; // Runs only on the replica holding the job runner lease
   lastRun?: Date;
 }
 
@@ -22,6 +35,30 @@ interface JobResult {
   error?: string;
 }
 
+interface JobRun {
+  id: string;
+  job_name: string;
+  instance_id: string;
+  fencing_token: number | null;
+  success: boolean;
+  message: string | null;
+  error: string | null;
+  items_processed: number | null;
+  duration_ms: number;
+  started_at: Date;
+  finished_at: Date;
+}
+
+interface JobStats {
+  jobName: string;
+  lastRun: JobRun | null;
+  runs24h: number;
+  failures24h: number;
+  avgDurationMs24h: number;
+}
+
+const JOB_HISTORY_RETENTION_DAYS = 7;
+
 class BackgroundJobRunner {
   private jobs: Map<string, NodeJS.Timeout> = new Map();
   private isRunning: boolean = false;
@@ -30,28 +67,94 @@ class BackgroundJobRunner {
       name: 'updateSaleStatuses',
       interval: 60 * 1000, // Every 1 minute
       enabled: true,
+      leaderOnly: true,
+    },
+    {
+      name: 'releaseDueWaves',
+      interval: 60 * 1000, // Every 1 minute, behind the sale scheduler's timers
+      enabled: true,
+      leaderOnly: true,
     },
     {
       name: 'syncInventory',
       interval: 5 * 60 * 1000, // Every 5 minutes
       enabled: true,
+      leaderOnly: true,
     },
     {
       name: 'cleanupExpiredReservations',
-      interval: 10 * 60 * 1000, // Every 10 minutes
+      interval: 5 * 1000, // Every 5 seconds, so expired holds return to stock promptly
       enabled: true,
+      leaderOnly: true,
     },
     {
       name: 'refreshActiveSalesCache',
       interval: 2 * 60 * 1000, // Every 2 minutes
       enabled: true,
+      leaderOnly: true,
     },
     {
       name: 'timeoutExpiredQueueReservations',
       interval: 5 * 60 * 1000, // Every 5 minutes
       enabled: true,
+      leaderOnly: true,
+    },
+    {
+      name: 'expireAdmissionPasses',
+      interval: 5 * 1000, // Every 5 seconds, so unused passes go back to the queue promptly
+      enabled: true,
+      leaderOnly: true,
+    },
+    {
+      name: 'admitFromQueues',
+      interval: ADMISSION_TICK_MS, // Each run is one tick of the admission control loop
+      enabled: true,
+      leaderOnly: true,
+    },
+    {
+      name: 'runDueDraws',
+      interval: 10 * 1000, // Every 10 seconds
+      enabled: true,
+      leaderOnly: true,
+    },
+    {
+      name: 'broadcastWaitingRoomCountdowns',
+      interval: 5 * 1000, // Every 5 seconds
+      enabled: true,
+      leaderOnly: false, // Each replica updates the clients connected to it
+    },
+    {
+      name: 'evictIdleQueueUsers',
+      interval: 15 * 1000, // Every 15 seconds
+      enabled: true,
+      leaderOnly: true,
+    },
+    {
+      name: 'snapshotQueues',
+      interval: 30 * 1000, // Every 30 seconds
+      enabled: true,
+      leaderOnly: true,
+    },
+    {
+      name: 'processScheduledTasks',
+      interval: 5 * 1000, // Every 5 seconds, e.g. checkout expiries
+      enabled: true,
+      leaderOnly: false,
+    },
+    {
+      name: 'generateRecurringSales',
+      interval: 60 * 60 * 1000, // Every hour
+      enabled: true,
+      leaderOnly: true,
+    },
+    {
+      name: 'pruneJobHistory',
+      interval: 60 * 60 * 1000, // Every hour
+      enabled: true,
+      leaderOnly: true,
     },
   ];
+  private leader = new LeaderElection('background_jobs');
 
   /**
    * Start all background jobs
@@ -65,14 +168,26 @@ class BackgroundJobRunner {
     console.log('Starting background jobs...');
     this.isRunning = true;
 
-    // Run each job immediately on startup
-    this.jobConfigs.forEach((config) => {
-      if (config.enabled) {
-        this.executeJob(config.name);
+    // Run each job immediately on startup, once this replica knows whether it leads
+    this.leader.start().finally(() => {
+      if (!this.isRunning) {
+        return;
       }
+
+      this.jobConfigs.forEach((config) => {
+        if (config.enabled) {
+          this.executeJob(config.name);
+        }
+      });
     });
 
-    // Schedule recurring jobs
+    this.scheduleJobs();
+  }
+
+  /**
+   * Schedule recurring jobs
+   */
+  private scheduleJobs(): void {
     this.jobConfigs.forEach((config) => {
       if (config.enabled) {
         const intervalId = setInterval(() => {
@@ -96,13 +211,18 @@ class BackgroundJobRunner {
 
     console.log('Stopping background jobs...');
 
+    this.clearJobs();
+    this.isRunning = false;
+    this.leader.stop();
+  }
+
+  private clearJobs(): void {
     this.jobs.forEach((intervalId, jobName) => {
       clearInterval(intervalId);
       console.log(`Stopped job: ${jobName}`);
     });
 
     this.jobs.clear();
-    this.isRunning = false;
   }
 
   /**
@@ -110,6 +230,18 @@ class BackgroundJobRunner {
    */
   private async executeJob(jobName: string): Promise<JobResult> {
     const startTime = Date.now();
+    const config = this.jobConfigs.find((c) => c.name === jobName);
+    const fencingToken = this.leader.getFencingToken();
+
+    // Another replica holds the lease and runs this job
+    if (config?.leaderOnly && fencingToken === 0) {
+      return {
+        jobName,
+        success: true,
+        message: 'Skipped: not the leader',
+        duration: 0,
+      };
+    }
 
     try {
       console.log(`[${new Date().toISOString()}] Running job: ${jobName}`);
@@ -132,6 +264,36 @@ class BackgroundJobRunner {
         case 'timeoutExpiredQueueReservations':
           result = await this.timeoutExpiredQueueReservationsJob();
           break;
+        case 'expireAdmissionPasses':
+          result = await this.expireAdmissionPassesJob();
+          break;
+        case 'admitFromQueues':
+          result = await this.admitFromQueuesJob();
+          break;
+        case 'runDueDraws':
+          result = await this.runDueDrawsJob();
+          break;
+        case 'broadcastWaitingRoomCountdowns':
+          result = await this.broadcastWaitingRoomCountdownsJob();
+          break;
+        case 'evictIdleQueueUsers':
+          result = await this.evictIdleQueueUsersJob();
+          break;
+        case 'snapshotQueues':
+          result = await this.snapshotQueuesJob();
+          break;
+        case 'processScheduledTasks':
+          result = await this.processScheduledTasksJob();
+          break;
+        case 'generateRecurringSales':
+          result = await this.generateRecurringSalesJob();
+          break;
+        case 'releaseDueWaves':
+          result = await this.releaseDueWavesJob();
+          break;
+        case 'pruneJobHistory':
+          result = await this.pruneJobHistoryJob();
+          break;
         default:
           result = {
             jobName,
@@ -143,12 +305,16 @@ class BackgroundJobRunner {
       }
 
       // Update last run time
-      const config = this.jobConfigs.find((c) => c.name === jobName);
       if (config) {
         config.lastRun = new Date();
       }
 
       result.duration = Date.now() - startTime;
+      this.recordRun(result, startTime, fencingToken);
+
+      if (config?.leaderOnly && !this.leader.isLeader()) {
+        logger.warn('Lease lapsed while job was running', { jobName, fencingToken });
+      }
 
       if (result.success) {
         console.log(`[${new Date().toISOString()}] Completed: ${jobName} (${result.duration}ms)`);
@@ -161,25 +327,57 @@ class BackgroundJobRunner {
       const duration = Date.now() - startTime;
       console.error(`[${new Date().toISOString()}] Error in job ${jobName}:`, error);
 
-      return {
+      const result: JobResult = {
         jobName,
         success: false,
         message: `Job execution failed`,
         duration,
         error: error instanceof Error ? error.message : 'Unknown error',
       };
+      this.recordRun(result, startTime, fencingToken);
+
+      return result;
     }
   }
 
+  /**
+   * Persist a run to the job history; failures here never fail the job
+   */
+  private recordRun(result: JobResult, startTime: number, fencingToken: number): void {
+    pool
+      .query(
+        `INSERT INTO background_job_runs
+           (job_name, instance_id, fencing_token, success, message, error, items_processed, duration_ms, started_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          result.jobName,
+          this.leader.instanceId,
+          fencingToken || null,
+          result.success,
+          result.message,
+          result.error || null,
+          result.itemsProcessed ?? null,
+          result.duration,
+          new Date(startTime),
+        ]
+      )
+      .catch((error) => {
+        logger.error('Failed to record job run', {
+          jobName: result.jobName,
+          error: (error as Error).message,
+        });
+      });
+  }
+
   /**
    * Job: Update sale statuses based on timing
    */
   private async updateSaleStatusesJob(): Promise<JobResult> {
     try {
-      // Get all active and upcoming sales
+      // Get all active, paused and upcoming sales
       const query = `
         SELECT * FROM flash_sales 
-        WHERE status IN ('upcoming', 'active')
+        WHERE status IN ('upcoming', 'active', 'paused')
         ORDER BY start_time ASC
       `;
 
@@ -203,12 +401,26 @@ class BackgroundJobRunner {
 
       // Activate upcoming sales
       for (const sale of toActivate) {
-        updates.push(stateMachine.transition(sale.id, 'active', 'Automatic activation'));
+        updates.push(
+          stateMachine.transition(
+            sale.id,
+            'active',
+            'Automatic activation',
+            'job:updateSaleStatuses'
+          )
+        );
       }
 
-      // Complete active sales
+      // Complete active sales, and paused sales past their end
       for (const sale of toComplete) {
-        updates.push(stateMachine.transition(sale.id, 'completed', 'Automatic completion'));
+        updates.push(
+          stateMachine.transition(
+            sale.id,
+            'completed',
+            'Automatic completion',
+            'job:updateSaleStatuses'
+          )
+        );
       }
 
       await Promise.all(updates);
@@ -234,48 +446,28 @@ class BackgroundJobRunner {
   }
 
   /**
-   * Job: Sync inventory between Redis and PostgreSQL
+   * Job: Reconcile inventory between Redis, PostgreSQL and the order history
    */
   private async syncInventoryJob(): Promise<JobResult> {
     try {
-      // Get all active sales
-      const query = `
-        SELECT * FROM flash_sales 
-        WHERE status = 'active'
-      `;
+      // Drift is corrected within bounds rather than overwriting the database with Redis
+      const results = await inventoryReconciliationService.reconcileActiveSales();
 
-      const result = await pool.query<FlashSale>(query);
-      const activeSales = result.rows;
-
-      if (activeSales.length === 0) {
-        return {
-          jobName: 'syncInventory',
-          success: true,
-          message: 'No active sales to sync',
-          duration: 0,
-          itemsProcessed: 0,
-        };
-      }
-
-      // Sync each sale's inventory
-      const syncPromises = activeSales.map((sale) =>
-        inventoryManager.syncInventoryToDatabase(sale.id)
-      );
-
-      await Promise.all(syncPromises);
+      const drifted = results.reduce((sum, result) => sum + result.drifted, 0);
+      const corrected = results.reduce((sum, result) => sum + result.corrected, 0);
 
       return {
         jobName: 'syncInventory',
         success: true,
-        message: `Synced inventory for ${activeSales.length} active sales`,
+        message: `Reconciled inventory for ${results.length} active sales (${drifted} drifted, ${corrected} corrected)`,
         duration: 0,
-        itemsProcessed: activeSales.length,
+        itemsProcessed: results.length,
       };
     } catch (error) {
       return {
         jobName: 'syncInventory',
         success: false,
-        message: 'Failed to sync inventory',
+        message: 'Failed to reconcile inventory',
         duration: 0,
         error: error instanceof Error ? error.message : 'Unknown error',
       };
@@ -287,36 +479,16 @@ class BackgroundJobRunner {
    */
   private async cleanupExpiredReservationsJob(): Promise<JobResult> {
     try {
-      // Get all active sales
-      const query = `
-        SELECT * FROM flash_sales 
-        WHERE status = 'active'
-      `;
+      // Sweep the reservation expiry index and return expired holds to stock
+      const results = await inventoryManager.cleanupExpiredReservations();
 
-      const result = await pool.query<FlashSale>(query);
-      const activeSales = result.rows;
-
-      if (activeSales.length === 0) {
-        return {
-          jobName: 'cleanupExpiredReservations',
-          success: true,
-          message: 'No active sales with reservations',
-          duration: 0,
-          itemsProcessed: 0,
-        };
-      }
-
-      // Cleanup reservations for each sale
-      // Note: inventoryManager.cleanupExpiredReservations doesn't take saleId parameter
-      const cleanupPromises = activeSales.map(() => Promise.resolve(0));
-
-      const results = await Promise.all(cleanupPromises);
-      const totalCleaned = results.reduce((sum: number, count: number) => sum + count, 0);
+      const totalCleaned = results.reduce((sum, result) => sum + result.reservations, 0);
+      const totalUnits = results.reduce((sum, result) => sum + result.units, 0);
 
       return {
         jobName: 'cleanupExpiredReservations',
         success: true,
-        message: `Cleaned up ${totalCleaned} expired reservations`,
+        message: `Reclaimed ${totalUnits} units from ${totalCleaned} expired reservations across ${results.length} sales`,
         duration: 0,
         itemsProcessed: totalCleaned,
       };
@@ -396,7 +568,7 @@ class BackgroundJobRunner {
   private async timeoutExpiredQueueReservationsJob(): Promise<JobResult> {
     try {
       // Timeout expired reservations
-      const count = await queueEntryManager.timeoutExpiredReservations();
+      const count = await queueEngine.timeoutExpiredReservations();
 
       return {
         jobName: 'timeoutExpiredQueueReservations',
@@ -416,14 +588,291 @@ class BackgroundJobRunner {
     }
   }
 
+  /**
+   * Job: Return users holding expired, unused admission passes to the queue
+   */
+  private async expireAdmissionPassesJob(): Promise<JobResult> {
+    try {
+      const count = await admissionPassService.expireUnusedPasses();
+
+      return {
+        jobName: 'expireAdmissionPasses',
+        success: true,
+        message: `Returned ${count} users with expired admission passes to the queue`,
+        duration: 0,
+        itemsProcessed: count,
+      };
+    } catch (error) {
+      return {
+        jobName: 'expireAdmissionPasses',
+        success: false,
+        message: 'Failed to expire admission passes',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Job: Admit the next batch from each active sale's queue at the controlled rate
+   */
+  private async admitFromQueuesJob(): Promise<JobResult> {
+    try {
+      const decisions = await admissionRateController.tick();
+      const admitted = decisions.reduce((sum, decision) => sum + decision.admitted, 0);
+
+      return {
+        jobName: 'admitFromQueues',
+        success: true,
+        message: `Admitted ${admitted} users across ${decisions.length} queues`,
+        duration: 0,
+        itemsProcessed: admitted,
+      };
+    } catch (error) {
+      return {
+        jobName: 'admitFromQueues',
+        success: false,
+        message: 'Failed to admit users from queues',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Job: Run the draw of every draw sale whose draw time has passed
+   */
+  private async runDueDrawsJob(): Promise<JobResult> {
+    try {
+      const saleIds = await saleDrawService.getDueSaleIds();
+      let drawn = 0;
+
+      for (const saleId of saleIds) {
+        try {
+          await queueEngine.runDraw(saleId);
+          drawn++;
+        } catch (error) {
+          logger.error('Failed to run draw', { saleId, error: (error as Error).message });
+        }
+      }
+
+      return {
+        jobName: 'runDueDraws',
+        success: true,
+        message: `Ran ${drawn} of ${saleIds.length} due draws`,
+        duration: 0,
+        itemsProcessed: drawn,
+      };
+    } catch (error) {
+      return {
+        jobName: 'runDueDraws',
+        success: false,
+        message: 'Failed to run due draws',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Job: Evict queued users who stopped heartbeating and haven't come back within the
+   * grace period
+   */
+  private async evictIdleQueueUsersJob(): Promise<JobResult> {
+    try {
+      const saleIds = await queuePresenceService.getTrackedSaleIds();
+      let evicted = 0;
+
+      for (const saleId of saleIds) {
+        evicted += (await queueEngine.evictIdleUsers(saleId)).length;
+      }
+
+      return {
+        jobName: 'evictIdleQueueUsers',
+        success: true,
+        message: `Evicted ${evicted} idle users from ${saleIds.length} queues`,
+        duration: 0,
+        itemsProcessed: evicted,
+      };
+    } catch (error) {
+      return {
+        jobName: 'evictIdleQueueUsers',
+        success: false,
+        message: 'Failed to evict idle queue users',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Job: Snapshot the Redis queue of every active sale to Postgres, for restoring after
+   * Redis loses it
+   */
+  private async snapshotQueuesJob(): Promise<JobResult> {
+    try {
+      const taken = await queueSnapshotService.snapshotActiveSales();
+
+      return {
+        jobName: 'snapshotQueues',
+        success: true,
+        message: `Took ${taken} queue snapshots`,
+        duration: 0,
+        itemsProcessed: taken,
+      };
+    } catch (error) {
+      return {
+        jobName: 'snapshotQueues',
+        success: false,
+        message: 'Failed to snapshot queues',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Job: Send open waiting rooms the countdown to their sale's start on the server's clock
+   */
+  private async broadcastWaitingRoomCountdownsJob(): Promise<JobResult> {
+    try {
+      const count = await waitingRoomService.broadcastCountdowns();
+
+      return {
+        jobName: 'broadcastWaitingRoomCountdowns',
+        success: true,
+        message: `Sent countdowns to ${count} waiting rooms`,
+        duration: 0,
+        itemsProcessed: count,
+      };
+    } catch (error) {
+      return {
+        jobName: 'broadcastWaitingRoomCountdowns',
+        success: false,
+        message: 'Failed to send waiting room countdowns',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Job: Run due scheduled tasks
+   */
+  private async processScheduledTasksJob(): Promise<JobResult> {
+    try {
+      // Claimed with SKIP LOCKED, so every replica can run this job safely
+      const result = await scheduledTaskService.processDueTasks();
+
+      return {
+        jobName: 'processScheduledTasks',
+        success: true,
+        message: `Ran ${result.claimed} scheduled tasks (${result.completed} completed, ${result.requeued} retrying, ${result.failed} failed, ${result.lost} taken over)`,
+        duration: 0,
+        itemsProcessed: result.completed,
+      };
+    } catch (error) {
+      return {
+        jobName: 'processScheduledTasks',
+        success: false,
+        message: 'Failed to process scheduled tasks',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Job: Release stock waves whose time has come but whose timer did not fire
+   */
+  private async releaseDueWavesJob(): Promise<JobResult> {
+    try {
+      const released = await releaseWaveService.releaseAllDueWaves();
+
+      return {
+        jobName: 'releaseDueWaves',
+        success: true,
+        message: `Released ${released} stock waves`,
+        duration: 0,
+        itemsProcessed: released,
+      };
+    } catch (error) {
+      return {
+        jobName: 'releaseDueWaves',
+        success: false,
+        message: 'Failed to release stock waves',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Job: Make the sales each recurring schedule has due within its horizon
+   */
+  private async generateRecurringSalesJob(): Promise<JobResult> {
+    try {
+      const results = await saleTemplateService.generateUpcomingSales();
+      const created = results.reduce((sum, r) => sum + r.created, 0);
+      const skipped = results.reduce((sum, r) => sum + r.skipped, 0);
+
+      return {
+        jobName: 'generateRecurringSales',
+        success: true,
+        message: `Created ${created} sales from ${results.length} recurrences (${skipped} skipped on blackout dates)`,
+        duration: 0,
+        itemsProcessed: created,
+      };
+    } catch (error) {
+      return {
+        jobName: 'generateRecurringSales',
+        success: false,
+        message: 'Failed to generate recurring sales',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Job: Delete job history past the retention window
+   */
+  private async pruneJobHistoryJob(): Promise<JobResult> {
+    try {
+      const result = await pool.query(
+        `DELETE FROM background_job_runs WHERE started_at < NOW() - make_interval(days => $1)`,
+        [JOB_HISTORY_RETENTION_DAYS]
+      );
+
+      return {
+        jobName: 'pruneJobHistory',
+        success: true,
+        message: `Pruned ${result.rowCount || 0} job runs`,
+        duration: 0,
+        itemsProcessed: result.rowCount || 0,
+      };
+    } catch (error) {
+      return {
+        jobName: 'pruneJobHistory',
+        success: false,
+        message: 'Failed to prune job history',
+        duration: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   /**
    * Get job status and statistics
    */
   getJobStatus(): {
     isRunning: boolean;
+    instanceId: string;
+    isLeader: boolean;
     jobs: {
       name: string;
       enabled: boolean;
+      leaderOnly: boolean;
       interval: number;
       lastRun?: Date;
       nextRun?: Date;
@@ -431,9 +880,12 @@ class BackgroundJobRunner {
   } {
     return {
       isRunning: this.isRunning,
+      instanceId: this.leader.instanceId,
+      isLeader: this.leader.isLeader(),
       jobs: this.jobConfigs.map((config) => ({
         name: config.name,
         enabled: config.enabled,
+        leaderOnly: config.leaderOnly,
         interval: config.interval,
         lastRun: config.lastRun,
         nextRun: config.lastRun ? new Date(config.lastRun.getTime() + config.interval) : undefined,
@@ -441,6 +893,63 @@ class BackgroundJobRunner {
     };
   }
 
+  /**
+   * Replica currently holding the job runner lease
+   */
+  async getLeader(): Promise<LeaseHolder | null> {
+    return this.leader.getLeader();
+  }
+
+  /**
+   * Last run, run count, failures and average duration per job over the past 24 hours,
+   * from the shared history so they cover every replica
+   */
+  async getJobStats(): Promise<JobStats[]> {
+    const [lastRuns, totals] = await Promise.all([
+      pool.query<JobRun>(
+        `SELECT DISTINCT ON (job_name) *
+         FROM background_job_runs
+         ORDER BY job_name, started_at DESC`
+      ),
+      pool.query(
+        `SELECT job_name,
+                COUNT(*)::int AS runs,
+                COUNT(*) FILTER (WHERE NOT success)::int AS failures,
+                COALESCE(ROUND(AVG(duration_ms)), 0)::int AS avg_duration_ms
+         FROM background_job_runs
+         WHERE started_at > NOW() - INTERVAL '24 hours'
+         GROUP BY job_name`
+      ),
+    ]);
+
+    return this.jobConfigs.map((config) => {
+      const totalsRow = totals.rows.find((row) => row.job_name === config.name);
+
+      return {
+        jobName: config.name,
+        lastRun: lastRuns.rows.find((row) => row.job_name === config.name) || null,
+        runs24h: totalsRow?.runs || 0,
+        failures24h: totalsRow?.failures || 0,
+        avgDurationMs24h: totalsRow?.avg_duration_ms || 0,
+      };
+    });
+  }
+
+  /**
+   * Recent runs of a job, newest first
+   */
+  async getJobHistory(jobName: string, limit: number = 50): Promise<JobRun[]> {
+    const result = await pool.query<JobRun>(
+      `SELECT * FROM background_job_runs
+       WHERE job_name = $1
+       ORDER BY started_at DESC
+       LIMIT $2`,
+      [jobName, limit]
+    );
+
+    return result.rows;
+  }
+
   /**
    * Enable or disable a specific job
    */
@@ -453,10 +962,10 @@ class BackgroundJobRunner {
 
     config.enabled = enabled;
 
-    // If runner is active, restart to apply changes
+    // If runner is active, reschedule to apply changes; the lease is kept
     if (this.isRunning) {
-      this.stop();
-      this.start();
+      this.clearJobs();
+      this.scheduleJobs();
     }
 
     return true;
@@ -466,4 +975,4 @@ class BackgroundJobRunner {
 // Export singleton instance
 export const backgroundJobRunner = new BackgroundJobRunner();
 export { BackgroundJobRunner };
-export type { JobConfig, JobResult };
+export type { JobConfig, JobResult, JobRun, JobStats };
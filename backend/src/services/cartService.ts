@@ -15,6 +15,8 @@ import { getPool } from '../utils/database';
 import { logger } from '../utils/logger';
 import { REDIS_KEYS } from '../config/redisKeys';
 import { calculateFlashPrice } from '../utils/priceCalculations';
+import { inventoryManager, InventoryReservationError } from './inventoryManager';
+import { admissionPassService } from './admissionPassService';
 
 // Cart TTL: 7 days for logged-in users, 24 hours for guests
 const USER_CART_TTL = 7 * 24 * 60 * 60; // 7 days in seconds
@@ -24,6 +26,7 @@ const GUEST_CART_TTL = 24 * 60 * 60; // 24 hours in seconds
 export interface CartItem {
   productId: string;
   saleId?: string; // Optional flash sale ID
+  saleItemId?: string; // Variant/bundle item of a multi-SKU flash sale
   quantity: number;
   price: number;
   originalPrice: number;
@@ -51,6 +54,7 @@ export interface Cart {
 export interface AddToCartRequest {
   productId: string;
   saleId?: string;
+  saleItemId?: string;
   quantity: number;
 }
 
@@ -139,7 +143,7 @@ class CartService {
     guestId: string | undefined,
     request: AddToCartRequest
   ): Promise<Cart> {
-    const { productId, saleId, quantity } = request;
+    const { productId, saleId, saleItemId, quantity } = request;
 
     // Validate quantity
     if (quantity <= 0) {
@@ -147,14 +151,14 @@ class CartService {
     }
 
     // Get product details
-    const product = await this.getProductDetails(productId, saleId);
+    const product = await this.getProductDetails(productId, saleId, saleItemId);
     if (!product) {
       throw new Error('Product not found');
     }
 
     // Check inventory availability
     if (saleId) {
-      const available = await this.checkFlashSaleInventory(saleId, productId, quantity);
+      const available = await this.checkFlashSaleInventory(saleId, productId, quantity, saleItemId);
       if (!available) {
         throw new Error('Requested quantity not available in flash sale');
       }
@@ -164,7 +168,8 @@ class CartService {
 
     // Check if item already exists in cart
     const existingIndex = cart.items.findIndex(
-      (item) => item.productId === productId && item.saleId === saleId
+      (item) =>
+        item.productId === productId && item.saleId === saleId && item.saleItemId === saleItemId
     );
 
     if (existingIndex >= 0) {
@@ -183,6 +188,7 @@ class CartService {
       cart.items.push({
         productId,
         saleId,
+        saleItemId,
         quantity,
         price: product.price,
         originalPrice: product.originalPrice,
@@ -284,7 +290,10 @@ class CartService {
     // Merge items (user cart takes priority for duplicates)
     for (const guestItem of guestCart.items) {
       const existingIndex = userCart.items.findIndex(
-        (item) => item.productId === guestItem.productId && item.saleId === guestItem.saleId
+        (item) =>
+          item.productId === guestItem.productId &&
+          item.saleId === guestItem.saleId &&
+          item.saleItemId === guestItem.saleItemId
       );
 
       if (existingIndex >= 0) {
@@ -329,7 +338,7 @@ class CartService {
     // Validate each item
     for (const item of cart.items) {
       // Check if product still exists
-      const product = await this.getProductDetails(item.productId, item.saleId);
+      const product = await this.getProductDetails(item.productId, item.saleId, item.saleItemId);
       if (!product) {
         errors.push(`Product "${item.name}" is no longer available`);
         continue;
@@ -349,7 +358,8 @@ class CartService {
         const available = await this.checkFlashSaleInventory(
           item.saleId,
           item.productId,
-          item.quantity
+          item.quantity,
+          item.saleItemId
         );
         if (!available) {
           errors.push(`Only limited quantity available for "${item.name}"`);
@@ -418,7 +428,8 @@ class CartService {
    */
   private async getProductDetails(
     productId: string,
-    saleId?: string
+    saleId?: string,
+    saleItemId?: string
   ): Promise<{
     name: string;
     price: number;
@@ -429,7 +440,32 @@ class CartService {
     const pool = getPool();
 
     try {
-      if (saleId) {
+      if (saleId && saleItemId) {
+        // Get multi-SKU flash sale item details; the item carries its own price
+        const result = await pool.query(
+          `SELECT p.name, p.price as original_price, p.image_url,
+                  fsi.flash_price, fs.max_quantity_per_user
+           FROM flash_sale_items fsi
+           JOIN flash_sales fs ON fs.id = fsi.flash_sale_id
+           JOIN products p ON p.id = fsi.product_id
+           WHERE fsi.id = $1 AND fs.id = $2 AND p.id = $3 AND fs.status = 'active'`,
+          [saleItemId, saleId, productId]
+        );
+
+        if (result.rows.length === 0) {
+          return null;
+        }
+
+        const row = result.rows[0];
+
+        return {
+          name: row.name,
+          price: parseFloat(row.flash_price),
+          originalPrice: row.original_price,
+          imageUrl: row.image_url,
+          maxQuantity: row.max_quantity_per_user || 5,
+        };
+      } else if (saleId) {
         // Get flash sale product details
         const result = await pool.query(
           `SELECT p.name, p.price as original_price, p.image_url,
@@ -486,52 +522,106 @@ class CartService {
   private async checkFlashSaleInventory(
     saleId: string,
     productId: string,
-    quantity: number
+    quantity: number,
+    saleItemId?: string
   ): Promise<boolean> {
     if (!isRedisConnected()) {
       return true; // Assume available if Redis is down
     }
 
-    const inventoryKey = `${REDIS_KEYS.FLASH_SALE_PREFIX}:${saleId}:inventory`;
-    const inventory = await redisClient.get(inventoryKey);
+    const available = await inventoryManager.getAvailableInventory(saleId, saleItemId);
+    return available >= quantity;
+  }
 
-    if (!inventory) {
-      return true; // Assume available if not cached
-    }
+  /**
+   * Holder ID used for inventory holds placed by a cart
+   */
+  private getReservationHolder(cart: Cart): string {
+    return cart.userId || `guest:${cart.guestId}`;
+  }
 
-    return parseInt(inventory) >= quantity;
+  /**
+   * Get reservation record key for Redis
+   */
+  private getReservationKey(reservationId: string): string {
+    return `${REDIS_KEYS.CART_PREFIX}:reservation:${reservationId}`;
   }
 
   /**
    * Reserve inventory for checkout (temporary hold)
+   * All flash sale items are reserved together or not at all, and every flash sale in the
+   * cart needs an admission pass from its queue
    */
-  async reserveInventory(cart: Cart, reservationMinutes = 10): Promise<string> {
+  async reserveInventory(
+    cart: Cart,
+    reservationMinutes = 10,
+    admissionPasses: string[] = [],
+    deviceId?: string
+  ): Promise<string> {
     const reservationId = `res_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+    const holderId = this.getReservationHolder(cart);
+    const items = cart.items
+      .filter((item) => item.saleId)
+      .map((item) => ({
+        saleId: item.saleId as string,
+        itemId: item.saleItemId,
+        quantity: item.quantity,
+      }));
+
     if (!isRedisConnected()) {
+      // Flash sale stock and admission passes live in Redis: without it, nothing is held
+      if (items.length > 0) {
+        throw new Error('Flash sale reservations are unavailable, please try again shortly');
+      }
       return reservationId;
     }
 
-    const reservations: Record<string, number> = {};
+    if (items.length > 0) {
+      // Guests never pass through a queue, so they get no pass
+      const saleIds = Array.from(new Set(items.map((item) => item.saleId)));
+      const admissions = admissionPassService.verifyPassesForSales(
+        admissionPasses,
+        cart.userId || '',
+        saleIds,
+        deviceId
+      );
 
-    for (const item of cart.items) {
-      if (item.saleId) {
-        const inventoryKey = `${REDIS_KEYS.FLASH_SALE_PREFIX}:${item.saleId}:inventory`;
-        const current = await redisClient.get(inventoryKey);
+      const outcome = await inventoryManager.reserveItems(holderId, items, reservationMinutes * 60);
 
-        if (current && parseInt(current) >= item.quantity) {
-          // Decrement inventory
-          await redisClient.decrby(inventoryKey, item.quantity);
-          reservations[`${item.saleId}:${item.productId}`] = item.quantity;
-        }
+      if (!outcome.success) {
+        const failedItem = cart.items.find(
+          (item) => item.saleId === outcome.failedSaleId && item.saleItemId === outcome.failedItemId
+        );
+        throw new InventoryReservationError(
+          outcome.reason === 'already_reserved'
+            ? `Inventory for "${failedItem?.name}" is already reserved`
+            : outcome.reason === 'limit_exceeded'
+              ? `"${failedItem?.name}" is limited to ${outcome.limit} per customer`
+              : `Requested quantity of "${failedItem?.name}" is not available`,
+          outcome.reason || 'out_of_stock',
+          outcome.failedSaleId
+        );
+      }
+
+      try {
+        await admissionPassService.redeemPasses(admissions);
+      } catch (error) {
+        await inventoryManager.releaseItems(holderId, items);
+        throw error;
       }
     }
 
     // Store reservation for potential rollback
     await redisClient.setex(
-      `reservation:${reservationId}`,
+      this.getReservationKey(reservationId),
       reservationMinutes * 60,
-      JSON.stringify({ cartId: cart.id, reservations, createdAt: new Date() })
+      JSON.stringify({
+        cartId: cart.id,
+        holderId,
+        items: items.map(({ saleId, itemId }) => ({ saleId, itemId })),
+        createdAt: new Date(),
+      })
     );
 
     logger.info(`✅ Inventory reserved: ${reservationId}`);
@@ -546,20 +636,16 @@ class CartService {
       return;
     }
 
-    const reservationData = await redisClient.get(`reservation:${reservationId}`);
+    const reservationKey = this.getReservationKey(reservationId);
+    const reservationData = await redisClient.get(reservationKey);
     if (!reservationData) {
       return;
     }
 
-    const { reservations } = JSON.parse(reservationData);
-
-    for (const [key, quantity] of Object.entries(reservations)) {
-      const [saleId] = key.split(':');
-      const inventoryKey = `${REDIS_KEYS.FLASH_SALE_PREFIX}:${saleId}:inventory`;
-      await redisClient.incrby(inventoryKey, quantity as number);
-    }
+    const { holderId, items } = JSON.parse(reservationData);
+    await inventoryManager.releaseItems(holderId, items);
 
-    await redisClient.del(`reservation:${reservationId}`);
+    await redisClient.del(reservationKey);
     logger.info(`🔓 Reservation released: ${reservationId}`);
   }
 
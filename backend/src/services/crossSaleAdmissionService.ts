@@ -0,0 +1,260 @@
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { logger } from '../utils/logger';
+import { buildQueueKey } from '../config/redisKeys';
+import { admissionPassService } from './admissionPassService';
+import { queueEntryManager, QueueEntry } from './queueEntryManager';
+import { eventBroadcaster } from './eventBroadcaster';
+
+// How many sales a user may hold an admission to at once
+export const MAX_CONCURRENT_ADMISSIONS = parseInt(
+  process.env.MAX_CONCURRENT_ADMISSIONS_PER_USER || '1',
+  10
+);
+
+// Queue pages looked through for admissible users before a batch gives up filling
+const LOOKAHEAD_PAGES = 5;
+
+export interface AdmissionRelease {
+  userId: string;
+  saleId: string;
+  // The sale the user was admitted to in its place
+  keptSaleId: string;
+}
+
+export interface AdmissionPlan {
+  admit: string[];
+  // At the admission cap with nothing to give up; they keep their place
+  deferred: string[];
+  // Admissions to release once the planned users are admitted
+  releases: AdmissionRelease[];
+}
+
+export interface UserQueueStatus {
+  saleId: string;
+  // deferred: waiting, but not admitted while the user's other admissions fill the cap
+  status: 'admitted' | 'waiting' | 'deferred';
+  // 1 for the sale joined first
+  priority: number;
+  joinedAt: Date;
+  position: number | null;
+}
+
+export interface ConsolidatedQueueStatus {
+  maxConcurrentAdmissions: number;
+  admissionsHeld: number;
+  queues: UserQueueStatus[];
+}
+
+interface HeldAdmission {
+  saleId: string;
+  joinedAt: Date;
+  releasable: boolean;
+}
+
+/**
+ * The admissions a user must give up to take one more in a sale joined at joinedAt:
+ * the latest-joined releasable admissions in sales joined after it, or null when the
+ * user has to wait for an admission to end instead
+ */
+function admissionsToRelease(
+  held: HeldAdmission[],
+  joinedAt: Date,
+  cap: number
+): HeldAdmission[] | null {
+  const excess = held.length + 1 - cap;
+  if (excess <= 0) {
+    return [];
+  }
+
+  const releasable = held
+    .filter((admission) => admission.releasable && admission.joinedAt > joinedAt)
+    .sort((a, b) => b.joinedAt.getTime() - a.joinedAt.getTime());
+
+  return releasable.length >= excess ? releasable.slice(0, excess) : null;
+}
+
+/**
+ * Policy across concurrently running sales: a user admitted to several queues at once
+ * ties up reservations in all of them, so each user holds at most
+ * MAX_CONCURRENT_ADMISSIONS admissions. The sale joined first has priority; admitting a
+ * user there releases their unused admission elsewhere, back to their place in that
+ * queue, while users at the cap wait in place in lower-priority queues.
+ * Admissions are read from the queue_entries projection; draw admissions count toward
+ * the cap but are never released.
+ */
+class CrossSaleAdmissionService {
+  /**
+   * Pick up to size users from the head of a sale's queue who can be admitted within
+   * their admission cap
+   */
+  async planBatch(saleId: string, size: number): Promise<AdmissionPlan> {
+    const plan: AdmissionPlan = { admit: [], deferred: [], releases: [] };
+    const queueKey = buildQueueKey(saleId);
+
+    for (let page = 0; page < LOOKAHEAD_PAGES && plan.admit.length < size; page++) {
+      const candidates = await redisClient.zrange(queueKey, page * size, (page + 1) * size - 1);
+      if (candidates.length === 0) {
+        break;
+      }
+
+      const pagePlan = await this.planAdmissions(saleId, candidates, size - plan.admit.length);
+      plan.admit.push(...pagePlan.admit);
+      plan.deferred.push(...pagePlan.deferred);
+      plan.releases.push(...pagePlan.releases);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Split candidates, in queue order, into those admissible (at most limit) and those
+   * deferred by their admissions in other sales
+   */
+  async planAdmissions(saleId: string, userIds: string[], limit: number): Promise<AdmissionPlan> {
+    const plan: AdmissionPlan = { admit: [], deferred: [], releases: [] };
+    const entries = await this.getActiveEntries(userIds);
+    const drawSales = await this.getDrawSales(entries);
+
+    for (const userId of userIds) {
+      if (plan.admit.length >= limit) {
+        break;
+      }
+
+      const userEntries = entries.get(userId) || [];
+      const own = userEntries.find((entry) => entry.flash_sale_id === saleId);
+      const held = await Promise.all(
+        userEntries
+          .filter((entry) => entry.status === 'reserved' && entry.flash_sale_id !== saleId)
+          .map(async (entry) => ({
+            saleId: entry.flash_sale_id,
+            joinedAt: entry.joined_at,
+            releasable:
+              !drawSales.has(entry.flash_sale_id) &&
+              (await admissionPassService.holdsPass(userId, entry.flash_sale_id)),
+          }))
+      );
+
+      // No projected entry yet means it was only just joined
+      const release = admissionsToRelease(
+        held,
+        own?.joined_at || new Date(),
+        MAX_CONCURRENT_ADMISSIONS
+      );
+      if (!release) {
+        plan.deferred.push(userId);
+        continue;
+      }
+
+      plan.admit.push(userId);
+      plan.releases.push(
+        ...release.map((admission) => ({ userId, saleId: admission.saleId, keptSaleId: saleId }))
+      );
+    }
+
+    return plan;
+  }
+
+  /**
+   * Release admissions superseded by higher-priority ones, returning each user to
+   * their place in that queue
+   */
+  async release(releases: AdmissionRelease[]): Promise<number> {
+    const bySale = new Map<string, AdmissionRelease[]>();
+    for (const release of releases) {
+      bySale.set(release.saleId, [...(bySale.get(release.saleId) || []), release]);
+    }
+
+    let released = 0;
+    for (const [saleId, saleReleases] of bySale) {
+      const userIds = await admissionPassService.releasePasses(
+        saleId,
+        saleReleases.map(({ userId }) => userId)
+      );
+
+      for (const { userId, keptSaleId } of saleReleases) {
+        if (userIds.includes(userId)) {
+          eventBroadcaster.admissionReleased(userId, saleId, keptSaleId);
+        }
+      }
+
+      released += userIds.length;
+      if (userIds.length > 0) {
+        logger.info('Released admissions to higher-priority sales', {
+          saleId,
+          count: userIds.length,
+        });
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Get a user's places across all sales, in priority order
+   */
+  async getUserStatus(userId: string): Promise<ConsolidatedQueueStatus> {
+    const entries = (await this.getActiveEntries([userId])).get(userId) || [];
+    const drawSales = await this.getDrawSales(new Map([[userId, entries]]));
+    const held = entries
+      .filter((entry) => entry.status === 'reserved')
+      .map((entry) => ({
+        saleId: entry.flash_sale_id,
+        joinedAt: entry.joined_at,
+        releasable: !drawSales.has(entry.flash_sale_id),
+      }));
+
+    const queues = await Promise.all(
+      entries.map(async (entry, index): Promise<UserQueueStatus> => {
+        const base = {
+          saleId: entry.flash_sale_id,
+          priority: index + 1,
+          joinedAt: entry.joined_at,
+        };
+        if (entry.status === 'reserved') {
+          return { ...base, status: 'admitted', position: null };
+        }
+
+        const rank = await redisClient.zrank(buildQueueKey(entry.flash_sale_id), userId);
+        const deferred =
+          admissionsToRelease(held, entry.joined_at, MAX_CONCURRENT_ADMISSIONS) === null;
+        return {
+          ...base,
+          status: deferred ? 'deferred' : 'waiting',
+          position: rank === null ? null : rank + 1,
+        };
+      })
+    );
+
+    return {
+      maxConcurrentAdmissions: MAX_CONCURRENT_ADMISSIONS,
+      admissionsHeld: held.length,
+      queues,
+    };
+  }
+
+  private async getActiveEntries(userIds: string[]): Promise<Map<string, QueueEntry[]>> {
+    const entries = new Map<string, QueueEntry[]>();
+    for (const entry of await queueEntryManager.getActiveEntriesForUsers(userIds)) {
+      entries.set(entry.user_id, [...(entries.get(entry.user_id) || []), entry]);
+    }
+    return entries;
+  }
+
+  private async getDrawSales(entries: Map<string, QueueEntry[]>): Promise<Set<string>> {
+    const saleIds = [...new Set([...entries.values()].flat().map((entry) => entry.flash_sale_id))];
+    if (saleIds.length === 0) {
+      return new Set();
+    }
+
+    const result = await pool.query(
+      `SELECT id FROM flash_sales WHERE id = ANY($1::uuid[]) AND queue_ordering = 'draw'`,
+      [saleIds]
+    );
+    return new Set(result.rows.map((row) => row.id));
+  }
+}
+
+// Export singleton instance
+export const crossSaleAdmissionService = new CrossSaleAdmissionService();
+export default crossSaleAdmissionService;
@@ -13,6 +13,7 @@
 
 import { websocketService, WS_EVENTS } from './websocketService';
 import { logger } from '../utils/logger';
+import type { AdmissionDecision } from './admissionRateController';
 
 const broadcastLogger = logger.child('event-broadcaster');
 
@@ -27,12 +28,15 @@ export interface SaleEvent {
   discount?: number;
   originalPrice?: number;
   salePrice?: number;
+  status?: string;
 }
 
 export interface InventoryEvent {
   saleId: string;
   productId: string;
   remaining: number;
+  // Units that ship right away; below remaining when the rest can only be backordered
+  inStock?: number;
   total: number;
   percentRemaining: number;
 }
@@ -42,9 +46,29 @@ export interface QueueEvent {
   userId: string;
   position: number;
   estimatedWaitMs: number;
+  // Bounds of the estimate's confidence interval; a null upper bound is open-ended
+  estimatedWaitLowMs?: number;
+  estimatedWaitHighMs?: number | null;
   totalInQueue: number;
 }
 
+export interface WaitingRoomEvent {
+  saleId: string;
+  startTime: string;
+  serverTime: string;
+  secondsRemaining: number;
+  waitingCount: number;
+}
+
+export interface DrawEvent {
+  saleId: string;
+  seed: string;
+  seedHash: string;
+  entriesHash: string;
+  entryCount: number;
+  winnerCount: number;
+}
+
 export interface OrderEvent {
   orderId: string;
   userId: string;
@@ -145,6 +169,16 @@ class EventBroadcaster {
     });
   }
 
+  queueWaitEstimate(event: QueueEvent): void {
+    websocketService.sendToUser(event.userId, WS_EVENTS.QUEUE_POSITION, {
+      position: event.position,
+      estimatedWaitMs: event.estimatedWaitMs,
+      estimatedWaitLowMs: event.estimatedWaitLowMs,
+      estimatedWaitHighMs: event.estimatedWaitHighMs,
+      saleId: event.saleId,
+    });
+  }
+
   queueJoined(event: QueueEvent): void {
     broadcastLogger.debug('User joined queue', { userId: event.userId, saleId: event.saleId });
     websocketService.sendToUser(event.userId, WS_EVENTS.QUEUE_JOINED, {
@@ -167,6 +201,63 @@ class EventBroadcaster {
     });
   }
 
+  admissionReleased(userId: string, saleId: string, keptSaleId: string): void {
+    broadcastLogger.info('Admission released', { userId, saleId, keptSaleId });
+    websocketService.sendToUser(userId, WS_EVENTS.QUEUE_ADMISSION_RELEASED, {
+      saleId,
+      keptSaleId,
+      message: 'You were admitted to a sale you queued for earlier, so you are back in this queue.',
+    });
+  }
+
+  // ── Waiting Room Events ────────────────────────────────
+
+  waitingRoomState(event: WaitingRoomEvent): void {
+    websocketService.broadcastToWaitingRoom(event.saleId, WS_EVENTS.WAITING_ROOM_STATE, event);
+  }
+
+  waitingRoomReleased(saleId: string, queuedCount: number): void {
+    broadcastLogger.info('Waiting room released', { saleId, queuedCount });
+    websocketService.broadcastToWaitingRoom(saleId, WS_EVENTS.WAITING_ROOM_RELEASED, {
+      queuedCount,
+      message: 'The sale has started. Check your place in the queue.',
+    });
+  }
+
+  // ── Draw Events ────────────────────────────────────────
+
+  queueEvicted(userId: string, saleId: string): void {
+    websocketService.sendToUser(userId, WS_EVENTS.QUEUE_LEFT, {
+      saleId,
+      reason: 'evicted',
+      message: 'You lost your place in the queue after being away too long.',
+    });
+  }
+
+  drawWon(userId: string, saleId: string, expiresAt: Date): void {
+    websocketService.sendToUser(userId, WS_EVENTS.QUEUE_DRAW_WON, {
+      saleId,
+      message: 'You won the draw! You can now purchase.',
+      expiresAt: expiresAt.toISOString(),
+    });
+  }
+
+  drawLost(userId: string, saleId: string): void {
+    websocketService.sendToUser(userId, WS_EVENTS.QUEUE_DRAW_LOST, {
+      saleId,
+      message: 'You were not selected in the draw this time.',
+    });
+  }
+
+  drawPublished(event: DrawEvent): void {
+    broadcastLogger.info('Sale draw published', {
+      saleId: event.saleId,
+      entryCount: event.entryCount,
+      winnerCount: event.winnerCount,
+    });
+    websocketService.broadcastToSale(event.saleId, WS_EVENTS.SALE_DRAW_PUBLISHED, event);
+  }
+
   // ── Order Events ───────────────────────────────────────
 
   orderCreated(event: OrderEvent): void {
@@ -218,6 +309,10 @@ class EventBroadcaster {
     websocketService.broadcastToAdmin(WS_EVENTS.ADMIN_ALERT, alert);
   }
 
+  admissionDecision(decision: AdmissionDecision): void {
+    websocketService.broadcastToAdmin(WS_EVENTS.ADMISSION_DECISION, decision);
+  }
+
   systemStatus(status: any): void {
     websocketService.broadcastToAdmin(WS_EVENTS.SYSTEM_STATUS, status);
   }
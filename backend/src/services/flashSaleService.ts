@@ -1,8 +1,31 @@
 import pool from '../utils/database';
-import { FlashSale } from '../models';
+import {
+  FlashSale,
+  FlashSaleItem,
+  InventoryPolicy,
+  QueueOrdering,
+  ReleaseWave,
+  RestockPolicy,
+} from '../models';
 import { v4 as uuidv4 } from 'uuid';
 import redisClient from '../utils/redis';
 import { saleTimingService } from './saleTimingService';
+import { VIPTier } from './vipService';
+import { stateMachine } from './stateMachine';
+import { saleScheduler } from './saleScheduler';
+import { inventoryManager } from './inventoryManager';
+import { validateReleaseWaves } from '../utils/releaseWaves';
+
+// Per-customer purchase limit overrides keyed by VIP tier
+export type PurchaseLimitOverrides = Partial<Record<VIPTier, number>>;
+
+export interface CreateFlashSaleItemDto {
+  product_id: string;
+  variant_sku?: string | null;
+  variant_attributes?: Record<string, string>;
+  flash_price: number;
+  quantity_available: number;
+}
 
 export interface CreateFlashSaleDto {
   product_id: string;
@@ -10,6 +33,26 @@ export interface CreateFlashSaleDto {
   quantity_available: number;
   start_time: Date;
   end_time: Date;
+  max_per_user?: number | null;
+  max_per_user_overrides?: PurchaseLimitOverrides;
+  restock_policy?: RestockPolicy;
+  inventory_policy?: InventoryPolicy;
+  // Units held back under the buffered policy
+  inventory_buffer?: number;
+  // Oversell allowance under the backorder policy, as a percentage of the stock
+  backorder_percent?: number;
+  queue_ordering?: QueueOrdering;
+  // Draw sales: when registration closes and winners are drawn, and how many win
+  draw_at?: Date | null;
+  draw_winner_count?: number | null;
+  // Product/variant rows of a multi-SKU sale; each gets its own price and stock
+  items?: CreateFlashSaleItemDto[];
+  // Stock released in waves; all of it goes on sale at the start when unset
+  release_waves?: ReleaseWave[] | null;
+  // Set when the sale is made from a template, for one occurrence of its recurrence
+  template_id?: string;
+  recurrence_id?: string;
+  occurrence_at?: Date;
 }
 
 export interface UpdateFlashSaleDto {
@@ -17,10 +60,44 @@ export interface UpdateFlashSaleDto {
   quantity_available?: number;
   start_time?: Date;
   end_time?: Date;
-  status?: 'upcoming' | 'active' | 'completed' | 'cancelled';
+  // Changed through the state machine once the other fields are saved
+  status?: FlashSaleStatus;
+  // Resuming after a pause pushes end_time back by the time spent paused
+  extend_end_on_resume?: boolean;
+  max_per_user?: number | null;
+  max_per_user_overrides?: PurchaseLimitOverrides;
+  restock_policy?: RestockPolicy;
+  inventory_policy?: InventoryPolicy;
+  // Units held back under the buffered policy
+  inventory_buffer?: number;
+  // Oversell allowance under the backorder policy, as a percentage of the stock
+  backorder_percent?: number;
+  queue_ordering?: QueueOrdering;
+  draw_at?: Date | null;
+  draw_winner_count?: number | null;
+  // Only before the sale starts; null puts all of the stock on sale at the start
+  release_waves?: ReleaseWave[] | null;
 }
 
-export type FlashSaleStatus = 'upcoming' | 'active' | 'completed' | 'cancelled';
+const RESTOCK_POLICIES: RestockPolicy[] = ['restock_while_active', 'never', 'waitlist'];
+const INVENTORY_POLICIES: InventoryPolicy[] = ['strict', 'buffered', 'backorder'];
+const QUEUE_ORDERINGS: QueueOrdering[] = ['fifo', 'priority', 'lottery', 'draw'];
+
+export type FlashSaleStatus = 'upcoming' | 'active' | 'paused' | 'completed' | 'cancelled';
+
+/**
+ * Derive the sale-level product, price and stock of a multi-SKU sale from its items:
+ * the first item is the headline product, the cheapest item sets the "from" price
+ */
+export function summarizeSaleItems(
+  items: CreateFlashSaleItemDto[]
+): Pick<CreateFlashSaleDto, 'product_id' | 'flash_price' | 'quantity_available'> {
+  return {
+    product_id: items[0].product_id,
+    flash_price: Math.min(...items.map((item) => item.flash_price)),
+    quantity_available: items.reduce((sum, item) => sum + item.quantity_available, 0),
+  };
+}
 
 export class FlashSaleService {
   /**
@@ -58,6 +135,38 @@ export class FlashSaleService {
       [saleId]
     );
 
+    if (!result.rows[0]) {
+      return null;
+    }
+
+    return { ...result.rows[0], items: await this.getSaleItems(saleId) };
+  }
+
+  /**
+   * Get the items of a multi-SKU sale (empty for single-product sales)
+   */
+  async getSaleItems(saleId: string): Promise<FlashSaleItem[]> {
+    const result = await pool.query(
+      `SELECT fsi.*, p.name as product_name, p.base_price, p.image_url
+       FROM flash_sale_items fsi
+       JOIN products p ON fsi.product_id = p.id
+       WHERE fsi.flash_sale_id = $1
+       ORDER BY fsi.created_at ASC`,
+      [saleId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a single item of a sale
+   */
+  async getSaleItem(saleId: string, itemId: string): Promise<FlashSaleItem | null> {
+    const result = await pool.query(
+      'SELECT * FROM flash_sale_items WHERE id = $1 AND flash_sale_id = $2',
+      [itemId, saleId]
+    );
+
     return result.rows[0] || null;
   }
 
@@ -99,43 +208,116 @@ export class FlashSaleService {
   /**
    * Create a new flash sale
    */
-  async createFlashSale(data: CreateFlashSaleDto): Promise<FlashSale> {
+  async createFlashSale(input: CreateFlashSaleDto): Promise<FlashSale> {
+    // The sale row of a multi-SKU sale always reflects its items
+    const data = input.items?.length ? { ...input, ...summarizeSaleItems(input.items) } : input;
+
     // Validation
     await this.validateFlashSaleData(data);
 
     const saleId = uuidv4();
     const status = this.determineStatus(data.start_time, data.end_time);
 
-    const result = await pool.query(
-      `INSERT INTO flash_sales 
-       (id, product_id, flash_price, quantity_available, start_time, end_time, status, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
-       RETURNING *`,
-      [
-        saleId,
-        data.product_id,
-        data.flash_price,
-        data.quantity_available,
-        data.start_time,
-        data.end_time,
-        status,
-      ]
-    );
+    const client = await pool.connect();
+    let sale: FlashSale;
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO flash_sales
+         (id, product_id, flash_price, quantity_available, start_time, end_time, status,
+          max_per_user, max_per_user_overrides, restock_policy, inventory_policy,
+          inventory_buffer, backorder_percent, queue_ordering, draw_at, draw_winner_count,
+          template_id, recurrence_id, occurrence_at, release_waves, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16,
+                 $17, $18, $19, $20, NOW())
+         RETURNING *`,
+        [
+          saleId,
+          data.product_id,
+          data.flash_price,
+          data.quantity_available,
+          data.start_time,
+          data.end_time,
+          status,
+          data.max_per_user || null,
+          JSON.stringify(data.max_per_user_overrides || {}),
+          data.restock_policy || 'restock_while_active',
+          data.inventory_policy || 'strict',
+          data.inventory_buffer || 0,
+          data.backorder_percent || 0,
+          data.queue_ordering || 'fifo',
+          data.draw_at || null,
+          data.draw_winner_count || null,
+          data.template_id || null,
+          data.recurrence_id || null,
+          data.occurrence_at || null,
+          data.release_waves?.length ? JSON.stringify(data.release_waves) : null,
+        ]
+      );
+
+      sale = result.rows[0];
+      sale.items = [];
 
-    const sale = result.rows[0];
+      if (!data.items?.length) {
+        await client.query(
+          `INSERT INTO inventory_adjustments (flash_sale_id, delta, source, reason)
+           VALUES ($1, $2, 'initial', 'Opening stock')`,
+          [saleId, data.quantity_available]
+        );
+      }
+
+      for (const item of data.items || []) {
+        const itemResult = await client.query(
+          `INSERT INTO flash_sale_items
+           (flash_sale_id, product_id, variant_sku, variant_attributes, flash_price, quantity_available)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING *`,
+          [
+            saleId,
+            item.product_id,
+            item.variant_sku || null,
+            JSON.stringify(item.variant_attributes || {}),
+            item.flash_price,
+            item.quantity_available,
+          ]
+        );
+        sale.items.push(itemResult.rows[0]);
+
+        await client.query(
+          `INSERT INTO inventory_adjustments (flash_sale_id, flash_sale_item_id, delta, source, reason)
+           VALUES ($1, $2, $3, 'initial', 'Opening stock')`,
+          [saleId, itemResult.rows[0].id, item.quantity_available]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
     // Cache active sales in Redis
     if (status === 'active') {
       await this.cacheActiveSale(sale);
     }
 
+    await saleScheduler.rearm();
+
     return sale;
   }
 
   /**
    * Update an existing flash sale
    */
-  async updateFlashSale(saleId: string, data: UpdateFlashSaleDto): Promise<FlashSale | null> {
+  async updateFlashSale(
+    saleId: string,
+    data: UpdateFlashSaleDto,
+    triggeredBy?: string
+  ): Promise<FlashSale | null> {
     const existingSale = await this.getFlashSaleById(saleId);
     if (!existingSale) {
       return null;
@@ -156,12 +338,12 @@ export class FlashSaleService {
     }
 
     if (data.quantity_available !== undefined) {
+      if (existingSale.items?.length) {
+        throw new Error('Stock of a multi-SKU sale is managed per item');
+      }
       if (data.quantity_available < 0) {
         throw new Error('Quantity cannot be negative');
       }
-      updates.push(`quantity_available = $${paramCount}`);
-      params.push(data.quantity_available);
-      paramCount++;
     }
 
     if (data.start_time !== undefined) {
@@ -176,26 +358,142 @@ export class FlashSaleService {
       paramCount++;
     }
 
-    if (data.status !== undefined) {
-      updates.push(`status = $${paramCount}`);
-      params.push(data.status);
+    const targetStatus = data.status !== existingSale.status ? data.status : undefined;
+    if (targetStatus && !stateMachine.canTransition(existingSale.status, targetStatus)) {
+      throw new Error(`Cannot change status from ${existingSale.status} to ${targetStatus}`);
+    }
+
+    if (data.extend_end_on_resume !== undefined) {
+      updates.push(`extend_end_on_resume = $${paramCount}`);
+      params.push(data.extend_end_on_resume);
+      paramCount++;
+    }
+
+    if (data.max_per_user !== undefined || data.max_per_user_overrides !== undefined) {
+      this.validatePurchaseLimits(data.max_per_user, data.max_per_user_overrides);
+    }
+
+    if (data.max_per_user !== undefined) {
+      updates.push(`max_per_user = $${paramCount}`);
+      params.push(data.max_per_user || null);
+      paramCount++;
+    }
+
+    if (data.max_per_user_overrides !== undefined) {
+      updates.push(`max_per_user_overrides = $${paramCount}`);
+      params.push(JSON.stringify(data.max_per_user_overrides || {}));
+      paramCount++;
+    }
+
+    if (data.restock_policy !== undefined) {
+      this.validateRestockPolicy(data.restock_policy);
+      updates.push(`restock_policy = $${paramCount}`);
+      params.push(data.restock_policy);
+      paramCount++;
+    }
+
+    if (data.queue_ordering !== undefined) {
+      this.validateQueueOrdering(data.queue_ordering);
+      updates.push(`queue_ordering = $${paramCount}`);
+      params.push(data.queue_ordering);
+      paramCount++;
+    }
+
+    this.validateDraw({
+      queue_ordering: data.queue_ordering ?? existingSale.queue_ordering,
+      draw_at: data.draw_at === undefined ? existingSale.draw_at : data.draw_at,
+      draw_winner_count:
+        data.draw_winner_count === undefined
+          ? existingSale.draw_winner_count
+          : data.draw_winner_count,
+      start_time: data.start_time ?? existingSale.start_time,
+      end_time: data.end_time ?? existingSale.end_time,
+    });
+
+    for (const field of ['draw_at', 'draw_winner_count'] as const) {
+      if (data[field] !== undefined) {
+        updates.push(`${field} = $${paramCount}`);
+        params.push(data[field] || null);
+        paramCount++;
+      }
+    }
+
+    this.validateInventoryPolicy(data);
+
+    if (data.release_waves !== undefined && existingSale.status !== 'upcoming') {
+      throw new Error('Release waves can only be changed before the sale starts');
+    }
+    const releaseWaves =
+      data.release_waves !== undefined ? data.release_waves : existingSale.release_waves;
+    if (releaseWaves?.length) {
+      this.validateReleaseWaves(
+        releaseWaves,
+        data.start_time ?? existingSale.start_time,
+        data.end_time ?? existingSale.end_time
+      );
+    }
+    if (data.release_waves !== undefined) {
+      updates.push(`release_waves = $${paramCount}`);
+      params.push(data.release_waves?.length ? JSON.stringify(data.release_waves) : null);
       paramCount++;
     }
 
-    if (updates.length === 0) {
+    for (const field of ['inventory_policy', 'inventory_buffer', 'backorder_percent'] as const) {
+      if (data[field] !== undefined) {
+        updates.push(`${field} = $${paramCount}`);
+        params.push(data[field]);
+        paramCount++;
+      }
+    }
+
+    // Setting the stock directly goes through the inventory store like any adjustment
+    const stockDelta =
+      data.quantity_available !== undefined
+        ? data.quantity_available - existingSale.quantity_available
+        : 0;
+
+    if (updates.length === 0 && !targetStatus && stockDelta === 0) {
       return existingSale;
     }
 
-    params.push(saleId);
-    const query = `
-      UPDATE flash_sales
-      SET ${updates.join(', ')}
-      WHERE id = $${paramCount}
-      RETURNING *
-    `;
+    let updatedSale = existingSale;
+    if (updates.length > 0) {
+      params.push(saleId);
+      const query = `
+        UPDATE flash_sales
+        SET ${updates.join(', ')}
+        WHERE id = $${paramCount}
+        RETURNING *
+      `;
+
+      const result = await pool.query(query, params);
+      updatedSale = result.rows[0];
+      await inventoryManager.invalidateSaleRules(saleId);
+    }
 
-    const result = await pool.query(query, params);
-    const updatedSale = result.rows[0];
+    if (targetStatus) {
+      const transition = await stateMachine.transition(
+        saleId,
+        targetStatus,
+        undefined,
+        triggeredBy
+      );
+      if (!transition.success || !transition.sale) {
+        throw new Error(transition.message);
+      }
+      updatedSale = transition.sale;
+    }
+
+    if (stockDelta !== 0) {
+      await inventoryManager.adjustInventory(
+        saleId,
+        stockDelta,
+        undefined,
+        'Stock set when editing the sale',
+        'sale_update'
+      );
+      updatedSale = (await this.getFlashSaleById(saleId)) || updatedSale;
+    }
 
     // Update Redis cache
     if (updatedSale.status === 'active') {
@@ -204,13 +502,17 @@ export class FlashSaleService {
       await this.removeFromCache(saleId);
     }
 
+    if (data.start_time || data.end_time || data.release_waves !== undefined) {
+      await saleScheduler.rearm();
+    }
+
     return updatedSale;
   }
 
   /**
    * Cancel a flash sale
    */
-  async cancelFlashSale(saleId: string): Promise<FlashSale | null> {
+  async cancelFlashSale(saleId: string, triggeredBy?: string): Promise<FlashSale | null> {
     const sale = await this.getFlashSaleById(saleId);
     if (!sale) {
       return null;
@@ -220,40 +522,25 @@ export class FlashSaleService {
       throw new Error('Cannot cancel a completed or already cancelled sale');
     }
 
-    const result = await pool.query(
-      `UPDATE flash_sales SET status = 'cancelled' WHERE id = $1 RETURNING *`,
-      [saleId]
-    );
+    const transition = await stateMachine.transition(saleId, 'cancelled', undefined, triggeredBy);
+    if (!transition.success || !transition.sale) {
+      throw new Error(transition.message);
+    }
 
     await this.removeFromCache(saleId);
 
-    return result.rows[0];
+    return transition.sale;
   }
 
   /**
    * Update sale statuses based on current time (background job)
    */
   async updateSaleStatuses(): Promise<void> {
-    const now = new Date();
-
-    // Activate upcoming sales that should start
-    await pool.query(
-      `UPDATE flash_sales 
-       SET status = 'active' 
-       WHERE status = 'upcoming' 
-       AND start_time <= $1 
-       AND end_time > $1`,
-      [now]
-    );
-
-    // Complete active sales that have ended
-    await pool.query(
-      `UPDATE flash_sales 
-       SET status = 'completed' 
-       WHERE status = 'active' 
-       AND end_time <= $1`,
-      [now]
+    // Activate upcoming sales that should start and complete active sales that have ended
+    const result = await pool.query<FlashSale>(
+      `SELECT * FROM flash_sales WHERE status IN ('upcoming', 'active')`
     );
+    await stateMachine.batchTransition(result.rows);
 
     // Refresh Redis cache with current active sales
     await this.refreshActiveSalesCache();
@@ -346,10 +633,146 @@ export class FlashSaleService {
   /**
    * Validate flash sale data
    */
-  private async validateFlashSaleData(data: CreateFlashSaleDto): Promise<void> {
+  async validateFlashSaleData(data: CreateFlashSaleDto): Promise<void> {
+    if (data.items?.length) {
+      const variants = new Set<string>();
+      for (const item of data.items) {
+        const variantKey = `${item.product_id}:${item.variant_sku || ''}`;
+        if (variants.has(variantKey)) {
+          throw new Error('Each product variant can only appear once in a sale');
+        }
+        variants.add(variantKey);
+
+        await this.validatePriceAndQuantity(
+          item.product_id,
+          item.flash_price,
+          item.quantity_available
+        );
+      }
+    } else {
+      await this.validatePriceAndQuantity(
+        data.product_id,
+        data.flash_price,
+        data.quantity_available
+      );
+    }
+
+    // Validate timing
+    const startTime = new Date(data.start_time);
+    const endTime = new Date(data.end_time);
+
+    if (startTime >= endTime) {
+      throw new Error('End time must be after start time');
+    }
+
+    const minDuration = 5 * 60 * 1000; // 5 minutes
+    if (endTime.getTime() - startTime.getTime() < minDuration) {
+      throw new Error('Sale duration must be at least 5 minutes');
+    }
+
+    this.validatePurchaseLimits(data.max_per_user, data.max_per_user_overrides);
+
+    if (data.restock_policy !== undefined) {
+      this.validateRestockPolicy(data.restock_policy);
+    }
+
+    if (data.queue_ordering !== undefined) {
+      this.validateQueueOrdering(data.queue_ordering);
+    }
+
+    this.validateDraw(data);
+
+    this.validateInventoryPolicy(data);
+
+    if (data.release_waves?.length) {
+      this.validateReleaseWaves(data.release_waves, data.start_time, data.end_time);
+    }
+  }
+
+  /**
+   * Validate the inventory policy and its buffer / backorder allowance
+   */
+  private validateInventoryPolicy(
+    data: Pick<CreateFlashSaleDto, 'inventory_policy' | 'inventory_buffer' | 'backorder_percent'>
+  ): void {
+    if (
+      data.inventory_policy !== undefined &&
+      !INVENTORY_POLICIES.includes(data.inventory_policy)
+    ) {
+      throw new Error(`Inventory policy must be one of: ${INVENTORY_POLICIES.join(', ')}`);
+    }
+
+    if (
+      data.inventory_buffer !== undefined &&
+      (!Number.isInteger(data.inventory_buffer) || data.inventory_buffer < 0)
+    ) {
+      throw new Error('Inventory buffer must be a non-negative integer');
+    }
+
+    if (
+      data.backorder_percent !== undefined &&
+      (!Number.isInteger(data.backorder_percent) ||
+        data.backorder_percent < 0 ||
+        data.backorder_percent > 100)
+    ) {
+      throw new Error('Backorder allowance must be an integer percentage between 0 and 100');
+    }
+  }
+
+  private validateRestockPolicy(policy: string): void {
+    if (!RESTOCK_POLICIES.includes(policy as RestockPolicy)) {
+      throw new Error(`Restock policy must be one of: ${RESTOCK_POLICIES.join(', ')}`);
+    }
+  }
+
+  private validateQueueOrdering(ordering: string): void {
+    if (!QUEUE_ORDERINGS.includes(ordering as QueueOrdering)) {
+      throw new Error(`Queue ordering must be one of: ${QUEUE_ORDERINGS.join(', ')}`);
+    }
+  }
+
+  /**
+   * A draw runs while the sale is active, so winners can buy as soon as they are picked
+   */
+  private validateDraw(
+    sale: Pick<
+      CreateFlashSaleDto,
+      'queue_ordering' | 'draw_at' | 'draw_winner_count' | 'start_time' | 'end_time'
+    >
+  ): void {
+    if (sale.queue_ordering !== 'draw') {
+      return;
+    }
+
+    if (!sale.draw_at) {
+      throw new Error('Draw sales need a draw time');
+    }
+
+    const drawAt = new Date(sale.draw_at);
+    if (drawAt < new Date(sale.start_time) || drawAt >= new Date(sale.end_time)) {
+      throw new Error('Draw time must fall within the sale');
+    }
+
+    if (
+      sale.draw_winner_count !== undefined &&
+      sale.draw_winner_count !== null &&
+      (!Number.isInteger(sale.draw_winner_count) || sale.draw_winner_count <= 0)
+    ) {
+      throw new Error('Draw winner count must be a positive integer');
+    }
+  }
+
+  /**
+   * Validate a flash price and stock against the product they are sold from
+   */
+  private async validatePriceAndQuantity(
+    productId: string,
+    flashPrice: number,
+    quantity: number
+  ): Promise<void> {
     // Check if product exists
     const productResult = await pool.query('SELECT id, base_price FROM products WHERE id = $1', [
-      data.product_id,
+      productId,
     ]);
 
     if (productResult.rows.length === 0) {
@@ -359,29 +782,53 @@ export class FlashSaleService {
     const product = productResult.rows[0];
 
     // Validate flash price is less than base price
-    if (data.flash_price >= product.base_price) {
+    if (flashPrice >= product.base_price) {
       throw new Error('Flash price must be less than base price');
     }
 
-    if (data.flash_price < 0) {
+    if (flashPrice < 0) {
       throw new Error('Flash price cannot be negative');
     }
 
-    if (data.quantity_available <= 0) {
+    if (quantity <= 0) {
       throw new Error('Quantity must be greater than zero');
     }
+  }
 
-    // Validate timing
-    const startTime = new Date(data.start_time);
-    const endTime = new Date(data.end_time);
+  /**
+   * Validate the per-customer limit and its VIP tier overrides
+   * (an override of 0 lifts the limit for that tier)
+   */
+  private validateReleaseWaves(waves: ReleaseWave[], startTime: Date, endTime: Date): void {
+    validateReleaseWaves(waves, startTime, endTime, Object.values(VIPTier));
+  }
 
-    if (startTime >= endTime) {
-      throw new Error('End time must be after start time');
+  private validatePurchaseLimits(
+    maxPerUser?: number | null,
+    overrides?: PurchaseLimitOverrides
+  ): void {
+    if (maxPerUser !== undefined && maxPerUser !== null) {
+      if (!Number.isInteger(maxPerUser) || maxPerUser <= 0) {
+        throw new Error('Per-customer limit must be a positive integer');
+      }
     }
 
-    const minDuration = 5 * 60 * 1000; // 5 minutes
-    if (endTime.getTime() - startTime.getTime() < minDuration) {
-      throw new Error('Sale duration must be at least 5 minutes');
+    if (overrides === undefined || overrides === null) {
+      return;
+    }
+
+    if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+      throw new Error('Per-customer limit overrides must map VIP tiers to limits');
+    }
+
+    const tiers = Object.values(VIPTier) as string[];
+    for (const [tier, limit] of Object.entries(overrides)) {
+      if (!tiers.includes(tier)) {
+        throw new Error(`Unknown VIP tier: ${tier}`);
+      }
+      if (!Number.isInteger(limit) || (limit as number) < 0) {
+        throw new Error(`Per-customer limit for ${tier} must be a non-negative integer`);
+      }
     }
   }
 
@@ -52,6 +52,7 @@ export type FraudAlertType =
   | 'velocity_exceeded'
   | 'suspicious_pattern'
   | 'account_takeover'
+  | 'queue_binding_changed'
   | 'payment_fraud';
 
 export interface DeviceFingerprint {
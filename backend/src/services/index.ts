@@ -6,6 +6,7 @@
 // Core Services
 export { FlashSaleService } from './flashSaleService';
 export { ProductService } from './productService';
+export { QueueEngine, queueEngine } from './queueEngine';
 export { QueueService, queueService } from './queueService';
 export { AuthService } from './authService';
 
@@ -17,7 +18,6 @@ export { orderValidator } from './orderValidator';
 
 // VIP & Queue
 export { vipService } from './vipService';
-export { priorityQueueService } from './priorityQueueService';
 export { smartQueueService } from './smartQueueService';
 export { queueAnalyticsService } from './queueAnalyticsService';
 export { queueEntryManager } from './queueEntryManager';
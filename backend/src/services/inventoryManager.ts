@@ -1,48 +1,263 @@
 import redisClient from '../utils/redis';
 import pool from '../utils/database';
-import { buildInventoryKey, buildReservationKey } from '../config/redisKeys';
+import { logger } from '../utils/logger';
+import * as redisOperations from '../utils/redisOperations';
+import { vipService, VIPTier } from './vipService';
+import { eventBroadcaster } from './eventBroadcaster';
+import { InventoryPolicy, ReleaseWave, RestockPolicy } from '../models';
+import { getReleasedPercent, getReleasedUnits, getWaveTimes } from '../utils/releaseWaves';
+import {
+  buildInventoryKey,
+  buildPurchaseCountsKey,
+  buildReclaimedKey,
+  buildReservationExpiryKey,
+  buildReservationHoldsKey,
+  buildReservationKey,
+  buildSaleRulesKey,
+  buildStockId,
+  parseStockId,
+  REDIS_TTL_SECONDS,
+  RESERVATION_EXPIRY_SALES_KEY,
+} from '../config/redisKeys';
+
+// Field of a sale's purchase counts marking them seeded from completed orders
+const PURCHASE_COUNTS_SEEDED_FIELD = '_seeded';
 
 export interface InventoryReservation {
   saleId: string;
+  itemId?: string;
   userId: string;
   quantity: number;
+  // Units of the hold taken beyond the stock under a backorder policy
+  backordered: number;
   expiresAt: Date;
 }
 
+export interface InventoryItem {
+  saleId: string;
+  // Item of a multi-SKU sale; omitted for single-product sales
+  itemId?: string;
+  quantity: number;
+}
+
+// expired: the hold was reclaimed before the purchase it was for could be confirmed
+export type ReservationFailureReason =
+  | 'out_of_stock'
+  | 'already_reserved'
+  | 'limit_exceeded'
+  | 'expired';
+
+export interface ReservationOutcome {
+  success: boolean;
+  failedSaleId?: string;
+  failedItemId?: string;
+  reason?: ReservationFailureReason;
+  // Effective per-customer limit of the failed sale when reason is 'limit_exceeded'
+  limit?: number;
+}
+
+export type InventoryMovementType =
+  | 'load'
+  | 'reserve'
+  | 'release'
+  | 'reclaim'
+  | 'confirm'
+  | 'adjust'
+  | 'correction'
+  | 'restock'
+  | 'wave';
+
+export interface InventoryMovementInput {
+  saleId: string;
+  itemId?: string;
+  type: InventoryMovementType;
+  // Units involved, always positive
+  quantity: number;
+  // Signed change to the available counter; null when the counter was set outright
+  availableDelta: number | null;
+  availableAfter?: number | null;
+  holderId?: string;
+  orderId?: string;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface InventoryMovement {
+  id: string;
+  flash_sale_id: string;
+  flash_sale_item_id: string | null;
+  movement_type: InventoryMovementType;
+  quantity: number;
+  available_delta: number | null;
+  available_after: number | null;
+  holder_id: string | null;
+  order_id: string | null;
+  reason: string | null;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+  // Positions in the available counter the units left or returned to, when known
+  unit_from: number | null;
+  unit_to: number | null;
+}
+
+export interface InventoryLedgerFilters {
+  itemId?: string;
+  type?: InventoryMovementType;
+  holderId?: string;
+  orderId?: string;
+  // Only movements that took or returned this unit position
+  unit?: number;
+  // Cursor: only movements older than this ID
+  before?: string;
+  limit?: number;
+}
+
+export interface StockPolicy {
+  productId: string;
+  policy: InventoryPolicy;
+  buffer: number;
+  backorderPercent: number;
+  // Stock the sale (or item) was given: opening stock plus adjustments
+  total: number;
+  // Lowest the available counter may go: the buffer held back, or minus the backorder allowance
+  floor: number;
+  // Units of release waves not yet on sale, held back on top of the floor
+  withheld: number;
+}
+
+export type RestockOutcome = 'restocked' | 'waitlisted' | 'discarded';
+
+export interface RestockResult {
+  orderId: string;
+  saleId: string;
+  itemId?: string;
+  quantity: number;
+  policy: RestockPolicy;
+  outcome: RestockOutcome;
+  // Available units after the return, when the units went back on sale
+  available?: number;
+}
+
+// What every reservation against a sale checks, cached in Redis (see getSaleRules)
+interface SaleRules {
+  maxPerUser: number;
+  maxPerUserOverrides: Partial<Record<VIPTier, number>>;
+  // Empty for single-product sales
+  itemIds: string[];
+}
+
+interface StockChange {
+  // inventory_adjustments source, so reconciliation expects the change
+  source: 'admin' | 'restock' | 'sale_update';
+  type: InventoryMovementType;
+  reason: string;
+  holderId?: string;
+  orderId?: string;
+}
+
+export class InventoryReservationError extends Error {
+  public readonly saleId?: string;
+  public readonly reason: ReservationFailureReason;
+
+  constructor(message: string, reason: ReservationFailureReason, saleId?: string) {
+    super(message);
+    this.name = 'InventoryReservationError';
+    this.reason = reason;
+    this.saleId = saleId;
+  }
+}
+
+export interface ReclaimResult {
+  saleId: string;
+  itemId?: string;
+  reservations: number;
+  units: number;
+}
+
 export class InventoryManager {
   private readonly RESERVATION_TTL = 300; // 5 minutes in seconds
 
   /**
    * Initialize inventory for a flash sale in Redis
+   * (units under open holds are subtracted from the unsold quantity)
    */
-  async initializeSaleInventory(saleId: string, quantity: number): Promise<void> {
-    const key = buildInventoryKey(saleId);
-    await redisClient.set(key, quantity.toString());
+  async initializeSaleInventory(
+    saleId: string,
+    quantity: number,
+    itemId?: string
+  ): Promise<number> {
+    // Backordered units keep the counter below zero
+    const stock = await this.getStockPolicy(saleId, itemId);
+    const available = await redisOperations.syncInventory(
+      buildStockId(saleId, itemId),
+      quantity,
+      Math.min(stock?.floor ?? 0, 0)
+    );
+
+    await this.recordMovement({
+      saleId,
+      itemId,
+      type: 'load',
+      quantity,
+      availableDelta: null,
+      availableAfter: available,
+      reason: 'Unsold stock loaded from the database',
+    });
+
+    return available;
   }
 
   /**
-   * Get current available inventory for a sale
+   * Get current available inventory for a sale, or for one item of a multi-SKU sale
    */
-  async getAvailableInventory(saleId: string): Promise<number> {
-    const key = buildInventoryKey(saleId);
+  async getAvailableInventory(saleId: string, itemId?: string): Promise<number> {
+    const key = buildInventoryKey(buildStockId(saleId, itemId));
     const value = await redisClient.get(key);
 
     if (value === null) {
       // If not in Redis, fetch from database and cache
-      const result = await pool.query('SELECT quantity_available FROM flash_sales WHERE id = $1', [
-        saleId,
-      ]);
+      const quantity = await this.getUnsoldQuantity(saleId, itemId);
+      return this.initializeSaleInventory(saleId, quantity, itemId);
+    }
 
-      if (result.rows.length === 0) {
-        throw new Error('Flash sale not found');
-      }
+    return parseInt(value, 10);
+  }
 
-      const quantity = result.rows[0].quantity_available;
-      await this.initializeSaleInventory(saleId, quantity);
-      return quantity;
+  /**
+   * Read the unsold quantity of a sale or sale item from the database
+   */
+  private async getUnsoldQuantity(saleId: string, itemId?: string): Promise<number> {
+    const result = itemId
+      ? await pool.query(
+          'SELECT quantity_available FROM flash_sale_items WHERE id = $1 AND flash_sale_id = $2',
+          [itemId, saleId]
+        )
+      : await pool.query('SELECT quantity_available FROM flash_sales WHERE id = $1', [saleId]);
+
+    if (result.rows.length === 0) {
+      throw new Error(itemId ? 'Flash sale item not found' : 'Flash sale not found');
     }
 
-    return parseInt(value, 10);
+    return result.rows[0].quantity_available;
+  }
+
+  /**
+   * Get the IDs of a sale's items (empty for single-product sales)
+   */
+  async getSaleItemIds(saleId: string): Promise<string[]> {
+    const result = await pool.query(
+      'SELECT id FROM flash_sale_items WHERE flash_sale_id = $1 ORDER BY created_at',
+      [saleId]
+    );
+    return result.rows.map((row) => row.id);
+  }
+
+  /**
+   * Get the stock IDs that hold a sale's inventory: one per item, or the sale itself
+   */
+  async getSaleStockIds(saleId: string): Promise<string[]> {
+    const itemIds = await this.getSaleItemIds(saleId);
+    return itemIds.length > 0 ? itemIds.map((itemId) => buildStockId(saleId, itemId)) : [saleId];
   }
 
   /**
@@ -51,101 +266,682 @@ export class InventoryManager {
   async reserveInventory(
     saleId: string,
     userId: string,
-    quantity: number = 1
-  ): Promise<{ success: boolean; remaining: number }> {
-    const inventoryKey = buildInventoryKey(saleId);
-    const reservationKey = buildReservationKey(userId, saleId);
-
-    // Check if user already has a reservation
-    const existingReservation = await redisClient.get(reservationKey);
-    if (existingReservation) {
-      return {
-        success: false,
-        remaining: await this.getAvailableInventory(saleId),
-      };
-    }
-
-    // Use Lua script for atomic decrement
-    const luaScript = `
-      local inventory_key = KEYS[1]
-      local quantity = tonumber(ARGV[1])
-      
-      local current = tonumber(redis.call('GET', inventory_key) or '0')
-      
-      if current >= quantity then
-        redis.call('DECRBY', inventory_key, quantity)
-        return {1, current - quantity}
-      else
-        return {0, current}
-      end
-    `;
-
-    const result = (await redisClient.eval(luaScript, 1, inventoryKey, quantity)) as [
-      number,
-      number,
-    ];
-    const [success, remaining] = result;
-
-    if (success === 1) {
-      // Store reservation with TTL
-      const reservation: InventoryReservation = {
-        saleId,
-        userId,
+    quantity: number = 1,
+    itemId?: string
+  ): Promise<{
+    success: boolean;
+    remaining: number;
+    reason?: ReservationFailureReason;
+    limit?: number;
+  }> {
+    const outcome = await this.reserveItems(userId, [{ saleId, itemId, quantity }]);
+
+    return {
+      success: outcome.success,
+      remaining: await this.getAvailableInventory(saleId, itemId),
+      reason: outcome.reason,
+      limit: outcome.limit,
+    };
+  }
+
+  /**
+   * Reserve several sale items for one holder, all-or-nothing
+   */
+  async reserveItems(
+    holderId: string,
+    items: InventoryItem[],
+    ttlSeconds: number = this.RESERVATION_TTL
+  ): Promise<ReservationOutcome> {
+    // Merge lines for the same stock so the script checks their combined quantity
+    const merged = new Map<string, number>();
+    for (const item of items) {
+      const stockId = buildStockId(item.saleId, item.itemId);
+      merged.set(stockId, (merged.get(stockId) || 0) + item.quantity);
+    }
+
+    // Make sure every counter is loaded and every limit resolved before the script runs
+    const requests: redisOperations.InventoryItemRequest[] = [];
+    const limits = new Map<string, number>();
+    const saleStocks = new Map<string, string[]>();
+    for (const [stockId, quantity] of merged.entries()) {
+      const { flashSaleId: saleId, itemId } = parseStockId(stockId);
+
+      if (!limits.has(saleId)) {
+        const rules = await this.getSaleRules(saleId);
+        if (rules.itemIds.length > 0 && !itemId) {
+          throw new Error('An item must be selected for this flash sale');
+        }
+        const maxPerUser = await this.resolvePurchaseLimit(rules, holderId);
+        if (maxPerUser > 0) {
+          await this.loadPurchaseCounts(saleId);
+          saleStocks.set(
+            saleId,
+            rules.itemIds.length > 0
+              ? rules.itemIds.map((id) => buildStockId(saleId, id))
+              : [saleId]
+          );
+        }
+        limits.set(saleId, maxPerUser);
+      }
+
+      await this.getAvailableInventory(saleId, itemId);
+      const stock = await this.getStockPolicy(saleId, itemId, holderId);
+      requests.push({
+        flashSaleId: stockId,
         quantity,
-        expiresAt: new Date(Date.now() + this.RESERVATION_TTL * 1000),
-      };
+        maxPerUser: limits.get(saleId),
+        floor: (stock?.floor ?? 0) + (stock?.withheld ?? 0),
+        saleStockIds: saleStocks.get(saleId),
+      });
+    }
 
-      await redisClient.setex(reservationKey, this.RESERVATION_TTL, JSON.stringify(reservation));
+    // Lua script decrements stock, writes the reservations and indexes their expiry atomically
+    const result = await redisOperations.reserveInventoryItems(holderId, requests, ttlSeconds);
+
+    if (result.status === 'reserved') {
+      for (const [index, request] of requests.entries()) {
+        const { flashSaleId: saleId, itemId } = parseStockId(request.flashSaleId);
+        await this.recordMovement({
+          saleId,
+          itemId,
+          type: 'reserve',
+          quantity: request.quantity,
+          availableDelta: -request.quantity,
+          availableAfter: result.available?.[index],
+          holderId,
+        });
+      }
+
+      return { success: true };
     }
 
+    const failed = result.failedIndex !== undefined ? requests[result.failedIndex] : undefined;
+    const failedStock = failed ? parseStockId(failed.flashSaleId) : undefined;
+
     return {
-      success: success === 1,
-      remaining,
+      success: false,
+      failedSaleId: failedStock?.flashSaleId,
+      failedItemId: failedStock?.itemId,
+      reason: result.status,
+      limit: result.status === 'limit_exceeded' ? failed?.maxPerUser : undefined,
     };
   }
 
   /**
-   * Release a reservation (user cancelled or reservation expired)
+   * Resolve the per-customer limit of a sale for a holder (0 means unlimited).
+   * An override for the holder's VIP tier takes precedence over max_per_user.
    */
-  async releaseReservation(saleId: string, userId: string): Promise<boolean> {
-    const reservationKey = buildReservationKey(userId, saleId);
-    const reservationData = await redisClient.get(reservationKey);
+  async getPurchaseLimit(saleId: string, holderId: string): Promise<number> {
+    return this.resolvePurchaseLimit(await this.getSaleRules(saleId), holderId);
+  }
+
+  /**
+   * Apply a sale's limits to one holder
+   */
+  private async resolvePurchaseLimit(rules: SaleRules, holderId: string): Promise<number> {
+    if (Object.keys(rules.maxPerUserOverrides).length > 0) {
+      const membership = await vipService.getMembership(holderId);
+      const tier = membership?.isActive ? membership.tier : VIPTier.STANDARD;
+      const override = rules.maxPerUserOverrides[tier];
 
-    if (!reservationData) {
-      return false; // No reservation found
+      if (override !== undefined && override !== null) {
+        return Number(override);
+      }
     }
 
-    const reservation: InventoryReservation = JSON.parse(reservationData);
-    const inventoryKey = buildInventoryKey(saleId);
+    return rules.maxPerUser;
+  }
 
-    // Return inventory
-    await redisClient.incrby(inventoryKey, reservation.quantity);
+  /**
+   * Load what a reservation against a sale must respect: its purchase limits and its items
+   */
+  private async getSaleRules(saleId: string): Promise<SaleRules> {
+    const rules = await this.getCachedSaleRule(saleId, 'limits', async () => {
+      const result = await pool.query(
+        `SELECT fs.max_per_user, fs.max_per_user_overrides,
+                ARRAY(SELECT fsi.id::text FROM flash_sale_items fsi
+                      WHERE fsi.flash_sale_id = fs.id ORDER BY fsi.created_at) AS item_ids
+         FROM flash_sales fs
+         WHERE fs.id = $1`,
+        [saleId]
+      );
 
-    // Delete reservation
-    await redisClient.del(reservationKey);
+      const row = result.rows[0];
+      return row
+        ? {
+            maxPerUser: row.max_per_user ? Number(row.max_per_user) : 0,
+            maxPerUserOverrides: row.max_per_user_overrides || {},
+            itemIds: row.item_ids || [],
+          }
+        : null;
+    });
 
-    return true;
+    return rules || { maxPerUser: 0, maxPerUserOverrides: {}, itemIds: [] };
   }
 
   /**
-   * Confirm a purchase (move from reservation to sold)
+   * Read one of a sale's rules from its Redis cache, loading it from the database on a
+   * miss; a rule of a sale that doesn't exist is not cached
    */
-  async confirmPurchase(saleId: string, userId: string): Promise<boolean> {
-    const reservationKey = buildReservationKey(userId, saleId);
-    const reservationData = await redisClient.get(reservationKey);
+  private async getCachedSaleRule<T>(
+    saleId: string,
+    field: string,
+    load: () => Promise<T | null>
+  ): Promise<T | null> {
+    const key = buildSaleRulesKey(saleId);
+    const cached = await redisClient.hget(key, field);
+    if (cached) {
+      return JSON.parse(cached);
+    }
 
-    if (!reservationData) {
-      return false; // No reservation found
+    const rule = await load();
+    if (rule !== null) {
+      await redisClient.hset(key, field, JSON.stringify(rule));
+      await redisClient.expire(key, REDIS_TTL_SECONDS.saleRules);
     }
+    return rule;
+  }
+
+  /**
+   * Drop a sale's cached rules after its limits, stock or release waves change
+   */
+  async invalidateSaleRules(saleId: string): Promise<void> {
+    await redisClient.del(buildSaleRulesKey(saleId));
+  }
 
-    // Delete reservation (inventory already decremented during reserve)
-    await redisClient.del(reservationKey);
+  /**
+   * Get how many units a user has bought from a sale
+   */
+  async getPurchasedQuantity(saleId: string, userId: string): Promise<number> {
+    await this.loadPurchaseCounts(saleId);
+    const value = await redisClient.hget(buildPurchaseCountsKey(saleId), userId);
+    return value ? parseInt(value, 10) : 0;
+  }
 
-    // Update database
+  /**
+   * Seed the per-user purchase counters from completed orders when Redis has none
+   */
+  private async loadPurchaseCounts(saleId: string): Promise<void> {
+    const key = buildPurchaseCountsKey(saleId);
+    if (await redisClient.exists(key)) {
+      return;
+    }
+
+    const result = await pool.query(
+      `SELECT user_id, SUM(quantity) AS purchased
+       FROM orders
+       WHERE flash_sale_id = $1 AND status = 'completed'
+       GROUP BY user_id`,
+      [saleId]
+    );
+
+    // HSETNX keeps any count a concurrent confirmation wrote meanwhile
+    for (const row of result.rows) {
+      await redisClient.hsetnx(key, row.user_id, parseInt(row.purchased, 10));
+    }
+    // Before the first purchase there are no counts, so the seeding has to be marked
+    await redisClient.hsetnx(key, PURCHASE_COUNTS_SEEDED_FIELD, 1);
+  }
+
+  /**
+   * Release the holds of one holder across several sales or sale items
+   */
+  async releaseItems(
+    holderId: string,
+    items: Array<Pick<InventoryItem, 'saleId' | 'itemId'>>
+  ): Promise<number> {
+    let released = 0;
+
+    for (const item of items) {
+      if (await this.releaseReservation(item.saleId, holderId, item.itemId)) {
+        released++;
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Apply an admin adjustment to a sale's stock; returns the new available quantity
+   */
+  async adjustInventory(
+    saleId: string,
+    delta: number,
+    itemId?: string,
+    reason: string = 'Manual adjustment',
+    source: 'admin' | 'sale_update' = 'admin'
+  ): Promise<number> {
+    // Reservations of a multi-SKU sale draw on each item's counter, never the sale's
+    if (!itemId && (await this.getSaleItemIds(saleId)).length > 0) {
+      throw new Error('An item must be selected for this flash sale');
+    }
+
+    return this.applyStockChange(saleId, delta, itemId, {
+      source,
+      type: 'adjust',
+      reason,
+    });
+  }
+
+  /**
+   * Return the units of a refunded order according to its sale's restock policy.
+   * Every refund path may call this: an order's units are returned at most once.
+   */
+  async restockRefundedOrder(
+    orderId: string,
+    reason: string = 'Order refunded'
+  ): Promise<RestockResult | null> {
+    const result = await pool.query(
+      `SELECT o.user_id, o.flash_sale_id, o.flash_sale_item_id, o.quantity, o.status,
+              fs.status AS sale_status, fs.end_time, fs.restock_policy
+       FROM orders o
+       JOIN flash_sales fs ON fs.id = o.flash_sale_id
+       WHERE o.id = $1`,
+      [orderId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Order not found');
+    }
+
+    const order = result.rows[0];
+
+    // Units of any other order were never sold, or are still with the customer
+    if (order.status !== 'refunded') {
+      return null;
+    }
+
+    const saleId: string = order.flash_sale_id;
+    const itemId: string | undefined = order.flash_sale_item_id || undefined;
+    const quantity = Number(order.quantity);
+    const policy: RestockPolicy = order.restock_policy || 'restock_while_active';
+    const saleOpen = order.sale_status === 'active' && new Date(order.end_time) > new Date();
+    const outcome: RestockOutcome =
+      policy === 'waitlist'
+        ? 'waitlisted'
+        : policy === 'restock_while_active' && saleOpen
+          ? 'restocked'
+          : 'discarded';
+
+    const claim = await pool.query(
+      `INSERT INTO inventory_restocks
+         (order_id, flash_sale_id, flash_sale_item_id, quantity, policy, outcome, reason, released_at)
+       VALUES ($1, $2, $3, $4, $5, $6::varchar, $7, CASE WHEN $6 = 'restocked' THEN NOW() END)
+       ON CONFLICT (order_id) DO NOTHING
+       RETURNING id`,
+      [orderId, saleId, itemId || null, quantity, policy, outcome, reason]
+    );
+
+    if (claim.rows.length === 0) {
+      return null; // Another refund path already returned this order
+    }
+
+    const restock: RestockResult = { orderId, saleId, itemId, quantity, policy, outcome };
+
+    // Refunded units no longer count against the customer's purchase limit. Counters not
+    // loaded yet are seeded from completed orders, which leave this one out already.
+    const countsKey = buildPurchaseCountsKey(saleId);
+    if (await redisClient.hexists(countsKey, order.user_id)) {
+      await redisClient.hincrby(countsKey, order.user_id, -quantity);
+    }
+
+    if (outcome === 'restocked') {
+      try {
+        restock.available = await this.applyStockChange(saleId, quantity, itemId, {
+          source: 'restock',
+          type: 'restock',
+          reason,
+          holderId: order.user_id,
+          orderId,
+        });
+      } catch (error) {
+        // Let a retry of the refund return the units
+        await pool.query('DELETE FROM inventory_restocks WHERE order_id = $1', [orderId]);
+        throw error;
+      }
+    } else {
+      // The units come back from the customer but stay off sale
+      await this.recordMovement({
+        saleId,
+        itemId,
+        type: 'restock',
+        quantity,
+        availableDelta: 0,
+        holderId: order.user_id,
+        orderId,
+        reason:
+          outcome === 'waitlisted'
+            ? `${reason}; held for the waitlist`
+            : `${reason}; not restocked (${policy})`,
+        metadata: { outcome },
+      });
+    }
+
+    return restock;
+  }
+
+  /**
+   * Put units held back under the waitlist policy on sale; returns the units released
+   */
+  async releaseWaitlistedStock(
+    saleId: string,
+    reason: string = 'Waitlisted stock released'
+  ): Promise<number> {
+    const sale = await pool.query('SELECT status FROM flash_sales WHERE id = $1', [saleId]);
+
+    if (sale.rows.length === 0) {
+      throw new Error('Flash sale not found');
+    }
+    if (sale.rows[0].status !== 'active') {
+      throw new Error('Waitlisted stock can only be released into an active sale');
+    }
+
+    const released = await pool.query(
+      `UPDATE inventory_restocks
+       SET outcome = 'restocked', released_at = NOW()
+       WHERE flash_sale_id = $1 AND outcome = 'waitlisted'
+       RETURNING flash_sale_item_id, quantity`,
+      [saleId]
+    );
+
+    const perItem = new Map<string, number>();
+    for (const row of released.rows) {
+      const key = row.flash_sale_item_id || '';
+      perItem.set(key, (perItem.get(key) || 0) + Number(row.quantity));
+    }
+
+    let units = 0;
+    for (const [itemId, quantity] of perItem) {
+      await this.applyStockChange(saleId, quantity, itemId || undefined, {
+        source: 'restock',
+        type: 'restock',
+        reason,
+      });
+      units += quantity;
+    }
+
+    return units;
+  }
+
+  /**
+   * Units returned by refunds, per outcome
+   */
+  async getRestockSummary(saleId: string): Promise<Record<RestockOutcome, number>> {
+    const result = await pool.query(
+      `SELECT outcome, COALESCE(SUM(quantity), 0)::int AS units
+       FROM inventory_restocks
+       WHERE flash_sale_id = $1
+       GROUP BY outcome`,
+      [saleId]
+    );
+
+    const summary: Record<RestockOutcome, number> = { restocked: 0, waitlisted: 0, discarded: 0 };
+    for (const row of result.rows) {
+      summary[row.outcome as RestockOutcome] = row.units;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Move a sale's live counter and unsold quantity together, then record the change as an
+   * adjustment and in the ledger; returns the new available quantity
+   */
+  private async applyStockChange(
+    saleId: string,
+    delta: number,
+    itemId: string | undefined,
+    change: StockChange
+  ): Promise<number> {
+    await this.getAvailableInventory(saleId, itemId);
+
+    const result = await redisOperations.adjustInventory(buildStockId(saleId, itemId), delta);
+    if (!result) {
+      throw new Error('Flash sale inventory not loaded');
+    }
+
+    // Persist only what was applied, so the database and Redis move together
+    if (result.applied !== 0) {
+      await this.applyUnsoldDelta(saleId, result.applied, itemId);
+      // Reconciliation counts adjustments towards the expected stock
+      await pool.query(
+        `INSERT INTO inventory_adjustments (flash_sale_id, flash_sale_item_id, delta, source, reason)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [saleId, itemId || null, result.applied, change.source, change.reason]
+      );
+      await this.invalidateSaleRules(saleId);
+      await this.recordMovement({
+        saleId,
+        itemId,
+        type: change.type,
+        quantity: Math.abs(result.applied),
+        availableDelta: result.applied,
+        availableAfter: result.available,
+        holderId: change.holderId,
+        orderId: change.orderId,
+        reason: change.reason,
+        metadata: result.applied !== delta ? { requested: delta } : undefined,
+      });
+      await this.broadcastInventory(saleId, itemId, result.available);
+    }
+
+    return result.available;
+  }
+
+  /**
+   * Load the inventory policy of a sale, applied to one stock (the sale, or one of its items).
+   * Given a holder, waves their VIP tier may buy early count as released.
+   */
+  async getStockPolicy(
+    saleId: string,
+    itemId?: string,
+    holderId?: string
+  ): Promise<StockPolicy | null> {
+    const row = await this.getCachedSaleRule(
+      saleId,
+      `stock:${buildStockId(saleId, itemId)}`,
+      async () => {
+        const result = await pool.query(
+          `SELECT COALESCE(fi.product_id, fs.product_id) AS product_id,
+                  fs.inventory_policy, fs.inventory_buffer, fs.backorder_percent,
+                  fs.release_waves, fs.waves_released, fs.start_time, fs.end_time,
+                  (SELECT COALESCE(SUM(delta), 0)::int FROM inventory_adjustments
+                   WHERE flash_sale_id = $1 AND flash_sale_item_id IS NOT DISTINCT FROM $2::uuid) AS total
+           FROM flash_sales fs
+           LEFT JOIN flash_sale_items fi ON fi.id = $2::uuid
+           WHERE fs.id = $1`,
+          [saleId, itemId || null]
+        );
+        return result.rows?.[0] ?? null;
+      }
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    const policy: InventoryPolicy = row.inventory_policy || 'strict';
+    const buffer = Number(row.inventory_buffer || 0);
+    const backorderPercent = Number(row.backorder_percent || 0);
+    const total = Number(row.total || 0);
+
+    let floor = 0;
+    if (policy === 'buffered') {
+      floor = buffer;
+    } else if (policy === 'backorder') {
+      floor = -Math.floor((Math.max(total, 0) * backorderPercent) / 100);
+    }
+
+    // Units of waves still to come stay off sale
+    const waves: ReleaseWave[] = row.release_waves || [];
+    const released = Number(row.waves_released || 0);
+    let withheld = 0;
+    if (released < waves.length) {
+      let releasedPercent = getReleasedPercent(waves, released);
+      if (holderId) {
+        releasedPercent += await this.getEarlyAccessPercent(holderId, waves, released, row);
+      }
+      withheld = Math.max(total, 0) - getReleasedUnits(total, releasedPercent);
+    }
+
+    return { productId: row.product_id, policy, buffer, backorderPercent, total, floor, withheld };
+  }
+
+  /**
+   * Share of the stock in waves not yet released that a holder may already buy:
+   * waves open to their VIP tier whose early access window has started
+   */
+  private async getEarlyAccessPercent(
+    holderId: string,
+    waves: ReleaseWave[],
+    released: number,
+    sale: { start_time: Date; end_time: Date }
+  ): Promise<number> {
+    const pending = waves.slice(released);
+    if (!pending.some((wave) => wave.early_access_tiers?.length)) {
+      return 0;
+    }
+
+    const membership = await vipService.getMembership(holderId);
+    const tier = membership?.isActive ? membership.tier : VIPTier.STANDARD;
+    const times = getWaveTimes(waves, sale.start_time, sale.end_time);
+
+    let percent = 0;
+    for (let index = released; index < waves.length; index++) {
+      if (!waves[index].early_access_tiers?.includes(tier)) {
+        continue;
+      }
+      if ((await vipService.hasEarlyAccess(holderId, times[index])).hasAccess) {
+        percent += waves[index].percent;
+      }
+    }
+    return percent;
+  }
+
+  /**
+   * Tell sale subscribers how much of each stock of a sale is left
+   */
+  async broadcastSaleInventory(saleId: string): Promise<void> {
+    for (const stockId of await this.getSaleStockIds(saleId)) {
+      const { itemId } = parseStockId(stockId);
+      await this.broadcastInventory(
+        saleId,
+        itemId,
+        await this.getAvailableInventory(saleId, itemId)
+      );
+    }
+  }
+
+  /**
+   * Tell sale subscribers how much stock is left, so a sold-out sale reopens for its queue.
+   * Broadcasts are best effort.
+   */
+  private async broadcastInventory(
+    saleId: string,
+    itemId: string | undefined,
+    available: number
+  ): Promise<void> {
+    try {
+      const stock = await this.getStockPolicy(saleId, itemId);
+      if (!stock) {
+        return;
+      }
+
+      // What customers can still order, including backorders, and what ships right away
+      const remaining = Math.max(0, available - stock.floor - stock.withheld);
+      eventBroadcaster.inventoryUpdated({
+        saleId,
+        productId: stock.productId,
+        remaining,
+        inStock: Math.max(0, available - Math.max(stock.floor, 0) - stock.withheld),
+        total: stock.total,
+        percentRemaining: stock.total > 0 ? Math.round((remaining / stock.total) * 100) : 0,
+      });
+    } catch (error) {
+      logger.error('Failed to broadcast inventory', {
+        saleId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Move the unsold quantity of a sale (and of the item, for multi-SKU sales) in the database
+   */
+  private async applyUnsoldDelta(saleId: string, delta: number, itemId?: string): Promise<void> {
+    if (itemId) {
+      await pool.query(
+        'UPDATE flash_sale_items SET quantity_available = quantity_available + $1 WHERE id = $2',
+        [delta, itemId]
+      );
+    }
+
+    // The sale row of a multi-SKU sale carries the total across its items
     await pool.query(
-      'UPDATE flash_sales SET quantity_available = quantity_available - $1 WHERE id = $2',
-      [JSON.parse(reservationData).quantity, saleId]
+      'UPDATE flash_sales SET quantity_available = quantity_available + $1 WHERE id = $2',
+      [delta, saleId]
     );
+  }
+
+  /**
+   * Release a reservation (user cancelled or reservation expired)
+   */
+  async releaseReservation(saleId: string, userId: string, itemId?: string): Promise<boolean> {
+    const { quantity, available } = await redisOperations.releaseReservationHold(
+      userId,
+      buildStockId(saleId, itemId)
+    );
+
+    if (quantity === 0) {
+      return false;
+    }
+
+    await this.recordMovement({
+      saleId,
+      itemId,
+      type: 'release',
+      quantity,
+      availableDelta: quantity,
+      availableAfter: available,
+      holderId: userId,
+    });
+
+    if (available !== null) {
+      await this.broadcastInventory(saleId, itemId, available);
+    }
+
+    return true;
+  }
+
+  /**
+   * Confirm a purchase (move from reservation to sold)
+   */
+  async confirmPurchase(
+    saleId: string,
+    userId: string,
+    itemId?: string,
+    orderId?: string
+  ): Promise<boolean> {
+    // Removes the hold; inventory was already decremented during reserve
+    const quantity = await redisOperations.confirmReservation(userId, buildStockId(saleId, itemId));
+
+    if (quantity === 0) {
+      return false; // No reservation found, or it was already reclaimed
+    }
+
+    // Update database
+    await this.applyUnsoldDelta(saleId, -quantity, itemId);
+
+    // Held units become sold; the available counter does not move
+    await this.recordMovement({
+      saleId,
+      itemId,
+      type: 'confirm',
+      quantity,
+      availableDelta: 0,
+      holderId: userId,
+      orderId,
+    });
 
     return true;
   }
@@ -153,22 +949,38 @@ export class InventoryManager {
   /**
    * Get user's current reservation for a sale
    */
-  async getUserReservation(saleId: string, userId: string): Promise<InventoryReservation | null> {
-    const reservationKey = buildReservationKey(userId, saleId);
-    const reservationData = await redisClient.get(reservationKey);
+  async getUserReservation(
+    saleId: string,
+    userId: string,
+    itemId?: string
+  ): Promise<InventoryReservation | null> {
+    const stockId = buildStockId(saleId, itemId);
+    const reservationKey = buildReservationKey(userId, stockId);
+    const reservationData = await redisClient.hgetall(reservationKey);
 
-    if (!reservationData) {
+    if (!reservationData || !reservationData.quantity) {
       return null;
     }
 
-    return JSON.parse(reservationData);
+    const expiresAt = await redisClient.zscore(buildReservationExpiryKey(stockId), userId);
+
+    return {
+      saleId,
+      itemId,
+      userId,
+      quantity: parseInt(reservationData.quantity, 10),
+      backordered: parseInt(reservationData.backordered || '0', 10),
+      expiresAt: expiresAt
+        ? new Date(Number(expiresAt))
+        : new Date((parseInt(reservationData.reserved_at, 10) + this.RESERVATION_TTL) * 1000),
+    };
   }
 
   /**
    * Check if user has an active reservation
    */
-  async hasActiveReservation(saleId: string, userId: string): Promise<boolean> {
-    const reservationKey = buildReservationKey(userId, saleId);
+  async hasActiveReservation(saleId: string, userId: string, itemId?: string): Promise<boolean> {
+    const reservationKey = buildReservationKey(userId, buildStockId(saleId, itemId));
     const exists = await redisClient.exists(reservationKey);
     return exists === 1;
   }
@@ -176,8 +988,8 @@ export class InventoryManager {
   /**
    * Get reservation time remaining
    */
-  async getReservationTTL(saleId: string, userId: string): Promise<number> {
-    const reservationKey = buildReservationKey(userId, saleId);
+  async getReservationTTL(saleId: string, userId: string, itemId?: string): Promise<number> {
+    const reservationKey = buildReservationKey(userId, buildStockId(saleId, itemId));
     const ttl = await redisClient.ttl(reservationKey);
     return ttl;
   }
@@ -185,49 +997,109 @@ export class InventoryManager {
   /**
    * Sync inventory from database to Redis
    */
-  async syncInventoryFromDatabase(saleId: string): Promise<void> {
-    const result = await pool.query('SELECT quantity_available FROM flash_sales WHERE id = $1', [
-      saleId,
-    ]);
+  async syncInventoryFromDatabase(saleId: string, itemId?: string): Promise<void> {
+    // Loading a whole sale also reloads the rules its reservations check
+    if (!itemId) {
+      await this.invalidateSaleRules(saleId);
+    }
+    const itemIds = itemId ? [itemId] : (await this.getSaleRules(saleId)).itemIds;
 
-    if (result.rows.length === 0) {
-      throw new Error('Flash sale not found');
+    if (itemIds.length === 0) {
+      await this.initializeSaleInventory(saleId, await this.getUnsoldQuantity(saleId));
+      return;
     }
 
-    const quantity = result.rows[0].quantity_available;
-    await this.initializeSaleInventory(saleId, quantity);
+    for (const id of itemIds) {
+      await this.initializeSaleInventory(saleId, await this.getUnsoldQuantity(saleId, id), id);
+    }
   }
 
   /**
    * Sync inventory from Redis to database (for persistence)
    */
   async syncInventoryToDatabase(saleId: string): Promise<void> {
-    const available = await this.getAvailableInventory(saleId);
+    const itemIds = await this.getSaleItemIds(saleId);
+
+    if (itemIds.length === 0) {
+      // The database tracks unsold stock, which still includes units under open holds
+      const unsold =
+        (await this.getAvailableInventory(saleId)) + (await this.getHeldQuantity(saleId));
+      await pool.query('UPDATE flash_sales SET quantity_available = $1 WHERE id = $2', [
+        unsold,
+        saleId,
+      ]);
+      return;
+    }
+
+    let total = 0;
+    for (const itemId of itemIds) {
+      const unsold =
+        (await this.getAvailableInventory(saleId, itemId)) +
+        (await this.getHeldQuantity(saleId, itemId));
+      await pool.query('UPDATE flash_sale_items SET quantity_available = $1 WHERE id = $2', [
+        unsold,
+        itemId,
+      ]);
+      total += unsold;
+    }
 
     await pool.query('UPDATE flash_sales SET quantity_available = $1 WHERE id = $2', [
-      available,
+      total,
       saleId,
     ]);
   }
 
   /**
-   * Cleanup expired reservations (background job)
+   * Get the number of units currently held by open reservations
+   */
+  async getHeldQuantity(saleId: string, itemId?: string): Promise<number> {
+    const holds = await redisClient.hvals(buildReservationHoldsKey(buildStockId(saleId, itemId)));
+    return holds.reduce((sum, quantity) => sum + parseInt(quantity, 10), 0);
+  }
+
+  /**
+   * Return stock held by expired reservations of a single sale or sale item
    */
-  async cleanupExpiredReservations(): Promise<number> {
-    // Redis automatically handles TTL expiration, but we can track for logging
-    // This method is mainly for monitoring purposes
-    let cleaned = 0;
+  async reclaimExpiredReservations(saleId: string, itemId?: string): Promise<ReclaimResult> {
+    const { reservations, units, available, holders } =
+      await redisOperations.reclaimExpiredReservations(buildStockId(saleId, itemId));
+
+    // Holds were returned in order, so each one's balance is worked back from the final count
+    let availableAfter = available - units;
+    for (const hold of holders) {
+      availableAfter += hold.quantity;
+      await this.recordMovement({
+        saleId,
+        itemId,
+        type: 'reclaim',
+        quantity: hold.quantity,
+        availableDelta: hold.quantity,
+        availableAfter,
+        holderId: hold.holderId,
+        reason: 'Reservation expired unpaid',
+      });
+    }
+
+    return { saleId, itemId, reservations, units };
+  }
 
-    // Get all active sales
-    const activeSales = await pool.query("SELECT id FROM flash_sales WHERE status = 'active'");
+  /**
+   * Cleanup expired reservations (background job)
+   */
+  async cleanupExpiredReservations(): Promise<ReclaimResult[]> {
+    // Only stock with entries in the expiry index needs sweeping
+    const stockIds = await redisOperations.getSalesWithPendingReservations();
+    const results: ReclaimResult[] = [];
 
-    for (const sale of activeSales.rows) {
-      // Sync inventory to ensure consistency
-      await this.syncInventoryToDatabase(sale.id);
-      cleaned++;
+    for (const stockId of stockIds) {
+      const { flashSaleId, itemId } = parseStockId(stockId);
+      const result = await this.reclaimExpiredReservations(flashSaleId, itemId);
+      if (result.reservations > 0) {
+        results.push(result);
+      }
     }
 
-    return cleaned;
+    return results;
   }
 
   /**
@@ -238,6 +1110,18 @@ export class InventoryManager {
     availableQuantity: number;
     soldQuantity: number;
     reservedQuantity: number;
+    reclaimedQuantity: number;
+    policy: InventoryPolicy;
+    // Units held back under a buffered policy
+    bufferQuantity: number;
+    // Units that may be sold beyond the stock under a backorder policy
+    backorderLimit: number;
+    // Units sold or held beyond the stock
+    backorderedQuantity: number;
+    // Units of release waves not yet on sale
+    withheldQuantity: number;
+    // Units customers can still reserve under the policy
+    sellableQuantity: number;
   }> {
     // Get total from database
     const saleResult = await pool.query(
@@ -251,8 +1135,35 @@ export class InventoryManager {
 
     const totalFromDB = saleResult.rows[0].quantity_available;
 
-    // Get available from Redis
-    const available = await this.getAvailableInventory(saleId);
+    // Get available from Redis, summed across items for multi-SKU sales
+    const stockIds = await this.getSaleStockIds(saleId);
+    let available = 0;
+    let reserved = 0;
+    let reclaimed = 0;
+    let buffer = 0;
+    let backorderLimit = 0;
+    let backordered = 0;
+    let withheld = 0;
+    let sellable = 0;
+    let policy: InventoryPolicy = 'strict';
+    for (const stockId of stockIds) {
+      const { itemId } = parseStockId(stockId);
+      const stockAvailable = await this.getAvailableInventory(saleId, itemId);
+      available += stockAvailable;
+      // Reserved = units temporarily held by open reservations
+      reserved += await this.getHeldQuantity(saleId, itemId);
+      // Units returned to stock after their reservation expired unpaid
+      reclaimed += parseInt((await redisClient.get(buildReclaimedKey(stockId))) || '0', 10);
+
+      const stock = await this.getStockPolicy(saleId, itemId);
+      const floor = stock?.floor ?? 0;
+      policy = stock?.policy ?? policy;
+      buffer += Math.max(floor, 0);
+      backorderLimit += Math.max(-floor, 0);
+      backordered += Math.max(-stockAvailable, 0);
+      withheld += stock?.withheld ?? 0;
+      sellable += Math.max(stockAvailable - floor - (stock?.withheld ?? 0), 0);
+    }
 
     // Get sold from orders
     const ordersResult = await pool.query(
@@ -262,15 +1173,102 @@ export class InventoryManager {
 
     const sold = ordersResult.rows[0].sold;
 
-    // Calculate reserved (items that are temporarily held)
-    const reserved = totalFromDB - available - sold;
-
     return {
       totalQuantity: totalFromDB + sold, // Original total quantity
-      availableQuantity: available,
+      availableQuantity: Math.max(available, 0),
       soldQuantity: sold,
       reservedQuantity: Math.max(0, reserved),
+      reclaimedQuantity: reclaimed,
+      policy,
+      bufferQuantity: buffer,
+      backorderLimit,
+      backorderedQuantity: backordered,
+      withheldQuantity: withheld,
+      sellableQuantity: sellable,
+    };
+  }
+
+  /**
+   * Append a movement to the stock ledger.
+   * The stock change has already happened, so a failed write is logged rather than thrown.
+   */
+  async recordMovement(movement: InventoryMovementInput): Promise<void> {
+    try {
+      await pool.query(
+        `INSERT INTO inventory_movements
+           (flash_sale_id, flash_sale_item_id, movement_type, quantity, available_delta,
+            available_after, holder_id, order_id, reason, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          movement.saleId,
+          movement.itemId || null,
+          movement.type,
+          movement.quantity,
+          movement.availableDelta,
+          movement.availableAfter ?? null,
+          movement.holderId || null,
+          movement.orderId || null,
+          movement.reason || null,
+          JSON.stringify(movement.metadata || {}),
+        ]
+      );
+    } catch (error) {
+      console.error(
+        `Failed to record ${movement.type} movement for sale ${movement.saleId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Read a sale's stock ledger, newest first.
+   * Units are numbered by their position in the available counter: a reserve that takes the
+   * counter from 57 to 55 took units 56-57, and a release back to 57 returned them.
+   */
+  async getLedger(
+    saleId: string,
+    filters: InventoryLedgerFilters = {}
+  ): Promise<InventoryMovement[]> {
+    const conditions = ['flash_sale_id = $1'];
+    const params: unknown[] = [saleId];
+
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
     };
+
+    if (filters.itemId) addCondition('flash_sale_item_id = ?', filters.itemId);
+    if (filters.type) addCondition('movement_type = ?', filters.type);
+    if (filters.holderId) addCondition('holder_id = ?', filters.holderId);
+    if (filters.orderId) addCondition('order_id = ?', filters.orderId);
+    if (filters.before) addCondition('id < ?', filters.before);
+
+    params.push(Math.min(filters.limit || 100, 500));
+    const limitParam = `$${params.length}`;
+
+    let unitFilter = '';
+    if (filters.unit !== undefined) {
+      params.push(filters.unit);
+      unitFilter = `WHERE $${params.length} BETWEEN unit_from AND unit_to`;
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM (
+         SELECT m.*,
+                CASE WHEN available_after IS NOT NULL AND available_delta <> 0
+                  THEN LEAST(available_after, available_after - available_delta) + 1 END AS unit_from,
+                CASE WHEN available_after IS NOT NULL AND available_delta <> 0
+                  THEN GREATEST(available_after, available_after - available_delta) END AS unit_to
+         FROM inventory_movements m
+         WHERE ${conditions.join(' AND ')}
+       ) movements
+       ${unitFilter}
+       ORDER BY id DESC
+       LIMIT ${limitParam}`,
+      params
+    );
+
+    return result.rows;
   }
 
   /**
@@ -279,13 +1277,31 @@ export class InventoryManager {
   async bulkReleaseReservations(saleId: string): Promise<number> {
     let released = 0;
 
-    // Find all reservation keys for this sale
-    const pattern = `reservation:${saleId}:*`;
-    const keys = await redisClient.keys(pattern);
+    for (const stockId of await this.getSaleStockIds(saleId)) {
+      const holdsKey = buildReservationHoldsKey(stockId);
+
+      // Every open reservation for this stock has an entry in the holds hash
+      const holds = await redisClient.hgetall(holdsKey);
+      const userIds = Object.keys(holds);
+      const { itemId } = parseStockId(stockId);
+
+      for (const userId of userIds) {
+        await redisClient.del(buildReservationKey(userId, stockId));
+        // The counter is reloaded from the database below, which puts these units back
+        await this.recordMovement({
+          saleId,
+          itemId,
+          type: 'release',
+          quantity: parseInt(holds[userId], 10),
+          availableDelta: null,
+          holderId: userId,
+          reason: 'Reservations released in bulk',
+        });
+      }
 
-    for (const key of keys) {
-      await redisClient.del(key);
-      released++;
+      await redisClient.del(holdsKey, buildReservationExpiryKey(stockId));
+      await redisClient.srem(RESERVATION_EXPIRY_SALES_KEY, stockId);
+      released += userIds.length;
     }
 
     // Reset inventory from database
@@ -0,0 +1,341 @@
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import * as redisOperations from '../utils/redisOperations';
+import { buildInventoryKey, buildStockId } from '../config/redisKeys';
+import { AlertType, getAlertConfig } from '../models/alert';
+import { triggerAlert } from './alertService';
+import { inventoryManager } from './inventoryManager';
+
+export type DriftClassification =
+  | 'none'
+  | 'leaked_reservation'
+  | 'double_decrement'
+  | 'manual_edit';
+
+export interface StockReconciliation {
+  saleId: string;
+  itemId?: string;
+  // Opening stock plus adjustments, minus units sold
+  expectedUnsold: number;
+  dbUnsold: number;
+  // null when the stock is not loaded in Redis
+  redisAvailable: number | null;
+  held: number;
+  sold: number;
+  adjusted: number;
+  dbDrift: number;
+  redisDrift: number | null;
+  classification: DriftClassification;
+  // Same drift was seen on the previous pass, so it is not an in-flight purchase
+  persistent: boolean;
+  corrected: boolean;
+}
+
+export interface SaleReconciliationResult {
+  saleId: string;
+  stocks: StockReconciliation[];
+  drifted: number;
+  corrected: number;
+}
+
+export interface ReconcileOptions {
+  autoCorrect?: boolean;
+}
+
+const DEFAULT_DRIFT_ALERT_THRESHOLD = 5;
+
+/**
+ * Recomputes the stock each sale should have from opening stock, admin adjustments and sold
+ * orders, and compares it with the database and Redis.
+ * Reads are not atomic across stores, so a drift only counts as persistent (and is corrected
+ * or alerted on) once the same drift shows up on two consecutive passes.
+ */
+class InventoryReconciliationService {
+  private readonly autoCorrect = process.env.INVENTORY_RECONCILE_AUTO_CORRECT === 'true';
+  private readonly maxCorrection = parseInt(
+    process.env.INVENTORY_RECONCILE_MAX_CORRECTION || '10',
+    10
+  );
+  private lastDrift: Map<string, string> = new Map();
+
+  /**
+   * Reconcile every active sale (background job)
+   */
+  async reconcileActiveSales(): Promise<SaleReconciliationResult[]> {
+    const result = await pool.query("SELECT id FROM flash_sales WHERE status = 'active'");
+    const results: SaleReconciliationResult[] = [];
+
+    for (const row of result.rows) {
+      results.push(await this.reconcileSale(row.id));
+    }
+
+    return results;
+  }
+
+  /**
+   * Reconcile one sale, per item for multi-SKU sales
+   */
+  async reconcileSale(
+    saleId: string,
+    options: ReconcileOptions = {}
+  ): Promise<SaleReconciliationResult> {
+    const autoCorrect = options.autoCorrect ?? this.autoCorrect;
+    const itemIds = await inventoryManager.getSaleItemIds(saleId);
+    const stocks: StockReconciliation[] = [];
+
+    for (const itemId of itemIds.length > 0 ? itemIds : [undefined]) {
+      const stock = await this.inspectStock(saleId, itemId);
+
+      if (stock.classification !== 'none') {
+        if (stock.persistent && autoCorrect && this.withinBounds(stock)) {
+          await this.correctStock(stock);
+          stock.corrected = true;
+        }
+        await this.recordReconciliation(stock);
+      }
+
+      stocks.push(stock);
+    }
+
+    // The sale row of a multi-SKU sale carries the total across its items
+    if (itemIds.length > 0 && stocks.some((stock) => stock.corrected)) {
+      await pool.query(
+        `UPDATE flash_sales
+         SET quantity_available = (
+           SELECT COALESCE(SUM(quantity_available), 0) FROM flash_sale_items WHERE flash_sale_id = $1
+         )
+         WHERE id = $1`,
+        [saleId]
+      );
+    }
+
+    await this.alertOnDrift(saleId, stocks);
+
+    return {
+      saleId,
+      stocks,
+      drifted: stocks.filter((stock) => stock.classification !== 'none').length,
+      corrected: stocks.filter((stock) => stock.corrected).length,
+    };
+  }
+
+  /**
+   * Recent drift findings of a sale, newest first
+   */
+  async getReconciliations(saleId: string, limit: number = 50) {
+    const result = await pool.query(
+      `SELECT * FROM inventory_reconciliations
+       WHERE flash_sale_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [saleId, limit]
+    );
+
+    return result.rows;
+  }
+
+  private async inspectStock(saleId: string, itemId?: string): Promise<StockReconciliation> {
+    const stockFilter = itemId ? 'flash_sale_item_id = $2' : 'flash_sale_item_id IS NULL';
+    const params = itemId ? [saleId, itemId] : [saleId];
+
+    const [unsoldResult, adjustedResult, soldResult] = await Promise.all([
+      itemId
+        ? pool.query('SELECT quantity_available FROM flash_sale_items WHERE id = $1', [itemId])
+        : pool.query('SELECT quantity_available FROM flash_sales WHERE id = $1', [saleId]),
+      pool.query(
+        `SELECT COALESCE(SUM(delta), 0)::int AS adjusted
+         FROM inventory_adjustments WHERE flash_sale_id = $1 AND ${stockFilter}`,
+        params
+      ),
+      // Refunded units that went back on sale come back as 'restock' adjustments,
+      // so refunded orders still count as sold
+      pool.query(
+        `SELECT COALESCE(SUM(quantity), 0)::int AS sold
+         FROM orders
+         WHERE flash_sale_id = $1 AND ${stockFilter} AND status IN ('completed', 'refunded')`,
+        params
+      ),
+    ]);
+
+    if (unsoldResult.rows.length === 0) {
+      throw new Error(itemId ? 'Flash sale item not found' : 'Flash sale not found');
+    }
+
+    const stockId = buildStockId(saleId, itemId);
+    const [available, held] = await Promise.all([
+      redisClient.get(buildInventoryKey(stockId)),
+      inventoryManager.getHeldQuantity(saleId, itemId),
+    ]);
+
+    const dbUnsold = unsoldResult.rows[0].quantity_available;
+    const adjusted = adjustedResult.rows[0].adjusted;
+    const sold = soldResult.rows[0].sold;
+    const expectedUnsold = adjusted - sold;
+    const redisAvailable = available === null ? null : parseInt(available, 10);
+
+    const dbDrift = dbUnsold - expectedUnsold;
+    // Redis keeps held units out of the available count
+    const redisDrift = redisAvailable === null ? null : redisAvailable + held - expectedUnsold;
+    const classification = this.classify(dbDrift, redisDrift);
+
+    const driftSignature = `${classification}:${dbDrift}:${redisDrift}`;
+    const persistent = classification !== 'none' && this.lastDrift.get(stockId) === driftSignature;
+    if (classification === 'none') {
+      this.lastDrift.delete(stockId);
+    } else {
+      this.lastDrift.set(stockId, driftSignature);
+    }
+
+    return {
+      saleId,
+      itemId,
+      expectedUnsold,
+      dbUnsold,
+      redisAvailable,
+      held,
+      sold,
+      adjusted,
+      dbDrift,
+      redisDrift,
+      classification,
+      persistent,
+      corrected: false,
+    };
+  }
+
+  /**
+   * - Database below expected: a purchase was decremented twice
+   * - Database above expected, or Redis above it: stock was edited outside the adjustment path
+   * - Database matches but Redis is short: units were reserved and never confirmed or released
+   */
+  private classify(dbDrift: number, redisDrift: number | null): DriftClassification {
+    if (dbDrift < 0) {
+      return 'double_decrement';
+    }
+    if (dbDrift > 0) {
+      return 'manual_edit';
+    }
+    if (redisDrift !== null && redisDrift < 0) {
+      return 'leaked_reservation';
+    }
+    if (redisDrift !== null && redisDrift > 0) {
+      return 'manual_edit';
+    }
+    return 'none';
+  }
+
+  private driftOf(stock: StockReconciliation): number {
+    return Math.max(Math.abs(stock.dbDrift), Math.abs(stock.redisDrift || 0));
+  }
+
+  private withinBounds(stock: StockReconciliation): boolean {
+    return this.driftOf(stock) <= this.maxCorrection && stock.expectedUnsold >= 0;
+  }
+
+  /**
+   * Bring the database and Redis back to the expected stock; open holds stay untouched
+   */
+  private async correctStock(stock: StockReconciliation): Promise<void> {
+    if (stock.itemId) {
+      await pool.query('UPDATE flash_sale_items SET quantity_available = $1 WHERE id = $2', [
+        stock.expectedUnsold,
+        stock.itemId,
+      ]);
+    } else {
+      await pool.query('UPDATE flash_sales SET quantity_available = $1 WHERE id = $2', [
+        stock.expectedUnsold,
+        stock.saleId,
+      ]);
+    }
+
+    const available =
+      stock.redisAvailable !== null
+        ? await redisOperations.syncInventory(
+            buildStockId(stock.saleId, stock.itemId),
+            stock.expectedUnsold
+          )
+        : null;
+
+    await inventoryManager.recordMovement({
+      saleId: stock.saleId,
+      itemId: stock.itemId,
+      type: 'correction',
+      quantity: this.driftOf(stock),
+      availableDelta: null,
+      availableAfter: available,
+      reason: `Reconciliation corrected ${stock.classification}`,
+      metadata: { dbDrift: stock.dbDrift, redisDrift: stock.redisDrift },
+    });
+
+    this.lastDrift.delete(buildStockId(stock.saleId, stock.itemId));
+    console.warn(
+      `Corrected ${stock.classification} on ${buildStockId(stock.saleId, stock.itemId)}: ` +
+        `db ${stock.dbUnsold} -> ${stock.expectedUnsold}`
+    );
+  }
+
+  private async recordReconciliation(stock: StockReconciliation): Promise<void> {
+    await pool.query(
+      `INSERT INTO inventory_reconciliations
+         (flash_sale_id, flash_sale_item_id, expected_unsold, db_unsold, redis_available, held,
+          sold, adjusted, db_drift, redis_drift, classification, persistent, corrected)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [
+        stock.saleId,
+        stock.itemId || null,
+        stock.expectedUnsold,
+        stock.dbUnsold,
+        stock.redisAvailable,
+        stock.held,
+        stock.sold,
+        stock.adjusted,
+        stock.dbDrift,
+        stock.redisDrift,
+        stock.classification,
+        stock.persistent,
+        stock.corrected,
+      ]
+    );
+  }
+
+  /**
+   * Raise an alert when persistent, uncorrected drift exceeds the configured threshold
+   */
+  private async alertOnDrift(saleId: string, stocks: StockReconciliation[]): Promise<void> {
+    const outstanding = stocks.filter((stock) => stock.persistent && !stock.corrected);
+    if (outstanding.length === 0) {
+      return;
+    }
+
+    const config = await getAlertConfig(AlertType.INVENTORY_DRIFT);
+    const threshold = config?.threshold ?? DEFAULT_DRIFT_ALERT_THRESHOLD;
+    const worst = outstanding.reduce((max, stock) =>
+      this.driftOf(stock) > this.driftOf(max) ? stock : max
+    );
+    const drift = this.driftOf(worst);
+
+    if (drift < threshold) {
+      return;
+    }
+
+    await triggerAlert(
+      AlertType.INVENTORY_DRIFT,
+      'Inventory Drift Detected',
+      `Sale ${saleId} is off by ${drift} units (${worst.classification})`,
+      'inventory_reconciliation',
+      {
+        saleId,
+        itemId: worst.itemId,
+        expectedUnsold: worst.expectedUnsold,
+        dbUnsold: worst.dbUnsold,
+        redisAvailable: worst.redisAvailable,
+        held: worst.held,
+        classification: worst.classification,
+      }
+    );
+  }
+}
+
+// Export singleton instance
+export const inventoryReconciliationService = new InventoryReconciliationService();
+export default inventoryReconciliationService;
@@ -0,0 +1,123 @@
+import os from 'os';
+import redisClient from '../utils/redis';
+import { buildLeaseKey } from '../config/redisKeys';
+import { acquireLease, releaseLease } from '../utils/redisOperations';
+import { logger } from '../utils/logger';
+
+const leaderLogger = logger.child('leader-election');
+
+export interface LeaseHolder {
+  instanceId: string;
+  fencingToken: number;
+  acquiredAt: Date;
+  expiresInMs: number;
+}
+
+/**
+ * Redis lease based leader election.
+ * The holder renews its lease well before the TTL runs out; if renewal fails the lease lapses
+ * and another replica takes over with a larger fencing token. Leadership is judged against a
+ * local deadline shorter than the TTL, so a stalled leader stops acting before it can be replaced.
+ */
+export class LeaderElection {
+  readonly instanceId = `${os.hostname()}:${process.pid}`;
+  private fencingToken = 0;
+  private leaseDeadline = 0;
+  private renewTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly leaseName: string,
+    private readonly ttlMs: number = 15000
+  ) {}
+
+  /**
+   * Start competing for the lease; resolves after the first attempt
+   */
+  async start(): Promise<void> {
+    if (this.renewTimer) {
+      return;
+    }
+
+    this.renewTimer = setInterval(() => {
+      this.tryAcquire();
+    }, this.ttlMs / 3);
+
+    await this.tryAcquire();
+  }
+
+  /**
+   * Stop renewing and hand the lease back so another replica can take over immediately
+   */
+  async stop(): Promise<void> {
+    if (this.renewTimer) {
+      clearInterval(this.renewTimer);
+      this.renewTimer = null;
+    }
+
+    if (this.fencingToken > 0) {
+      this.fencingToken = 0;
+      this.leaseDeadline = 0;
+      await releaseLease(this.leaseName, this.instanceId).catch((error) => {
+        leaderLogger.error('Failed to release lease', {
+          lease: this.leaseName,
+          error: (error as Error).message,
+        });
+      });
+    }
+  }
+
+  isLeader(): boolean {
+    return this.fencingToken > 0 && Date.now() < this.leaseDeadline;
+  }
+
+  /**
+   * Token of the current term (0 when not leading); larger tokens belong to later leaders
+   */
+  getFencingToken(): number {
+    return this.isLeader() ? this.fencingToken : 0;
+  }
+
+  /**
+   * Current lease holder across all replicas
+   */
+  async getLeader(): Promise<LeaseHolder | null> {
+    const key = buildLeaseKey(this.leaseName);
+    const [lease, ttl] = await Promise.all([redisClient.hgetall(key), redisClient.pttl(key)]);
+
+    if (!lease || !lease.owner) {
+      return null;
+    }
+
+    return {
+      instanceId: lease.owner,
+      fencingToken: parseInt(lease.token, 10),
+      acquiredAt: new Date(parseInt(lease.acquired_at, 10)),
+      expiresInMs: Math.max(0, ttl),
+    };
+  }
+
+  private async tryAcquire(): Promise<void> {
+    const attemptedAt = Date.now();
+
+    try {
+      const token = await acquireLease(this.leaseName, this.instanceId, this.ttlMs);
+      const wasLeader = this.isLeader();
+
+      this.fencingToken = token;
+      // Measured from before the call, minus a margin for clock drift between here and Redis
+      this.leaseDeadline = token > 0 ? attemptedAt + this.ttlMs - 1000 : 0;
+
+      if (token > 0 && !wasLeader) {
+        leaderLogger.info('Acquired leadership', { lease: this.leaseName, token });
+      } else if (token === 0 && wasLeader) {
+        leaderLogger.warn('Lost leadership', { lease: this.leaseName });
+      }
+    } catch (error) {
+      // Keep the current deadline; leadership lapses on its own if Redis stays unreachable
+      leaderLogger.error('Failed to renew lease', {
+        lease: this.leaseName,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
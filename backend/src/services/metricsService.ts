@@ -259,6 +259,19 @@ class MetricsRegistry {
     return metric.values.get(serializeLabels(labels)) || 0;
   }
 
+  // Mean of a summary's observations within its window, or null when there are none
+  getSummaryMean(name: string, labels: MetricLabels = {}): number | null {
+    const metric = this.metrics.get(name);
+    if (!metric || metric.type !== 'summary') return null;
+    const obs = metric.observations.get(serializeLabels(labels));
+    if (!obs) return null;
+
+    const cutoff = Date.now() - metric.maxAge;
+    const recent = obs.values.filter((_, i) => obs.timestamps[i] >= cutoff);
+    if (recent.length === 0) return null;
+    return recent.reduce((sum, value) => sum + value, 0) / recent.length;
+  }
+
   getGaugeValue(name: string, labels: MetricLabels = {}): number {
     const metric = this.metrics.get(name);
     if (!metric || metric.type !== 'gauge') return 0;
@@ -359,6 +372,13 @@ registry.registerGauge('nodejs_active_requests', 'Number of active requests');
 
 registry.registerGauge('process_uptime_seconds', 'Process uptime in seconds');
 
+// Payment metrics
+registry.registerSummary(
+  'payment_duration_seconds',
+  'Duration of payment processing calls in seconds',
+  5 * 60 * 1000
+);
+
 // Middleware execution timing
 registry.registerHistogram(
   'middleware_duration_seconds',
@@ -463,6 +483,15 @@ export const metricsService = {
     registry.incrementCounter('flash_sale_conversions_total', { sale_id: saleId });
   },
 
+  recordPaymentDuration(durationSec: number): void {
+    registry.observeSummary('payment_duration_seconds', {}, durationSec);
+  },
+
+  // Mean payment duration over the last five minutes, or null without payments
+  getRecentPaymentDuration(): number | null {
+    return registry.getSummaryMean('payment_duration_seconds');
+  },
+
   recordInventoryReservation(saleId: string): void {
     registry.incrementCounter('flash_sale_inventory_reservations_total', { sale_id: saleId });
   },
@@ -1,16 +1,24 @@
 import pool from '../utils/database';
+import { logger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
-import { inventoryManager } from './inventoryManager';
-import { queueService } from './queueService';
+import { inventoryManager, InventoryReservationError, RestockResult } from './inventoryManager';
+import { admissionPassService } from './admissionPassService';
+import { queueEngine } from './queueEngine';
 import { analyticsService } from './analyticsService';
+import { scheduledTaskService } from './scheduledTaskService';
 import { Order } from '../models';
 
 export interface CreateOrderInput {
   userId: string;
   saleId: string;
+  // Item (variant or bundle product) of a multi-SKU sale
+  itemId?: string;
   productId: string;
   quantity: number;
   shippingAddress?: ShippingAddress;
+  // Signed pass from queue admission, and the device it was issued to
+  admissionPass?: string;
+  deviceId?: string;
 }
 
 export interface ShippingAddress {
@@ -50,17 +58,29 @@ export interface CheckoutSession {
   orderNumber: string;
   userId: string;
   saleId: string;
+  itemId?: string;
   productId: string;
   quantity: number;
   unitPrice: number;
   totalAmount: number;
+  // Units that ship once restocked, under the sale's backorder policy
+  backorderedQuantity: number;
   reservationExpiresAt: Date;
   status: 'pending' | 'reserved' | 'expired';
 }
 
+// Scheduled task that cancels a checkout left unpaid past its reservation window
+export const CHECKOUT_EXPIRY_TASK = 'checkout_expiry';
+
 class OrderService {
   private readonly CHECKOUT_TIMEOUT_SECONDS = 300; // 5 minutes
 
+  constructor() {
+    scheduledTaskService.registerHandler(CHECKOUT_EXPIRY_TASK, async (payload) => {
+      await this.handleExpiredCheckout(payload.orderId as string);
+    });
+  }
+
   /**
    * Initiate checkout - Creates pending order and reserves inventory
    */
@@ -70,13 +90,6 @@ class OrderService {
     try {
       await client.query('BEGIN');
 
-      // Verify user has active checkout session from queue
-      const hasSession = await queueService.isInQueue(input.userId, input.saleId);
-      if (!hasSession) {
-        // For now, allow checkout without queue requirement (can be enforced later)
-        console.warn(`User ${input.userId} attempting checkout without queue session`);
-      }
-
       // Get sale details
       const saleResult = await client.query(
         `SELECT fs.*, p.name as product_name, p.base_price
@@ -92,8 +105,25 @@ class OrderService {
 
       const sale = saleResult.rows[0];
 
+      // Multi-SKU sales are bought per item, at the item's own price
+      const itemsResult = await client.query(
+        'SELECT id, product_id, flash_price FROM flash_sale_items WHERE flash_sale_id = $1',
+        [input.saleId]
+      );
+      const item = input.itemId
+        ? itemsResult.rows.find((row: { id: string }) => row.id === input.itemId)
+        : undefined;
+
+      if (input.itemId && !item) {
+        throw new Error('Flash sale item not found');
+      }
+
+      if (!input.itemId && itemsResult.rows.length > 0) {
+        throw new Error('An item must be selected for this flash sale');
+      }
+
       // Verify product matches sale
-      if (sale.product_id !== input.productId) {
+      if ((item || sale).product_id !== input.productId) {
         throw new Error('Product does not match flash sale');
       }
 
@@ -108,40 +138,93 @@ class OrderService {
         throw new Error('You already have a pending order for this sale');
       }
 
-      // Reserve inventory atomically
-      const reservation = await inventoryManager.reserveInventory(
+      // Reuse a hold placed from the cart when it matches; otherwise reserve atomically
+      const existingHold = await inventoryManager.getUserReservation(
         input.saleId,
         input.userId,
-        input.quantity
+        input.itemId
       );
 
+      // Checkout requires queue admission; a hold already placed from the cart redeemed its pass
+      const admission = existingHold
+        ? null
+        : admissionPassService.verifyPass(
+            input.admissionPass,
+            input.userId,
+            input.saleId,
+            input.deviceId
+          );
+
+      if (existingHold && existingHold.quantity !== input.quantity) {
+        await inventoryManager.releaseReservation(input.saleId, input.userId, input.itemId);
+      }
+
+      const reservation =
+        existingHold && existingHold.quantity === input.quantity
+          ? {
+              success: true,
+              remaining: await inventoryManager.getAvailableInventory(input.saleId, input.itemId),
+            }
+          : await inventoryManager.reserveInventory(
+              input.saleId,
+              input.userId,
+              input.quantity,
+              input.itemId
+            );
+
       if (!reservation.success) {
         await client.query('ROLLBACK');
-        throw new Error('Product out of stock');
+        throw new InventoryReservationError(
+          reservation.reason === 'limit_exceeded'
+            ? `Purchase limit of ${reservation.limit} per customer reached for this sale`
+            : 'Product out of stock',
+          reservation.reason || 'out_of_stock',
+          input.saleId
+        );
       }
 
+      // Redeem only once stock is held, so a sold-out attempt keeps the pass
+      if (admission) {
+        try {
+          await admissionPassService.redeemPass(admission);
+        } catch (error) {
+          await inventoryManager.releaseReservation(input.saleId, input.userId, input.itemId);
+          throw error;
+        }
+      }
+
+      // The hold records how many of its units were taken beyond the stock
+      const hold = await inventoryManager.getUserReservation(
+        input.saleId,
+        input.userId,
+        input.itemId
+      );
+      const backorderedQuantity = hold?.backordered || 0;
+
       // Generate order ID and number
       const orderId = uuidv4();
       const orderNumber = `FS-${Date.now()}-${input.userId.substring(0, 8).toUpperCase()}`;
 
       // Calculate pricing
-      const unitPrice = parseFloat(sale.flash_price);
+      const unitPrice = parseFloat((item || sale).flash_price);
       const totalAmount = unitPrice * input.quantity;
 
       // Create order in database
       await client.query(
         `INSERT INTO orders (
-          id, order_number, user_id, flash_sale_id, product_id,
-          quantity, unit_price, total_amount, status, payment_status,
+          id, order_number, user_id, flash_sale_id, flash_sale_item_id, product_id,
+          quantity, backordered_quantity, unit_price, total_amount, status, payment_status,
           shipping_address, created_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP)`,
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, CURRENT_TIMESTAMP)`,
         [
           orderId,
           orderNumber,
           input.userId,
           input.saleId,
+          input.itemId || null,
           input.productId,
           input.quantity,
+          backorderedQuantity,
           unitPrice,
           totalAmount,
           'pending',
@@ -154,7 +237,25 @@ class OrderService {
       await client.query(
         `INSERT INTO order_history (id, order_id, old_status, new_status, change_reason, changed_at)
          VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)`,
-        [uuidv4(), orderId, null, 'pending', 'Order initiated']
+        [
+          uuidv4(),
+          orderId,
+          null,
+          'pending',
+          backorderedQuantity > 0
+            ? `Order initiated with ${backorderedQuantity} backordered units`
+            : 'Order initiated',
+        ]
+      );
+
+      // Schedule automatic expiry in the same transaction, so it survives restarts
+      const expiresAt = new Date(Date.now() + this.CHECKOUT_TIMEOUT_SECONDS * 1000);
+      await scheduledTaskService.schedule(
+        CHECKOUT_EXPIRY_TASK,
+        orderId,
+        expiresAt,
+        { orderId },
+        client
       );
 
       await client.query('COMMIT');
@@ -173,22 +274,17 @@ class OrderService {
         }
       );
 
-      // Schedule automatic expiry
-      setTimeout(async () => {
-        await this.handleExpiredCheckout(orderId);
-      }, this.CHECKOUT_TIMEOUT_SECONDS * 1000);
-
-      const expiresAt = new Date(Date.now() + this.CHECKOUT_TIMEOUT_SECONDS * 1000);
-
       return {
         orderId,
         orderNumber,
         userId: input.userId,
         saleId: input.saleId,
+        itemId: input.itemId,
         productId: input.productId,
         quantity: input.quantity,
         unitPrice,
         totalAmount,
+        backorderedQuantity,
         reservationExpiresAt: expiresAt,
         status: 'reserved',
       };
@@ -234,6 +330,22 @@ class OrderService {
         throw new Error(`Order cannot be confirmed. Current status: ${order.status}`);
       }
 
+      // Confirm inventory reservation (removes it, inventory already decremented).
+      // A hold reclaimed while payment was in flight has had its units put back on sale.
+      const confirmed = await inventoryManager.confirmPurchase(
+        order.flash_sale_id,
+        userId,
+        order.flash_sale_item_id || undefined,
+        orderId
+      );
+      if (!confirmed) {
+        throw new InventoryReservationError(
+          'Reservation expired before payment completed',
+          'expired',
+          order.flash_sale_id
+        );
+      }
+
       // Update order status
       await client.query(
         `UPDATE orders 
@@ -243,16 +355,8 @@ class OrderService {
         ['completed', 'completed', paymentId, JSON.stringify(paymentDetails || {}), orderId]
       );
 
-      // Confirm inventory reservation (removes it, inventory already decremented)
-      await inventoryManager.confirmPurchase(order.flash_sale_id, userId);
-
       // Update queue entry status if exists
-      await client.query(
-        `UPDATE queue_entries 
-         SET status = 'purchased', updated_at = CURRENT_TIMESTAMP
-         WHERE user_id = $1 AND flash_sale_id = $2`,
-        [userId, order.flash_sale_id]
-      );
+      await queueEngine.markPurchased(userId, order.flash_sale_id, client);
 
       // Create order history entry
       await client.query(
@@ -261,6 +365,9 @@ class OrderService {
         [uuidv4(), orderId, 'pending', 'completed', 'Payment completed successfully']
       );
 
+      // A paid order no longer expires
+      await scheduledTaskService.cancel(CHECKOUT_EXPIRY_TASK, orderId, client);
+
       await client.query('COMMIT');
 
       // Track analytics
@@ -282,6 +389,11 @@ class OrderService {
     } catch (error) {
       await client.query('ROLLBACK');
       console.error('Error confirming order:', error);
+
+      // Its units may already be sold to someone else, so the order cannot be filled
+      if (error instanceof InventoryReservationError && error.reason === 'expired') {
+        await this.cancelOrder(orderId, userId, error.message, true);
+      }
       throw error;
     } finally {
       client.release();
@@ -327,7 +439,11 @@ class OrderService {
       );
 
       // Release inventory reservation
-      await inventoryManager.releaseReservation(order.flash_sale_id, userId);
+      await inventoryManager.releaseReservation(
+        order.flash_sale_id,
+        userId,
+        order.flash_sale_item_id || undefined
+      );
 
       // Create history entry
       await client.query(
@@ -336,6 +452,8 @@ class OrderService {
         [uuidv4(), orderId, order.status, 'cancelled', reason]
       );
 
+      await scheduledTaskService.cancel(CHECKOUT_EXPIRY_TASK, orderId, client);
+
       await client.query('COMMIT');
 
       // Track analytics
@@ -361,6 +479,35 @@ class OrderService {
     }
   }
 
+  /**
+   * Mark a paid order refunded and return its units according to the sale's restock policy.
+   * Refunds can be reported more than once (refund API, payment webhook), so repeat calls
+   * neither add history nor return the units again.
+   */
+  async markOrderRefunded(orderId: string, reason: string): Promise<RestockResult | null> {
+    const result = await pool.query('SELECT status FROM orders WHERE id = $1', [orderId]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Order not found');
+    }
+
+    if (result.rows[0].status !== 'refunded') {
+      await this.updateOrderStatus(orderId, 'refunded', reason);
+    }
+
+    const restock = await inventoryManager.restockRefundedOrder(orderId, reason);
+    if (restock) {
+      logger.info('Order refunded', {
+        orderId,
+        quantity: restock.quantity,
+        outcome: restock.outcome,
+        policy: restock.policy,
+      });
+    }
+
+    return restock;
+  }
+
   /**
    * Handle expired checkout (user didn't complete payment in time)
    */
@@ -381,6 +528,8 @@ class OrderService {
       }
     } catch (error) {
       console.error('Error handling expired checkout:', error);
+      // Rethrow so the scheduled task is retried
+      throw error;
     }
   }
 
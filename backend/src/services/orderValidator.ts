@@ -144,8 +144,11 @@ export class OrderValidator {
    */
   async validateProductInSale(saleId: string, productId: string): Promise<boolean> {
     try {
+      // Multi-SKU sales also sell the products of their items
       const result = await pool.query(
-        'SELECT id FROM flash_sales WHERE id = $1 AND product_id = $2',
+        `SELECT id FROM flash_sales WHERE id = $1 AND product_id = $2
+         UNION ALL
+         SELECT flash_sale_id FROM flash_sale_items WHERE flash_sale_id = $1 AND product_id = $2`,
         [saleId, productId]
       );
 
@@ -368,6 +371,7 @@ export class OrderValidator {
     return {
       userId: input.userId?.trim(),
       saleId: input.saleId?.trim(),
+      itemId: input.itemId?.trim() || undefined,
       productId: input.productId?.trim(),
       quantity: Math.floor(Math.abs(input.quantity)), // Ensure positive integer
       shippingAddress: input.shippingAddress
@@ -382,6 +386,8 @@ export class OrderValidator {
             phone: input.shippingAddress.phone?.replace(/\D/g, ''), // Keep only digits
           }
         : undefined,
+      admissionPass: input.admissionPass?.trim() || undefined,
+      deviceId: input.deviceId?.trim() || undefined,
     };
   }
 }
@@ -4,6 +4,8 @@
  * Currently implements stubs for development - can be connected to real APIs in production
  */
 
+import { metricsService } from './metricsService';
+
 export interface PaymentProvider {
   name: 'stripe' | 'razorpay' | 'paypal';
   config?: Record<string, unknown>;
@@ -64,6 +66,8 @@ class PaymentProcessor {
       orderNumber: request.orderNumber,
     });
 
+    const startedAt = Date.now();
+
     try {
       switch (this.provider.name) {
         case 'razorpay':
@@ -87,6 +91,8 @@ class PaymentProcessor {
         timestamp: new Date(),
         error: error instanceof Error ? error.message : 'Payment processing failed',
       };
+    } finally {
+      metricsService.recordPaymentDuration((Date.now() - startedAt) / 1000);
     }
   }
 
@@ -15,6 +15,7 @@ import { getPool } from '../utils/database';
 import { redisClient, isRedisConnected } from '../utils/redis';
 import { REDIS_KEYS } from '../config/redisKeys';
 import { logger } from '../utils/logger';
+import { orderService } from './orderService';
 
 // Initialize Stripe with API key (use test key in development)
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_placeholder');
@@ -252,6 +253,10 @@ class PaymentService {
         [newStatus, paymentId],
       );
 
+      if (newStatus === PaymentStatus.REFUNDED) {
+        await this.refundOrder(payment.orderId, reason);
+      }
+
       // Record refund in database
       await pool.query(
         `INSERT INTO refunds (payment_id, stripe_refund_id, amount, reason, status)
@@ -460,13 +465,18 @@ class PaymentService {
         ? PaymentStatus.REFUNDED
         : PaymentStatus.PARTIALLY_REFUNDED;
 
-    await pool.query(
+    const result = await pool.query(
       `UPDATE payments 
        SET status = $1, updated_at = NOW()
-       WHERE stripe_payment_intent_id = $2`,
+       WHERE stripe_payment_intent_id = $2
+       RETURNING order_id`,
       [status, charge.payment_intent],
     );
 
+    if (status === PaymentStatus.REFUNDED && result.rows.length > 0) {
+      await this.refundOrder(result.rows[0].order_id, 'Charge refunded');
+    }
+
     logger.info(`💰 Charge refunded: ${charge.id}`);
   }
 
@@ -478,6 +488,21 @@ class PaymentService {
     // TODO: Store dispute in database
   }
 
+  /**
+   * Mark the order of a fully refunded payment refunded, returning its units to stock
+   */
+  private async refundOrder(orderId: string | undefined, reason: string): Promise<void> {
+    if (!orderId) {
+      return;
+    }
+
+    try {
+      await orderService.markOrderRefunded(orderId, `Payment refunded: ${reason}`);
+    } catch (error) {
+      logger.error(`❌ Failed to mark order ${orderId} refunded:`, error);
+    }
+  }
+
   private async triggerOrderFulfillment(orderId: string): Promise<void> {
     // Update order status to processing
     const pool = getPool();
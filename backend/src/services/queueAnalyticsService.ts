@@ -50,12 +50,16 @@ export interface JourneyStage {
   metadata?: Record<string, unknown>;
 }
 
+// How a user came to leave a queue before admission
+export type AbandonmentCategory = 'left' | 'evicted';
+
 export interface AbandonmentAnalysis {
   saleId: string;
   totalAbandoned: number;
   abandonmentRate: number;
   topReasons: { reason: string; count: number; percentage: number }[];
   abandonmentByStage: { stage: string; count: number; percentage: number }[];
+  abandonmentByCategory: { category: AbandonmentCategory; count: number; percentage: number }[];
   averageTimeToAbandon: number;
   recommendations: string[];
 }
@@ -217,6 +221,17 @@ class QueueAnalyticsService {
     return journey;
   }
 
+  /**
+   * Count a user leaving a queue before admission: by choice, or evicted for going idle
+   */
+  async trackQueueExit(saleId: string, category: AbandonmentCategory): Promise<void> {
+    if (!isRedisConnected()) return;
+
+    const categoryKey = `${REDIS_KEYS.ANALYTICS_PREFIX}:abandonment:${saleId}:categories`;
+    await redisClient.hincrby(categoryKey, category, 1);
+    await redisClient.expire(categoryKey, JOURNEY_TTL);
+  }
+
   /**
    * Analyze queue abandonment
    */
@@ -224,16 +239,19 @@ class QueueAnalyticsService {
     const abandonedKey = `${REDIS_KEYS.ANALYTICS_PREFIX}:journeys:${saleId}:abandoned`;
     const completedKey = `${REDIS_KEYS.ANALYTICS_PREFIX}:journeys:${saleId}:completed`;
     const reasonsKey = `${REDIS_KEYS.ANALYTICS_PREFIX}:abandonment:${saleId}:reasons`;
+    const categoryKey = `${REDIS_KEYS.ANALYTICS_PREFIX}:abandonment:${saleId}:categories`;
 
     let abandonedJourneys: UserJourney[] = [];
     let completedCount = 0;
     let reasons: Record<string, string> = {};
+    let categories: Record<string, string> = {};
 
     if (isRedisConnected()) {
       const abandonedData = await redisClient.lrange(abandonedKey, 0, -1);
       abandonedJourneys = abandonedData.map((d) => JSON.parse(d));
       completedCount = await redisClient.llen(completedKey);
       reasons = (await redisClient.hgetall(reasonsKey)) as Record<string, string>;
+      categories = (await redisClient.hgetall(categoryKey)) as Record<string, string>;
     }
 
     const totalAbandoned = abandonedJourneys.length;
@@ -267,6 +285,20 @@ class QueueAnalyticsService {
       }))
       .sort((a, b) => b.count - a.count);
 
+    // Split queue exits into users who left and users evicted for going idle
+    const categoryCounts: Record<AbandonmentCategory, number> = {
+      left: parseInt(categories.left || '0'),
+      evicted: parseInt(categories.evicted || '0'),
+    };
+    const totalExits = categoryCounts.left + categoryCounts.evicted;
+    const abandonmentByCategory = (Object.keys(categoryCounts) as AbandonmentCategory[]).map(
+      (category) => ({
+        category,
+        count: categoryCounts[category],
+        percentage: totalExits > 0 ? (categoryCounts[category] / totalExits) * 100 : 0,
+      }),
+    );
+
     // Calculate average time to abandon
     const averageTimeToAbandon =
       abandonedJourneys.length > 0
@@ -284,6 +316,9 @@ class QueueAnalyticsService {
     if (abandonmentByStage.length > 0 && abandonmentByStage[0].percentage > 50) {
       recommendations.push(`Focus on improving the "${abandonmentByStage[0].stage}" stage`);
     }
+    if (totalExits > 0 && categoryCounts.evicted / totalExits > 0.5) {
+      recommendations.push('Most queue exits are idle evictions - check client connectivity');
+    }
 
     return {
       saleId,
@@ -291,6 +326,7 @@ class QueueAnalyticsService {
       abandonmentRate: Math.round(abandonmentRate * 10) / 10,
       topReasons,
       abandonmentByStage,
+      abandonmentByCategory,
       averageTimeToAbandon,
       recommendations,
     };
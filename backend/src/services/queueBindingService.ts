@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { comparePassword } from '../utils/helpers';
+import { buildQueueDevicesKey, buildQueueSessionsKey } from '../config/redisKeys';
+import { DeviceBindingPolicy } from '../models';
+import { fraudDetectionService, DeviceFingerprint } from './fraudDetectionService';
+
+// The device and session a queue request comes from
+export interface QueueClient {
+  deviceId?: string;
+  sessionId?: string;
+}
+
+// bound: first binding; matched: same device and session; rebound: moved under 'allow'
+export type BindingCheckResult = 'bound' | 'matched' | 'rebound';
+
+export class QueueBindingError extends Error {
+  public readonly saleId: string;
+  public readonly policy: Exclude<DeviceBindingPolicy, 'allow'>;
+
+  constructor(policy: Exclude<DeviceBindingPolicy, 'allow'>, saleId: string) {
+    super(QUEUE_BINDING_MESSAGES[policy]);
+    this.name = 'QueueBindingError';
+    this.policy = policy;
+    this.saleId = saleId;
+  }
+}
+
+const QUEUE_BINDING_MESSAGES: Record<Exclude<DeviceBindingPolicy, 'allow'>, string> = {
+  reject: 'Your queue place is bound to another device',
+  reverify: 'Re-enter your password to keep your queue place on this device',
+};
+
+export const REVERIFY_FAILED = 'Password is incorrect';
+
+export const DEVICE_BINDING_POLICIES: DeviceBindingPolicy[] = ['reject', 'reverify', 'allow'];
+const DEFAULT_POLICY: DeviceBindingPolicy = 'reverify';
+
+/**
+ * Get the device and session of a request: the device is the client's DeviceFingerprint
+ * (sent on join) or its x-device-id header, the session is the access token it presents
+ */
+export function getQueueClient(req: Request): QueueClient {
+  const fingerprint = req.body?.deviceFingerprint as DeviceFingerprint | undefined;
+  const authHeader = req.headers.authorization;
+
+  return {
+    deviceId: fingerprint?.fingerprint || (req.headers['x-device-id'] as string) || undefined,
+    sessionId: authHeader?.startsWith('Bearer ')
+      ? crypto.createHash('sha256').update(authHeader.substring(7)).digest('hex').slice(0, 32)
+      : undefined,
+  };
+}
+
+/**
+ * Binds a queue place to the device and session that took it, so a shared or compromised
+ * account can't hold the place on one device and use it from another. A request from a
+ * different device or session raises a fraud alert and is handled by the sale's policy.
+ */
+class QueueBindingService {
+  /**
+   * Bind a user's place in a sale queue to a client
+   */
+  async bind(userId: string, saleId: string, client: QueueClient): Promise<void> {
+    if (client.deviceId) {
+      await redisClient.hset(buildQueueDevicesKey(saleId), userId, client.deviceId);
+    }
+    if (client.sessionId) {
+      await redisClient.hset(buildQueueSessionsKey(saleId), userId, client.sessionId);
+    }
+  }
+
+  /**
+   * Check a request against the user's binding; binds on first contact, and on a change
+   * either moves the binding (allow) or throws QueueBindingError (reject, reverify)
+   */
+  async check(userId: string, saleId: string, client: QueueClient): Promise<BindingCheckResult> {
+    const [boundDevice, boundSession] = await Promise.all([
+      redisClient.hget(buildQueueDevicesKey(saleId), userId),
+      redisClient.hget(buildQueueSessionsKey(saleId), userId),
+    ]);
+
+    const deviceChanged = boundDevice !== null && boundDevice !== (client.deviceId || '');
+    const sessionChanged = boundSession !== null && boundSession !== (client.sessionId || '');
+
+    if (!deviceChanged && !sessionChanged) {
+      if (boundDevice === null || boundSession === null) {
+        await this.bind(userId, saleId, client);
+      }
+      return boundDevice === null && boundSession === null ? 'bound' : 'matched';
+    }
+
+    const policy = await this.getPolicy(saleId);
+    await this.recordChange(userId, saleId, client, policy, { deviceChanged, sessionChanged });
+
+    if (policy !== 'allow') {
+      throw new QueueBindingError(policy, saleId);
+    }
+
+    await this.bind(userId, saleId, client);
+    return 'rebound';
+  }
+
+  /**
+   * Move a binding to the current client once the user re-enters their password
+   */
+  async reverify(
+    userId: string,
+    saleId: string,
+    client: QueueClient,
+    password: string
+  ): Promise<void> {
+    if ((await this.getPolicy(saleId)) === 'reject') {
+      throw new QueueBindingError('reject', saleId);
+    }
+
+    const result = await pool.query('SELECT password_hash FROM users WHERE id = $1', [userId]);
+    const passwordHash = result.rows[0]?.password_hash;
+
+    if (!passwordHash || !password || !(await comparePassword(password, passwordHash))) {
+      throw new Error(REVERIFY_FAILED);
+    }
+
+    await this.bind(userId, saleId, client);
+  }
+
+  /**
+   * Get a sale's device binding policy
+   */
+  async getPolicy(saleId: string): Promise<DeviceBindingPolicy> {
+    const result = await pool.query('SELECT device_binding_policy FROM flash_sales WHERE id = $1', [
+      saleId,
+    ]);
+    return result.rows[0]?.device_binding_policy || DEFAULT_POLICY;
+  }
+
+  /**
+   * Set a sale's device binding policy; returns false for unknown sales
+   */
+  async setPolicy(saleId: string, policy: DeviceBindingPolicy): Promise<boolean> {
+    if (!DEVICE_BINDING_POLICIES.includes(policy)) {
+      throw new Error(
+        `Device binding policy must be one of: ${DEVICE_BINDING_POLICIES.join(', ')}`
+      );
+    }
+
+    const result = await pool.query(
+      'UPDATE flash_sales SET device_binding_policy = $2 WHERE id = $1 RETURNING id',
+      [saleId, policy]
+    );
+    return result.rows.length > 0;
+  }
+
+  private async recordChange(
+    userId: string,
+    saleId: string,
+    client: QueueClient,
+    policy: DeviceBindingPolicy,
+    changes: { deviceChanged: boolean; sessionChanged: boolean }
+  ): Promise<void> {
+    const changed = [changes.deviceChanged && 'device', changes.sessionChanged && 'session']
+      .filter(Boolean)
+      .join(' and ');
+
+    console.warn(
+      `Queue binding for user ${userId} in sale ${saleId} changed ${changed} (${policy})`
+    );
+
+    await fraudDetectionService.createAlert({
+      userId,
+      sessionId: client.sessionId || '',
+      alertType: 'queue_binding_changed',
+      // Under 'allow' the place actually moves
+      severity: policy === 'allow' ? 'medium' : 'low',
+      description: `Queue place used from a new ${changed}`,
+      metadata: { saleId, policy, deviceId: client.deviceId || null, ...changes },
+    });
+  }
+}
+
+// Export singleton instance
+export const queueBindingService = new QueueBindingService();
+export default queueBindingService;
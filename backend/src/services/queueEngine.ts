@@ -0,0 +1,847 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { logger } from '../utils/logger';
+import {
+  buildAdmissionPassKey,
+  buildQueueDevicesKey,
+  buildQueueJoinedAtKey,
+  buildQueueKey,
+  REDIS_LIMITS,
+} from '../config/redisKeys';
+import { QueueOrdering } from '../models';
+import { analyticsService } from './analyticsService';
+import { queueAnalyticsService, AbandonmentCategory } from './queueAnalyticsService';
+import { admissionPassService } from './admissionPassService';
+import { eventBroadcaster } from './eventBroadcaster';
+import { saleDrawService, PublishedDraw, toPublishedDraw } from './saleDrawService';
+import { queueEntryManager, QueueEntry, QueueEntryStatus } from './queueEntryManager';
+import { queueWaitEstimator, isMeaningfulChange, WaitEstimate } from './queueWaitEstimator';
+import { queuePresenceService } from './queuePresenceService';
+import { crossSaleAdmissionService } from './crossSaleAdmissionService';
+import { queueEventLog } from './queueEventLog';
+import { salePauseService } from './salePauseService';
+import { DEFAULT_QUEUE_ORDERINGS, QueueOrderingStrategy } from './queueOrdering';
+
+const queueLogger = logger.child('queue-engine');
+
+export interface QueueStats {
+  totalWaiting: number;
+  estimatedWaitTimeMinutes: number;
+  averageProcessingTimeSeconds: number;
+  admissionRate: number; // Users admitted per minute
+}
+
+export interface QueuePosition {
+  position: number;
+  totalAhead: number;
+  totalBehind: number;
+  estimatedWaitMinutes: number;
+  waitEstimate: WaitEstimate;
+  joinedAt: Date;
+}
+
+export interface QueueHealth {
+  saleId: string;
+  totalInQueue: number;
+  processingCount: number; // Admitted users holding an unused pass
+  averageWaitTime: number;
+  throughput: number; // users per minute
+  healthScore: number; // 0-100
+  congestionLevel: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export interface QueueConfig {
+  saleId: string;
+  maxConcurrent: number; // Admission passes outstanding at once
+  batchSize: number;
+}
+
+export interface QueueUser {
+  userId: string;
+  position: number;
+  joinedAt: Date;
+}
+
+// A user let into the queue from a sale's waiting room
+export interface QueueArrival {
+  userId: string;
+  deviceId?: string;
+}
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+export const SALE_NOT_STARTED = 'Sale has not started yet; wait in the waiting room';
+
+// Constants
+const DEFAULT_MAX_CONCURRENT = 100;
+const DEFAULT_BATCH_SIZE = 10;
+// How often an active sale's queue admits a batch (one admission control tick)
+export const ADMISSION_TICK_MS = 5 * 1000;
+const THROUGHPUT_WINDOW_MINUTES = 5;
+// How long draw winners have to check out
+const DRAW_ADMISSION_WINDOW_SECONDS = parseInt(
+  process.env.DRAW_ADMISSION_WINDOW_SECONDS || '900',
+  10
+);
+
+/**
+ * The one queue for every flash sale.
+ *
+ * Redis layout per sale:
+ * - queue:{saleId}          ZSET of waiting users, scored by the sale's ordering strategy
+ * - queue_joined:{saleId}   HASH of when each user joined
+ * - queue_devices:{saleId}  HASH of the device each user joined from
+ * - admission_pass*:{saleId} users admitted from the queue (see admissionPassService)
+ * - waiting_room:{saleId}   users waiting for the sale to start (see waitingRoomService)
+ * - queue_presence:{saleId} when each waiting user was last seen (see queuePresenceService)
+ *
+ * queue_entries in Postgres is the projection of that state, written through
+ * queueEntryManager on every transition. Each change is also appended to queue_events
+ * (see queueEventLog), and the Redis state is snapshotted periodically (see
+ * queueSnapshotService).
+ */
+class QueueEngine {
+  private orderings: Map<QueueOrdering, QueueOrderingStrategy> = new Map(
+    DEFAULT_QUEUE_ORDERINGS.map((strategy) => [strategy.name, strategy])
+  );
+  private queueConfigs: Map<string, QueueConfig> = new Map();
+  // Wait estimates last pushed to each waiting user, by sale
+  private pushedEstimates: Map<string, Map<string, WaitEstimate>> = new Map();
+
+  /**
+   * Register an ordering strategy, replacing any with the same name
+   */
+  registerOrdering(strategy: QueueOrderingStrategy): void {
+    this.orderings.set(strategy.name, strategy);
+  }
+
+  /**
+   * Get the ordering strategy configured for a sale
+   */
+  async getOrdering(saleId: string): Promise<QueueOrderingStrategy> {
+    const result = await pool.query('SELECT queue_ordering FROM flash_sales WHERE id = $1', [
+      saleId,
+    ]);
+    const name: QueueOrdering = result.rows[0]?.queue_ordering || 'fifo';
+
+    const strategy = this.orderings.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown queue ordering: ${name}`);
+    }
+
+    return strategy;
+  }
+
+  /**
+   * Join a queue for a flash sale; the admission pass is later bound to deviceId
+   */
+  async joinQueue(userId: string, saleId: string, deviceId?: string): Promise<QueuePosition> {
+    try {
+      const queueKey = buildQueueKey(saleId);
+
+      // Already waiting: return current position
+      if ((await redisClient.zscore(queueKey, userId)) !== null) {
+        return await this.getQueuePosition(userId, saleId);
+      }
+
+      if (await redisClient.hexists(buildAdmissionPassKey(saleId), userId)) {
+        throw new Error('Already admitted to this sale');
+      }
+
+      const currentSize = await redisClient.zcard(queueKey);
+      if (currentSize >= REDIS_LIMITS.getMaxQueueLength()) {
+        throw new Error('Queue is full. Please try again later.');
+      }
+
+      // Early arrivals are queued together from the waiting room at the start
+      const sale = await pool.query('SELECT status FROM flash_sales WHERE id = $1', [saleId]);
+      if (sale.rows[0]?.status === 'upcoming') {
+        throw new Error(SALE_NOT_STARTED);
+      }
+
+      const ordering = await this.getOrdering(saleId);
+      await ordering.beforeJoin?.(userId, saleId);
+
+      const joinedAt = Date.now();
+      const score = await ordering.score(userId, saleId, joinedAt);
+
+      // NX: a concurrent join of the same user keeps the first score
+      const added = await redisClient.zadd(queueKey, 'NX', score, userId);
+      if (Number(added) === 0) {
+        return await this.getQueuePosition(userId, saleId);
+      }
+
+      await redisClient.hset(buildQueueJoinedAtKey(saleId), userId, joinedAt);
+      if (deviceId) {
+        await redisClient.hset(buildQueueDevicesKey(saleId), userId, deviceId);
+      }
+      await queueEventLog.record(saleId, { type: 'join', entries: [{ userId, score }] });
+
+      const position = await this.getQueuePosition(userId, saleId);
+
+      await queueEntryManager.createEntry({
+        user_id: userId,
+        flash_sale_id: saleId,
+        position: position.position,
+        score,
+      });
+
+      // Track analytics event
+      await analyticsService.trackQueueJoin(saleId, userId, position.position);
+
+      return position;
+    } catch (error) {
+      queueLogger.error('Error joining queue', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a sale's waiting room at once, in random order, so early arrivals don't all land
+   * on the same millisecond at the start; returns the users queued
+   */
+  async enqueueShuffled(saleId: string, arrivals: QueueArrival[]): Promise<string[]> {
+    try {
+      const queueKey = buildQueueKey(saleId);
+      const ordering = await this.getOrdering(saleId);
+      const capacity = REDIS_LIMITS.getMaxQueueLength() - (await redisClient.zcard(queueKey));
+
+      const shuffled = [...arrivals];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = crypto.randomInt(i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+
+      const accepted: QueueArrival[] = [];
+      for (const arrival of shuffled) {
+        if (accepted.length >= capacity) {
+          break;
+        }
+        try {
+          await ordering.beforeJoin?.(arrival.userId, saleId);
+          accepted.push(arrival);
+        } catch (error) {
+          queueLogger.error('Refused waiting room arrival', {
+            saleId,
+            userId: arrival.userId,
+            error: (error as Error).message,
+          });
+        }
+      }
+
+      // Each arrival gets its own millisecond just before now, in shuffled order
+      const joinedAt = Date.now();
+      const scores = await Promise.all(
+        accepted.map((arrival, i) =>
+          ordering.score(arrival.userId, saleId, joinedAt - accepted.length + i)
+        )
+      );
+
+      const adds = redisClient.pipeline();
+      accepted.forEach((arrival, i) => adds.zadd(queueKey, 'NX', scores[i], arrival.userId));
+      const added = (await adds.exec()) || [];
+
+      const queued = accepted
+        .map((arrival, i) => ({ ...arrival, score: scores[i] }))
+        .filter((_arrival, i) => Number(added[i]?.[1]) === 1);
+      if (queued.length === 0) {
+        return [];
+      }
+
+      const details = redisClient.pipeline();
+      queued.forEach(({ userId, deviceId }) => {
+        details.hset(buildQueueJoinedAtKey(saleId), userId, joinedAt);
+        if (deviceId) {
+          details.hset(buildQueueDevicesKey(saleId), userId, deviceId);
+        }
+      });
+      await details.exec();
+      await queueEventLog.record(saleId, {
+        type: 'join',
+        entries: queued.map(({ userId, score }) => ({ userId, score })),
+      });
+
+      const rankLookups = redisClient.pipeline();
+      queued.forEach(({ userId }) => rankLookups.zrank(queueKey, userId));
+      const ranks = (await rankLookups.exec()) || [];
+
+      await queueEntryManager.createEntries(
+        saleId,
+        queued.map((arrival, i) => ({
+          user_id: arrival.userId,
+          position: Number(ranks[i]?.[1]) + 1,
+          score: arrival.score,
+        }))
+      );
+      await queuePresenceService.touch(
+        saleId,
+        queued.map((arrival) => arrival.userId)
+      );
+
+      queueLogger.info('Queued users from the waiting room', { saleId, count: queued.length });
+
+      return queued.map((arrival) => arrival.userId);
+    } catch (error) {
+      queueLogger.error('Error queueing waiting room', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Leave a queue; idle users are evicted through here too, with reason 'evicted'
+   */
+  async leaveQueue(
+    userId: string,
+    saleId: string,
+    reason: AbandonmentCategory = 'left'
+  ): Promise<boolean> {
+    try {
+      const removed = await redisClient.zrem(buildQueueKey(saleId), userId);
+
+      if (removed === 0) {
+        return false;
+      }
+
+      await redisClient.hdel(buildQueueJoinedAtKey(saleId), userId);
+      await queueEventLog.record(saleId, { type: 'leave', userIds: [userId], reason });
+      await queueEntryManager.transitionUsers(saleId, [userId], ['waiting'], 'cancelled');
+      await queuePresenceService.forget(saleId, [userId]);
+      await queueWaitEstimator.recordAbandoned(saleId);
+
+      // Track analytics
+      await analyticsService.trackEvent('queue_leave', userId, saleId, undefined, { reason });
+      await queueAnalyticsService.trackQueueExit(saleId, reason);
+
+      if (reason === 'evicted') {
+        eventBroadcaster.queueEvicted(userId, saleId);
+      }
+
+      return true;
+    } catch (error) {
+      queueLogger.error('Error leaving queue', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Evict users who have gone unseen for longer than the presence grace period; draw
+   * queues hold registrations rather than live places, so nobody is evicted from them
+   */
+  async evictIdleUsers(saleId: string): Promise<string[]> {
+    const idle = await queuePresenceService.takeIdle(saleId);
+    if (idle.length === 0) {
+      return [];
+    }
+
+    const ordering = await this.getOrdering(saleId);
+    if (ordering.batchAdmission === false) {
+      return [];
+    }
+
+    const evicted: string[] = [];
+    for (const userId of idle) {
+      if (await this.leaveQueue(userId, saleId, 'evicted')) {
+        evicted.push(userId);
+      }
+    }
+
+    if (evicted.length > 0) {
+      queueLogger.info('Evicted idle users from queue', { saleId, count: evicted.length });
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Get user's position in queue
+   */
+  async getQueuePosition(userId: string, saleId: string): Promise<QueuePosition> {
+    try {
+      const queueKey = buildQueueKey(saleId);
+
+      // Get user's rank (0-based)
+      const rank = await redisClient.zrank(queueKey, userId);
+
+      if (rank === null) {
+        throw new Error('User not in queue');
+      }
+
+      // Checking one's position counts as being present
+      await queuePresenceService.touch(saleId, [userId]);
+
+      const [joinedAtValue, totalSize] = await Promise.all([
+        redisClient.hget(buildQueueJoinedAtKey(saleId), userId),
+        redisClient.zcard(queueKey),
+      ]);
+
+      // Calculate position (1-based)
+      const position = rank + 1;
+      const waitEstimate = await queueWaitEstimator.estimate(
+        saleId,
+        position,
+        totalSize,
+        this.getConfiguredAdmissionRate(saleId)
+      );
+
+      return {
+        position,
+        totalAhead: rank,
+        totalBehind: totalSize - position,
+        estimatedWaitMinutes: Math.ceil(waitEstimate.expectedSeconds / 60),
+        waitEstimate,
+        joinedAt: joinedAtValue ? new Date(Number(joinedAtValue)) : new Date(),
+      };
+    } catch (error) {
+      queueLogger.error('Error getting queue position', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getQueueStats(saleId: string): Promise<QueueStats> {
+    try {
+      const [totalWaiting, rate] = await Promise.all([
+        redisClient.zcard(buildQueueKey(saleId)),
+        queueWaitEstimator.getServiceRate(saleId),
+      ]);
+      const configuredRate = this.getConfiguredAdmissionRate(saleId);
+      const admissionRate = rate.admittedPerMinute || configuredRate;
+      const lastInQueue = queueWaitEstimator.estimateFromRate(
+        totalWaiting,
+        totalWaiting,
+        configuredRate,
+        rate
+      );
+
+      return {
+        totalWaiting,
+        estimatedWaitTimeMinutes: Math.ceil(lastInQueue.expectedSeconds / 60),
+        averageProcessingTimeSeconds: Math.round(60 / admissionRate),
+        admissionRate,
+      };
+    } catch (error) {
+      queueLogger.error('Error getting queue stats', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Send waiting users their wait estimate over the socket, but only users whose estimate
+   * moved meaningfully since they were last sent one; returns how many were sent
+   */
+  async pushWaitEstimates(saleId: string): Promise<number> {
+    const ordering = await this.getOrdering(saleId);
+    if (ordering.batchAdmission === false) {
+      return 0;
+    }
+
+    const [userIds, rate] = await Promise.all([
+      redisClient.zrange(buildQueueKey(saleId), 0, -1),
+      queueWaitEstimator.getServiceRate(saleId),
+    ]);
+    const configuredRate = this.getConfiguredAdmissionRate(saleId);
+    const previous = this.pushedEstimates.get(saleId) || new Map<string, WaitEstimate>();
+    const pushed = new Map<string, WaitEstimate>();
+    let sent = 0;
+
+    userIds.forEach((userId, rank) => {
+      const estimate = queueWaitEstimator.estimateFromRate(
+        rank + 1,
+        userIds.length,
+        configuredRate,
+        rate
+      );
+      const last = previous.get(userId);
+
+      if (last && !isMeaningfulChange(last, estimate)) {
+        pushed.set(userId, last);
+        return;
+      }
+
+      pushed.set(userId, estimate);
+      eventBroadcaster.queueWaitEstimate({
+        saleId,
+        userId,
+        position: rank + 1,
+        estimatedWaitMs: estimate.expectedSeconds * 1000,
+        estimatedWaitLowMs: estimate.lowSeconds * 1000,
+        estimatedWaitHighMs: estimate.highSeconds === null ? null : estimate.highSeconds * 1000,
+        totalInQueue: userIds.length,
+      });
+      sent++;
+    });
+
+    this.pushedEstimates.set(saleId, pushed);
+    return sent;
+  }
+
+  /**
+   * Get queue length
+   */
+  async getQueueLength(saleId: string): Promise<number> {
+    try {
+      return await redisClient.zcard(buildQueueKey(saleId));
+    } catch (error) {
+      queueLogger.error('Error getting queue length', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Check if user is waiting in queue
+   */
+  async isInQueue(userId: string, saleId: string): Promise<boolean> {
+    try {
+      const score = await redisClient.zscore(buildQueueKey(saleId), userId);
+      return score !== null;
+    } catch (error) {
+      queueLogger.error('Error checking queue membership', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Admit the next batch from the head of the queue, up to the sale's concurrency limit;
+   * each admitted user gets a single-use admission pass. Users already holding their
+   * share of admissions in other sales are passed over (see crossSaleAdmissionService).
+   * Nobody is admitted while the sale is paused.
+   */
+  async admitNextBatch(saleId: string, batchSize?: number): Promise<string[]> {
+    try {
+      if (await salePauseService.isPaused(saleId)) {
+        queueLogger.debug('Queue paused; not admitting', { saleId });
+        return [];
+      }
+
+      const ordering = await this.getOrdering(saleId);
+      if (ordering.batchAdmission === false) {
+        return [];
+      }
+
+      const config = this.getConfig(saleId);
+      const outstanding = await redisClient.hlen(buildAdmissionPassKey(saleId));
+      const size = Math.min(batchSize || config.batchSize, config.maxConcurrent - outstanding);
+
+      if (size <= 0) {
+        queueLogger.debug('Queue at capacity', {
+          saleId,
+          outstanding,
+          maxConcurrent: config.maxConcurrent,
+        });
+        return [];
+      }
+
+      // Users at their cross-sale admission cap keep their place and are skipped
+      const plan = await crossSaleAdmissionService.planBatch(saleId, size);
+      const userIds =
+        plan.deferred.length === 0
+          ? await admissionPassService.admitBatch(saleId, size)
+          : await admissionPassService.admitUsers(saleId, plan.admit);
+      if (userIds.length > 0) {
+        await queueEventLog.record(saleId, {
+          type: 'admit',
+          requested: size,
+          userIds,
+          deferred: plan.deferred,
+        });
+      }
+      const admitted = await this.recordAdmitted(saleId, userIds);
+
+      await crossSaleAdmissionService.release(
+        plan.releases.filter(({ userId }) => admitted.includes(userId))
+      );
+
+      return admitted;
+    } catch (error) {
+      queueLogger.error('Error admitting batch', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Admit specific waiting users regardless of their place or the concurrency limit,
+   * unless the sale is paused
+   */
+  async admitUsers(saleId: string, userIds: string[], ttlSeconds?: number): Promise<string[]> {
+    try {
+      if (await salePauseService.isPaused(saleId)) {
+        queueLogger.debug('Queue paused; not admitting', { saleId });
+        return [];
+      }
+
+      const admitted = await admissionPassService.admitUsers(saleId, userIds, ttlSeconds);
+      if (admitted.length > 0) {
+        await queueEventLog.record(saleId, { type: 'admit_users', userIds: admitted });
+      }
+      return await this.recordAdmitted(saleId, admitted);
+    } catch (error) {
+      queueLogger.error('Error admitting users', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Run a draw sale's draw over everyone registered: winners are admitted for the draw
+   * window, everyone else leaves the queue, and the seed and entry hash are published
+   */
+  async runDraw(saleId: string): Promise<PublishedDraw> {
+    try {
+      const ordering = await this.getOrdering(saleId);
+      if (ordering.name !== 'draw') {
+        throw new Error('Sale is not a draw');
+      }
+      // Winners could not be admitted, so everyone would lose
+      if (await salePauseService.isPaused(saleId)) {
+        throw new Error('Sale is paused');
+      }
+
+      const queueKey = buildQueueKey(saleId);
+      const entrants = await redisClient.zrange(queueKey, 0, -1);
+      const audit = await saleDrawService.draw(saleId, entrants);
+      const draw = toPublishedDraw(audit);
+
+      const admitted = await this.admitUsers(saleId, audit.winners, DRAW_ADMISSION_WINDOW_SECONDS);
+      const expiresAt = new Date(Date.now() + DRAW_ADMISSION_WINDOW_SECONDS * 1000);
+
+      const admittedSet = new Set(admitted);
+      const losers = entrants.filter((userId) => !admittedSet.has(userId));
+      if (losers.length > 0) {
+        await redisClient.zrem(queueKey, ...losers);
+        await redisClient.hdel(buildQueueJoinedAtKey(saleId), ...losers);
+        await queueEventLog.record(saleId, { type: 'leave', userIds: losers, reason: 'draw_lost' });
+        await queueEntryManager.transitionUsers(saleId, losers, ['waiting'], 'cancelled');
+      }
+
+      admitted.forEach((userId) => eventBroadcaster.drawWon(userId, saleId, expiresAt));
+      losers.forEach((userId) => eventBroadcaster.drawLost(userId, saleId));
+      eventBroadcaster.drawPublished({
+        saleId,
+        seed: draw.seed as string,
+        seedHash: draw.seedHash,
+        entriesHash: draw.entriesHash as string,
+        entryCount: entrants.length,
+        winnerCount: admitted.length,
+      });
+
+      return draw;
+    } catch (error) {
+      queueLogger.error('Error running draw', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Get waiting users in queue order (for admin/debugging)
+   */
+  async getAllQueueUsers(
+    saleId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<QueueUser[]> {
+    try {
+      const userIds = await redisClient.zrange(buildQueueKey(saleId), offset, offset + limit - 1);
+      if (userIds.length === 0) {
+        return [];
+      }
+
+      const joinedAt = await redisClient.hmget(buildQueueJoinedAtKey(saleId), ...userIds);
+
+      return userIds.map((userId, index) => ({
+        userId,
+        position: offset + index + 1,
+        joinedAt: joinedAt[index] ? new Date(Number(joinedAt[index])) : new Date(),
+      }));
+    } catch (error) {
+      queueLogger.error('Error getting all queue users', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Get projected entries of a sale in queue order; waiting entries carry their live position
+   */
+  async getEntries(
+    saleId: string,
+    status?: QueueEntryStatus,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<QueueEntry[]> {
+    const entries = await queueEntryManager.getEntriesBySale(saleId, status, limit, offset);
+    const queueKey = buildQueueKey(saleId);
+
+    return Promise.all(
+      entries.map(async (entry) => {
+        if (entry.status !== 'waiting') {
+          return entry;
+        }
+        const rank = await redisClient.zrank(queueKey, entry.user_id);
+        return rank === null ? entry : { ...entry, position: rank + 1 };
+      })
+    );
+  }
+
+  /**
+   * Clear entire queue (admin only); admitted users keep their passes
+   */
+  async clearQueue(saleId: string): Promise<number> {
+    try {
+      const queueKey = buildQueueKey(saleId);
+      const count = await redisClient.zcard(queueKey);
+
+      await redisClient.del(queueKey, buildQueueJoinedAtKey(saleId));
+      await queueEventLog.record(saleId, { type: 'clear' });
+      await queueEntryManager.cancelWaiting(saleId);
+      await queuePresenceService.clear(saleId);
+      this.pushedEstimates.delete(saleId);
+
+      queueLogger.info('Cleared users from queue', { saleId, count });
+
+      return count;
+    } catch (error) {
+      queueLogger.error('Error clearing queue', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a sale's queue history from the projection
+   */
+  async getQueueHistory(saleId: string) {
+    return queueEntryManager.getQueueStats(saleId);
+  }
+
+  /**
+   * Get average and longest queue waits of a sale, in milliseconds
+   */
+  async getWaitTimes(saleId: string): Promise<{ avgWaitMs: number; maxWaitMs: number }> {
+    return queueEntryManager.getWaitTimeStats(saleId);
+  }
+
+  /**
+   * Get a user's latest projected entry for a sale
+   */
+  async getUserEntry(userId: string, saleId: string): Promise<QueueEntry | null> {
+    return queueEntryManager.getEntryByUser(userId, saleId);
+  }
+
+  /**
+   * Get the queues a user has joined, most recent first
+   */
+  async getUserQueueHistory(userId: string, limit: number = 10): Promise<QueueEntry[]> {
+    return queueEntryManager.getUserQueueHistory(userId, limit);
+  }
+
+  /**
+   * Record that an admitted user bought; pass a transaction client to write it with the order
+   */
+  async markPurchased(userId: string, saleId: string, db: Queryable = pool): Promise<void> {
+    await queueEntryManager.markPurchased(userId, saleId, db);
+  }
+
+  /**
+   * Cancel admitted entries that never turned into a purchase (background job)
+   */
+  async timeoutExpiredReservations(saleId?: string): Promise<number> {
+    return queueEntryManager.timeoutExpiredReservations(saleId);
+  }
+
+  /**
+   * Get queue health metrics
+   */
+  async getQueueHealth(saleId: string): Promise<QueueHealth> {
+    const [totalInQueue, processingCount, recentPurchases] = await Promise.all([
+      redisClient.zcard(buildQueueKey(saleId)),
+      redisClient.hlen(buildAdmissionPassKey(saleId)),
+      queueEntryManager.countRecentTransitions(saleId, 'purchased', THROUGHPUT_WINDOW_MINUTES),
+    ]);
+
+    const config = this.getConfig(saleId);
+
+    const throughput = recentPurchases / THROUGHPUT_WINDOW_MINUTES;
+
+    // Estimate average wait time
+    const averageWaitTime = throughput > 0 ? Math.round(totalInQueue / throughput) : 0;
+
+    // Calculate health score
+    const utilizationRatio = Math.min(1, processingCount / config.maxConcurrent);
+    const queueRatio = Math.min(1, totalInQueue / 1000);
+    const healthScore = Math.round(100 - (utilizationRatio * 30 + queueRatio * 70));
+
+    // Determine congestion level
+    const congestionLevel =
+      healthScore > 75
+        ? 'low'
+        : healthScore > 50
+          ? 'medium'
+          : healthScore > 25
+            ? 'high'
+            : 'critical';
+
+    return {
+      saleId,
+      totalInQueue,
+      processingCount,
+      averageWaitTime,
+      throughput,
+      healthScore,
+      congestionLevel,
+    };
+  }
+
+  /**
+   * Configure queue for a sale
+   */
+  configureQueue(saleId: string, config: Partial<QueueConfig>): QueueConfig {
+    const newConfig = { ...this.getConfig(saleId), ...config, saleId };
+    this.queueConfigs.set(saleId, newConfig);
+
+    return newConfig;
+  }
+
+  /**
+   * Get queue configuration
+   */
+  getConfig(saleId: string): QueueConfig {
+    return (
+      this.queueConfigs.get(saleId) || {
+        saleId,
+        maxConcurrent: DEFAULT_MAX_CONCURRENT,
+        batchSize: DEFAULT_BATCH_SIZE,
+      }
+    );
+  }
+
+  /**
+   * Mark admitted users' entries reserved; their join times stay in case an unused pass
+   * returns them to the queue
+   */
+  private async recordAdmitted(saleId: string, userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    await queueEntryManager.transitionUsers(saleId, userIds, ['waiting'], 'reserved');
+    await queuePresenceService.forget(saleId, userIds);
+    await queueWaitEstimator.recordAdmitted(saleId, userIds.length);
+
+    queueLogger.info('Admitted users from queue', { saleId, count: userIds.length });
+
+    return userIds;
+  }
+
+  /**
+   * Users per minute the queue admits at its configured batch size
+   */
+  private getConfiguredAdmissionRate(saleId: string): number {
+    return (this.getConfig(saleId).batchSize * 60000) / ADMISSION_TICK_MS;
+  }
+}
+
+// Export singleton instance
+export const queueEngine = new QueueEngine();
+export { QueueEngine };
+export default queueEngine;
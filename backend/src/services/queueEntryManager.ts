@@ -1,12 +1,18 @@
+import { PoolClient } from 'pg';
 import pool from '../utils/database';
 import { v4 as uuidv4 } from 'uuid';
 
+// reserved: admitted from the queue and holding an admission pass
+export type QueueEntryStatus = 'waiting' | 'reserved' | 'purchased' | 'cancelled';
+
 export interface QueueEntry {
   id: string;
   user_id: string;
   flash_sale_id: string;
   position: number;
-  status: 'waiting' | 'reserved' | 'purchased' | 'cancelled';
+  // Score of the entry in the Redis queue; lower is admitted first
+  score?: number | null;
+  status: QueueEntryStatus;
   joined_at: Date;
   updated_at?: Date;
 }
@@ -15,14 +21,22 @@ export interface QueueEntryCreate {
   user_id: string;
   flash_sale_id: string;
   position: number;
-  status?: 'waiting' | 'reserved' | 'purchased' | 'cancelled';
+  score?: number;
+  status?: QueueEntryStatus;
 }
 
+type Queryable = Pick<PoolClient, 'query'>;
+
 export interface QueueEntryUpdate {
-  status?: 'waiting' | 'reserved' | 'purchased' | 'cancelled';
+  status?: QueueEntryStatus;
   position?: number;
 }
 
+/**
+ * Postgres projection of the sale queues. Redis holds the live queue; these rows record
+ * each user's entry and status for history and reporting. Only the QueueEngine (and the
+ * admission passes it issues) writes here.
+ */
 class QueueEntryManager {
   private readonly RESERVATION_TIMEOUT_MINUTES = 10; // 10 minutes to complete purchase
 
@@ -35,10 +49,10 @@ class QueueEntryManager {
       const status = data.status || 'waiting';
 
       const result = await pool.query(
-        `INSERT INTO queue_entries (id, user_id, flash_sale_id, position, status, joined_at)
-         VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)
+        `INSERT INTO queue_entries (id, user_id, flash_sale_id, position, score, status, joined_at)
+         VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
          RETURNING *`,
-        [id, data.user_id, data.flash_sale_id, data.position, status]
+        [id, data.user_id, data.flash_sale_id, data.position, data.score ?? null, status]
       );
 
       return this.mapToQueueEntry(result.rows[0]);
@@ -48,6 +62,39 @@ class QueueEntryManager {
     }
   }
 
+  /**
+   * Create waiting entries for many users of one sale in a single insert
+   */
+  async createEntries(
+    saleId: string,
+    entries: Array<{ user_id: string; position: number; score: number }>
+  ): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    try {
+      const result = await pool.query(
+        `INSERT INTO queue_entries (id, user_id, flash_sale_id, position, score, status, joined_at)
+         SELECT e.id, e.user_id, $1, e.position, e.score, 'waiting', CURRENT_TIMESTAMP
+         FROM unnest($2::uuid[], $3::uuid[], $4::int[], $5::float8[])
+           AS e(id, user_id, position, score)`,
+        [
+          saleId,
+          entries.map(() => uuidv4()),
+          entries.map((entry) => entry.user_id),
+          entries.map((entry) => entry.position),
+          entries.map((entry) => entry.score),
+        ]
+      );
+
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error creating queue entries:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get queue entry by user and sale
    */
@@ -77,8 +124,9 @@ class QueueEntryManager {
    */
   async getEntriesBySale(
     saleId: string,
-    status?: 'waiting' | 'reserved' | 'purchased' | 'cancelled',
-    limit: number = 100
+    status?: QueueEntryStatus,
+    limit: number = 100,
+    offset: number = 0
   ): Promise<QueueEntry[]> {
     try {
       let query = `SELECT * FROM queue_entries WHERE flash_sale_id = $1`;
@@ -89,8 +137,8 @@ class QueueEntryManager {
         params.push(status);
       }
 
-      query += ` ORDER BY joined_at ASC LIMIT $${params.length + 1}`;
-      params.push(limit);
+      query += ` ORDER BY score ASC NULLS LAST, joined_at ASC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
+      params.push(limit, offset);
 
       const result = await pool.query(query, params);
 
@@ -160,7 +208,7 @@ class QueueEntryManager {
   async updateStatus(
     userId: string,
     saleId: string,
-    status: 'waiting' | 'reserved' | 'purchased' | 'cancelled'
+    status: QueueEntryStatus
   ): Promise<QueueEntry | null> {
     try {
       const result = await pool.query(
@@ -182,6 +230,89 @@ class QueueEntryManager {
     }
   }
 
+  /**
+   * Move users between statuses; returns the user IDs whose entry changed
+   */
+  async transitionUsers(
+    saleId: string,
+    userIds: string[],
+    from: QueueEntryStatus[],
+    to: QueueEntryStatus
+  ): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const result = await pool.query(
+        `UPDATE queue_entries
+         SET status = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = ANY($2::uuid[]) AND flash_sale_id = $3 AND status = ANY($4::text[])
+         RETURNING user_id`,
+        [to, userIds, saleId, from]
+      );
+
+      return result.rows.map((row) => row.user_id);
+    } catch (error) {
+      console.error('Error transitioning queue entries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel every waiting entry of a sale
+   */
+  async cancelWaiting(saleId: string): Promise<number> {
+    try {
+      const result = await pool.query(
+        `UPDATE queue_entries
+         SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+         WHERE flash_sale_id = $1 AND status = 'waiting'`,
+        [saleId]
+      );
+
+      return result.rowCount || 0;
+    } catch (error) {
+      console.error('Error cancelling waiting entries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a purchase; pass a transaction client to write it with the order
+   */
+  async markPurchased(userId: string, saleId: string, db: Queryable = pool): Promise<void> {
+    await db.query(
+      `UPDATE queue_entries
+       SET status = 'purchased', updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND flash_sale_id = $2 AND status IN ('waiting', 'reserved')`,
+      [userId, saleId]
+    );
+  }
+
+  /**
+   * Count entries of a sale that moved to a status within the last few minutes
+   */
+  async countRecentTransitions(
+    saleId: string,
+    status: QueueEntryStatus,
+    minutes: number
+  ): Promise<number> {
+    try {
+      const result = await pool.query(
+        `SELECT COUNT(*) AS count FROM queue_entries
+         WHERE flash_sale_id = $1 AND status = $2
+         AND updated_at >= NOW() - make_interval(mins => $3)`,
+        [saleId, status, minutes]
+      );
+
+      return parseInt(result.rows[0].count, 10);
+    } catch (error) {
+      console.error('Error counting recent queue transitions:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get entries that have expired reservations
    */
@@ -305,6 +436,35 @@ class QueueEntryManager {
     }
   }
 
+  /**
+   * Get average and longest time from joining to leaving the waiting state, in milliseconds
+   */
+  async getWaitTimeStats(saleId: string): Promise<{ avgWaitMs: number; maxWaitMs: number }> {
+    try {
+      const result = await pool.query(
+        `SELECT
+          COALESCE(AVG(wait_ms), 0) AS avg_wait_ms,
+          COALESCE(MAX(wait_ms), 0) AS max_wait_ms
+         FROM (
+           SELECT EXTRACT(EPOCH FROM (
+             CASE WHEN status = 'waiting' THEN NOW() ELSE updated_at END - joined_at
+           )) * 1000 AS wait_ms
+           FROM queue_entries
+           WHERE flash_sale_id = $1
+         ) waits`,
+        [saleId]
+      );
+
+      return {
+        avgWaitMs: parseFloat(result.rows[0].avg_wait_ms) || 0,
+        maxWaitMs: parseFloat(result.rows[0].max_wait_ms) || 0,
+      };
+    } catch (error) {
+      console.error('Error getting queue wait times:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get user's queue history
    */
@@ -325,6 +485,30 @@ class QueueEntryManager {
     }
   }
 
+  /**
+   * Get the waiting and reserved entries of users across all sales, earliest joined first
+   */
+  async getActiveEntriesForUsers(userIds: string[]): Promise<QueueEntry[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const result = await pool.query(
+        `SELECT * FROM queue_entries
+         WHERE user_id = ANY($1::uuid[])
+         AND status IN ('waiting', 'reserved')
+         ORDER BY joined_at ASC`,
+        [userIds]
+      );
+
+      return result.rows.map((row) => this.mapToQueueEntry(row));
+    } catch (error) {
+      console.error('Error getting active entries:', error);
+      throw error;
+    }
+  }
+
   /**
    * Check if user has active queue entry for sale
    */
@@ -350,10 +534,10 @@ class QueueEntryManager {
    */
   async batchUpdatePositions(saleId: string): Promise<number> {
     try {
-      // Update positions based on joined_at order
+      // Same order as the Redis queue: by score, then join time for rows without one
       const result = await pool.query(
         `WITH ranked AS (
-          SELECT id, ROW_NUMBER() OVER (ORDER BY joined_at ASC) as new_position
+          SELECT id, ROW_NUMBER() OVER (ORDER BY score ASC NULLS LAST, joined_at ASC) as new_position
           FROM queue_entries
           WHERE flash_sale_id = $1 AND status = 'waiting'
         )
@@ -380,7 +564,8 @@ class QueueEntryManager {
       user_id: row.user_id as string,
       flash_sale_id: row.flash_sale_id as string,
       position: row.position as number,
-      status: row.status as 'waiting' | 'reserved' | 'purchased' | 'cancelled',
+      score: row.score === null || row.score === undefined ? null : Number(row.score),
+      status: row.status as QueueEntryStatus,
       joined_at: row.joined_at as Date,
       updated_at: row.updated_at as Date | undefined,
     };
@@ -0,0 +1,96 @@
+import pool from '../utils/database';
+
+// Why a user left a queue without being admitted
+export type QueueLeaveReason = 'left' | 'evicted' | 'draw_lost';
+
+// What happened to a sale queue; each event carries what is needed to apply it again
+export type QueueLogEventData =
+  | { type: 'join'; entries: Array<{ userId: string; score: number }> }
+  | { type: 'leave'; userIds: string[]; reason: QueueLeaveReason }
+  // A batch from the head of the queue; deferred users were passed over for the cap
+  | { type: 'admit'; requested: number; userIds: string[]; deferred: string[] }
+  // Named users admitted out of turn, e.g. draw winners or an admin override
+  | { type: 'admit_users'; userIds: string[] }
+  // Unused admissions back to their place in the queue
+  | { type: 'return'; userIds: string[] }
+  | { type: 'clear' };
+
+export type QueueLogEventType = QueueLogEventData['type'];
+
+export type QueueLogEvent = QueueLogEventData & {
+  id: number;
+  saleId: string;
+  createdAt: Date;
+};
+
+/**
+ * Ordered log of every change the queue engine makes to a sale queue, kept in Postgres
+ * so a sale can be replayed after the fact (see queueReplay). Recording never fails the
+ * queue operation it describes.
+ */
+class QueueEventLog {
+  /**
+   * Record a change to a sale queue
+   */
+  async record(saleId: string, event: QueueLogEventData): Promise<void> {
+    const { type, ...data } = event;
+
+    try {
+      await pool.query(
+        'INSERT INTO queue_events (flash_sale_id, event_type, data) VALUES ($1, $2, $3)',
+        [saleId, type, JSON.stringify(data)]
+      );
+    } catch (error) {
+      console.error(`Error recording queue ${type} event for sale ${saleId}:`, error);
+    }
+  }
+
+  /**
+   * Get a sale's events in order, optionally only those after an event ID
+   */
+  async getEvents(saleId: string, afterId: number = 0): Promise<QueueLogEvent[]> {
+    const result = await pool.query(
+      `SELECT id, flash_sale_id, event_type, data, created_at FROM queue_events
+       WHERE flash_sale_id = $1 AND id > $2
+       ORDER BY id ASC`,
+      [saleId, afterId]
+    );
+
+    return result.rows.map(
+      (row) =>
+        ({
+          ...row.data,
+          type: row.event_type,
+          id: Number(row.id),
+          saleId: row.flash_sale_id,
+          createdAt: row.created_at,
+        }) as QueueLogEvent
+    );
+  }
+
+  /**
+   * Count a sale's events after an event ID
+   */
+  async countEvents(saleId: string, afterId: number = 0): Promise<number> {
+    const result = await pool.query(
+      'SELECT COUNT(*) AS count FROM queue_events WHERE flash_sale_id = $1 AND id > $2',
+      [saleId, afterId]
+    );
+    return Number(result.rows[0]?.count) || 0;
+  }
+
+  /**
+   * Get the ID of a sale's latest event, or 0 when none are recorded
+   */
+  async getLastEventId(saleId: string): Promise<number> {
+    const result = await pool.query(
+      'SELECT COALESCE(MAX(id), 0) AS id FROM queue_events WHERE flash_sale_id = $1',
+      [saleId]
+    );
+    return Number(result.rows[0]?.id) || 0;
+  }
+}
+
+// Export singleton instance
+export const queueEventLog = new QueueEventLog();
+export default queueEventLog;
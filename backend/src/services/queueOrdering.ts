@@ -0,0 +1,64 @@
+import { QueueOrdering } from '../models';
+import { vipService, VIPTier } from './vipService';
+import { saleDrawService } from './saleDrawService';
+
+/**
+ * Decides where a joining user lands in a sale queue.
+ * Scores order the queue ZSET: the lowest score is admitted first.
+ */
+export interface QueueOrderingStrategy {
+  readonly name: QueueOrdering;
+  // False when the queue is only ever drained by a draw, never batch by batch
+  readonly batchAdmission?: boolean;
+  // Throws to refuse a join before the user is queued
+  beforeJoin?(userId: string, saleId: string): Promise<void>;
+  score(userId: string, saleId: string, joinedAt: number): Promise<number>;
+}
+
+// Head start per VIP priority level over a standard member who joined at the same time
+const PRIORITY_STEP_MS = 60 * 1000;
+
+export const fifoOrdering: QueueOrderingStrategy = {
+  name: 'fifo',
+  async score(_userId, _saleId, joinedAt) {
+    return joinedAt;
+  },
+};
+
+export const priorityOrdering: QueueOrderingStrategy = {
+  name: 'priority',
+  async score(userId, _saleId, joinedAt) {
+    const membership = await vipService.getMembership(userId);
+    const tier = membership?.isActive ? membership.tier : VIPTier.STANDARD;
+    const { queuePriority } = vipService.getBenefits(tier);
+
+    return joinedAt - (queuePriority - 1) * PRIORITY_STEP_MS;
+  },
+};
+
+export const lotteryOrdering: QueueOrderingStrategy = {
+  name: 'lottery',
+  // Join time plays no part, so there is nothing to gain from joining first
+  async score() {
+    return Math.floor(Math.random() * Number.MAX_SAFE_INTEGER);
+  },
+};
+
+export const drawOrdering: QueueOrderingStrategy = {
+  name: 'draw',
+  // The queue holds the registrations; saleDrawService picks who gets in at draw time
+  batchAdmission: false,
+  async beforeJoin(_userId, saleId) {
+    await saleDrawService.assertRegistrationOpen(saleId);
+  },
+  async score(_userId, _saleId, joinedAt) {
+    return joinedAt;
+  },
+};
+
+export const DEFAULT_QUEUE_ORDERINGS: QueueOrderingStrategy[] = [
+  fifoOrdering,
+  priorityOrdering,
+  lotteryOrdering,
+  drawOrdering,
+];
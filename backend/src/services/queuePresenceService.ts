@@ -0,0 +1,87 @@
+import redisClient from '../utils/redis';
+import { buildQueuePresenceKey, QUEUE_PRESENCE_SALES_KEY } from '../config/redisKeys';
+
+// How long a queued user may go unseen, e.g. while reconnecting, before losing their place
+export const QUEUE_PRESENCE_GRACE_SECONDS = parseInt(
+  process.env.QUEUE_PRESENCE_GRACE_SECONDS || '90',
+  10
+);
+// How often clients should heartbeat
+export const QUEUE_HEARTBEAT_INTERVAL_SECONDS = 15;
+
+/**
+ * Records when each queued user was last seen. Clients heartbeat over the /queue socket
+ * namespace and polling the queue position counts too; users unseen for longer than the
+ * grace period are evicted by the queue engine.
+ */
+class QueuePresenceService {
+  /**
+   * Mark users as present in a sale's queue
+   */
+  async touch(saleId: string, userIds: string[]): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const members = userIds.flatMap((userId) => [now, userId]);
+
+    await redisClient.zadd(buildQueuePresenceKey(saleId), ...members);
+    await redisClient.sadd(QUEUE_PRESENCE_SALES_KEY, saleId);
+  }
+
+  /**
+   * Stop tracking users, e.g. once they leave the queue or are admitted
+   */
+  async forget(saleId: string, userIds: string[]): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    await redisClient.zrem(buildQueuePresenceKey(saleId), ...userIds);
+  }
+
+  /**
+   * Atomically take the users unseen for longer than the grace period; a user who
+   * heartbeats afterwards is tracked afresh. Sales left with nobody tracked are dropped.
+   */
+  async takeIdle(
+    saleId: string,
+    graceSeconds: number = QUEUE_PRESENCE_GRACE_SECONDS
+  ): Promise<string[]> {
+    const key = buildQueuePresenceKey(saleId);
+    const cutoff = Date.now() - graceSeconds * 1000;
+
+    const results = await redisClient
+      .multi()
+      .zrangebyscore(key, '-inf', cutoff)
+      .zremrangebyscore(key, '-inf', cutoff)
+      .zcard(key)
+      .exec();
+
+    if (results?.[2]?.[1] === 0) {
+      await redisClient.srem(QUEUE_PRESENCE_SALES_KEY, saleId);
+    }
+
+    return (results?.[0]?.[1] as string[] | null) || [];
+  }
+
+  /**
+   * Get the sales with tracked presence
+   */
+  async getTrackedSaleIds(): Promise<string[]> {
+    return redisClient.smembers(QUEUE_PRESENCE_SALES_KEY);
+  }
+
+  /**
+   * Stop tracking a sale's queue altogether
+   */
+  async clear(saleId: string): Promise<void> {
+    await redisClient.del(buildQueuePresenceKey(saleId));
+    await redisClient.srem(QUEUE_PRESENCE_SALES_KEY, saleId);
+  }
+}
+
+// Export singleton instance
+export const queuePresenceService = new QueuePresenceService();
+export default queuePresenceService;
@@ -0,0 +1,167 @@
+import { queueEventLog, QueueLogEvent } from './queueEventLog';
+import { queueSnapshotService, QueueSnapshotState } from './queueSnapshotService';
+
+// A recorded batch admission that the replayed queue would have made differently
+export interface ReplayDivergence {
+  eventId: number;
+  recorded: string[];
+  replayed: string[];
+}
+
+export interface ReplayReport {
+  saleId: string;
+  fromSnapshotId: string | null;
+  eventsReplayed: number;
+  joined: number;
+  admitted: number;
+  divergences: ReplayDivergence[];
+  // Waiting users in queue order once every event is applied
+  finalQueue: string[];
+}
+
+// Same order as a Redis ZSET: by score, then by member
+const byQueueOrder = ([userA, scoreA]: [string, number], [userB, scoreB]: [string, number]) =>
+  scoreA - scoreB || (userA < userB ? -1 : userA > userB ? 1 : 0);
+
+/**
+ * A fresh, in-memory queue that re-runs a sale's recorded event stream with the same
+ * semantics as the Redis scripts: joins add with their recorded score unless already
+ * waiting, batches pop from the head, and returned users go back with the score they
+ * were admitted with. For each batch it checks that the head of the replayed queue is
+ * who was actually admitted, then applies the recorded outcome so one difference does
+ * not cascade. Every event applies idempotently.
+ */
+export class QueueReplayEngine {
+  private waiting = new Map<string, number>();
+  // Scores of admitted users, for when an unused admission returns them
+  private admittedScores = new Map<string, number>();
+
+  constructor(state?: Pick<QueueSnapshotState, 'queue' | 'passScores'>) {
+    state?.queue.forEach(([userId, score]) => this.waiting.set(userId, score));
+    Object.entries(state?.passScores || {}).forEach(([userId, score]) =>
+      this.admittedScores.set(userId, Number(score))
+    );
+  }
+
+  /**
+   * Apply one event; returns how a batch admission diverged from the replay, if it did
+   */
+  apply(event: QueueLogEvent): ReplayDivergence | null {
+    switch (event.type) {
+      case 'join':
+        event.entries.forEach(({ userId, score }) => {
+          if (!this.waiting.has(userId)) {
+            this.waiting.set(userId, score);
+          }
+        });
+        return null;
+      case 'leave':
+        event.userIds.forEach((userId) => this.waiting.delete(userId));
+        return null;
+      case 'admit': {
+        const deferred = new Set(event.deferred);
+        const replayed = this.getQueue()
+          .filter((userId) => !deferred.has(userId))
+          .slice(0, event.requested);
+        this.admit(event.userIds);
+
+        const matches =
+          replayed.length === event.userIds.length &&
+          replayed.every((userId, i) => userId === event.userIds[i]);
+        return matches ? null : { eventId: event.id, recorded: event.userIds, replayed };
+      }
+      case 'admit_users':
+        this.admit(event.userIds);
+        return null;
+      case 'return':
+        event.userIds.forEach((userId) => {
+          const score = this.admittedScores.get(userId);
+          if (score !== undefined && !this.waiting.has(userId)) {
+            this.waiting.set(userId, score);
+          }
+          this.admittedScores.delete(userId);
+        });
+        return null;
+      case 'clear':
+        this.waiting.clear();
+        return null;
+    }
+  }
+
+  /**
+   * Waiting users in queue order
+   */
+  getQueue(): string[] {
+    return [...this.waiting.entries()].sort(byQueueOrder).map(([userId]) => userId);
+  }
+
+  private admit(userIds: string[]): void {
+    userIds.forEach((userId) => {
+      const score = this.waiting.get(userId);
+      if (score !== undefined) {
+        this.admittedScores.set(userId, score);
+        this.waiting.delete(userId);
+      }
+    });
+  }
+}
+
+/**
+ * Replays recorded sales for post-mortems: from the start of the sale, or on top of a
+ * snapshot with the events recorded after it.
+ */
+class QueueReplayService {
+  /**
+   * Replay a sale's recorded events against a fresh engine
+   */
+  async replaySale(saleId: string, fromSnapshotId?: string): Promise<ReplayReport> {
+    const snapshot = fromSnapshotId
+      ? await queueSnapshotService.getSnapshot(saleId, fromSnapshotId)
+      : null;
+    if (fromSnapshotId && !snapshot) {
+      throw new Error(`No queue snapshot ${fromSnapshotId} for sale ${saleId}`);
+    }
+
+    const events = await queueEventLog.getEvents(saleId, snapshot?.lastEventId || 0);
+    const report = this.replayEvents(saleId, events, snapshot?.state);
+
+    return { ...report, fromSnapshotId: snapshot?.id || null };
+  }
+
+  /**
+   * Replay an event stream, e.g. a recorded fixture in a regression test
+   */
+  replayEvents(saleId: string, events: QueueLogEvent[], state?: QueueSnapshotState): ReplayReport {
+    const engine = new QueueReplayEngine(state);
+    const divergences: ReplayDivergence[] = [];
+    let joined = 0;
+    let admitted = 0;
+
+    for (const event of events) {
+      const divergence = engine.apply(event);
+      if (divergence) {
+        divergences.push(divergence);
+      }
+
+      if (event.type === 'join') {
+        joined += event.entries.length;
+      } else if (event.type === 'admit' || event.type === 'admit_users') {
+        admitted += event.userIds.length;
+      }
+    }
+
+    return {
+      saleId,
+      fromSnapshotId: null,
+      eventsReplayed: events.length,
+      joined,
+      admitted,
+      divergences,
+      finalQueue: engine.getQueue(),
+    };
+  }
+}
+
+// Export singleton instance
+export const queueReplayService = new QueueReplayService();
+export default queueReplayService;
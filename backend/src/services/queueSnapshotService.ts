@@ -0,0 +1,328 @@
+import crypto from 'crypto';
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { logger } from '../utils/logger';
+import {
+  ADMISSION_PASS_SALES_KEY,
+  buildAdmissionPassExpiryKey,
+  buildAdmissionPassKey,
+  buildAdmissionPassScoreKey,
+  buildQueueDevicesKey,
+  buildQueueJoinedAtKey,
+  buildQueueKey,
+  buildQueueSessionsKey,
+} from '../config/redisKeys';
+import { queueEntryManager } from './queueEntryManager';
+import { queueEventLog } from './queueEventLog';
+import { queuePresenceService } from './queuePresenceService';
+
+// Snapshots kept per sale
+const SNAPSHOT_RETENTION = parseInt(process.env.QUEUE_SNAPSHOT_RETENTION || '50', 10);
+// Members written per Redis command on restore
+const RESTORE_CHUNK_SIZE = 1000;
+
+// The Redis state of one sale queue
+export interface QueueSnapshotState {
+  // Waiting users in queue order, with their scores
+  queue: Array<[string, number]>;
+  joinedAt: Record<string, string>;
+  devices: Record<string, string>;
+  sessions: Record<string, string>;
+  // Admitted users: their pass IDs, the scores they return to the queue with, and expiries
+  passes: Record<string, string>;
+  passScores: Record<string, string>;
+  passExpiry: Array<[string, number]>;
+}
+
+// A snapshot as listed, without its state
+export interface QueueSnapshotSummary {
+  id: string;
+  saleId: string;
+  checksum: string;
+  waitingCount: number;
+  admittedCount: number;
+  lastEventId: number;
+  takenAt: Date;
+}
+
+export interface QueueSnapshot extends QueueSnapshotSummary {
+  state: QueueSnapshotState;
+}
+
+// A row of queue_snapshots; BIGINT columns come back as strings
+interface QueueSnapshotRow {
+  id: string;
+  flash_sale_id: string;
+  state: QueueSnapshotState;
+  checksum: string;
+  waiting_count: number;
+  admitted_count: number;
+  last_event_id: string;
+  taken_at: Date;
+}
+
+export interface QueueRestoreResult {
+  snapshotId: string;
+  takenAt: Date;
+  waiting: number;
+  admitted: number;
+  // Events recorded after the snapshot, whose effects the restore does not include
+  eventsSince: number;
+}
+
+const withScores = (flat: string[]): Array<[string, number]> => {
+  const pairs: Array<[string, number]> = [];
+  for (let i = 0; i < flat.length; i += 2) {
+    pairs.push([flat[i], Number(flat[i + 1])]);
+  }
+  return pairs;
+};
+
+// Hash fields in a stable order, so unchanged state always has the same checksum
+const sorted = (hash: Record<string, string> | null | undefined): Record<string, string> =>
+  Object.fromEntries(Object.entries(hash || {}).sort(([a], [b]) => (a < b ? -1 : 1)));
+
+const chunk = <T>(items: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += RESTORE_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + RESTORE_CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+/**
+ * Point-in-time copies of each sale queue's Redis state in Postgres, so a queue can be
+ * rebuilt exactly after Redis is flushed or fails over. queue_entries only approximates
+ * positions; a snapshot keeps every score. Snapshots are read in one MULTI, so each is
+ * consistent, and an unchanged queue is not stored again.
+ */
+class QueueSnapshotService {
+  /**
+   * Read a sale queue's state from Redis
+   */
+  async capture(saleId: string): Promise<QueueSnapshotState> {
+    const results =
+      (await redisClient
+        .multi()
+        .zrange(buildQueueKey(saleId), 0, -1, 'WITHSCORES')
+        .hgetall(buildQueueJoinedAtKey(saleId))
+        .hgetall(buildQueueDevicesKey(saleId))
+        .hgetall(buildQueueSessionsKey(saleId))
+        .hgetall(buildAdmissionPassKey(saleId))
+        .hgetall(buildAdmissionPassScoreKey(saleId))
+        .zrange(buildAdmissionPassExpiryKey(saleId), 0, -1, 'WITHSCORES')
+        .exec()) || [];
+
+    const [queue, joinedAt, devices, sessions, passes, passScores, passExpiry] = results.map(
+      ([error, value]) => {
+        if (error) {
+          throw error;
+        }
+        return value;
+      }
+    );
+
+    return {
+      queue: withScores((queue as string[]) || []),
+      joinedAt: sorted(joinedAt as Record<string, string>),
+      devices: sorted(devices as Record<string, string>),
+      sessions: sorted(sessions as Record<string, string>),
+      passes: sorted(passes as Record<string, string>),
+      passScores: sorted(passScores as Record<string, string>),
+      passExpiry: withScores((passExpiry as string[]) || []),
+    };
+  }
+
+  /**
+   * Snapshot a sale queue; returns null when it is unchanged since the last snapshot
+   */
+  async takeSnapshot(saleId: string): Promise<QueueSnapshot | null> {
+    // Read first: every event up to here is already reflected in Redis
+    const lastEventId = await queueEventLog.getLastEventId(saleId);
+    const state = await this.capture(saleId);
+    const checksum = crypto.createHash('sha256').update(JSON.stringify(state)).digest('hex');
+
+    const latest = await pool.query(
+      `SELECT checksum FROM queue_snapshots WHERE flash_sale_id = $1
+       ORDER BY taken_at DESC LIMIT 1`,
+      [saleId]
+    );
+    if (latest.rows[0]?.checksum === checksum) {
+      return null;
+    }
+
+    const result = await pool.query<QueueSnapshotRow>(
+      `INSERT INTO queue_snapshots
+         (flash_sale_id, state, checksum, waiting_count, admitted_count, last_event_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        saleId,
+        JSON.stringify(state),
+        checksum,
+        state.queue.length,
+        Object.keys(state.passes).length,
+        lastEventId,
+      ]
+    );
+
+    return this.mapToSnapshot(result.rows[0]);
+  }
+
+  /**
+   * Snapshot the queue of every active sale, keeping the latest few per sale
+   * (background job); returns the number of snapshots taken
+   */
+  async snapshotActiveSales(): Promise<number> {
+    const sales = await pool.query(`SELECT id FROM flash_sales WHERE status = 'active'`);
+    let taken = 0;
+
+    for (const { id: saleId } of sales.rows) {
+      if (await this.takeSnapshot(saleId)) {
+        taken++;
+        await pool.query(
+          `DELETE FROM queue_snapshots
+           WHERE flash_sale_id = $1 AND id NOT IN (
+             SELECT id FROM queue_snapshots WHERE flash_sale_id = $1
+             ORDER BY taken_at DESC LIMIT $2
+           )`,
+          [saleId, SNAPSHOT_RETENTION]
+        );
+      }
+    }
+
+    return taken;
+  }
+
+  /**
+   * Get a sale's snapshot by ID, or its latest
+   */
+  async getSnapshot(saleId: string, snapshotId?: string): Promise<QueueSnapshot | null> {
+    const result = snapshotId
+      ? await pool.query<QueueSnapshotRow>(
+          'SELECT * FROM queue_snapshots WHERE flash_sale_id = $1 AND id = $2',
+          [saleId, snapshotId]
+        )
+      : await pool.query<QueueSnapshotRow>(
+          `SELECT * FROM queue_snapshots WHERE flash_sale_id = $1
+           ORDER BY taken_at DESC LIMIT 1`,
+          [saleId]
+        );
+
+    return result.rows[0] ? this.mapToSnapshot(result.rows[0]) : null;
+  }
+
+  /**
+   * List a sale's snapshots, newest first, without their state
+   */
+  async listSnapshots(saleId: string, limit: number = 20): Promise<QueueSnapshotSummary[]> {
+    const result = await pool.query<Omit<QueueSnapshotRow, 'state'>>(
+      `SELECT id, flash_sale_id, checksum, waiting_count, admitted_count, last_event_id, taken_at
+       FROM queue_snapshots WHERE flash_sale_id = $1
+       ORDER BY taken_at DESC LIMIT $2`,
+      [saleId, limit]
+    );
+
+    return result.rows.map((row) => this.mapToSummary(row));
+  }
+
+  /**
+   * Rebuild a sale queue in Redis exactly as snapshotted (the latest snapshot unless one
+   * is named), replacing whatever is there, and bring queue_entries in line with it.
+   * Waiting users get a fresh presence grace period.
+   */
+  async restore(saleId: string, snapshotId?: string): Promise<QueueRestoreResult> {
+    const snapshot = await this.getSnapshot(saleId, snapshotId);
+    if (!snapshot) {
+      throw new Error(`No queue snapshot found for sale ${saleId}`);
+    }
+
+    const { state } = snapshot;
+    const queueKey = buildQueueKey(saleId);
+    const expiryKey = buildAdmissionPassExpiryKey(saleId);
+    const hashes: Array<[string, Record<string, string>]> = [
+      [buildQueueJoinedAtKey(saleId), state.joinedAt],
+      [buildQueueDevicesKey(saleId), state.devices],
+      [buildQueueSessionsKey(saleId), state.sessions],
+      [buildAdmissionPassKey(saleId), state.passes],
+      [buildAdmissionPassScoreKey(saleId), state.passScores],
+    ];
+
+    const writes = redisClient.multi().del(queueKey, expiryKey, ...hashes.map(([key]) => key));
+    chunk(state.queue).forEach((members) =>
+      writes.zadd(queueKey, ...members.flatMap(([userId, score]) => [score, userId]))
+    );
+    chunk(state.passExpiry).forEach((members) =>
+      writes.zadd(expiryKey, ...members.flatMap(([userId, expiresAt]) => [expiresAt, userId]))
+    );
+    hashes.forEach(([key, hash]) =>
+      chunk(Object.entries(hash)).forEach((fields) => writes.hset(key, Object.fromEntries(fields)))
+    );
+    if (state.passExpiry.length > 0) {
+      writes.sadd(ADMISSION_PASS_SALES_KEY, saleId);
+    } else {
+      writes.srem(ADMISSION_PASS_SALES_KEY, saleId);
+    }
+    await writes.exec();
+
+    const waitingIds = state.queue.map(([userId]) => userId);
+    const admittedIds = Object.keys(state.passes);
+
+    await queuePresenceService.clear(saleId);
+    for (const userIds of chunk(waitingIds)) {
+      await queuePresenceService.touch(saleId, userIds);
+    }
+
+    await queueEntryManager.transitionUsers(
+      saleId,
+      waitingIds,
+      ['reserved', 'cancelled'],
+      'waiting'
+    );
+    await queueEntryManager.transitionUsers(
+      saleId,
+      admittedIds,
+      ['waiting', 'cancelled'],
+      'reserved'
+    );
+    await queueEntryManager.batchUpdatePositions(saleId);
+
+    const eventsSince = await queueEventLog.countEvents(saleId, snapshot.lastEventId);
+
+    logger.info('Restored queue from snapshot', {
+      saleId,
+      snapshotId: snapshot.id,
+      waiting: waitingIds.length,
+      admitted: admittedIds.length,
+      eventsNotApplied: eventsSince,
+    });
+
+    return {
+      snapshotId: snapshot.id,
+      takenAt: snapshot.takenAt,
+      waiting: waitingIds.length,
+      admitted: admittedIds.length,
+      eventsSince,
+    };
+  }
+
+  private mapToSnapshot(row: QueueSnapshotRow): QueueSnapshot {
+    return { ...this.mapToSummary(row), state: row.state };
+  }
+
+  private mapToSummary(row: Omit<QueueSnapshotRow, 'state'>): QueueSnapshotSummary {
+    return {
+      id: row.id,
+      saleId: row.flash_sale_id,
+      checksum: row.checksum,
+      waitingCount: row.waiting_count,
+      admittedCount: row.admitted_count,
+      lastEventId: Number(row.last_event_id),
+      takenAt: row.taken_at,
+    };
+  }
+}
+
+// Export singleton instance
+export const queueSnapshotService = new QueueSnapshotService();
+export default queueSnapshotService;
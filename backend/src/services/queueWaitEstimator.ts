@@ -0,0 +1,188 @@
+import redisClient from '../utils/redis';
+import { buildQueueFlowKey } from '../config/redisKeys';
+
+export interface ServiceRate {
+  admittedPerMinute: number;
+  abandonedPerMinute: number;
+  // Sample standard deviation of admissions per minute
+  admittedStdDev: number;
+  minutesObserved: number;
+}
+
+export interface WaitEstimate {
+  expectedSeconds: number;
+  lowSeconds: number;
+  // Null when the slowest plausible rate admits nobody
+  highSeconds: number | null;
+  confidence: number;
+  // observed: from recent admissions; configured: no admissions yet, from the admission rate
+  basis: 'observed' | 'configured';
+}
+
+// Rolling window
+const WINDOW_MINUTES = 10;
+const FLOW_TTL_SECONDS = (WINDOW_MINUTES + 2) * 60;
+
+// Two-sided 90% interval
+const CONFIDENCE = 0.9;
+const Z_SCORE = 1.645;
+
+// An estimate is pushed again only when it moves by at least this much
+const MIN_CHANGE_SECONDS = 30;
+const MIN_CHANGE_RATIO = 0.1;
+
+const currentMinute = () => Math.floor(Date.now() / 60000);
+
+/**
+ * Expected wait for a queue position, with a confidence interval on the service rate.
+ * Users ahead leave by admission or by abandoning; abandonment is spread evenly over
+ * the queue, so only the share ahead of the position speeds it up.
+ */
+export function estimateWait(
+  position: number,
+  queueLength: number,
+  rate: ServiceRate
+): WaitEstimate {
+  const aheadShare = queueLength > 0 ? (position - 1) / queueLength : 0;
+  const drainPerMinute = rate.admittedPerMinute + rate.abandonedPerMinute * aheadShare;
+  const standardError = rate.admittedStdDev / Math.sqrt(Math.max(rate.minutesObserved, 1));
+
+  const fastest = drainPerMinute + Z_SCORE * standardError;
+  const slowest = drainPerMinute - Z_SCORE * standardError;
+  const toSeconds = (perMinute: number) => Math.round((position / perMinute) * 60);
+
+  return {
+    expectedSeconds: toSeconds(drainPerMinute),
+    lowSeconds: toSeconds(fastest),
+    highSeconds: slowest > 0 ? toSeconds(slowest) : null,
+    confidence: CONFIDENCE,
+    basis: 'observed',
+  };
+}
+
+/**
+ * Whether an estimate differs enough from the one a user last saw to be worth sending
+ */
+export function isMeaningfulChange(previous: WaitEstimate, next: WaitEstimate): boolean {
+  if (
+    previous.basis !== next.basis ||
+    (previous.highSeconds === null) !== (next.highSeconds === null)
+  ) {
+    return true;
+  }
+
+  const threshold = Math.max(MIN_CHANGE_SECONDS, previous.expectedSeconds * MIN_CHANGE_RATIO);
+  return Math.abs(next.expectedSeconds - previous.expectedSeconds) >= threshold;
+}
+
+/**
+ * Tracks how fast each sale queue actually drains, in per-minute Redis counters of
+ * admissions and abandonment, and turns that into wait estimates.
+ */
+class QueueWaitEstimator {
+  /**
+   * Count users admitted from a queue
+   */
+  async recordAdmitted(saleId: string, count: number): Promise<void> {
+    await this.record(saleId, 'admitted', count);
+  }
+
+  /**
+   * Count users who left a queue before admission
+   */
+  async recordAbandoned(saleId: string, count: number = 1): Promise<void> {
+    await this.record(saleId, 'abandoned', count);
+  }
+
+  /**
+   * Get a queue's service rate over the completed minutes of the window, starting from
+   * the first minute with any activity
+   */
+  async getServiceRate(saleId: string): Promise<ServiceRate> {
+    const now = currentMinute();
+    const lookups = redisClient.pipeline();
+    for (let minute = now - WINDOW_MINUTES; minute < now; minute++) {
+      lookups.hmget(buildQueueFlowKey(saleId, minute), 'admitted', 'abandoned');
+    }
+
+    const minutes = ((await lookups.exec()) || []).map(([, value]) => {
+      const [admitted, abandoned] = (value as Array<string | null>) || [];
+      return { admitted: Number(admitted) || 0, abandoned: Number(abandoned) || 0 };
+    });
+
+    const firstActive = minutes.findIndex((minute) => minute.admitted + minute.abandoned > 0);
+    const observed = firstActive === -1 ? [] : minutes.slice(firstActive);
+    const n = observed.length;
+    if (n === 0) {
+      return { admittedPerMinute: 0, abandonedPerMinute: 0, admittedStdDev: 0, minutesObserved: 0 };
+    }
+
+    const admittedPerMinute = observed.reduce((sum, minute) => sum + minute.admitted, 0) / n;
+    const abandonedPerMinute = observed.reduce((sum, minute) => sum + minute.abandoned, 0) / n;
+    // With a single minute there is no spread to measure; assume Poisson arrivals
+    const admittedStdDev =
+      n > 1
+        ? Math.sqrt(
+            observed.reduce((sum, minute) => sum + (minute.admitted - admittedPerMinute) ** 2, 0) /
+              (n - 1)
+          )
+        : Math.sqrt(admittedPerMinute);
+
+    return { admittedPerMinute, abandonedPerMinute, admittedStdDev, minutesObserved: n };
+  }
+
+  /**
+   * Estimate the wait for a position from the queue's current service rate
+   */
+  async estimate(
+    saleId: string,
+    position: number,
+    queueLength: number,
+    configuredPerMinute: number
+  ): Promise<WaitEstimate> {
+    const rate = await this.getServiceRate(saleId);
+    return this.estimateFromRate(position, queueLength, configuredPerMinute, rate);
+  }
+
+  /**
+   * Estimate the wait for a position from a known service rate; before any admissions
+   * are observed it falls back to the configured admission rate, with no upper bound
+   */
+  estimateFromRate(
+    position: number,
+    queueLength: number,
+    configuredPerMinute: number,
+    rate: ServiceRate
+  ): WaitEstimate {
+    if (rate.admittedPerMinute > 0) {
+      return estimateWait(position, queueLength, rate);
+    }
+
+    const expectedSeconds = Math.round((position / configuredPerMinute) * 60);
+    return {
+      expectedSeconds,
+      lowSeconds: Math.round(expectedSeconds / 2),
+      highSeconds: null,
+      confidence: CONFIDENCE,
+      basis: 'configured',
+    };
+  }
+
+  private async record(
+    saleId: string,
+    field: 'admitted' | 'abandoned',
+    count: number
+  ): Promise<void> {
+    if (count <= 0) {
+      return;
+    }
+
+    const key = buildQueueFlowKey(saleId, currentMinute());
+    await redisClient.hincrby(key, field, count);
+    await redisClient.expire(key, FLOW_TTL_SECONDS);
+  }
+}
+
+// Export singleton instance
+export const queueWaitEstimator = new QueueWaitEstimator();
+export default queueWaitEstimator;
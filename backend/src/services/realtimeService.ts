@@ -1,7 +1,7 @@
 import { Server, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import pool from '../utils/database';
-import { queueService } from './queueService';
+import { queueEngine } from './queueEngine';
 
 interface ConnectedUser {
   userId: string;
@@ -67,7 +67,7 @@ export class RealtimeService {
         socket.join(`user:${userId}`);
 
         // Send initial queue position
-        const position = await queueService.getQueuePosition(userId, saleId);
+        const position = await queueEngine.getQueuePosition(userId, saleId);
         socket.emit('queue-position', position);
       });
 
@@ -86,7 +86,7 @@ export class RealtimeService {
 
       // Admin: Remove user from queue
       socket.on('admin-remove-user', async (data: { userId: string; saleId: string }) => {
-        await queueService.leaveQueue(data.userId, data.saleId);
+        await queueEngine.leaveQueue(data.userId, data.saleId);
         this.io?.to(`user:${data.userId}`).emit('removed-from-queue', {
           reason: 'Admin action',
         });
@@ -112,7 +112,7 @@ export class RealtimeService {
     this.updateInterval = setInterval(async () => {
       for (const user of this.connectedUsers.values()) {
         try {
-          const position = await queueService.getQueuePosition(user.userId, user.saleId);
+          const position = await queueEngine.getQueuePosition(user.userId, user.saleId);
           this.io?.to(`user:${user.userId}`).emit('queue-update', position);
         } catch (error) {
           console.error('Error broadcasting queue update:', error);
@@ -126,24 +126,15 @@ export class RealtimeService {
    */
   async getLiveMetrics(saleId: string): Promise<LiveMetrics> {
     try {
-      const queueStats = await queueService.getQueueStats(saleId);
-      const result = await pool.query(
-        `
-        SELECT
-          COUNT(CASE WHEN status = 'purchased' THEN 1 END) as total_purchased,
-          COUNT(CASE WHEN status = 'reserved' THEN 1 END) as total_reserved
-        FROM queue_entries
-        WHERE flash_sale_id = $1
-      `,
-        [saleId]
-      );
+      const queueStats = await queueEngine.getQueueStats(saleId);
+      const history = await queueEngine.getQueueHistory(saleId);
 
       const activeUsers = this.connectedUsers.size;
 
       return {
         activeUsers,
         totalQueued: queueStats.totalWaiting,
-        totalPurchased: parseInt(result.rows[0]?.total_purchased || 0),
+        totalPurchased: history.purchased,
         currentInventory: queueStats.totalWaiting,
         avgQueueWaitTime: queueStats.estimatedWaitTimeMinutes * 60,
         conversationRate: queueStats.admissionRate,
@@ -178,7 +169,7 @@ export class RealtimeService {
         FROM queue_entries qe
         JOIN users u ON qe.user_id = u.id
         WHERE qe.flash_sale_id = $1
-        ORDER BY qe.position ASC
+        ORDER BY qe.score ASC NULLS LAST, qe.joined_at ASC
         LIMIT $2
       `,
         [saleId, limit]
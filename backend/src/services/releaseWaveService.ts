@@ -0,0 +1,180 @@
+import pool from '../utils/database';
+import { logger } from '../utils/logger';
+import { parseStockId } from '../config/redisKeys';
+import { FlashSale, ReleaseWave } from '../models';
+import { getReleasedPercent, getReleasedUnits, getWaveTimes } from '../utils/releaseWaves';
+import { inventoryManager } from './inventoryManager';
+import { eventBroadcaster } from './eventBroadcaster';
+
+// A sale row with its product's name and list price, for the announcement
+type WaveSale = FlashSale & { name: string; base_price: number | string };
+
+export interface ScheduledWave extends ReleaseWave {
+  // 1-based position in the schedule
+  wave: number;
+  releaseAt: Date;
+  // Units the wave puts on sale, across the sale's items
+  units: number;
+  released: boolean;
+}
+
+/**
+ * Puts a sale's stock on sale in waves. Units of waves still to come are held back on
+ * top of the inventory policy's floor, so releasing a wave is a single conditional update
+ * of the sale's released-wave count: every item's stock tops up at once, and a replica
+ * that loses the race releases nothing. The sale scheduler fires each wave on the second;
+ * the state machine releases any due waves when a sale starts or resumes, and a background
+ * job catches up on waves a missed timer left behind.
+ */
+class ReleaseWaveService {
+  /**
+   * A sale's waves with when each goes on sale and how many units it carries
+   */
+  async getWaveSchedule(saleId: string): Promise<ScheduledWave[] | null> {
+    const sale = await this.getSale(saleId);
+    if (!sale) {
+      return null;
+    }
+
+    const waves = sale.release_waves || [];
+    const times = getWaveTimes(waves, sale.start_time, sale.end_time);
+    const totals = await this.getStockTotals(saleId);
+
+    return waves.map((wave, index) => ({
+      ...wave,
+      wave: index + 1,
+      releaseAt: times[index],
+      units: this.getWaveUnits(totals, waves, index, index + 1),
+      released: index < (sale.waves_released || 0),
+    }));
+  }
+
+  /**
+   * Release the waves of an active sale whose time has come; returns how many were released
+   */
+  async releaseDueWaves(saleId: string, now: Date = new Date()): Promise<number> {
+    const sale = await this.getSale(saleId);
+    const waves = sale?.release_waves;
+    if (!sale || !waves?.length || sale.status !== 'active') {
+      return 0;
+    }
+
+    const released = sale.waves_released || 0;
+    const due = getWaveTimes(waves, sale.start_time, sale.end_time).filter(
+      (time) => time <= now
+    ).length;
+    if (due <= released) {
+      return 0;
+    }
+
+    const result = await pool.query(
+      `UPDATE flash_sales SET waves_released = $2
+       WHERE id = $1 AND status = 'active' AND waves_released = $3`,
+      [saleId, due, released]
+    );
+    if (!result.rowCount) {
+      return 0;
+    }
+    await inventoryManager.invalidateSaleRules(saleId);
+
+    const totals = await this.getStockTotals(saleId);
+    for (const [itemId, total] of totals) {
+      await inventoryManager.recordMovement({
+        saleId,
+        itemId,
+        type: 'wave',
+        quantity: this.getWaveUnits(new Map([[itemId, total]]), waves, released, due),
+        availableDelta: 0,
+        reason: `Release wave ${due} of ${waves.length}`,
+        metadata: { releasedPercent: getReleasedPercent(waves, due) },
+      });
+    }
+    await inventoryManager.broadcastSaleInventory(saleId);
+
+    const units = this.getWaveUnits(totals, waves, released, due);
+    const basePrice = Number(sale.base_price);
+    const flashPrice = Number(sale.flash_price);
+    eventBroadcaster.flashDeal({
+      productId: sale.product_id,
+      saleId,
+      oldPrice: basePrice,
+      newPrice: flashPrice,
+      discount: basePrice > 0 ? Math.round((1 - flashPrice / basePrice) * 100) : 0,
+      expiresAt: new Date(sale.end_time).toISOString(),
+      message:
+        due === waves.length
+          ? `Final wave: ${units} more ${sale.name} on sale`
+          : `Wave ${due} of ${waves.length}: ${units} more ${sale.name} on sale`,
+    });
+
+    logger.info('Released sale wave', { saleId, wave: due, waves: waves.length, units });
+    return due - released;
+  }
+
+  /**
+   * Release every due wave of every active sale (background job)
+   */
+  async releaseAllDueWaves(now: Date = new Date()): Promise<number> {
+    const result = await pool.query(
+      `SELECT id FROM flash_sales
+       WHERE status = 'active'
+         AND release_waves IS NOT NULL
+         AND waves_released < jsonb_array_length(release_waves)`
+    );
+
+    let released = 0;
+    for (const row of result.rows) {
+      try {
+        released += await this.releaseDueWaves(row.id, now);
+      } catch (error) {
+        logger.error('Failed to release sale waves', {
+          saleId: row.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+    return released;
+  }
+
+  private async getSale(saleId: string): Promise<WaveSale | null> {
+    const result = await pool.query<WaveSale>(
+      `SELECT fs.*, p.name, p.base_price
+       FROM flash_sales fs
+       JOIN products p ON p.id = fs.product_id
+       WHERE fs.id = $1`,
+      [saleId]
+    );
+    return result.rows[0] || null;
+  }
+
+  // The stock each item (or the sale, keyed undefined) was given
+  private async getStockTotals(saleId: string): Promise<Map<string | undefined, number>> {
+    const totals = new Map<string | undefined, number>();
+    for (const stockId of await inventoryManager.getSaleStockIds(saleId)) {
+      const { itemId } = parseStockId(stockId);
+      const stock = await inventoryManager.getStockPolicy(saleId, itemId);
+      totals.set(itemId, stock?.total ?? 0);
+    }
+    return totals;
+  }
+
+  // Units put on sale by waves from+1 to to, summed over the stocks
+  private getWaveUnits(
+    totals: Map<string | undefined, number>,
+    waves: ReleaseWave[],
+    from: number,
+    to: number
+  ): number {
+    const before = getReleasedPercent(waves, from);
+    const after = getReleasedPercent(waves, to);
+    let units = 0;
+    for (const total of totals.values()) {
+      units += getReleasedUnits(total, after) - getReleasedUnits(total, before);
+    }
+    return units;
+  }
+}
+
+// Export singleton instance
+export const releaseWaveService = new ReleaseWaveService();
+export default releaseWaveService;
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import pool from '../utils/database';
+import { logger } from '../utils/logger';
+import { vipService } from './vipService';
+
+export interface DrawEntry {
+  userId: string;
+  // Relative odds of winning; 1 for standard members
+  weight: number;
+}
+
+// The public record of a draw; the seed stays secret until the draw has run
+export interface PublishedDraw {
+  saleId: string;
+  seedHash: string;
+  committedAt: Date;
+  seed: string | null;
+  entriesHash: string | null;
+  entryCount: number | null;
+  winnerCount: number | null;
+  drawnAt: Date | null;
+}
+
+export interface DrawAudit extends PublishedDraw {
+  entries: DrawEntry[];
+  winners: string[];
+}
+
+// A row of sale_draws
+interface SaleDrawRow {
+  flash_sale_id: string;
+  seed: string;
+  seed_hash: string;
+  committed_at: Date;
+  entries: DrawEntry[] | null;
+  entries_hash: string | null;
+  winners: string[] | null;
+  drawn_at: Date | null;
+}
+
+export const DRAW_REGISTRATION_CLOSED = 'Registration for this draw is closed';
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+/**
+ * Hash of the canonical entry list: one `userId:weight` line per entry, sorted by user ID
+ */
+export function hashEntries(entries: DrawEntry[]): string {
+  const lines = entries
+    .map((entry) => `${entry.userId}:${entry.weight.toFixed(2)}`)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return sha256(lines.join('\n'));
+}
+
+/**
+ * The public part of a draw's record, without the entry list and winners
+ */
+export function toPublishedDraw(audit: DrawAudit): PublishedDraw {
+  return {
+    saleId: audit.saleId,
+    seedHash: audit.seedHash,
+    committedAt: audit.committedAt,
+    seed: audit.seed,
+    entriesHash: audit.entriesHash,
+    entryCount: audit.entryCount,
+    winnerCount: audit.winnerCount,
+    drawnAt: audit.drawnAt,
+  };
+}
+
+/**
+ * Weighted draw without replacement (Efraimidis-Spirakis). Each entry gets the key
+ * u^(1/weight), where u is HMAC-SHA256(seed, userId) read as a number in (0, 1); the
+ * highest keys win. Anyone with the seed and the entry list can repeat the draw.
+ */
+export function selectWinners(seed: string, entries: DrawEntry[], count: number): string[] {
+  return entries
+    .map((entry) => {
+      const digest = crypto.createHmac('sha256', seed).update(entry.userId).digest();
+      const u = (digest.readUIntBE(0, 6) + 1) / (2 ** 48 + 1);
+      return { userId: entry.userId, key: Math.log(u) / entry.weight };
+    })
+    .sort((a, b) => b.key - a.key || (a.userId < b.userId ? -1 : 1))
+    .slice(0, count)
+    .map((entry) => entry.userId);
+}
+
+/**
+ * Draw sales: users register through the sale queue until the draw time, then a seeded
+ * draw weighted by VIP priority picks the winners. The seed's hash is committed when
+ * registration opens and the seed is revealed with the entry list hash after the draw.
+ */
+class SaleDrawService {
+  /**
+   * Commit a secret seed for a sale's draw, once
+   */
+  async commitSeed(saleId: string): Promise<PublishedDraw> {
+    const seed = crypto.randomBytes(32).toString('hex');
+
+    await pool.query(
+      `INSERT INTO sale_draws (flash_sale_id, seed, seed_hash)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (flash_sale_id) DO NOTHING`,
+      [saleId, seed, sha256(seed)]
+    );
+
+    return (await this.getDraw(saleId)) as PublishedDraw;
+  }
+
+  /**
+   * Get the public record of a sale's draw, or null before registration opened
+   */
+  async getDraw(saleId: string): Promise<PublishedDraw | null> {
+    const audit = await this.getAudit(saleId);
+    return audit ? toPublishedDraw(audit) : null;
+  }
+
+  /**
+   * Get the full record of a sale's draw, entry list and winners included (admin)
+   */
+  async getAudit(saleId: string): Promise<DrawAudit | null> {
+    const result = await pool.query<SaleDrawRow>(
+      'SELECT * FROM sale_draws WHERE flash_sale_id = $1',
+      [saleId]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapToDraw(result.rows[0]);
+  }
+
+  /**
+   * Throw unless the sale still takes registrations; commits the seed on first registration
+   */
+  async assertRegistrationOpen(saleId: string): Promise<void> {
+    const result = await pool.query(
+      `SELECT fs.draw_at, sd.flash_sale_id AS committed, sd.drawn_at
+       FROM flash_sales fs
+       LEFT JOIN sale_draws sd ON sd.flash_sale_id = fs.id
+       WHERE fs.id = $1`,
+      [saleId]
+    );
+
+    const row = result.rows[0];
+    if (!row || row.drawn_at || (row.draw_at && new Date(row.draw_at) <= new Date())) {
+      throw new Error(DRAW_REGISTRATION_CLOSED);
+    }
+
+    if (!row.committed) {
+      await this.commitSeed(saleId);
+    }
+  }
+
+  /**
+   * Get the draw sales whose draw time has passed but which have not been drawn
+   */
+  async getDueSaleIds(): Promise<string[]> {
+    const result = await pool.query(
+      `SELECT fs.id
+       FROM flash_sales fs
+       LEFT JOIN sale_draws sd ON sd.flash_sale_id = fs.id
+       WHERE fs.queue_ordering = 'draw' AND fs.status = 'active'
+       AND fs.draw_at <= NOW() AND sd.drawn_at IS NULL`
+    );
+
+    return result.rows.map((row) => row.id);
+  }
+
+  /**
+   * Draw the winners among the registered users and record the draw; a sale draws once
+   */
+  async draw(saleId: string, userIds: string[]): Promise<DrawAudit> {
+    const saleResult = await pool.query(
+      'SELECT draw_winner_count, quantity_available FROM flash_sales WHERE id = $1',
+      [saleId]
+    );
+    if (saleResult.rows.length === 0) {
+      throw new Error('Flash sale not found');
+    }
+
+    const { draw_winner_count, quantity_available } = saleResult.rows[0];
+    const winnerCount = draw_winner_count || quantity_available;
+
+    await this.commitSeed(saleId);
+    const seedResult = await pool.query('SELECT seed FROM sale_draws WHERE flash_sale_id = $1', [
+      saleId,
+    ]);
+    const seed: string = seedResult.rows[0].seed;
+
+    const entries = await this.getEntries(userIds);
+    const winners = selectWinners(seed, entries, winnerCount);
+
+    const result = await pool.query<SaleDrawRow>(
+      `UPDATE sale_draws
+       SET entries = $2, entries_hash = $3, winners = $4, drawn_at = NOW()
+       WHERE flash_sale_id = $1 AND drawn_at IS NULL
+       RETURNING *`,
+      [saleId, JSON.stringify(entries), hashEntries(entries), JSON.stringify(winners)]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Sale has already been drawn');
+    }
+
+    logger.info('Drew winners', { saleId, winners: winners.length, entries: entries.length });
+
+    return this.mapToDraw(result.rows[0]);
+  }
+
+  /**
+   * Weight each registered user by their VIP queue priority
+   */
+  private async getEntries(userIds: string[]): Promise<DrawEntry[]> {
+    return Promise.all(
+      userIds.map(async (userId) => {
+        const { priorityBoost } = await vipService.calculateQueuePriority(userId, 1);
+        return { userId, weight: Number((1 + priorityBoost).toFixed(2)) };
+      })
+    );
+  }
+
+  private mapToDraw(row: SaleDrawRow): DrawAudit {
+    const drawn = row.drawn_at !== null && row.drawn_at !== undefined;
+    const entries: DrawEntry[] = row.entries || [];
+    const winners: string[] = row.winners || [];
+
+    return {
+      saleId: row.flash_sale_id,
+      seedHash: row.seed_hash,
+      committedAt: row.committed_at,
+      seed: drawn ? row.seed : null,
+      entriesHash: row.entries_hash || null,
+      entryCount: drawn ? entries.length : null,
+      winnerCount: drawn ? winners.length : null,
+      drawnAt: row.drawn_at || null,
+      entries,
+      winners,
+    };
+  }
+}
+
+// Export singleton instance
+export const saleDrawService = new SaleDrawService();
+export default saleDrawService;
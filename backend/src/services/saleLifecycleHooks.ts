@@ -0,0 +1,135 @@
+import { logger } from '../utils/logger';
+import { stateMachine } from './stateMachine';
+import { inventoryManager } from './inventoryManager';
+import { waitingRoomService } from './waitingRoomService';
+import { admissionRateController } from './admissionRateController';
+import { salePauseService } from './salePauseService';
+import { queueEngine } from './queueEngine';
+import { queueAnalyticsService } from './queueAnalyticsService';
+import { saleScheduler } from './saleScheduler';
+import { releaseWaveService } from './releaseWaveService';
+
+/**
+ * Subscribe each subsystem to the sale transitions it reacts to. Hooks for the same
+ * transition run in the order registered here. Safe to call more than once, as the
+ * state machine replaces hooks registered under the same name.
+ */
+export function registerSaleLifecycleHooks(): void {
+  // Load the stock into Redis before the first buyer can reach it; a sale whose stock
+  // cannot be loaded stays upcoming and is retried on the next status check
+  stateMachine.registerHook({
+    name: 'inventory.warm',
+    phase: 'before',
+    from: 'upcoming',
+    to: 'active',
+    hook: (sale) => inventoryManager.syncInventoryFromDatabase(sale.id),
+  });
+
+  // Put the waves due by now on sale: the opening wave, and any that fell during a pause
+  stateMachine.registerHook({
+    name: 'releaseWaves.open',
+    phase: 'after',
+    to: 'active',
+    hook: async (sale) => {
+      await releaseWaveService.releaseDueWaves(sale.id);
+    },
+  });
+
+  // Early arrivals enter the queue together, in random order
+  stateMachine.registerHook({
+    name: 'waitingRoom.release',
+    phase: 'after',
+    from: 'upcoming',
+    to: 'active',
+    hook: async (sale) => {
+      await waitingRoomService.release(sale.id);
+    },
+  });
+
+  stateMachine.registerHook({
+    name: 'waitingRoom.close',
+    phase: 'after',
+    from: 'upcoming',
+    to: 'cancelled',
+    hook: (sale) => waitingRoomService.close(sale.id),
+  });
+
+  // Stop admissions and the clock on passes and reservations
+  stateMachine.registerHook({
+    name: 'salePause.pause',
+    phase: 'after',
+    from: 'active',
+    to: 'paused',
+    hook: (sale) => salePauseService.pause(sale),
+  });
+
+  stateMachine.registerHook({
+    name: 'salePause.resume',
+    phase: 'after',
+    from: 'paused',
+    to: 'active',
+    hook: async (sale) => {
+      await salePauseService.resume(sale);
+    },
+  });
+
+  stateMachine.registerHook({
+    name: 'salePause.end',
+    phase: 'after',
+    from: 'paused',
+    to: ['completed', 'cancelled'],
+    hook: (sale) => salePauseService.end(sale),
+  });
+
+  // Score the queue while its analytics are complete, before anything is flushed
+  stateMachine.registerHook({
+    name: 'analytics.finalize',
+    phase: 'after',
+    to: 'completed',
+    hook: async (sale) => {
+      const report = await queueAnalyticsService.generateEfficiencyReport(sale.id);
+      logger.info('Sale finished', {
+        saleId: sale.id,
+        queueEfficiency: report.efficiency.score,
+        bottlenecks: report.bottlenecks,
+      });
+    },
+  });
+
+  stateMachine.registerHook({
+    name: 'admissionRate.reset',
+    phase: 'after',
+    to: ['completed', 'cancelled'],
+    hook: (sale) => admissionRateController.reset(sale.id),
+  });
+
+  // Nobody still waiting can buy from an ended sale
+  stateMachine.registerHook({
+    name: 'queue.flush',
+    phase: 'after',
+    to: ['completed', 'cancelled'],
+    hook: async (sale) => {
+      await queueEngine.clearQueue(sale.id);
+    },
+  });
+
+  // Persist the final counts, with held units as unsold, then drop the holds
+  stateMachine.registerHook({
+    name: 'inventory.release',
+    phase: 'after',
+    to: ['completed', 'cancelled'],
+    hook: async (sale) => {
+      await inventoryManager.syncInventoryToDatabase(sale.id);
+      const released = await inventoryManager.bulkReleaseReservations(sale.id);
+      logger.info('Released reservations for ended sale', { saleId: sale.id, released });
+    },
+  });
+
+  // A sale that became active needs its end armed; one that left upcoming or active
+  // needs its timers dropped
+  stateMachine.registerHook({
+    name: 'scheduler.rearm',
+    phase: 'after',
+    hook: () => saleScheduler.rearm(),
+  });
+}
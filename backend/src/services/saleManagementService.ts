@@ -6,6 +6,9 @@
 import { query } from '../utils/database';
 import { getAnalyticsCollector } from './analyticsCollector';
 import { EventType, EventSource } from '../models/analyticsEvent';
+import { inventoryManager } from './inventoryManager';
+import { stateMachine, SaleStatus } from './stateMachine';
+import { saleScheduler } from './saleScheduler';
 
 export interface SaleScheduleUpdate {
   sale_id: string;
@@ -15,6 +18,8 @@ export interface SaleScheduleUpdate {
 
 export interface InventoryAdjustment {
   sale_id: string;
+  // Required for multi-SKU sales, whose stock is held per item
+  item_id?: string;
   adjustment: number;
   reason: string;
 }
@@ -29,10 +34,9 @@ export class SaleManagementService {
   /**
    * Manually activate a flash sale
    */
-  static async activateSale(saleId: string): Promise<void> {
+  static async activateSale(saleId: string, triggeredBy?: string): Promise<void> {
     try {
-      const queryStr = `UPDATE flash_sales SET status = 'active', updated_at = NOW() WHERE id = $1`;
-      await query(queryStr, [saleId]);
+      await this.transition(saleId, 'active', undefined, triggeredBy);
 
       // Track event
       const collector = getAnalyticsCollector();
@@ -50,12 +54,11 @@ export class SaleManagementService {
   }
 
   /**
-   * Pause an active flash sale
+   * Pause an active flash sale: admissions stop and pass and reservation expiries are held
    */
-  static async pauseSale(saleId: string): Promise<void> {
+  static async pauseSale(saleId: string, triggeredBy?: string): Promise<void> {
     try {
-      const queryStr = `UPDATE flash_sales SET status = 'paused', updated_at = NOW() WHERE id = $1`;
-      await query(queryStr, [saleId]);
+      await this.transition(saleId, 'paused', undefined, triggeredBy);
 
       // Track event
       const collector = getAnalyticsCollector();
@@ -75,10 +78,9 @@ export class SaleManagementService {
   /**
    * Resume a paused flash sale
    */
-  static async resumeSale(saleId: string): Promise<void> {
+  static async resumeSale(saleId: string, triggeredBy?: string): Promise<void> {
     try {
-      const queryStr = `UPDATE flash_sales SET status = 'active', updated_at = NOW() WHERE id = $1`;
-      await query(queryStr, [saleId]);
+      await this.transition(saleId, 'active', undefined, triggeredBy);
 
       // Track event
       const collector = getAnalyticsCollector();
@@ -100,11 +102,11 @@ export class SaleManagementService {
    */
   static async emergencyStop(
     saleId: string,
-    reason: string = 'Emergency stop triggered'
+    reason: string = 'Emergency stop triggered',
+    triggeredBy?: string
   ): Promise<void> {
     try {
-      const queryStr = `UPDATE flash_sales SET status = 'cancelled', updated_at = NOW() WHERE id = $1`;
-      await query(queryStr, [saleId]);
+      await this.transition(saleId, 'cancelled', reason, triggeredBy);
 
       // Track system event
       const collector = getAnalyticsCollector();
@@ -123,7 +125,7 @@ export class SaleManagementService {
   }
 
   /**
-   * Schedule sale to start and end at specific times
+   * Move an upcoming sale's start and end times; the scheduler re-arms on every replica
    */
   static async scheduleSale(update: SaleScheduleUpdate): Promise<void> {
     try {
@@ -133,13 +135,19 @@ export class SaleManagementService {
         throw new Error('Scheduled start time must be before end time');
       }
 
+      // The sale stays upcoming so the state machine can still start it
       const queryStr = `
         UPDATE flash_sales 
-        SET start_time = $1, end_time = $2, status = 'scheduled', updated_at = NOW() 
-        WHERE id = $3
+        SET start_time = $1, end_time = $2, updated_at = NOW() 
+        WHERE id = $3 AND status = 'upcoming'
       `;
 
-      await query(queryStr, [scheduled_start, scheduled_end, sale_id]);
+      const result = await query(queryStr, [scheduled_start, scheduled_end, sale_id]);
+      if (result.rowCount === 0) {
+        throw new Error('Only upcoming sales can be scheduled');
+      }
+
+      await saleScheduler.rearm();
     } catch (error) {
       console.error(`Error scheduling sale ${update.sale_id}:`, error);
       throw error;
@@ -151,28 +159,10 @@ export class SaleManagementService {
    */
   static async adjustInventory(adjustment: InventoryAdjustment): Promise<number> {
     try {
-      const { sale_id, adjustment: amount } = adjustment;
-
-      // Get current inventory
-      const selectQuery = `SELECT remaining_inventory FROM flash_sales WHERE id = $1`;
-      const result = await query(selectQuery, [sale_id]);
-
-      if (result.rows.length === 0) {
-        throw new Error(`Sale ${sale_id} not found`);
-      }
-
-      const sale = result.rows[0];
-      const newInventory = Math.max(0, sale.remaining_inventory + amount);
+      const { sale_id, item_id, adjustment: amount, reason } = adjustment;
 
-      const updateQuery = `
-        UPDATE flash_sales 
-        SET remaining_inventory = $1, updated_at = NOW() 
-        WHERE id = $2
-      `;
-
-      await query(updateQuery, [newInventory, sale_id]);
-
-      return newInventory;
+      // Goes through the shared Lua-backed store so live stock and the database stay aligned
+      return await inventoryManager.adjustInventory(sale_id, amount, item_id, reason);
     } catch (error) {
       console.error(`Error adjusting inventory for sale ${adjustment.sale_id}:`, error);
       throw error;
@@ -290,6 +280,21 @@ export class SaleManagementService {
       throw error;
     }
   }
+
+  /**
+   * Change a sale's status through the state machine, which runs its side effects
+   */
+  private static async transition(
+    saleId: string,
+    status: SaleStatus,
+    reason?: string,
+    triggeredBy?: string
+  ): Promise<void> {
+    const result = await stateMachine.transition(saleId, status, reason, triggeredBy);
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+  }
 }
 
 export default SaleManagementService;
@@ -0,0 +1,109 @@
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { logger } from '../utils/logger';
+import * as redisOperations from '../utils/redisOperations';
+import { PAUSED_SALES_KEY } from '../config/redisKeys';
+import { FlashSale } from '../models';
+import { inventoryManager } from './inventoryManager';
+import { eventBroadcaster } from './eventBroadcaster';
+
+// A sale row with its product's name, for the SALE_UPDATED broadcast
+type PausedSale = FlashSale & { name?: string };
+
+/**
+ * Side effects of pausing and resuming a sale, run by the state machine's transition
+ * hooks. A paused sale admits nobody from its queue, and the clock stops on its
+ * admission passes and stock reservations: nothing expires while paused, and on resume
+ * every expiry moves back by the time spent paused. Sales with extend_end_on_resume set
+ * also get that time added to their end time.
+ */
+class SalePauseService {
+  /**
+   * Whether a sale is paused, checked before admitting from its queue
+   */
+  async isPaused(saleId: string): Promise<boolean> {
+    return (await redisClient.sismember(PAUSED_SALES_KEY, saleId)) === 1;
+  }
+
+  /**
+   * Freeze a sale that has just been paused
+   */
+  async pause(sale: FlashSale): Promise<void> {
+    const result = await pool.query<PausedSale>(
+      `UPDATE flash_sales SET paused_at = NOW() WHERE id = $1
+       RETURNING *, (SELECT name FROM products WHERE id = flash_sales.product_id) AS name`,
+      [sale.id]
+    );
+    await redisClient.sadd(PAUSED_SALES_KEY, sale.id);
+
+    const passes = await redisOperations.pauseAdmissionPassExpiry(sale.id);
+    let reservations = 0;
+    for (const stockId of await inventoryManager.getSaleStockIds(sale.id)) {
+      reservations += await redisOperations.pauseReservationExpiry(stockId);
+    }
+
+    logger.info('Sale paused', {
+      saleId: sale.id,
+      heldPasses: passes,
+      heldReservations: reservations,
+    });
+    this.broadcast(result.rows[0] || sale);
+  }
+
+  /**
+   * Unfreeze a sale that has just been resumed; returns the time it spent paused
+   */
+  async resume(sale: FlashSale): Promise<number> {
+    const pausedMs = sale.paused_at
+      ? Math.max(Date.now() - new Date(sale.paused_at).getTime(), 0)
+      : 0;
+
+    const result = await pool.query<PausedSale>(
+      `UPDATE flash_sales
+       SET paused_at = NULL,
+           end_time = CASE WHEN extend_end_on_resume
+             THEN end_time + ($2 * INTERVAL '1 millisecond') ELSE end_time END
+       WHERE id = $1
+       RETURNING *, (SELECT name FROM products WHERE id = flash_sales.product_id) AS name`,
+      [sale.id, pausedMs]
+    );
+    await this.releaseExpiries(sale.id, pausedMs);
+    await redisClient.srem(PAUSED_SALES_KEY, sale.id);
+
+    logger.info('Sale resumed', { saleId: sale.id, pausedSeconds: Math.round(pausedMs / 1000) });
+    this.broadcast(result.rows[0] || sale);
+    return pausedMs;
+  }
+
+  /**
+   * Lift the freeze from a paused sale that ended or was cancelled; passes and reservations
+   * expire on their original schedule, so the stock they hold returns promptly
+   */
+  async end(sale: FlashSale): Promise<void> {
+    await pool.query('UPDATE flash_sales SET paused_at = NULL WHERE id = $1', [sale.id]);
+    await this.releaseExpiries(sale.id, 0);
+    await redisClient.srem(PAUSED_SALES_KEY, sale.id);
+  }
+
+  private async releaseExpiries(saleId: string, shiftMs: number): Promise<void> {
+    await redisOperations.resumeAdmissionPassExpiry(saleId, shiftMs);
+    for (const stockId of await inventoryManager.getSaleStockIds(saleId)) {
+      await redisOperations.resumeReservationExpiry(stockId, shiftMs);
+    }
+  }
+
+  private broadcast(sale: PausedSale): void {
+    eventBroadcaster.saleUpdated({
+      saleId: sale.id,
+      productId: sale.product_id,
+      name: sale.name || '',
+      status: sale.status,
+      startTime: new Date(sale.start_time).toISOString(),
+      endTime: new Date(sale.end_time).toISOString(),
+    });
+  }
+}
+
+// Export singleton instance
+export const salePauseService = new SalePauseService();
+export default salePauseService;
@@ -0,0 +1,285 @@
+import type Redis from 'ioredis';
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { logger } from '../utils/logger';
+import { SALE_SCHEDULE_CHANNEL } from '../config/redisKeys';
+import { stateMachine, SaleStatus } from './stateMachine';
+import { eventBroadcaster } from './eventBroadcaster';
+import { LeaderElection } from './leaderElection';
+import { releaseWaveService } from './releaseWaveService';
+
+// How many upcoming starts, ends and release waves are armed at once
+export const SCHEDULER_MAX_ARMED = 100;
+// Only times this close are armed; later ones are picked up by a later refresh
+export const SCHEDULER_HORIZON_MS = 60 * 60 * 1000;
+// Re-read the schedule this often, in case a change notification was missed
+const REFRESH_INTERVAL_MS = 30 * 1000;
+// Countdown ticks are sent every second for this long before a sale starts
+const COUNTDOWN_MS = 60 * 1000;
+
+// A start or end time, or the next release wave of an active sale, due soon
+interface ScheduledTransition {
+  saleId: string;
+  target: Extract<SaleStatus, 'active' | 'completed'> | 'wave';
+  dueAt: number;
+}
+
+interface ArmedTransition extends ScheduledTransition {
+  timer: NodeJS.Timeout;
+  countdown?: NodeJS.Timeout;
+}
+
+/**
+ * Starts and ends sales, and releases their stock waves, on the second instead of waiting
+ * for the next poll. Every replica arms a timer for each of the next few of these, and
+ * sends the countdown ticks of the last minute before a start to the clients connected to
+ * it; when a timer fires, only the replica holding the scheduler lease acts on it. Changes
+ * to a sale's times are announced on a Redis channel so every replica re-arms. The status
+ * and wave poll jobs keep running as a fallback if no replica leads.
+ */
+class SaleScheduler {
+  private leader = new LeaderElection('sale_scheduler');
+  private armed = new Map<string, ArmedTransition>();
+  private subscriber: Redis | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private refreshing = false;
+  private refreshPending = false;
+
+  /**
+   * Start competing for the lease, listening for schedule changes and arming timers
+   */
+  async start(): Promise<void> {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh();
+    }, REFRESH_INTERVAL_MS);
+
+    await this.leader.start();
+
+    try {
+      this.subscriber = redisClient.duplicate();
+      this.subscriber.on('message', () => {
+        this.refresh();
+      });
+      await this.subscriber.subscribe(SALE_SCHEDULE_CHANNEL);
+    } catch (error) {
+      // Changes are still picked up by the periodic refresh
+      logger.error('Sale scheduler failed to subscribe to schedule changes', {
+        error: (error as Error).message,
+      });
+    }
+
+    await this.refresh();
+  }
+
+  /**
+   * Disarm every timer and hand the lease back
+   */
+  async stop(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    for (const key of [...this.armed.keys()]) {
+      this.disarm(key);
+    }
+
+    if (this.subscriber) {
+      await this.subscriber.quit().catch(() => undefined);
+      this.subscriber = null;
+    }
+
+    await this.leader.stop();
+  }
+
+  /**
+   * Tell every replica that a sale's start or end time, or status, has changed
+   */
+  async rearm(): Promise<void> {
+    try {
+      await redisClient.publish(SALE_SCHEDULE_CHANNEL, String(Date.now()));
+    } catch (error) {
+      logger.error('Failed to announce sale schedule change', { error: (error as Error).message });
+      await this.refresh();
+    }
+  }
+
+  /**
+   * Starts and ends currently armed, soonest first
+   */
+  getArmed(): ScheduledTransition[] {
+    return [...this.armed.values()]
+      .map(({ saleId, target, dueAt }) => ({ saleId, target, dueAt }))
+      .sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  /**
+   * Re-read the schedule and arm timers to match; concurrent calls collapse into one
+   * more pass once the current one finishes
+   */
+  async refresh(): Promise<void> {
+    if (this.refreshing) {
+      this.refreshPending = true;
+      return;
+    }
+
+    this.refreshing = true;
+    try {
+      do {
+        this.refreshPending = false;
+        this.arm(await this.getDueTransitions());
+      } while (this.refreshPending);
+    } catch (error) {
+      logger.error('Sale scheduler refresh failed', { error: (error as Error).message });
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private async getDueTransitions(): Promise<ScheduledTransition[]> {
+    const result = await pool.query(
+      `SELECT sale_id, target, due_at FROM (
+         SELECT id AS sale_id, 'active' AS target, start_time AS due_at
+         FROM flash_sales WHERE status = 'upcoming' AND end_time > NOW()
+         UNION ALL
+         SELECT id, 'completed', end_time FROM flash_sales
+         WHERE status = 'active' OR (status = 'paused' AND NOT extend_end_on_resume)
+         UNION ALL
+         -- Waves are listed in time order, so the earliest unreleased one is next
+         SELECT fs.id, 'wave', MIN(
+           CASE WHEN w.wave->>'from' = 'end'
+             THEN fs.end_time - (w.wave->>'offset_minutes')::int * INTERVAL '1 minute'
+             ELSE fs.start_time + (w.wave->>'offset_minutes')::int * INTERVAL '1 minute'
+           END)
+         FROM flash_sales fs
+         CROSS JOIN LATERAL jsonb_array_elements(fs.release_waves) WITH ORDINALITY AS w(wave, n)
+         WHERE fs.status = 'active' AND w.n > fs.waves_released
+         GROUP BY fs.id
+       ) due
+       WHERE due_at <= NOW() + $2 * INTERVAL '1 millisecond'
+       ORDER BY due_at ASC
+       LIMIT $1`,
+      [SCHEDULER_MAX_ARMED, SCHEDULER_HORIZON_MS]
+    );
+
+    return result.rows.map((row) => ({
+      saleId: row.sale_id,
+      target: row.target,
+      dueAt: new Date(row.due_at).getTime(),
+    }));
+  }
+
+  private arm(transitions: ScheduledTransition[]): void {
+    const wanted = new Map(transitions.map((t) => [`${t.saleId}:${t.target}`, t]));
+
+    // Drop timers for times that moved or transitions no longer due
+    for (const [key, armed] of this.armed) {
+      if (wanted.get(key)?.dueAt !== armed.dueAt) {
+        this.disarm(key);
+      }
+    }
+
+    for (const [key, transition] of wanted) {
+      if (this.armed.has(key)) {
+        continue;
+      }
+
+      const timer = setTimeout(
+        () => {
+          this.fire(key);
+        },
+        Math.max(transition.dueAt - Date.now(), 0)
+      );
+      const armed: ArmedTransition = { ...transition, timer };
+
+      if (transition.target === 'active') {
+        armed.countdown = setTimeout(
+          () => {
+            this.tick(armed);
+          },
+          Math.max(transition.dueAt - COUNTDOWN_MS - Date.now(), 0)
+        );
+      }
+
+      this.armed.set(key, armed);
+    }
+  }
+
+  private disarm(key: string): void {
+    const armed = this.armed.get(key);
+    if (armed) {
+      clearTimeout(armed.timer);
+      if (armed.countdown) {
+        clearTimeout(armed.countdown);
+      }
+      this.armed.delete(key);
+    }
+  }
+
+  private async fire(key: string): Promise<void> {
+    const armed = this.armed.get(key);
+    if (!armed) {
+      return;
+    }
+    this.disarm(key);
+
+    // Every replica arms the same timers; the lease holder acts on them
+    if (!this.leader.isLeader()) {
+      return;
+    }
+
+    if (armed.target === 'wave') {
+      // Arm the wave after it; other replicas pick it up on their next refresh
+      if ((await releaseWaveService.releaseDueWaves(armed.saleId)) > 0) {
+        await this.refresh();
+      }
+      return;
+    }
+
+    const result = await stateMachine.transition(
+      armed.saleId,
+      armed.target,
+      armed.target === 'active' ? 'Scheduled start' : 'Scheduled end',
+      'scheduler'
+    );
+
+    if (result.success) {
+      logger.info('Scheduled sale transition', {
+        saleId: armed.saleId,
+        target: armed.target,
+        lateMs: Date.now() - armed.dueAt,
+      });
+    } else if (result.previousState !== armed.target) {
+      // Not when the status poll or another replica got there first
+      logger.warn('Scheduled sale transition failed', {
+        saleId: armed.saleId,
+        target: armed.target,
+        error: result.message,
+      });
+    }
+  }
+
+  // Send the seconds left and come back on the next whole second before the start
+  private tick(armed: ArmedTransition): void {
+    const remainingMs = armed.dueAt - Date.now();
+    if (remainingMs <= 0 || this.armed.get(`${armed.saleId}:${armed.target}`) !== armed) {
+      return;
+    }
+
+    eventBroadcaster.saleCountdown(armed.saleId, Math.ceil(remainingMs / 1000));
+    armed.countdown = setTimeout(
+      () => {
+        this.tick(armed);
+      },
+      remainingMs % 1000 || 1000
+    );
+  }
+}
+
+// Export singleton instance
+export const saleScheduler = new SaleScheduler();
+export default saleScheduler;
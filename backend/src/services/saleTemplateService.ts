@@ -0,0 +1,481 @@
+import pool from '../utils/database';
+import { logger } from '../utils/logger';
+import { FlashSale } from '../models';
+import {
+  expandOccurrences,
+  isValidTimeZone,
+  parseRecurrenceRule,
+  zonedDateKey,
+} from '../utils/recurrence';
+import flashSaleService, { summarizeSaleItems, CreateFlashSaleDto } from './flashSaleService';
+
+// What every sale made from a template sells and how it queues; times come from the schedule
+export type SaleTemplateSettings = Omit<
+  CreateFlashSaleDto,
+  | 'start_time'
+  | 'end_time'
+  | 'draw_at'
+  | 'draw_winner_count'
+  | 'template_id'
+  | 'recurrence_id'
+  | 'occurrence_at'
+>;
+
+export interface SaleTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  duration_minutes: number;
+  settings: SaleTemplateSettings;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SaleTemplateInput {
+  name: string;
+  description?: string | null;
+  duration_minutes: number;
+  settings: SaleTemplateSettings;
+}
+
+export interface SaleRecurrence {
+  id: string;
+  template_id: string;
+  rule: string;
+  timezone: string;
+  // The first occurrence; also the time of day when the rule sets none
+  starts_at: Date;
+  horizon_days: number;
+  skip_holidays: boolean;
+  active: boolean;
+  generated_until: Date | null;
+  created_at: Date;
+}
+
+export interface SaleRecurrenceInput {
+  rule: string;
+  timezone?: string;
+  starts_at: Date;
+  horizon_days?: number;
+  skip_holidays?: boolean;
+}
+
+export type BlackoutKind = 'holiday' | 'blackout';
+
+export interface SaleBlackoutDate {
+  id: string;
+  // YYYY-MM-DD, in the time zone of each recurrence it applies to
+  date: string;
+  kind: BlackoutKind;
+  name: string | null;
+  // Null for dates that apply to every recurrence
+  recurrence_id: string | null;
+  created_at: Date;
+}
+
+export interface ScheduledOccurrence {
+  startsAt: Date;
+  // Why no sale is made for this occurrence
+  skipped?: BlackoutKind;
+}
+
+export interface GenerationResult {
+  recurrenceId: string;
+  created: number;
+  skipped: number;
+}
+
+const MAX_HORIZON_DAYS = 90;
+
+/**
+ * Templates for sales run repeatedly, and the recurrences that schedule them. The
+ * generator materializes each occurrence as an ordinary upcoming flash sale a set number
+ * of days ahead, passing over holidays and blackout dates; the state machine and sale
+ * scheduler then run it like any other sale. Sales already made are left alone when a
+ * template or recurrence changes.
+ */
+class SaleTemplateService {
+  async listTemplates(): Promise<SaleTemplate[]> {
+    const result = await pool.query<SaleTemplate>('SELECT * FROM sale_templates ORDER BY name');
+    return result.rows;
+  }
+
+  async getTemplate(templateId: string): Promise<SaleTemplate | null> {
+    const result = await pool.query<SaleTemplate>('SELECT * FROM sale_templates WHERE id = $1', [
+      templateId,
+    ]);
+    return result.rows[0] || null;
+  }
+
+  async createTemplate(input: SaleTemplateInput): Promise<SaleTemplate> {
+    await this.validateTemplate(input);
+
+    const result = await pool.query<SaleTemplate>(
+      `INSERT INTO sale_templates (name, description, duration_minutes, settings)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [
+        input.name.trim(),
+        input.description || null,
+        input.duration_minutes,
+        JSON.stringify(input.settings),
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Change a template; sales it has already made keep their settings
+   */
+  async updateTemplate(
+    templateId: string,
+    changes: Partial<SaleTemplateInput>
+  ): Promise<SaleTemplate | null> {
+    const existing = await this.getTemplate(templateId);
+    if (!existing) {
+      return null;
+    }
+
+    const input: SaleTemplateInput = {
+      name: changes.name ?? existing.name,
+      description: changes.description !== undefined ? changes.description : existing.description,
+      duration_minutes: changes.duration_minutes ?? existing.duration_minutes,
+      settings: changes.settings ?? existing.settings,
+    };
+    await this.validateTemplate(input);
+
+    const result = await pool.query<SaleTemplate>(
+      `UPDATE sale_templates
+       SET name = $2, description = $3, duration_minutes = $4, settings = $5, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        templateId,
+        input.name.trim(),
+        input.description || null,
+        input.duration_minutes,
+        JSON.stringify(input.settings),
+      ]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Delete a template and its recurrences; sales already made stay scheduled
+   */
+  async deleteTemplate(templateId: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM sale_templates WHERE id = $1', [templateId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Make one sale from a template, starting at the given time
+   */
+  async createSaleFromTemplate(
+    template: SaleTemplate,
+    startTime: Date,
+    recurrenceId?: string
+  ): Promise<FlashSale> {
+    return flashSaleService.createFlashSale({
+      ...template.settings,
+      start_time: startTime,
+      end_time: new Date(startTime.getTime() + template.duration_minutes * 60 * 1000),
+      template_id: template.id,
+      recurrence_id: recurrenceId,
+      occurrence_at: recurrenceId ? startTime : undefined,
+    });
+  }
+
+  async listRecurrences(templateId: string): Promise<SaleRecurrence[]> {
+    const result = await pool.query<SaleRecurrence>(
+      'SELECT * FROM sale_recurrences WHERE template_id = $1 ORDER BY created_at',
+      [templateId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Schedule a template to repeat, and make the sales due within the horizon right away
+   */
+  async createRecurrence(
+    templateId: string,
+    input: SaleRecurrenceInput
+  ): Promise<{ recurrence: SaleRecurrence; generation: GenerationResult }> {
+    const template = await this.getTemplate(templateId);
+    if (!template) {
+      throw new Error('Sale template not found');
+    }
+
+    this.validateRecurrence(input);
+
+    const result = await pool.query<SaleRecurrence>(
+      `INSERT INTO sale_recurrences (template_id, rule, timezone, starts_at, horizon_days, skip_holidays)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        templateId,
+        input.rule.trim(),
+        input.timezone || 'UTC',
+        input.starts_at,
+        input.horizon_days ?? 14,
+        input.skip_holidays ?? true,
+      ]
+    );
+    const recurrence = result.rows[0];
+
+    return { recurrence, generation: await this.generateForRecurrence(recurrence, template) };
+  }
+
+  /**
+   * Pause or resume a recurrence, or change how far ahead it makes sales
+   */
+  async updateRecurrence(
+    recurrenceId: string,
+    changes: Partial<Pick<SaleRecurrence, 'active' | 'horizon_days' | 'skip_holidays'>>
+  ): Promise<SaleRecurrence | null> {
+    if (changes.horizon_days !== undefined) {
+      this.validateHorizon(changes.horizon_days);
+    }
+
+    const result = await pool.query<SaleRecurrence>(
+      `UPDATE sale_recurrences
+       SET active = COALESCE($2, active),
+           horizon_days = COALESCE($3, horizon_days),
+           skip_holidays = COALESCE($4, skip_holidays)
+       WHERE id = $1
+       RETURNING *`,
+      [recurrenceId, changes.active, changes.horizon_days, changes.skip_holidays]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Stop a recurrence for good; sales it has already made stay scheduled
+   */
+  async deleteRecurrence(recurrenceId: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM sale_recurrences WHERE id = $1', [recurrenceId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Occurrences of a schedule over the coming days, marking those that would be skipped
+   */
+  async previewOccurrences(
+    input: SaleRecurrenceInput & { recurrence_id?: string },
+    days: number = input.horizon_days ?? 14,
+    now: Date = new Date()
+  ): Promise<ScheduledOccurrence[]> {
+    this.validateRecurrence(input);
+
+    const timezone = input.timezone || 'UTC';
+    const skippedDates = await this.getSkippedDates(
+      input.recurrence_id || null,
+      input.skip_holidays ?? true
+    );
+
+    return expandOccurrences(
+      parseRecurrenceRule(input.rule),
+      new Date(input.starts_at),
+      timezone,
+      now,
+      new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+    ).map((startsAt) => {
+      const skipped = skippedDates.get(zonedDateKey(startsAt, timezone));
+      return skipped ? { startsAt, skipped } : { startsAt };
+    });
+  }
+
+  async listBlackoutDates(): Promise<SaleBlackoutDate[]> {
+    const result = await pool.query<SaleBlackoutDate>(
+      `SELECT id, to_char(date, 'YYYY-MM-DD') AS date, kind, name, recurrence_id, created_at
+       FROM sale_blackout_dates
+       WHERE date >= CURRENT_DATE - 1
+       ORDER BY date`
+    );
+    return result.rows;
+  }
+
+  async addBlackoutDate(input: {
+    date: string;
+    kind?: BlackoutKind;
+    name?: string;
+    recurrence_id?: string | null;
+  }): Promise<SaleBlackoutDate> {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date) || isNaN(Date.parse(input.date))) {
+      throw new Error('Date must be given as YYYY-MM-DD');
+    }
+    const kind = input.kind || 'blackout';
+    if (kind !== 'holiday' && kind !== 'blackout') {
+      throw new Error("Kind must be 'holiday' or 'blackout'");
+    }
+
+    const result = await pool.query<SaleBlackoutDate>(
+      `INSERT INTO sale_blackout_dates (date, kind, name, recurrence_id)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, to_char(date, 'YYYY-MM-DD') AS date, kind, name, recurrence_id, created_at`,
+      [input.date, kind, input.name || null, input.recurrence_id || null]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Remove a blackout date; occurrences it skipped are made on the next generator run
+   */
+  async removeBlackoutDate(blackoutId: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM sale_blackout_dates WHERE id = $1', [blackoutId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Make the sales due within each active recurrence's horizon (background job)
+   */
+  async generateUpcomingSales(now: Date = new Date()): Promise<GenerationResult[]> {
+    const result = await pool.query<SaleRecurrence & { template: SaleTemplate }>(
+      `SELECT r.*, row_to_json(t) AS template
+       FROM sale_recurrences r
+       JOIN sale_templates t ON t.id = r.template_id
+       WHERE r.active = TRUE`
+    );
+
+    const results: GenerationResult[] = [];
+    for (const { template, ...recurrence } of result.rows) {
+      try {
+        results.push(await this.generateForRecurrence(recurrence, template, now));
+      } catch (error) {
+        logger.error('Failed to generate sales for recurrence', {
+          recurrenceId: recurrence.id,
+          templateId: template.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+    return results;
+  }
+
+  private async generateForRecurrence(
+    recurrence: SaleRecurrence,
+    template: SaleTemplate,
+    now: Date = new Date()
+  ): Promise<GenerationResult> {
+    const until = new Date(now.getTime() + recurrence.horizon_days * 24 * 60 * 60 * 1000);
+    const occurrences = await this.previewOccurrences(
+      { ...recurrence, recurrence_id: recurrence.id },
+      recurrence.horizon_days,
+      now
+    );
+
+    const existing = await pool.query(
+      'SELECT occurrence_at FROM flash_sales WHERE recurrence_id = $1 AND occurrence_at >= $2',
+      [recurrence.id, now]
+    );
+    const made = new Set(existing.rows.map((row) => new Date(row.occurrence_at).getTime()));
+
+    const generation: GenerationResult = { recurrenceId: recurrence.id, created: 0, skipped: 0 };
+
+    for (const occurrence of occurrences) {
+      if (occurrence.skipped) {
+        generation.skipped++;
+        continue;
+      }
+      if (made.has(occurrence.startsAt.getTime())) {
+        continue;
+      }
+
+      try {
+        await this.createSaleFromTemplate(template, occurrence.startsAt, recurrence.id);
+        generation.created++;
+      } catch (error) {
+        // Another replica made it first
+        if ((error as { code?: string }).code === '23505') {
+          continue;
+        }
+        logger.error('Failed to make sale for recurrence', {
+          recurrenceId: recurrence.id,
+          templateId: template.id,
+          occurrenceAt: occurrence.startsAt.toISOString(),
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    await pool.query('UPDATE sale_recurrences SET generated_until = $2 WHERE id = $1', [
+      recurrence.id,
+      until,
+    ]);
+
+    return generation;
+  }
+
+  // Dates with no sale for a recurrence, with the reason
+  private async getSkippedDates(
+    recurrenceId: string | null,
+    skipHolidays: boolean
+  ): Promise<Map<string, BlackoutKind>> {
+    const result = await pool.query<{ date: string; kind: BlackoutKind }>(
+      `SELECT to_char(date, 'YYYY-MM-DD') AS date, kind
+       FROM sale_blackout_dates
+       WHERE (recurrence_id IS NULL OR recurrence_id = $1)
+         AND (kind = 'blackout' OR $2)`,
+      [recurrenceId, skipHolidays]
+    );
+
+    const dates = new Map<string, BlackoutKind>();
+    for (const row of result.rows) {
+      // A blackout is reported over a holiday on the same date
+      if (dates.get(row.date) !== 'blackout') {
+        dates.set(row.date, row.kind);
+      }
+    }
+    return dates;
+  }
+
+  private async validateTemplate(input: SaleTemplateInput): Promise<void> {
+    if (!input.name?.trim()) {
+      throw new Error('Template name is required');
+    }
+    if (!Number.isInteger(input.duration_minutes) || input.duration_minutes <= 0) {
+      throw new Error('Duration must be a whole number of minutes');
+    }
+    if (!input.settings) {
+      throw new Error('Template settings are required');
+    }
+    if (input.settings.queue_ordering === 'draw') {
+      throw new Error('Draw sales cannot be made from a template');
+    }
+
+    // Checked as a sale starting now would be
+    const settings = input.settings.items?.length
+      ? { ...input.settings, ...summarizeSaleItems(input.settings.items) }
+      : input.settings;
+    const start = new Date();
+    await flashSaleService.validateFlashSaleData({
+      ...settings,
+      start_time: start,
+      end_time: new Date(start.getTime() + input.duration_minutes * 60 * 1000),
+    });
+  }
+
+  private validateRecurrence(input: SaleRecurrenceInput): void {
+    parseRecurrenceRule(input.rule);
+
+    if (input.timezone && !isValidTimeZone(input.timezone)) {
+      throw new Error(`Unknown time zone: ${input.timezone}`);
+    }
+    if (!input.starts_at || isNaN(new Date(input.starts_at).getTime())) {
+      throw new Error('A valid first occurrence (starts_at) is required');
+    }
+    if (input.horizon_days !== undefined) {
+      this.validateHorizon(input.horizon_days);
+    }
+  }
+
+  private validateHorizon(days: number): void {
+    if (!Number.isInteger(days) || days < 1 || days > MAX_HORIZON_DAYS) {
+      throw new Error(`Horizon must be between 1 and ${MAX_HORIZON_DAYS} days`);
+    }
+  }
+}
+
+// Export singleton instance
+export const saleTemplateService = new SaleTemplateService();
+export default saleTemplateService;
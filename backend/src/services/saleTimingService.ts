@@ -124,11 +124,14 @@ export class SaleTimingService {
   }
 
   /**
-   * Check if sale should transition to completed
+   * Check if sale should transition to completed. A paused sale ends on time too,
+   * unless its end moves back by the pause once it resumes.
    */
   shouldComplete(sale: FlashSale): boolean {
     const now = new Date();
-    return sale.status === 'active' && new Date(sale.end_time) <= now;
+    const ending =
+      sale.status === 'active' || (sale.status === 'paused' && !sale.extend_end_on_resume);
+    return ending && new Date(sale.end_time) <= now;
   }
 
   /**
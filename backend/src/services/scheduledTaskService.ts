@@ -0,0 +1,252 @@
+import os from 'os';
+import { PoolClient } from 'pg';
+import pool from '../utils/database';
+
+export type ScheduledTaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScheduledTask {
+  id: string;
+  task_type: string;
+  task_key: string;
+  payload: Record<string, unknown>;
+  run_at: Date;
+  status: ScheduledTaskStatus;
+  attempts: number;
+  max_attempts: number;
+  locked_by: string | null;
+  locked_at: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+export type ScheduledTaskHandler = (
+  payload: Record<string, unknown>,
+  task: ScheduledTask
+) => Promise<void>;
+
+export interface ProcessTasksResult {
+  claimed: number;
+  completed: number;
+  failed: number;
+  requeued: number;
+  // Ran past the lock timeout and were claimed again elsewhere; their outcome was dropped
+  lost: number;
+}
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+/**
+ * Durable delayed jobs stored in Postgres.
+ * Tasks survive restarts; workers claim due tasks with FOR UPDATE SKIP LOCKED, so each one
+ * runs on a single replica. A task whose worker died mid-run is requeued after the lock
+ * timeout, so handlers must be idempotent. Failed tasks are retried with exponential backoff.
+ */
+class ScheduledTaskService {
+  private handlers: Map<string, ScheduledTaskHandler> = new Map();
+  private readonly BATCH_SIZE = 50;
+  private readonly LOCK_TIMEOUT_SECONDS = 300; // 5 minutes
+  private readonly RETRY_DELAY_SECONDS = 30; // doubled on each further attempt
+
+  constructor(private readonly workerId: string = `${os.hostname()}:${process.pid}`) {}
+
+  /**
+   * Register the handler that runs tasks of a type
+   */
+  registerHandler(taskType: string, handler: ScheduledTaskHandler): void {
+    this.handlers.set(taskType, handler);
+  }
+
+  /**
+   * Schedule a task; rescheduling an open task with the same key moves its run time.
+   * Pass a transaction client to create the task atomically with the caller's writes.
+   */
+  async schedule(
+    taskType: string,
+    taskKey: string,
+    runAt: Date,
+    payload: Record<string, unknown> = {},
+    db: Queryable = pool
+  ): Promise<ScheduledTask | null> {
+    const result = await db.query(
+      `INSERT INTO scheduled_tasks (task_type, task_key, payload, run_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (task_type, task_key) WHERE status IN ('pending', 'running')
+       DO UPDATE SET run_at = EXCLUDED.run_at, payload = EXCLUDED.payload
+       WHERE scheduled_tasks.status = 'pending'
+       RETURNING *`,
+      [taskType, taskKey, JSON.stringify(payload), runAt]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Cancel a pending task; returns false when it already ran or is running
+   */
+  async cancel(taskType: string, taskKey: string, db: Queryable = pool): Promise<boolean> {
+    const result = await db.query(
+      `UPDATE scheduled_tasks
+       SET status = 'cancelled', completed_at = NOW()
+       WHERE task_type = $1 AND task_key = $2 AND status = 'pending'`,
+      [taskType, taskKey]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Claim and run due tasks (background job)
+   */
+  async processDueTasks(limit: number = this.BATCH_SIZE): Promise<ProcessTasksResult> {
+    const result: ProcessTasksResult = {
+      claimed: 0,
+      completed: 0,
+      failed: 0,
+      requeued: 0,
+      lost: 0,
+    };
+    const taskTypes = Array.from(this.handlers.keys());
+
+    if (taskTypes.length === 0) {
+      return result;
+    }
+
+    await this.requeueStaleTasks();
+
+    // Only claim types this process can run
+    const claimed = await pool.query<ScheduledTask>(
+      `UPDATE scheduled_tasks
+       SET status = 'running', locked_by = $1, locked_at = NOW(), attempts = attempts + 1
+       WHERE id IN (
+         SELECT id FROM scheduled_tasks
+         WHERE status = 'pending' AND run_at <= NOW() AND task_type = ANY($2)
+         ORDER BY run_at ASC
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [this.workerId, taskTypes, limit]
+    );
+
+    result.claimed = claimed.rows.length;
+
+    for (const task of claimed.rows) {
+      try {
+        const handler = this.handlers.get(task.task_type) as ScheduledTaskHandler;
+        await handler(task.payload, task);
+
+        // The claim is identified by worker and attempt: once the task was requeued and
+        // claimed again, even by this worker, this run no longer owns it
+        const completed = await pool.query(
+          `UPDATE scheduled_tasks
+           SET status = 'completed', completed_at = NOW(), locked_by = NULL, last_error = NULL
+           WHERE id = $1 AND status = 'running' AND locked_by = $2 AND attempts = $3`,
+          [task.id, this.workerId, task.attempts]
+        );
+
+        if (completed.rowCount) {
+          result.completed++;
+        } else {
+          result.lost++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const exhausted = task.attempts >= task.max_attempts;
+        const retryDelay = this.RETRY_DELAY_SECONDS * 2 ** (task.attempts - 1);
+
+        const failed = await pool.query(
+          `UPDATE scheduled_tasks
+           SET status = $2, last_error = $3, locked_by = NULL,
+               run_at = CASE WHEN $2 = 'pending' THEN NOW() + make_interval(secs => $4) ELSE run_at END,
+               completed_at = CASE WHEN $2 = 'failed' THEN NOW() ELSE NULL END
+           WHERE id = $1 AND status = 'running' AND locked_by = $5 AND attempts = $6`,
+          [
+            task.id,
+            exhausted ? 'failed' : 'pending',
+            message,
+            retryDelay,
+            this.workerId,
+            task.attempts,
+          ]
+        );
+
+        console.error(`Scheduled task ${task.task_type}:${task.task_key} failed:`, error);
+        if (!failed.rowCount) {
+          result.lost++;
+        } else if (exhausted) {
+          result.failed++;
+        } else {
+          result.requeued++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Return tasks whose worker stopped before finishing them to the pending pool
+   */
+  private async requeueStaleTasks(): Promise<number> {
+    const result = await pool.query(
+      `UPDATE scheduled_tasks
+       SET status = 'pending', locked_by = NULL
+       WHERE status = 'running' AND locked_at < NOW() - make_interval(secs => $1)`,
+      [this.LOCK_TIMEOUT_SECONDS]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Get open (pending or running) tasks, soonest first
+   */
+  async getOpenTasks(taskType?: string, limit: number = 100): Promise<ScheduledTask[]> {
+    const params: unknown[] = [limit];
+    let filter = '';
+
+    if (taskType) {
+      params.push(taskType);
+      filter = 'AND task_type = $2';
+    }
+
+    const result = await pool.query<ScheduledTask>(
+      `SELECT * FROM scheduled_tasks
+       WHERE status IN ('pending', 'running') ${filter}
+       ORDER BY run_at ASC
+       LIMIT $1`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Count tasks per status
+   */
+  async getStatusCounts(): Promise<Record<ScheduledTaskStatus, number>> {
+    const result = await pool.query(
+      'SELECT status, COUNT(*)::int AS count FROM scheduled_tasks GROUP BY status'
+    );
+
+    const counts: Record<ScheduledTaskStatus, number> = {
+      pending: 0,
+      running: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+
+    for (const row of result.rows) {
+      counts[row.status as ScheduledTaskStatus] = row.count;
+    }
+
+    return counts;
+  }
+}
+
+// Export singleton instance
+export const scheduledTaskService = new ScheduledTaskService();
+export { ScheduledTaskService };
+export default scheduledTaskService;
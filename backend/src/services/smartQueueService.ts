@@ -13,7 +13,7 @@
 
 import { redisClient, isRedisConnected } from '../utils/redis';
 import { REDIS_KEYS } from '../config/redisKeys';
-import { priorityQueueService, QueueHealth } from './priorityQueueService';
+import { queueEngine, QueueHealth } from './queueEngine';
 import { logger } from '../utils/logger';
 
 // Types
@@ -72,8 +72,8 @@ class SmartQueueService {
    * Predict queue congestion
    */
   async predictCongestion(saleId: string, expectedParticipants: number): Promise<QueuePrediction> {
-    const health = await priorityQueueService.getQueueHealth(saleId);
-    const config = priorityQueueService.getConfig(saleId);
+    const health = await queueEngine.getQueueHealth(saleId);
+    const config = queueEngine.getConfig(saleId);
 
     // Calculate based on current trends and expected load
     const currentLoad = health.totalInQueue + health.processingCount;
@@ -136,8 +136,8 @@ class SmartQueueService {
       return null;
     }
 
-    const health = await priorityQueueService.getQueueHealth(saleId);
-    const currentConfig = priorityQueueService.getConfig(saleId);
+    const health = await queueEngine.getQueueHealth(saleId);
+    const currentConfig = queueEngine.getConfig(saleId);
 
     let newMaxConcurrent = currentConfig.maxConcurrent;
     let newBatchSize = currentConfig.batchSize;
@@ -168,7 +168,7 @@ class SmartQueueService {
     }
 
     // Apply new configuration
-    priorityQueueService.configureQueue(saleId, {
+    queueEngine.configureQueue(saleId, {
       maxConcurrent: newMaxConcurrent,
       batchSize: newBatchSize,
     });
@@ -258,7 +258,7 @@ class SmartQueueService {
     history: { timestamp: Date; queueSize: number; throughput: number }[];
     performance: { avgWaitTime: number; completionRate: number; abandonmentRate: number };
   }> {
-    const current = await priorityQueueService.getQueueHealth(saleId);
+    const current = await queueEngine.getQueueHealth(saleId);
 
     // Get historical metrics from Redis
     let history: { timestamp: Date; queueSize: number; throughput: number }[] = [];
@@ -348,11 +348,9 @@ class SmartQueueService {
       notes.push('Applied high-congestion optimization');
     }
 
-    priorityQueueService.configureQueue(saleId, {
+    queueEngine.configureQueue(saleId, {
       maxConcurrent,
       batchSize,
-      vipSlots,
-      processingTimeoutSeconds: Math.max(180, (saleDurationMinutes * 60) / 4),
     });
 
     notes.push(`Configured for ${expectedParticipants} expected participants`);
@@ -1,16 +1,15 @@
 import pool from '../utils/database';
+import { logger } from '../utils/logger';
 import { FlashSale } from '../models';
 import { saleTimingService } from './saleTimingService';
 
-type SaleStatus = 'upcoming' | 'active' | 'completed' | 'cancelled';
+type SaleStatus = 'upcoming' | 'active' | 'paused' | 'completed' | 'cancelled';
 
 // State transition rules for flash sales
 interface StateTransition {
   from: SaleStatus;
   to: SaleStatus;
   condition?: (sale: FlashSale) => boolean;
-  beforeTransition?: (sale: FlashSale) => Promise<void>;
-  afterTransition?: (sale: FlashSale) => Promise<void>;
 }
 
 interface TransitionResult {
@@ -19,34 +18,72 @@ interface TransitionResult {
   newState: SaleStatus;
   message: string;
   error?: string;
+  // The sale as updated, on success
+  sale?: FlashSale;
 }
 
-// Define valid state transitions
+// What a transition hook is told about the change it runs for
+interface TransitionContext {
+  from: SaleStatus;
+  to: SaleStatus;
+  // Who or what asked for the change, e.g. 'system', 'job:updateSaleStatuses', 'admin:<id>'
+  triggeredBy: string;
+  reason?: string;
+}
+
+type TransitionHook = (sale: FlashSale, context: TransitionContext) => Promise<void> | void;
+
+/**
+ * A subscriber to sale transitions. 'before' hooks run ahead of the status update and
+ * abort the transition by throwing; 'after' hooks run once the new status is stored, and
+ * one failing is logged without affecting the others. Leaving from or to unset matches
+ * any status.
+ */
+interface TransitionHookRegistration {
+  name: string;
+  phase: 'before' | 'after';
+  from?: SaleStatus | SaleStatus[];
+  to?: SaleStatus | SaleStatus[];
+  hook: TransitionHook;
+}
+
+// A row of flash_sale_status_history
+interface SaleStatusChange {
+  id: string;
+  flash_sale_id: string;
+  from_status: SaleStatus;
+  to_status: SaleStatus;
+  triggered_by: string;
+  reason: string | null;
+  created_at: Date;
+}
+
+// Define valid state transitions; their side effects are registered as hooks
 const VALID_TRANSITIONS: StateTransition[] = [
   {
     from: 'upcoming',
     to: 'active',
     condition: (sale: FlashSale) => saleTimingService.shouldActivate(sale),
-    beforeTransition: async (sale: FlashSale) => {
-      // Could initialize additional resources here
-      console.log(`Activating sale (ID: ${sale.id})`);
-    },
-    afterTransition: async (sale: FlashSale) => {
-      // Could trigger notifications or other side effects
-      console.log(`Sale activated (ID: ${sale.id})`);
-    },
   },
   {
     from: 'active',
     to: 'completed',
     condition: (sale: FlashSale) => saleTimingService.shouldComplete(sale),
-    beforeTransition: async (sale: FlashSale) => {
-      console.log(`Completing sale (ID: ${sale.id})`);
-    },
-    afterTransition: async (sale: FlashSale) => {
-      // Could cleanup resources or finalize analytics
-      console.log(`Sale completed (ID: ${sale.id})`);
-    },
+  },
+  {
+    from: 'active',
+    to: 'paused',
+    condition: () => true, // Manual pause always allowed
+  },
+  {
+    from: 'paused',
+    to: 'active',
+    condition: () => true, // Manual resume always allowed
+  },
+  {
+    from: 'paused',
+    to: 'completed',
+    condition: (sale: FlashSale) => saleTimingService.shouldComplete(sale),
   },
   {
     from: 'upcoming',
@@ -58,9 +95,31 @@ const VALID_TRANSITIONS: StateTransition[] = [
     to: 'cancelled',
     condition: () => true, // Manual cancellation always allowed
   },
+  {
+    from: 'paused',
+    to: 'cancelled',
+    condition: () => true, // Manual cancellation always allowed
+  },
 ];
 
+const matchesStatus = (filter: SaleStatus | SaleStatus[] | undefined, status: SaleStatus) =>
+  filter === undefined || (Array.isArray(filter) ? filter.includes(status) : filter === status);
+
 class StateMachine {
+  private hooks: TransitionHookRegistration[] = [];
+
+  /**
+   * Subscribe to sale transitions. Hooks run in registration order; registering a name
+   * again replaces the earlier hook. Returns a function that unsubscribes it.
+   */
+  registerHook(registration: TransitionHookRegistration): () => void {
+    this.hooks = this.hooks.filter((h) => h.name !== registration.name);
+    this.hooks.push(registration);
+    return () => {
+      this.hooks = this.hooks.filter((h) => h !== registration);
+    };
+  }
+
   /**
    * Check if a state transition is valid
    */
@@ -96,7 +155,8 @@ class StateMachine {
   async transition(
     saleId: string,
     targetState: SaleStatus,
-    reason?: string
+    reason?: string,
+    triggeredBy: string = 'system'
   ): Promise<TransitionResult> {
     try {
       // Fetch the current sale
@@ -128,30 +188,65 @@ class StateMachine {
         };
       }
 
-      // Find the transition rule
-      const transition = VALID_TRANSITIONS.find(
-        (t) => t.from === currentState && t.to === targetState
-      );
+      const context: TransitionContext = {
+        from: currentState,
+        to: targetState,
+        triggeredBy,
+        reason,
+      };
 
-      // Execute before transition hook
-      if (transition?.beforeTransition) {
-        await transition.beforeTransition(sale);
+      // Before hooks can veto the transition by throwing
+      for (const registration of this.getHooks('before', context)) {
+        await registration.hook(sale, context);
       }
 
-      // Perform the state transition in database
+      // Perform the state transition in database, unless another change got there first,
+      // recording it in the status history in the same statement
       const updateQuery = `
-        UPDATE flash_sales 
-        SET status = $1, updated_at = CURRENT_TIMESTAMP
-        WHERE id = $2
-        RETURNING *
+        WITH updated AS (
+          UPDATE flash_sales
+          SET status = $1, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $2 AND status = $3
+          RETURNING *
+        ), history AS (
+          INSERT INTO flash_sale_status_history
+            (flash_sale_id, from_status, to_status, triggered_by, reason)
+          SELECT id, $3, $1, $4, $5 FROM updated
+        )
+        SELECT * FROM updated
       `;
 
-      const result = await pool.query<FlashSale>(updateQuery, [targetState, saleId]);
+      const result = await pool.query<FlashSale>(updateQuery, [
+        targetState,
+        saleId,
+        currentState,
+        triggeredBy,
+        reason || null,
+      ]);
       const updatedSale = result.rows[0];
 
-      // Execute after transition hook
-      if (transition?.afterTransition) {
-        await transition.afterTransition(updatedSale);
+      if (!updatedSale) {
+        return {
+          success: false,
+          previousState: currentState,
+          newState: currentState,
+          message: `Sale is no longer ${currentState}`,
+          error: 'Concurrent state transition',
+        };
+      }
+
+      // The status has changed whatever happens here, so a failing hook is only logged
+      for (const registration of this.getHooks('after', context)) {
+        try {
+          await registration.hook(updatedSale, context);
+        } catch (error) {
+          logger.error('Transition hook failed', {
+            saleId,
+            hook: registration.name,
+            targetState,
+            error: (error as Error).message,
+          });
+        }
       }
 
       return {
@@ -159,6 +254,7 @@ class StateMachine {
         previousState: currentState,
         newState: targetState,
         message: reason || `Successfully transitioned from ${currentState} to ${targetState}`,
+        sale: updatedSale,
       };
     } catch (error) {
       console.error('State transition error:', error);
@@ -172,20 +268,46 @@ class StateMachine {
     }
   }
 
+  /**
+   * Get the recorded status changes of a sale, oldest first
+   */
+  async getStatusHistory(saleId: string): Promise<SaleStatusChange[]> {
+    const result = await pool.query<SaleStatusChange>(
+      `SELECT * FROM flash_sale_status_history
+       WHERE flash_sale_id = $1
+       ORDER BY created_at ASC`,
+      [saleId]
+    );
+    return result.rows;
+  }
+
   /**
    * Apply automatic transitions based on timing conditions
    */
-  async applyAutomaticTransitions(sale: FlashSale): Promise<TransitionResult | null> {
+  async applyAutomaticTransitions(
+    sale: FlashSale,
+    triggeredBy: string = 'system'
+  ): Promise<TransitionResult | null> {
     const currentState = sale.status;
 
     // Check if sale should be activated
     if (currentState === 'upcoming' && saleTimingService.shouldActivate(sale)) {
-      return await this.transition(sale.id, 'active', 'Automatic activation based on start time');
+      return await this.transition(
+        sale.id,
+        'active',
+        'Automatic activation based on start time',
+        triggeredBy
+      );
     }
 
-    // Check if sale should be completed
-    if (currentState === 'active' && saleTimingService.shouldComplete(sale)) {
-      return await this.transition(sale.id, 'completed', 'Automatic completion based on end time');
+    // Check if sale should be completed, including a paused sale past its end
+    if (saleTimingService.shouldComplete(sale)) {
+      return await this.transition(
+        sale.id,
+        'completed',
+        'Automatic completion based on end time',
+        triggeredBy
+      );
     }
 
     return null;
@@ -194,11 +316,16 @@ class StateMachine {
   /**
    * Batch process state transitions for multiple sales
    */
-  async batchTransition(sales: FlashSale[]): Promise<{
+  async batchTransition(
+    sales: FlashSale[],
+    triggeredBy: string = 'system'
+  ): Promise<{
     successful: TransitionResult[];
     failed: TransitionResult[];
   }> {
-    const results = await Promise.all(sales.map((sale) => this.applyAutomaticTransitions(sale)));
+    const results = await Promise.all(
+      sales.map((sale) => this.applyAutomaticTransitions(sale, triggeredBy))
+    );
 
     const successful: TransitionResult[] = [];
     const failed: TransitionResult[] = [];
@@ -216,6 +343,16 @@ class StateMachine {
     return { successful, failed };
   }
 
+  private getHooks(
+    phase: TransitionHookRegistration['phase'],
+    context: TransitionContext
+  ): TransitionHookRegistration[] {
+    return this.hooks.filter(
+      (h) =>
+        h.phase === phase && matchesStatus(h.from, context.from) && matchesStatus(h.to, context.to)
+    );
+  }
+
   /**
    * Get the state machine diagram as a string
    */
@@ -224,15 +361,21 @@ class StateMachine {
 Flash Sale State Machine:
 
   upcoming ──────────> active ──────────> completed
-      │                   │
+      │                 │    ▲                ▲
+      │                 ▼    │                │
+      │                 paused ───────────────┘
       │                   │
       └───────────────────┴──────────> cancelled
 
 Valid Transitions:
   - upcoming → active (when start_time is reached)
   - active → completed (when end_time is reached)
+  - active → paused (manual pause)
+  - paused → active (manual resume)
+  - paused → completed (when end_time is reached, unless the end extends on resume)
   - upcoming → cancelled (manual cancellation)
   - active → cancelled (manual cancellation)
+  - paused → cancelled (manual cancellation)
     `;
   }
 
@@ -246,7 +389,7 @@ Valid Transitions:
     try {
       const query = `
         SELECT * FROM flash_sales 
-        WHERE status IN ('upcoming', 'active')
+        WHERE status IN ('upcoming', 'active', 'paused')
         ORDER BY start_time ASC
       `;
 
@@ -257,8 +400,7 @@ Valid Transitions:
 
       for (const sale of sales) {
         const shouldBeActive = sale.status === 'upcoming' && saleTimingService.shouldActivate(sale);
-        const shouldBeCompleted =
-          sale.status === 'active' && saleTimingService.shouldComplete(sale);
+        const shouldBeCompleted = saleTimingService.shouldComplete(sale);
 
         if (shouldBeActive || shouldBeCompleted) {
           needsUpdate.push(sale);
@@ -282,4 +424,12 @@ Valid Transitions:
 // Export singleton instance
 export const stateMachine = new StateMachine();
 export { StateMachine };
-export type { StateTransition, TransitionResult };
+export type {
+  SaleStatus,
+  SaleStatusChange,
+  StateTransition,
+  TransitionContext,
+  TransitionHook,
+  TransitionHookRegistration,
+  TransitionResult,
+};
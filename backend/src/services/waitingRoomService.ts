@@ -0,0 +1,161 @@
+import pool from '../utils/database';
+import redisClient from '../utils/redis';
+import { buildWaitingRoomKey, WAITING_ROOM_SALES_KEY } from '../config/redisKeys';
+import { eventBroadcaster } from './eventBroadcaster';
+import { queueEngine } from './queueEngine';
+
+export interface WaitingRoomState {
+  saleId: string;
+  startTime: Date;
+  // Clients count down against this rather than their own clock
+  serverTime: Date;
+  secondsRemaining: number;
+  waitingCount: number;
+}
+
+export const WAITING_ROOM_CLOSED = 'Waiting room is closed';
+
+/**
+ * Holds users who arrive before a sale starts. Nobody gets a queue place by arriving
+ * early: when the sale activates the whole room is queued at once in random order.
+ */
+class WaitingRoomService {
+  /**
+   * Whether the sale has yet to start, so arrivals belong in the waiting room
+   */
+  async isOpen(saleId: string): Promise<boolean> {
+    const result = await pool.query('SELECT status FROM flash_sales WHERE id = $1', [saleId]);
+    return result.rows[0]?.status === 'upcoming';
+  }
+
+  /**
+   * Enter a sale's waiting room; the queue admission pass is later bound to deviceId
+   */
+  async enter(userId: string, saleId: string, deviceId?: string): Promise<WaitingRoomState> {
+    try {
+      if (!(await this.isOpen(saleId))) {
+        throw new Error(WAITING_ROOM_CLOSED);
+      }
+
+      await redisClient.hset(buildWaitingRoomKey(saleId), userId, deviceId || '');
+      await redisClient.sadd(WAITING_ROOM_SALES_KEY, saleId);
+
+      return (await this.getState(saleId)) as WaitingRoomState;
+    } catch (error) {
+      console.error('Error entering waiting room:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Leave a sale's waiting room
+   */
+  async leave(userId: string, saleId: string): Promise<boolean> {
+    const removed = await redisClient.hdel(buildWaitingRoomKey(saleId), userId);
+    return removed > 0;
+  }
+
+  /**
+   * Check if a user is in a sale's waiting room
+   */
+  async isWaiting(userId: string, saleId: string): Promise<boolean> {
+    return (await redisClient.hexists(buildWaitingRoomKey(saleId), userId)) === 1;
+  }
+
+  /**
+   * Get the countdown to a sale's start as seen by the server, or null for unknown sales
+   */
+  async getState(saleId: string): Promise<WaitingRoomState | null> {
+    const [result, waitingCount] = await Promise.all([
+      pool.query('SELECT start_time FROM flash_sales WHERE id = $1', [saleId]),
+      redisClient.hlen(buildWaitingRoomKey(saleId)),
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const startTime = new Date(result.rows[0].start_time);
+    const serverTime = new Date();
+
+    return {
+      saleId,
+      startTime,
+      serverTime,
+      secondsRemaining: Math.max(0, Math.ceil((startTime.getTime() - serverTime.getTime()) / 1000)),
+      waitingCount,
+    };
+  }
+
+  /**
+   * Queue everyone in a sale's waiting room in random order and close the room
+   * (run when the sale activates); returns how many were queued
+   */
+  async release(saleId: string): Promise<number> {
+    try {
+      const key = buildWaitingRoomKey(saleId);
+      const results = await redisClient
+        .multi()
+        .hgetall(key)
+        .del(key)
+        .srem(WAITING_ROOM_SALES_KEY, saleId)
+        .exec();
+
+      const room = (results?.[0]?.[1] as Record<string, string> | null) || {};
+      const arrivals = Object.entries(room).map(([userId, deviceId]) => ({
+        userId,
+        deviceId: deviceId || undefined,
+      }));
+
+      const queued = arrivals.length > 0 ? await queueEngine.enqueueShuffled(saleId, arrivals) : [];
+
+      eventBroadcaster.waitingRoomReleased(saleId, queued.length);
+
+      if (queued.length < arrivals.length) {
+        console.warn(
+          `Waiting room for sale ${saleId}: queued ${queued.length} of ${arrivals.length} users`
+        );
+      }
+
+      return queued.length;
+    } catch (error) {
+      console.error('Error releasing waiting room:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a sale's waiting room without queueing anyone (the sale will not start)
+   */
+  async close(saleId: string): Promise<void> {
+    await redisClient.del(buildWaitingRoomKey(saleId));
+    await redisClient.srem(WAITING_ROOM_SALES_KEY, saleId);
+  }
+
+  /**
+   * Send every open waiting room its server-time countdown (background job)
+   */
+  async broadcastCountdowns(): Promise<number> {
+    const saleIds = await redisClient.smembers(WAITING_ROOM_SALES_KEY);
+
+    for (const saleId of saleIds) {
+      const state = await this.getState(saleId);
+      if (!state) {
+        await redisClient.srem(WAITING_ROOM_SALES_KEY, saleId);
+        continue;
+      }
+
+      eventBroadcaster.waitingRoomState({
+        ...state,
+        startTime: state.startTime.toISOString(),
+        serverTime: state.serverTime.toISOString(),
+      });
+    }
+
+    return saleIds.length;
+  }
+}
+
+// Export singleton instance
+export const waitingRoomService = new WaitingRoomService();
+export default waitingRoomService;
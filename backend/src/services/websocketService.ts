@@ -16,6 +16,11 @@
 import { Server as HttpServer } from 'http';
 import { Server, Socket, Namespace } from 'socket.io';
 import { metricsService } from './metricsService';
+import {
+  queuePresenceService,
+  QUEUE_HEARTBEAT_INTERVAL_SECONDS,
+  QUEUE_PRESENCE_GRACE_SECONDS,
+} from './queuePresenceService';
 import { logger } from '../utils/logger';
 
 const wsLogger = logger.child('websocket');
@@ -43,7 +48,7 @@ export interface ConnectedClient {
 
 export interface RoomInfo {
   name: string;
-  type: 'sale' | 'user' | 'admin' | 'general';
+  type: 'sale' | 'waiting' | 'user' | 'admin' | 'general';
   clientCount: number;
   createdAt: Date;
 }
@@ -56,6 +61,7 @@ export const WS_EVENTS = {
   SALE_ENDED: 'sale:ended',
   SALE_UPDATED: 'sale:updated',
   SALE_COUNTDOWN: 'sale:countdown',
+  SALE_DRAW_PUBLISHED: 'sale:drawPublished',
 
   // Inventory events
   INVENTORY_UPDATED: 'inventory:updated',
@@ -67,6 +73,15 @@ export const WS_EVENTS = {
   QUEUE_JOINED: 'queue:joined',
   QUEUE_LEFT: 'queue:left',
   QUEUE_YOUR_TURN: 'queue:yourTurn',
+  QUEUE_DRAW_WON: 'queue:drawWon',
+  QUEUE_DRAW_LOST: 'queue:drawLost',
+  QUEUE_HEARTBEAT_ACK: 'queue:heartbeatAck',
+  QUEUE_ADMISSION_RELEASED: 'queue:admissionReleased',
+
+  // Waiting room events
+  WAITING_ROOM_STATE: 'waitingRoom:state',
+  WAITING_ROOM_RELEASED: 'waitingRoom:released',
+  TIME_SYNC_ACK: 'time:syncAck',
 
   // Order events
   ORDER_CREATED: 'order:created',
@@ -81,6 +96,7 @@ export const WS_EVENTS = {
   ADMIN_BROADCAST: 'admin:broadcast',
   ADMIN_ALERT: 'admin:alert',
   SYSTEM_STATUS: 'system:status',
+  ADMISSION_DECISION: 'admin:admissionDecision',
 
   // Connection events
   CLIENT_CONNECTED: 'client:connected',
@@ -91,8 +107,12 @@ export const WS_EVENTS = {
   // Client → Server
   JOIN_SALE_ROOM: 'join:sale',
   LEAVE_SALE_ROOM: 'leave:sale',
+  JOIN_WAITING_ROOM: 'join:waitingRoom',
+  LEAVE_WAITING_ROOM: 'leave:waitingRoom',
+  TIME_SYNC: 'time:sync',
   SUBSCRIBE_QUEUE: 'subscribe:queue',
   UNSUBSCRIBE_QUEUE: 'unsubscribe:queue',
+  QUEUE_HEARTBEAT: 'queue:heartbeat',
 } as const;
 
 // ─── Default Config ─────────────────────────────────────────
@@ -178,6 +198,23 @@ class WebSocketService {
         this.leaveSaleRoom(socket, saleId);
       });
 
+      // Waiting room before a sale starts
+      socket.on(WS_EVENTS.JOIN_WAITING_ROOM, (saleId: string) => {
+        this.joinWaitingRoom(socket, saleId);
+      });
+
+      socket.on(WS_EVENTS.LEAVE_WAITING_ROOM, (saleId: string) => {
+        this.leaveWaitingRoom(socket, saleId);
+      });
+
+      // Clock sync: the client estimates its offset from the server from the round trip
+      socket.on(WS_EVENTS.TIME_SYNC, (data: { clientTime?: number } = {}) => {
+        socket.emit(WS_EVENTS.TIME_SYNC_ACK, {
+          clientTime: data.clientTime,
+          serverTime: Date.now(),
+        });
+      });
+
       // Heartbeat
       socket.on(WS_EVENTS.HEARTBEAT, () => {
         socket.emit(WS_EVENTS.HEARTBEAT_ACK, { timestamp: Date.now() });
@@ -206,24 +243,61 @@ class WebSocketService {
 
     this.queueNs.on('connection', (socket: Socket) => {
       wsLogger.debug('Client connected to /queue', { socketId: socket.id });
+      // Sales this socket keeps its user present in
+      const queueSales = new Set<string>();
 
       socket.on(WS_EVENTS.SUBSCRIBE_QUEUE, (data: { saleId: string; userId?: string }) => {
         const room = `queue:${data.saleId}`;
         socket.join(room);
         this.trackRoom(room, 'sale');
         wsLogger.debug('Client subscribed to queue', { socketId: socket.id, saleId: data.saleId });
+
+        socket.data.queueUserId = socket.handshake.auth?.userId || data.userId;
+        queueSales.add(data.saleId);
+        this.touchQueuePresence(socket, [data.saleId]);
       });
 
       socket.on(WS_EVENTS.UNSUBSCRIBE_QUEUE, (data: { saleId: string }) => {
         socket.leave(`queue:${data.saleId}`);
+        queueSales.delete(data.saleId);
+      });
+
+      // Presence: the user keeps their place while heartbeats arrive
+      socket.on(WS_EVENTS.QUEUE_HEARTBEAT, () => {
+        this.touchQueuePresence(socket, [...queueSales]);
       });
 
       socket.on('disconnect', () => {
-        wsLogger.debug('Client disconnected from /queue', { socketId: socket.id });
+        // Places are held for the grace period so the client can reconnect
+        wsLogger.debug('Client disconnected from /queue', {
+          socketId: socket.id,
+          heldSales: queueSales.size,
+        });
       });
     });
   }
 
+  private touchQueuePresence(socket: Socket, saleIds: string[]): void {
+    const userId: string | undefined = socket.data.queueUserId;
+    if (!userId || saleIds.length === 0) return;
+
+    Promise.all(saleIds.map((saleId) => queuePresenceService.touch(saleId, [userId])))
+      .then(() => {
+        socket.emit(WS_EVENTS.QUEUE_HEARTBEAT_ACK, {
+          saleIds,
+          graceSeconds: QUEUE_PRESENCE_GRACE_SECONDS,
+          heartbeatIntervalSeconds: QUEUE_HEARTBEAT_INTERVAL_SECONDS,
+          timestamp: Date.now(),
+        });
+      })
+      .catch((error: Error) => {
+        wsLogger.error('Failed to record queue presence', {
+          socketId: socket.id,
+          error: error.message,
+        });
+      });
+  }
+
   // ── Notifications Namespace ──────────────────────────────
 
   private setupNotificationsNamespace(): void {
@@ -394,6 +468,28 @@ class WebSocketService {
     wsLogger.debug('Client left sale room', { socketId: socket.id, saleId });
   }
 
+  private joinWaitingRoom(socket: Socket, saleId: string): void {
+    const room = `waiting:${saleId}`;
+    socket.join(room);
+    this.trackRoom(room, 'waiting');
+
+    const client = this.clients.get(socket.id);
+    if (client) client.rooms.add(room);
+
+    wsLogger.debug('Client joined waiting room', { socketId: socket.id, saleId });
+    socket.emit('room:joined', { room, saleId, serverTime: Date.now() });
+  }
+
+  private leaveWaitingRoom(socket: Socket, saleId: string): void {
+    const room = `waiting:${saleId}`;
+    socket.leave(room);
+
+    const client = this.clients.get(socket.id);
+    if (client) client.rooms.delete(room);
+
+    wsLogger.debug('Client left waiting room', { socketId: socket.id, saleId });
+  }
+
   private trackRoom(name: string, type: RoomInfo['type']): void {
     if (!this.rooms.has(name)) {
       this.rooms.set(name, {
@@ -436,6 +532,11 @@ class WebSocketService {
     this.io?.to(`sale:${saleId}`).emit(event, { ...data, saleId, timestamp: Date.now() });
   }
 
+  /** Broadcast to everyone waiting for a sale to start */
+  broadcastToWaitingRoom(saleId: string, event: string, data: object): void {
+    this.io?.to(`waiting:${saleId}`).emit(event, { ...data, saleId, timestamp: Date.now() });
+  }
+
   /** Send to a specific user */
   sendToUser(userId: string, event: string, data: any): void {
     this.io?.to(`user:${userId}`).emit(event, { ...data, timestamp: Date.now() });
@@ -4,6 +4,9 @@ import jwt from 'jsonwebtoken';
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-key-change-in-production';
 const JWT_EXPIRY = '24h';
 
+// Audience of queue admission passes, which must never pass for a bearer token
+export const ADMISSION_PASS_AUDIENCE = 'admission-pass';
+
 export interface TokenPayload {
   id: string;
   userId: string;
@@ -16,7 +19,10 @@ export function generateToken(payload: TokenPayload): string {
 
 export function verifyToken(token: string): TokenPayload | null {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
+    const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload & { aud?: string | string[] };
+    if ([decoded.aud].flat().includes(ADMISSION_PASS_AUDIENCE)) {
+      return null;
+    }
     // Ensure id is always set from userId for convenience
     decoded.id = decoded.id || decoded.userId;
     return decoded;
@@ -1,4 +1,5 @@
 import { query } from '../utils/database';
+import { logger } from '../utils/logger';
 
 // Migration: Create Users table
 export async function migration001_CreateUsersTable() {
@@ -157,38 +158,509 @@ export async function migration008_CreateInventorySyncLogTable() {
   return query(sql);
 }
 
+// Migration: Add per-customer purchase limits to Flash Sales
+export async function migration009_AddFlashSalePurchaseLimits() {
+  const sql = `
+    ALTER TABLE flash_sales
+      ADD COLUMN IF NOT EXISTS max_per_user INT CHECK (max_per_user IS NULL OR max_per_user > 0),
+      ADD COLUMN IF NOT EXISTS max_per_user_overrides JSONB NOT NULL DEFAULT '{}'::jsonb;
+  `;
+
+  return query(sql);
+}
+
+// Migration: Create Flash Sale Items table (multi-SKU sales)
+export async function migration010_CreateFlashSaleItemsTable() {
+  const sql = `
+    CREATE TABLE IF NOT EXISTS flash_sale_items (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      flash_sale_id UUID NOT NULL REFERENCES flash_sales(id) ON DELETE CASCADE,
+      product_id UUID NOT NULL REFERENCES products(id),
+      variant_sku VARCHAR(100),
+      variant_attributes JSONB NOT NULL DEFAULT '{}'::jsonb,
+      flash_price DECIMAL(10, 2) NOT NULL,
+      quantity_available INT NOT NULL CHECK (quantity_available >= 0),
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_flash_sale_items_sale ON flash_sale_items(flash_sale_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_flash_sale_items_variant
+      ON flash_sale_items(flash_sale_id, product_id, COALESCE(variant_sku, ''));
+
+    ALTER TABLE orders
+      ADD COLUMN IF NOT EXISTS flash_sale_item_id UUID REFERENCES flash_sale_items(id);
+  `;
+
+  return query(sql);
+}
+
+// Migration: Create Scheduled Tasks table (durable delayed jobs)
+export async function migration011_CreateScheduledTasksTable() {
+  const sql = `
+    CREATE TABLE IF NOT EXISTS scheduled_tasks (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      task_type VARCHAR(50) NOT NULL,
+      task_key VARCHAR(255) NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+      run_at TIMESTAMP NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      attempts INT NOT NULL DEFAULT 0,
+      max_attempts INT NOT NULL DEFAULT 3,
+      locked_by VARCHAR(255),
+      locked_at TIMESTAMP,
+      last_error TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      completed_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_scheduled_tasks_due ON scheduled_tasks(status, run_at);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_tasks_open_key
+      ON scheduled_tasks(task_type, task_key) WHERE status IN ('pending', 'running');
+  `;
+
+  return query(sql);
+}
+
+// Migration: Create Background Job Runs table (job history across replicas)
+export async function migration012_CreateBackgroundJobRunsTable() {
+  const sql = `
+    CREATE TABLE IF NOT EXISTS background_job_runs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      job_name VARCHAR(100) NOT NULL,
+      instance_id VARCHAR(255) NOT NULL,
+      fencing_token BIGINT,
+      success BOOLEAN NOT NULL,
+      message TEXT,
+      error TEXT,
+      items_processed INT,
+      duration_ms INT NOT NULL,
+      started_at TIMESTAMP NOT NULL,
+      finished_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_background_job_runs_job ON background_job_runs(job_name, started_at DESC);
+  `;
+
+  return query(sql);
+}
+
+// Migration: Create inventory adjustment and reconciliation tables
+export async function migration013_CreateInventoryReconciliationTables() {
+  const sql = `
+    CREATE TABLE IF NOT EXISTS inventory_adjustments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      flash_sale_id UUID NOT NULL REFERENCES flash_sales(id) ON DELETE CASCADE,
+      flash_sale_item_id UUID REFERENCES flash_sale_items(id) ON DELETE CASCADE,
+      delta INT NOT NULL,
+      source VARCHAR(50) NOT NULL,
+      reason TEXT,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_inventory_adjustments_sale ON inventory_adjustments(flash_sale_id);
+
+    CREATE TABLE IF NOT EXISTS inventory_reconciliations (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      flash_sale_id UUID NOT NULL REFERENCES flash_sales(id) ON DELETE CASCADE,
+      flash_sale_item_id UUID REFERENCES flash_sale_items(id) ON DELETE CASCADE,
+      expected_unsold INT NOT NULL,
+      db_unsold INT NOT NULL,
+      redis_available INT,
+      held INT NOT NULL DEFAULT 0,
+      sold INT NOT NULL DEFAULT 0,
+      adjusted INT NOT NULL DEFAULT 0,
+      db_drift INT NOT NULL,
+      redis_drift INT,
+      classification VARCHAR(50) NOT NULL,
+      persistent BOOLEAN NOT NULL DEFAULT false,
+      corrected BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_inventory_reconciliations_sale
+      ON inventory_reconciliations(flash_sale_id, created_at DESC);
+
+    -- Existing stock becomes the opening adjustment, so expected stock can be recomputed
+    INSERT INTO inventory_adjustments (flash_sale_id, delta, source, reason)
+    SELECT fs.id,
+           fs.quantity_available + COALESCE((
+             SELECT SUM(o.quantity) FROM orders o
+             WHERE o.flash_sale_id = fs.id AND o.status IN ('completed', 'refunded')
+           ), 0),
+           'initial',
+           'Opening stock backfilled from current quantity'
+    FROM flash_sales fs
+    WHERE NOT EXISTS (SELECT 1 FROM flash_sale_items i WHERE i.flash_sale_id = fs.id)
+      AND NOT EXISTS (SELECT 1 FROM inventory_adjustments a WHERE a.flash_sale_id = fs.id);
+
+    INSERT INTO inventory_adjustments (flash_sale_id, flash_sale_item_id, delta, source, reason)
+    SELECT i.flash_sale_id,
+           i.id,
+           i.quantity_available + COALESCE((
+             SELECT SUM(o.quantity) FROM orders o
+             WHERE o.flash_sale_item_id = i.id AND o.status IN ('completed', 'refunded')
+           ), 0),
+           'initial',
+           'Opening stock backfilled from current quantity'
+    FROM flash_sale_items i
+    WHERE NOT EXISTS (SELECT 1 FROM inventory_adjustments a WHERE a.flash_sale_item_id = i.id);
+  `;
+
+  return query(sql);
+}
+
+// Migration: Create Inventory Movements table (append-only stock ledger)
+export async function migration014_CreateInventoryMovementsTable() {
+  const sql = `
+    -- No foreign key to flash_sales: the history outlives a deleted sale
+    CREATE TABLE IF NOT EXISTS inventory_movements (
+      id BIGSERIAL PRIMARY KEY,
+      flash_sale_id UUID NOT NULL,
+      flash_sale_item_id UUID,
+      movement_type VARCHAR(30) NOT NULL,
+      quantity INT NOT NULL CHECK (quantity >= 0),
+      available_delta INT,
+      available_after INT,
+      holder_id VARCHAR(255),
+      order_id UUID,
+      reason TEXT,
+      metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_inventory_movements_sale ON inventory_movements(flash_sale_id, id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_movements_holder ON inventory_movements(holder_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_movements_order ON inventory_movements(order_id);
+
+    CREATE OR REPLACE FUNCTION reject_inventory_movement_change() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'inventory_movements is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS inventory_movements_append_only ON inventory_movements;
+    CREATE TRIGGER inventory_movements_append_only
+      BEFORE UPDATE OR DELETE ON inventory_movements
+      FOR EACH ROW EXECUTE FUNCTION reject_inventory_movement_change();
+  `;
+
+  return query(sql);
+}
+
+// Migration: Add restock policies and the record of stock returned by refunds
+export async function migration015_AddRestockPolicies() {
+  const sql = `
+    ALTER TABLE flash_sales
+      ADD COLUMN IF NOT EXISTS restock_policy VARCHAR(30) NOT NULL DEFAULT 'restock_while_active'
+        CHECK (restock_policy IN ('restock_while_active', 'never', 'waitlist'));
+
+    -- One row per refunded order; the unique order ID keeps a refund reported by several
+    -- paths (API, admin, payment webhook) from returning its units twice
+    CREATE TABLE IF NOT EXISTS inventory_restocks (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      order_id UUID NOT NULL UNIQUE,
+      flash_sale_id UUID NOT NULL REFERENCES flash_sales(id) ON DELETE CASCADE,
+      flash_sale_item_id UUID REFERENCES flash_sale_items(id) ON DELETE CASCADE,
+      quantity INT NOT NULL CHECK (quantity > 0),
+      policy VARCHAR(30) NOT NULL,
+      outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('restocked', 'waitlisted', 'discarded')),
+      reason TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      released_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_inventory_restocks_sale ON inventory_restocks(flash_sale_id, outcome);
+  `;
+
+  return query(sql);
+}
+
+// Migration: Add inventory policies (safety buffer, backorders) and backordered order units
+export async function migration016_AddInventoryPolicies() {
+  const sql = `
+    ALTER TABLE flash_sales
+      ADD COLUMN IF NOT EXISTS inventory_policy VARCHAR(20) NOT NULL DEFAULT 'strict'
+        CHECK (inventory_policy IN ('strict', 'buffered', 'backorder')),
+      ADD COLUMN IF NOT EXISTS inventory_buffer INT NOT NULL DEFAULT 0 CHECK (inventory_buffer >= 0),
+      ADD COLUMN IF NOT EXISTS backorder_percent INT NOT NULL DEFAULT 0
+        CHECK (backorder_percent BETWEEN 0 AND 100);
+
+    -- Backorders take the unsold quantity below zero
+    ALTER TABLE flash_sale_items DROP CONSTRAINT IF EXISTS flash_sale_items_quantity_available_check;
+
+    ALTER TABLE orders
+      ADD COLUMN IF NOT EXISTS backordered_quantity INT NOT NULL DEFAULT 0
+        CHECK (backordered_quantity >= 0);
+  `;
+
+  return query(sql);
+}
+
+// Migration: Queue ordering per sale; queue entries mirror the Redis queue score
+export async function migration017_AddQueueOrdering() {
+  const sql = `
+    ALTER TABLE flash_sales
+      ADD COLUMN IF NOT EXISTS queue_ordering VARCHAR(20) NOT NULL DEFAULT 'fifo'
+        CHECK (queue_ordering IN ('fifo', 'priority', 'lottery'));
+
+    ALTER TABLE queue_entries
+      ADD COLUMN IF NOT EXISTS score DOUBLE PRECISION,
+      ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+    CREATE INDEX IF NOT EXISTS idx_queue_sale_status ON queue_entries(flash_sale_id, status);
+  `;
+
+  return query(sql);
+}
+
+// Migration: Draw sales (registration window, then a seeded weighted draw) and their audit record
+export async function migration018_AddSaleDraws() {
+  const sql = `
+    ALTER TABLE flash_sales DROP CONSTRAINT IF EXISTS flash_sales_queue_ordering_check;
+    ALTER TABLE flash_sales
+      ADD CONSTRAINT flash_sales_queue_ordering_check
+        CHECK (queue_ordering IN ('fifo', 'priority', 'lottery', 'draw')),
+      ADD COLUMN IF NOT EXISTS draw_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS draw_winner_count INT CHECK (draw_winner_count > 0);
+
+    -- The seed is committed (seed_hash published) when registration opens and revealed
+    -- with the entry list hash once drawn, so anyone can recompute the winners
+    CREATE TABLE IF NOT EXISTS sale_draws (
+      flash_sale_id UUID PRIMARY KEY REFERENCES flash_sales(id) ON DELETE CASCADE,
+      seed CHAR(64) NOT NULL,
+      seed_hash CHAR(64) NOT NULL,
+      committed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      entries JSONB,
+      entries_hash CHAR(64),
+      winners JSONB,
+      drawn_at TIMESTAMP
+    );
+  `;
+
+  return query(sql);
+}
+
+// Migration: Per-sale policy for queued users changing device or session
+export async function migration019_AddDeviceBindingPolicy() {
+  const sql = `
+    ALTER TABLE flash_sales
+      ADD COLUMN IF NOT EXISTS device_binding_policy VARCHAR(10) NOT NULL DEFAULT 'reverify'
+        CHECK (device_binding_policy IN ('reject', 'reverify', 'allow'));
+  `;
+
+  return query(sql);
+}
+
+// Migration: Queue event log and point-in-time snapshots of each sale queue
+export async function migration020_AddQueueSnapshots() {
+  const sql = `
+    -- Every change to a sale queue, in order, for replaying a sale after the fact
+    CREATE TABLE IF NOT EXISTS queue_events (
+      id BIGSERIAL PRIMARY KEY,
+      flash_sale_id UUID NOT NULL REFERENCES flash_sales(id) ON DELETE CASCADE,
+      event_type VARCHAR(20) NOT NULL,
+      data JSONB NOT NULL DEFAULT '{}',
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_queue_events_sale ON queue_events(flash_sale_id, id);
+
+    -- The Redis state of a sale queue; last_event_id is the last event known to be included
+    CREATE TABLE IF NOT EXISTS queue_snapshots (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      flash_sale_id UUID NOT NULL REFERENCES flash_sales(id) ON DELETE CASCADE,
+      state JSONB NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      waiting_count INT NOT NULL,
+      admitted_count INT NOT NULL,
+      last_event_id BIGINT NOT NULL DEFAULT 0,
+      taken_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_queue_snapshots_sale ON queue_snapshots(flash_sale_id, taken_at DESC);
+  `;
+
+  return query(sql);
+}
+
+// Migration: When a sale was paused, and whether resuming it extends its end time
+export async function migration021_AddSalePause() {
+  const sql = `
+    ALTER TABLE flash_sales
+      ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS extend_end_on_resume BOOLEAN NOT NULL DEFAULT FALSE;
+  `;
+
+  return query(sql);
+}
+
+// Migration: Every status change of a sale, with who or what triggered it and why
+export async function migration022_AddSaleStatusHistory() {
+  const sql = `
+    CREATE TABLE IF NOT EXISTS flash_sale_status_history (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      flash_sale_id UUID NOT NULL REFERENCES flash_sales(id) ON DELETE CASCADE,
+      from_status VARCHAR(20) NOT NULL,
+      to_status VARCHAR(20) NOT NULL,
+      triggered_by VARCHAR(100) NOT NULL,
+      reason TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sale_status_history_sale
+      ON flash_sale_status_history(flash_sale_id, created_at);
+  `;
+
+  return query(sql);
+}
+
+// Migration: Sale templates, their recurrence rules, and dates on which no sale repeats
+export async function migration023_AddSaleTemplates() {
+  const sql = `
+    -- What a sale made from the template sells, for how long and how it queues
+    CREATE TABLE IF NOT EXISTS sale_templates (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      name VARCHAR(255) NOT NULL,
+      description TEXT,
+      duration_minutes INT NOT NULL,
+      settings JSONB NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    -- RRULE-style schedule; sales are created up to horizon_days ahead
+    CREATE TABLE IF NOT EXISTS sale_recurrences (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      template_id UUID NOT NULL REFERENCES sale_templates(id) ON DELETE CASCADE,
+      rule TEXT NOT NULL,
+      timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+      starts_at TIMESTAMP NOT NULL,
+      horizon_days INT NOT NULL DEFAULT 14,
+      skip_holidays BOOLEAN NOT NULL DEFAULT TRUE,
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      generated_until TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sale_recurrences_template ON sale_recurrences(template_id);
+
+    -- Holidays apply to recurrences that skip them; blackouts always apply, to every
+    -- recurrence or only the one named
+    CREATE TABLE IF NOT EXISTS sale_blackout_dates (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      date DATE NOT NULL,
+      kind VARCHAR(20) NOT NULL DEFAULT 'blackout',
+      name VARCHAR(255),
+      recurrence_id UUID REFERENCES sale_recurrences(id) ON DELETE CASCADE,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sale_blackout_dates_date ON sale_blackout_dates(date);
+
+    ALTER TABLE flash_sales
+      ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES sale_templates(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS recurrence_id UUID REFERENCES sale_recurrences(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS occurrence_at TIMESTAMP;
+
+    -- Each occurrence of a recurrence is materialized once
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_flash_sales_occurrence
+      ON flash_sales(recurrence_id, occurrence_at) WHERE recurrence_id IS NOT NULL;
+  `;
+
+  return query(sql);
+}
+
+// Migration: Stock released in waves: the wave schedule and how many waves are on sale
+export async function migration024_AddReleaseWaves() {
+  const sql = `
+    ALTER TABLE flash_sales
+      ADD COLUMN IF NOT EXISTS release_waves JSONB,
+      ADD COLUMN IF NOT EXISTS waves_released INT NOT NULL DEFAULT 0;
+  `;
+
+  return query(sql);
+}
+
 // Run all migrations
 export async function runAllMigrations() {
-  console.log('Starting database migrations...');
+  logger.info('Starting database migrations...');
 
   try {
     await migration001_CreateUsersTable();
-    console.log('✓ Migration 1: Users table created');
+    logger.info('✓ Migration 1: Users table created');
 
     await migration002_CreateProductsTable();
-    console.log('✓ Migration 2: Products table created');
+    logger.info('✓ Migration 2: Products table created');
 
     await migration003_CreateFlashSalesTable();
-    console.log('✓ Migration 3: Flash Sales table created');
+    logger.info('✓ Migration 3: Flash Sales table created');
 
     await migration004_CreateQueueEntriesTable();
-    console.log('✓ Migration 4: Queue Entries table created');
+    logger.info('✓ Migration 4: Queue Entries table created');
 
     await migration005_CreateOrdersTable();
-    console.log('✓ Migration 5: Orders table created');
+    logger.info('✓ Migration 5: Orders table created');
 
     await migration006_CreateOrderHistoryTable();
-    console.log('✓ Migration 6: Order History table created');
+    logger.info('✓ Migration 6: Order History table created');
 
     await migration007_CreateAnalyticsEventsTable();
-    console.log('✓ Migration 7: Analytics Events table created');
+    logger.info('✓ Migration 7: Analytics Events table created');
 
     await migration008_CreateInventorySyncLogTable();
-    console.log('✓ Migration 8: Inventory Sync Log table created');
+    logger.info('✓ Migration 8: Inventory Sync Log table created');
+
+    await migration009_AddFlashSalePurchaseLimits();
+    logger.info('✓ Migration 9: Flash Sale purchase limits added');
+
+    await migration010_CreateFlashSaleItemsTable();
+    logger.info('✓ Migration 10: Flash Sale Items table created');
+
+    await migration011_CreateScheduledTasksTable();
+    logger.info('✓ Migration 11: Scheduled Tasks table created');
+
+    await migration012_CreateBackgroundJobRunsTable();
+    logger.info('✓ Migration 12: Background Job Runs table created');
+
+    await migration013_CreateInventoryReconciliationTables();
+    logger.info('✓ Migration 13: Inventory reconciliation tables created');
+
+    await migration014_CreateInventoryMovementsTable();
+    logger.info('✓ Migration 14: Inventory Movements table created');
+
+    await migration015_AddRestockPolicies();
+    logger.info('✓ Migration 15: Restock policies added');
+
+    await migration016_AddInventoryPolicies();
+    logger.info('✓ Migration 16: Inventory policies added');
+
+    await migration017_AddQueueOrdering();
+    logger.info('✓ Migration 17: Queue ordering added');
+
+    await migration018_AddSaleDraws();
+    logger.info('✓ Migration 18: Sale draws added');
+
+    await migration019_AddDeviceBindingPolicy();
+    logger.info('✓ Migration 19: Device binding policy added');
+
+    await migration020_AddQueueSnapshots();
+    logger.info('✓ Migration 20: Queue events and snapshots tables created');
+
+    await migration021_AddSalePause();
+    logger.info('✓ Migration 21: Sale pause columns added');
+
+    await migration022_AddSaleStatusHistory();
+    logger.info('✓ Migration 22: Sale status history table created');
+
+    await migration023_AddSaleTemplates();
+    logger.info('✓ Migration 23: Sale templates and recurrences tables created');
+
+    await migration024_AddReleaseWaves();
+    logger.info('✓ Migration 24: Release wave columns added');
 
-    console.log('✓ All migrations completed successfully');
+    logger.info('✓ All migrations completed successfully');
   } catch (error) {
-    console.error('✗ Migration failed:', error);
+    logger.error('✗ Migration failed', { error: (error as Error).message });
     throw error;
   }
 }
@@ -0,0 +1,240 @@
+/**
+ * Recurrence rules for repeating sales
+ * A subset of iCalendar RRULE: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY,
+ * BYHOUR, BYMINUTE, COUNT and UNTIL, evaluated on the wall clock of an IANA time zone so
+ * "every Friday at 20:00" stays at 20:00 across daylight saving changes.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // Weekdays, 0 = Sunday
+  byDay?: number[];
+  byMonthDay?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+  count?: number;
+  until?: Date;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseNumbers = (value: string, name: string, min: number, max: number): number[] =>
+  value.split(',').map((part) => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n < min || n > max) {
+      throw new Error(`Invalid ${name} value: ${part}`);
+    }
+    return n;
+  });
+
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value: ${value}`);
+  }
+  const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match;
+  return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+};
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=FR;BYHOUR=20;BYMINUTE=0"
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of rule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') {
+      throw new Error(`Invalid recurrence rule part: ${part}`);
+    }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error('FREQ must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  const parsed: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        parsed.interval = parseNumbers(value, 'INTERVAL', 1, 366)[0];
+        break;
+      case 'BYDAY':
+        parsed.byDay = value.split(',').map((day) => {
+          const index = WEEKDAYS.indexOf(day);
+          if (index === -1) {
+            throw new Error(`Invalid BYDAY value: ${day}`);
+          }
+          return index;
+        });
+        break;
+      case 'BYMONTHDAY':
+        parsed.byMonthDay = parseNumbers(value, 'BYMONTHDAY', 1, 31);
+        break;
+      case 'BYHOUR':
+        parsed.byHour = parseNumbers(value, 'BYHOUR', 0, 23);
+        break;
+      case 'BYMINUTE':
+        parsed.byMinute = parseNumbers(value, 'BYMINUTE', 0, 59);
+        break;
+      case 'COUNT':
+        parsed.count = parseNumbers(value, 'COUNT', 1, 10000)[0];
+        break;
+      case 'UNTIL':
+        parsed.until = parseUntil(value);
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  if (parsed.count !== undefined && parsed.until !== undefined) {
+    throw new Error('COUNT and UNTIL cannot be combined');
+  }
+
+  return parsed;
+}
+
+/**
+ * Check that a time zone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall clock of an instant in a time zone, as a UTC timestamp with the same fields
+function toWallClock(date: Date, timeZone: string): number {
+  const fields: Record<string, number> = {};
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  for (const part of parts) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  return Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second
+  );
+}
+
+/**
+ * The instant at which a time zone's wall clock shows the given time
+ */
+export function zonedTimeToUtc(wallClock: number, timeZone: string): Date {
+  // The offset at the guess is usually right; the second pass corrects a DST boundary
+  let instant = wallClock - (toWallClock(new Date(wallClock), timeZone) - wallClock);
+  instant = wallClock - (toWallClock(new Date(instant), timeZone) - instant);
+  return new Date(instant);
+}
+
+/**
+ * The calendar date of an instant in a time zone, as YYYY-MM-DD
+ */
+export function zonedDateKey(date: Date, timeZone: string): string {
+  return new Date(toWallClock(date, timeZone)).toISOString().slice(0, 10);
+}
+
+/**
+ * Occurrences of a rule starting at dtstart, within [from, to), oldest first.
+ * dtstart is the first occurrence's instant; it also supplies the weekday, day of
+ * month and time of day wherever the rule does not set them.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  timeZone: string,
+  from: Date,
+  to: Date
+): Date[] {
+  const start = toWallClock(dtstart, timeZone);
+  const startDay = Math.floor(start / DAY_MS) * DAY_MS;
+  const startDate = new Date(startDay);
+  const hours = rule.byHour || [new Date(start).getUTCHours()];
+  const minutes = rule.byMinute || [new Date(start).getUTCMinutes()];
+  const times = hours
+    .flatMap((h) => minutes.map((m) => (h * 60 + m) * 60 * 1000))
+    .sort((a, b) => a - b);
+  const end = rule.until && rule.until < to ? new Date(rule.until.getTime() + 1) : to;
+
+  // Weeks are counted from the Monday on or before dtstart
+  const startWeek = startDay - ((startDate.getUTCDay() + 6) % 7) * DAY_MS;
+
+  const matchesDay = (day: number): boolean => {
+    const date = new Date(day);
+    switch (rule.freq) {
+      case 'DAILY':
+        return (
+          ((day - startDay) / DAY_MS) % rule.interval === 0 &&
+          (!rule.byDay || rule.byDay.includes(date.getUTCDay()))
+        );
+      case 'WEEKLY': {
+        const week = Math.floor((day - startWeek) / (7 * DAY_MS));
+        const byDay = rule.byDay || [startDate.getUTCDay()];
+        return week % rule.interval === 0 && byDay.includes(date.getUTCDay());
+      }
+      case 'MONTHLY': {
+        const months =
+          (date.getUTCFullYear() - startDate.getUTCFullYear()) * 12 +
+          date.getUTCMonth() -
+          startDate.getUTCMonth();
+        const byMonthDay = rule.byMonthDay || [startDate.getUTCDate()];
+        return months % rule.interval === 0 && byMonthDay.includes(date.getUTCDate());
+      }
+    }
+  };
+
+  const occurrences: Date[] = [];
+  let seen = 0;
+
+  // Walk the wall-clock calendar from dtstart so COUNT is measured from the first occurrence
+  for (let day = startDay; ; day += DAY_MS) {
+    if (zonedTimeToUtc(day, timeZone) >= end) {
+      break;
+    }
+    if (!matchesDay(day)) {
+      continue;
+    }
+
+    for (const time of times) {
+      const instant = zonedTimeToUtc(day + time, timeZone);
+      if (instant < dtstart) {
+        continue;
+      }
+      if (instant >= end || (rule.count !== undefined && seen >= rule.count)) {
+        return occurrences;
+      }
+      seen++;
+      if (instant >= from) {
+        occurrences.push(instant);
+      }
+    }
+  }
+
+  return occurrences;
+}
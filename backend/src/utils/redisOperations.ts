@@ -1,9 +1,22 @@
 import redis from './redis';
 import {
+  ADMISSION_PASS_SALES_KEY,
+  buildAdmissionPassExpiryKey,
+  buildAdmissionPassKey,
+  buildAdmissionPassScoreKey,
   buildInventoryKey,
+  buildLeaseFenceKey,
+  buildLeaseKey,
+  buildPurchaseCountsKey,
   buildQueueKey,
+  buildReclaimedKey,
+  buildReservationExpiryKey,
+  buildReservationHoldsKey,
   buildReservationKey,
   buildSessionKey,
+  parseStockId,
+  REDIS_KEY_PREFIX,
+  RESERVATION_EXPIRY_SALES_KEY,
   REDIS_LIMITS,
   REDIS_TTL_SECONDS,
 } from '../config/redisKeys';
@@ -64,6 +77,96 @@ export async function incrementInventory(
   }
 }
 
+export interface InventoryItemRequest {
+  // Sale ID, or the stock ID of one item of a multi-SKU sale
+  flashSaleId: string;
+  quantity: number;
+  // Per-customer cap on units bought from the sale; 0 or absent means unlimited
+  maxPerUser?: number;
+  // Units that must stay in the counter: a held-back buffer, or below zero for backorders
+  floor?: number;
+  // Every stock of the sale; the holder's open holds on them count against maxPerUser
+  saleStockIds?: string[];
+}
+
+export interface ReserveItemsResult {
+  status: 'reserved' | 'out_of_stock' | 'already_reserved' | 'limit_exceeded';
+  // Index into the requested items of the first one that failed
+  failedIndex?: number;
+  // Available count of each requested item after a successful reservation;
+  // below zero once backordered
+  available?: number[];
+}
+
+export interface ReclaimedHold {
+  holderId: string;
+  quantity: number;
+}
+
+// Function to reserve several sale items for one holder in a single atomic script
+export async function reserveInventoryItems(
+  holderId: string,
+  items: InventoryItemRequest[],
+  ttlSeconds: number = REDIS_TTL_SECONDS.reservation
+): Promise<ReserveItemsResult> {
+  if (items.length === 0 || items.some((item) => item.quantity < REDIS_LIMITS.minQuantity)) {
+    return { status: 'out_of_stock' };
+  }
+
+  const keys: string[] = [RESERVATION_EXPIRY_SALES_KEY];
+  const args: (string | number)[] = [holderId, ttlSeconds || REDIS_TTL_SECONDS.reservation];
+
+  for (const item of items) {
+    keys.push(
+      buildInventoryKey(item.flashSaleId),
+      buildReservationKey(holderId, item.flashSaleId),
+      buildReservationHoldsKey(item.flashSaleId),
+      buildReservationExpiryKey(item.flashSaleId),
+      // Purchase limits apply to the whole sale, not to a single item
+      buildPurchaseCountsKey(parseStockId(item.flashSaleId).flashSaleId)
+    );
+  }
+  // Then the holds on every stock of each limited item's sale
+  for (const item of items) {
+    const saleStockIds = item.maxPerUser ? item.saleStockIds || [item.flashSaleId] : [];
+    keys.push(...saleStockIds.map(buildReservationHoldsKey));
+    args.push(
+      item.flashSaleId,
+      item.quantity,
+      item.maxPerUser || 0,
+      item.floor || 0,
+      saleStockIds.length
+    );
+  }
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.reserveInventory;
+    const [code, index, ...available] = (
+      script.sha
+        ? await redis.evalsha(script.sha, keys.length, ...keys, ...args)
+        : await redis.eval(script.inline, keys.length, ...keys, ...args)
+    ) as number[];
+
+    if (Number(code) === 1) {
+      return { status: 'reserved', available: available.map(Number) };
+    }
+
+    const statuses: Record<number, ReserveItemsResult['status']> = {
+      [-1]: 'already_reserved',
+      [-2]: 'limit_exceeded',
+    };
+
+    return {
+      status: statuses[Number(code)] || 'out_of_stock',
+      failedIndex: Number(index) - 1,
+    };
+  } catch (error) {
+    console.error('Error reserving inventory:', error);
+    throw error;
+  }
+}
+
 // Function to reserve inventory
 export async function reserveInventory(
   flashSaleId: string,
@@ -75,37 +178,415 @@ export async function reserveInventory(
     return false;
   }
 
-  const inventoryKey = buildInventoryKey(flashSaleId);
-  const reservationKey = buildReservationKey(userId, flashSaleId);
+  const result = await reserveInventoryItems(userId, [{ flashSaleId, quantity }], ttlSeconds);
+  return result.status === 'reserved';
+}
+
+// Function to release reservation
+export async function releaseReservation(userId: string, flashSaleId: string): Promise<boolean> {
+  const { quantity } = await releaseReservationHold(userId, flashSaleId);
+  return quantity > 0;
+}
+
+// Function to release a reservation; returns the units returned to stock and the new available count
+export async function releaseReservationHold(
+  userId: string,
+  flashSaleId: string
+): Promise<{ quantity: number; available: number | null }> {
+  const keys = [
+    buildReservationKey(userId, flashSaleId),
+    buildInventoryKey(flashSaleId),
+    buildReservationHoldsKey(flashSaleId),
+    buildReservationExpiryKey(flashSaleId),
+  ];
 
   try {
     const scripts = await ensureLuaScriptsLoaded();
-    const script = scripts.reserveInventory;
-    const ttl = ttlSeconds || REDIS_TTL_SECONDS.reservation;
-    const result = script.sha
-      ? await redis.evalsha(script.sha, 2, inventoryKey, reservationKey, userId, quantity, ttl)
-      : await redis.eval(script.inline, 2, inventoryKey, reservationKey, userId, quantity, ttl);
-    return result === 1;
+    const script = scripts.releaseReservation;
+    const [quantity, available] = (
+      script.sha
+        ? await redis.evalsha(script.sha, keys.length, ...keys, userId)
+        : await redis.eval(script.inline, keys.length, ...keys, userId)
+    ) as [number, number?];
+    return {
+      quantity: Number(quantity),
+      available: available === undefined ? null : Number(available),
+    };
   } catch (error) {
-    console.error('Error reserving inventory:', error);
+    console.error('Error releasing reservation:', error);
     throw error;
   }
 }
 
-// Function to release reservation
-export async function releaseReservation(userId: string, flashSaleId: string): Promise<boolean> {
-  const reservationKey = buildReservationKey(userId, flashSaleId);
-  const inventoryKey = buildInventoryKey(flashSaleId);
+// Function to confirm a reservation (stock stays sold); returns the confirmed quantity
+export async function confirmReservation(userId: string, flashSaleId: string): Promise<number> {
+  const keys = [
+    buildReservationKey(userId, flashSaleId),
+    buildReservationHoldsKey(flashSaleId),
+    buildReservationExpiryKey(flashSaleId),
+    buildPurchaseCountsKey(parseStockId(flashSaleId).flashSaleId),
+  ];
 
   try {
     const scripts = await ensureLuaScriptsLoaded();
-    const script = scripts.releaseReservation;
+    const script = scripts.confirmReservation;
+    const confirmed = script.sha
+      ? await redis.evalsha(script.sha, keys.length, ...keys, userId)
+      : await redis.eval(script.inline, keys.length, ...keys, userId);
+    return Number(confirmed);
+  } catch (error) {
+    console.error('Error confirming reservation:', error);
+    throw error;
+  }
+}
+
+// Function to return stock held by expired reservations to the sale inventory
+export async function reclaimExpiredReservations(
+  flashSaleId: string,
+  batchSize: number = REDIS_LIMITS.reclaimBatchSize
+): Promise<{
+  reservations: number;
+  units: number;
+  available: number;
+  holders: ReclaimedHold[];
+}> {
+  const keys = [
+    buildReservationExpiryKey(flashSaleId),
+    buildReservationHoldsKey(flashSaleId),
+    buildInventoryKey(flashSaleId),
+    buildReclaimedKey(flashSaleId),
+    RESERVATION_EXPIRY_SALES_KEY,
+  ];
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.reclaimExpiredReservations;
+    const [reservations, units, available, ...pairs] = (
+      script.sha
+        ? await redis.evalsha(script.sha, keys.length, ...keys, flashSaleId, batchSize)
+        : await redis.eval(script.inline, keys.length, ...keys, flashSaleId, batchSize)
+    ) as (number | string)[];
+
+    const holders: ReclaimedHold[] = [];
+    for (let i = 0; i < pairs.length; i += 2) {
+      holders.push({ holderId: String(pairs[i]), quantity: Number(pairs[i + 1]) });
+    }
+
+    return {
+      reservations: Number(reservations),
+      units: Number(units),
+      available: Number(available),
+      holders,
+    };
+  } catch (error) {
+    console.error('Error reclaiming expired reservations:', error);
+    throw error;
+  }
+}
+
+// Function to apply an admin delta to the live counter; returns null when the counter is not loaded
+export async function adjustInventory(
+  flashSaleId: string,
+  delta: number
+): Promise<{ available: number; applied: number } | null> {
+  const key = buildInventoryKey(flashSaleId);
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.adjustInventory;
+    const result = (
+      script.sha
+        ? await redis.evalsha(script.sha, 1, key, delta)
+        : await redis.eval(script.inline, 1, key, delta)
+    ) as [number, number] | null;
+    return result ? { available: Number(result[0]), applied: Number(result[1]) } : null;
+  } catch (error) {
+    console.error('Error adjusting inventory:', error);
+    throw error;
+  }
+}
+
+// Function to load the live counter from the unsold database quantity minus open holds
+// (never below minAvailable: 0, or minus the backorder allowance)
+export async function syncInventory(
+  flashSaleId: string,
+  unsoldQuantity: number,
+  minAvailable: number = 0
+): Promise<number> {
+  const keys = [buildInventoryKey(flashSaleId), buildReservationHoldsKey(flashSaleId)];
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.syncInventory;
+    const available = script.sha
+      ? await redis.evalsha(script.sha, keys.length, ...keys, unsoldQuantity, minAvailable)
+      : await redis.eval(script.inline, keys.length, ...keys, unsoldQuantity, minAvailable);
+    return Number(available);
+  } catch (error) {
+    console.error('Error syncing inventory:', error);
+    throw error;
+  }
+}
+
+// Sale IDs that currently have reservations in the expiry index
+export async function getSalesWithPendingReservations(): Promise<string[]> {
+  return redis.smembers(RESERVATION_EXPIRY_SALES_KEY);
+}
+
+// Take or renew a named lease; returns the holder's fencing token, or 0 when someone else holds it
+export async function acquireLease(
+  leaseName: string,
+  ownerId: string,
+  ttlMs: number
+): Promise<number> {
+  const keys = [buildLeaseKey(leaseName), buildLeaseFenceKey(leaseName)];
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.acquireLease;
+    const token = script.sha
+      ? await redis.evalsha(script.sha, keys.length, ...keys, ownerId, ttlMs, Date.now())
+      : await redis.eval(script.inline, keys.length, ...keys, ownerId, ttlMs, Date.now());
+    return Number(token);
+  } catch (error) {
+    console.error('Error acquiring lease:', error);
+    throw error;
+  }
+}
+
+// Give up a lease, only if it is still held by the owner
+export async function releaseLease(leaseName: string, ownerId: string): Promise<boolean> {
+  const key = buildLeaseKey(leaseName);
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.releaseLease;
     const released = script.sha
-      ? await redis.evalsha(script.sha, 2, reservationKey, inventoryKey)
-      : await redis.eval(script.inline, 2, reservationKey, inventoryKey);
-    return Number(released) > 0;
+      ? await redis.evalsha(script.sha, 1, key, ownerId)
+      : await redis.eval(script.inline, 1, key, ownerId);
+    return Number(released) === 1;
   } catch (error) {
-    console.error('Error releasing reservation:', error);
+    console.error('Error releasing lease:', error);
+    throw error;
+  }
+}
+
+// Function to move the head of the queue to admission, one pass ID per seat;
+// returns the admitted users with the pass each was given
+export async function admitQueueBatch(
+  flashSaleId: string,
+  passIds: string[],
+  expiresAt: number
+): Promise<Array<{ userId: string; passId: string }>> {
+  const keys = [
+    buildQueueKey(flashSaleId),
+    buildAdmissionPassKey(flashSaleId),
+    buildAdmissionPassScoreKey(flashSaleId),
+    buildAdmissionPassExpiryKey(flashSaleId),
+    ADMISSION_PASS_SALES_KEY,
+  ];
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.admitQueueBatch;
+    const pairs = (
+      script.sha
+        ? await redis.evalsha(script.sha, keys.length, ...keys, flashSaleId, expiresAt, ...passIds)
+        : await redis.eval(script.inline, keys.length, ...keys, flashSaleId, expiresAt, ...passIds)
+    ) as string[];
+
+    const admitted: Array<{ userId: string; passId: string }> = [];
+    for (let i = 0; i < pairs.length; i += 2) {
+      admitted.push({ userId: String(pairs[i]), passId: String(pairs[i + 1]) });
+    }
+    return admitted;
+  } catch (error) {
+    console.error('Error admitting queue batch:', error);
+    throw error;
+  }
+}
+
+// Function to admit specific waiting users, each with their own pass ID;
+// returns the users that were still waiting
+export async function admitQueueUsers(
+  flashSaleId: string,
+  users: Array<{ userId: string; passId: string }>,
+  expiresAt: number
+): Promise<Array<{ userId: string; passId: string }>> {
+  const keys = [
+    buildQueueKey(flashSaleId),
+    buildAdmissionPassKey(flashSaleId),
+    buildAdmissionPassScoreKey(flashSaleId),
+    buildAdmissionPassExpiryKey(flashSaleId),
+    ADMISSION_PASS_SALES_KEY,
+  ];
+  const pairs = users.flatMap(({ userId, passId }) => [userId, passId]);
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.admitQueueUsers;
+    const admitted = (
+      script.sha
+        ? await redis.evalsha(script.sha, keys.length, ...keys, flashSaleId, expiresAt, ...pairs)
+        : await redis.eval(script.inline, keys.length, ...keys, flashSaleId, expiresAt, ...pairs)
+    ) as string[];
+
+    const result: Array<{ userId: string; passId: string }> = [];
+    for (let i = 0; i < admitted.length; i += 2) {
+      result.push({ userId: String(admitted[i]), passId: String(admitted[i + 1]) });
+    }
+    return result;
+  } catch (error) {
+    console.error('Error admitting queue users:', error);
+    throw error;
+  }
+}
+
+// Function to use up an admission pass; false when it was already used, expired or reissued
+export async function consumeAdmissionPass(
+  flashSaleId: string,
+  userId: string,
+  passId: string
+): Promise<boolean> {
+  return (await consumeAdmissionPasses(userId, [{ saleId: flashSaleId, passId }])) === null;
+}
+
+// Function to use up a user's passes for several sales at once; returns the sale whose pass
+// was already used, expired or reissued (and then uses up none), or null
+export async function consumeAdmissionPasses(
+  userId: string,
+  passes: Array<{ saleId: string; passId: string }>
+): Promise<string | null> {
+  if (passes.length === 0) {
+    return null;
+  }
+
+  const keys = [
+    ADMISSION_PASS_SALES_KEY,
+    ...passes.flatMap(({ saleId }) => [
+      buildAdmissionPassKey(saleId),
+      buildAdmissionPassScoreKey(saleId),
+      buildAdmissionPassExpiryKey(saleId),
+    ]),
+  ];
+  const args = [userId, ...passes.flatMap(({ saleId, passId }) => [passId, saleId])];
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.consumeAdmissionPass;
+    const failed = script.sha
+      ? await redis.evalsha(script.sha, keys.length, ...keys, ...args)
+      : await redis.eval(script.inline, keys.length, ...keys, ...args);
+    return Number(failed) === 0 ? null : passes[Number(failed) - 1].saleId;
+  } catch (error) {
+    console.error('Error consuming admission passes:', error);
+    throw error;
+  }
+}
+
+// Function to return users holding expired, unused passes to their place in the queue
+export async function expireAdmissionPasses(
+  flashSaleId: string,
+  batchSize: number = REDIS_LIMITS.reclaimBatchSize
+): Promise<string[]> {
+  const keys = [
+    buildAdmissionPassExpiryKey(flashSaleId),
+    buildAdmissionPassKey(flashSaleId),
+    buildAdmissionPassScoreKey(flashSaleId),
+    buildQueueKey(flashSaleId),
+    ADMISSION_PASS_SALES_KEY,
+  ];
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.expireAdmissionPasses;
+    const userIds = (
+      script.sha
+        ? await redis.evalsha(script.sha, keys.length, ...keys, flashSaleId, batchSize)
+        : await redis.eval(script.inline, keys.length, ...keys, flashSaleId, batchSize)
+    ) as string[];
+    return userIds.map(String);
+  } catch (error) {
+    console.error('Error expiring admission passes:', error);
+    throw error;
+  }
+}
+
+// Stop the sweeper from expiring a sale's admission passes; returns the passes held
+export async function pauseAdmissionPassExpiry(flashSaleId: string): Promise<number> {
+  const keys = [buildAdmissionPassExpiryKey(flashSaleId), ADMISSION_PASS_SALES_KEY];
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.pauseExpiries;
+    const held = script.sha
+      ? await redis.evalsha(script.sha, keys.length, ...keys, flashSaleId, '', '')
+      : await redis.eval(script.inline, keys.length, ...keys, flashSaleId, '', '');
+    return Number(held);
+  } catch (error) {
+    console.error('Error pausing admission pass expiry:', error);
+    throw error;
+  }
+}
+
+// Push a sale's admission pass expiries back and let the sweeper see them again
+export async function resumeAdmissionPassExpiry(
+  flashSaleId: string,
+  shiftMs: number
+): Promise<number> {
+  const keys = [buildAdmissionPassExpiryKey(flashSaleId), ADMISSION_PASS_SALES_KEY];
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.resumeExpiries;
+    const shifted = script.sha
+      ? await redis.evalsha(script.sha, keys.length, ...keys, flashSaleId, shiftMs, '', '')
+      : await redis.eval(script.inline, keys.length, ...keys, flashSaleId, shiftMs, '', '');
+    return Number(shifted);
+  } catch (error) {
+    console.error('Error resuming admission pass expiry:', error);
+    throw error;
+  }
+}
+
+// Reservation keys are "<prefix>:<holder>:<stock>", as built by buildReservationKey
+const reservationKeyParts = (flashSaleId: string) => [
+  `${REDIS_KEY_PREFIX.reservation}:`,
+  `:${flashSaleId}`,
+];
+
+// Stop the sweeper from reclaiming a stock's reservations and keep their keys from
+// expiring; returns the reservations held
+export async function pauseReservationExpiry(flashSaleId: string): Promise<number> {
+  const keys = [buildReservationExpiryKey(flashSaleId), RESERVATION_EXPIRY_SALES_KEY];
+  const args = [flashSaleId, ...reservationKeyParts(flashSaleId)];
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.pauseExpiries;
+    const held = script.sha
+      ? await redis.evalsha(script.sha, keys.length, ...keys, ...args)
+      : await redis.eval(script.inline, keys.length, ...keys, ...args);
+    return Number(held);
+  } catch (error) {
+    console.error('Error pausing reservation expiry:', error);
+    throw error;
+  }
+}
+
+// Push a stock's reservation expiries back, keys included, and let the sweeper see them again
+export async function resumeReservationExpiry(
+  flashSaleId: string,
+  shiftMs: number
+): Promise<number> {
+  const keys = [buildReservationExpiryKey(flashSaleId), RESERVATION_EXPIRY_SALES_KEY];
+  const args = [flashSaleId, shiftMs, ...reservationKeyParts(flashSaleId)];
+
+  try {
+    const scripts = await ensureLuaScriptsLoaded();
+    const script = scripts.resumeExpiries;
+    const shifted = script.sha
+      ? await redis.evalsha(script.sha, keys.length, ...keys, ...args)
+      : await redis.eval(script.inline, keys.length, ...keys, ...args);
+    return Number(shifted);
+  } catch (error) {
+    console.error('Error resuming reservation expiry:', error);
     throw error;
   }
 }
@@ -0,0 +1,90 @@
+/**
+ * Release waves: a sale's stock put on sale in shares over the course of the sale,
+ * e.g. 30% at the start, 30% ten minutes in and 40% for the last hour
+ */
+
+import { ReleaseWave } from '../models';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * When each wave goes on sale
+ */
+export function getWaveTimes(waves: ReleaseWave[], startTime: Date, endTime: Date): Date[] {
+  const start = new Date(startTime).getTime();
+  const end = new Date(endTime).getTime();
+
+  return waves.map(
+    (wave) =>
+      new Date(
+        wave.from === 'end'
+          ? end - wave.offset_minutes * MINUTE_MS
+          : start + wave.offset_minutes * MINUTE_MS
+      )
+  );
+}
+
+/**
+ * Units of a stock on sale once the waves totalling releasedPercent are out.
+ * Rounded down, so the last wave carries any remainder.
+ */
+export function getReleasedUnits(total: number, releasedPercent: number): number {
+  if (releasedPercent >= 100) {
+    return total;
+  }
+  return Math.floor((Math.max(total, 0) * releasedPercent) / 100);
+}
+
+/**
+ * Share of the stock in the first `count` waves
+ */
+export function getReleasedPercent(waves: ReleaseWave[], count: number): number {
+  return waves.slice(0, count).reduce((sum, wave) => sum + wave.percent, 0);
+}
+
+/**
+ * Check a wave schedule against the sale it belongs to; tiers are the known VIP tiers
+ */
+export function validateReleaseWaves(
+  waves: ReleaseWave[],
+  startTime: Date,
+  endTime: Date,
+  tiers: string[]
+): void {
+  if (!Array.isArray(waves) || waves.length === 0) {
+    throw new Error('Release waves must be a non-empty list');
+  }
+
+  for (const wave of waves) {
+    if (!Number.isInteger(wave.percent) || wave.percent <= 0 || wave.percent > 100) {
+      throw new Error('Each release wave must be an integer percentage between 1 and 100');
+    }
+    if (!Number.isInteger(wave.offset_minutes) || wave.offset_minutes < 0) {
+      throw new Error('Release wave offsets must be a non-negative number of minutes');
+    }
+    if (wave.from !== 'start' && wave.from !== 'end') {
+      throw new Error("Release waves are timed from the 'start' or the 'end' of the sale");
+    }
+    for (const tier of wave.early_access_tiers || []) {
+      if (!tiers.includes(tier)) {
+        throw new Error(`Unknown VIP tier: ${tier}`);
+      }
+    }
+  }
+
+  if (waves.reduce((sum, wave) => sum + wave.percent, 0) !== 100) {
+    throw new Error('Release waves must add up to 100% of the stock');
+  }
+
+  const times = getWaveTimes(waves, startTime, endTime);
+  const start = new Date(startTime).getTime();
+  const end = new Date(endTime).getTime();
+  times.forEach((time, index) => {
+    if (time.getTime() < start || time.getTime() >= end) {
+      throw new Error('Every release wave must fall within the sale');
+    }
+    if (index > 0 && time < times[index - 1]) {
+      throw new Error('Release waves must be listed in time order');
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { API } from '../services/api';
 import { useToast } from '../contexts/ToastContext';
+import { useQueuePresence } from '../hooks/useSocket';
 
 interface FlashSale {
   id: string;
@@ -291,7 +292,18 @@ const FlashSaleHub: React.FC<FlashSaleHubProps> = ({ user }) => {
   const [sales, setSales] = useState<FlashSale[]>(mockFlashSales);
   const [activeFilter, setActiveFilter] = useState<'all' | 'active' | 'upcoming'>('all');
   const [joinedQueue, setJoinedQueue] = useState<string | null>(null);
+  // Sale whose queue place this page holds; outlives the confirmation modal
+  const [queuedSaleId, setQueuedSaleId] = useState<string | null>(null);
   const toast = useToast();
+  const { isEvicted } = useQueuePresence(queuedSaleId, user?.id);
+  const warn = toast.warning;
+
+  useEffect(() => {
+    if (isEvicted) {
+      warn('You were away too long and lost your place in the queue.');
+      setQueuedSaleId(null);
+    }
+  }, [isEvicted, warn]);
 
   const fetchSales = useCallback(async () => {
     try {
@@ -327,6 +339,7 @@ const FlashSaleHub: React.FC<FlashSaleHubProps> = ({ user }) => {
     try {
       await API.post(`/queue/join`, { saleId });
       setJoinedQueue(saleId);
+      setQueuedSaleId(saleId);
       toast.success('Successfully joined the queue!');
     } catch {
       // Show modal anyway for demo purposes
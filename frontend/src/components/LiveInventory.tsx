@@ -7,6 +7,7 @@
  * - Visual progress bar with dynamic coloring
  * - Low stock urgency indicators
  * - Sold out state handling
+ * - Backorder state once stock runs out on backorder-enabled sales
  * - Animated transitions
  */
 
@@ -37,11 +38,15 @@ export function LiveInventory({
   const remaining = inventory?.remaining ?? initialRemaining ?? 0;
   const total = inventory?.total ?? initialTotal ?? 0;
   const percent = total > 0 ? (remaining / total) * 100 : 0;
+  // Units beyond the stock can still be ordered on backorder-enabled sales
+  const inStock = inventory?.inStock ?? remaining;
+  const backorderOnly = remaining > 0 && inStock === 0;
 
   // Dynamic color based on stock level
   const getColor = () => {
     if (isSoldOut || remaining === 0)
       return { bg: 'bg-gray-200', fill: 'bg-gray-400', text: 'text-gray-600' };
+    if (backorderOnly) return { bg: 'bg-blue-100', fill: 'bg-blue-500', text: 'text-blue-700' };
     if (percent <= 5) return { bg: 'bg-red-100', fill: 'bg-red-500', text: 'text-red-700' };
     if (percent <= 10)
       return { bg: 'bg-orange-100', fill: 'bg-orange-500', text: 'text-orange-700' };
@@ -70,7 +75,9 @@ export function LiveInventory({
       <div className="flex items-center gap-2">
         <div className={`flex items-center gap-1.5 px-2 py-1 rounded-full ${colors.bg}`}>
           {isLowStock && <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />}
-          <span className={`text-xs font-semibold ${colors.text}`}>{remaining} left</span>
+          <span className={`text-xs font-semibold ${colors.text}`}>
+            {backorderOnly ? 'Backorder' : `${remaining} left`}
+          </span>
         </div>
         {!isConnected && (
           <span className="text-xs text-gray-400" title="Not connected to live updates">
@@ -88,7 +95,9 @@ export function LiveInventory({
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
           <span className={`text-sm font-semibold ${colors.text}`}>
-            {remaining} of {total} remaining
+            {backorderOnly
+              ? `${remaining} available on backorder`
+              : `${remaining} of ${total} remaining`}
           </span>
           {isLowStock && (
             <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700 animate-pulse">
@@ -119,8 +128,14 @@ export function LiveInventory({
         </div>
       )}
 
+      {backorderOnly && (
+        <p className="text-xs text-blue-700 font-medium">
+          In-stock units are gone — new orders ship once restocked.
+        </p>
+      )}
+
       {/* Urgency message */}
-      {isLowStock && remaining > 0 && (
+      {isLowStock && remaining > 0 && !backorderOnly && (
         <p className="text-xs text-red-600 font-medium animate-pulse">
           ⚡ Hurry! Only {remaining} items left — selling fast!
         </p>
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useSocket } from '../hooks/useSocket';
 
 interface QueueEntry {
   id: string;
@@ -7,6 +8,9 @@ interface QueueEntry {
   position: number;
   totalInQueue: number;
   estimatedWaitTime: number;
+  // Confidence interval of the estimate, in seconds; a null upper bound is open-ended
+  estimatedWaitLow?: number;
+  estimatedWaitHigh?: number | null;
   joinedAt: Date;
   status: 'waiting' | 'ready' | 'completed' | 'expired';
 }
@@ -23,6 +27,8 @@ const mockQueueEntries: QueueEntry[] = [
     position: 127,
     totalInQueue: 2451,
     estimatedWaitTime: 180,
+    estimatedWaitLow: 150,
+    estimatedWaitHigh: 240,
     joinedAt: new Date(Date.now() - 120000),
     status: 'waiting',
   },
@@ -33,11 +39,16 @@ const mockQueueEntries: QueueEntry[] = [
     position: 3,
     totalInQueue: 892,
     estimatedWaitTime: 15,
+    estimatedWaitLow: 10,
+    estimatedWaitHigh: 25,
     joinedAt: new Date(Date.now() - 300000),
     status: 'ready',
   },
 ];
 
+const formatWait = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
 const QueueCard: React.FC<{ entry: QueueEntry }> = ({ entry }) => {
   const progressPercentage = ((entry.totalInQueue - entry.position) / entry.totalInQueue) * 100;
 
@@ -102,11 +113,14 @@ const QueueCard: React.FC<{ entry: QueueEntry }> = ({ entry }) => {
         <div className="grid grid-cols-2 gap-4 mb-6">
           <div className="bg-white/5 rounded-xl p-4 text-center">
             <p className="text-gray-400 text-xs mb-1">Est. Wait Time</p>
-            <p className="text-xl font-bold text-white">
-              {entry.estimatedWaitTime < 60
-                ? `${entry.estimatedWaitTime}s`
-                : `${Math.floor(entry.estimatedWaitTime / 60)}m ${entry.estimatedWaitTime % 60}s`}
-            </p>
+            <p className="text-xl font-bold text-white">{formatWait(entry.estimatedWaitTime)}</p>
+            {entry.estimatedWaitLow !== undefined && (
+              <p className="text-gray-400 text-xs mt-1">
+                {typeof entry.estimatedWaitHigh === 'number'
+                  ? `${formatWait(entry.estimatedWaitLow)} – ${formatWait(entry.estimatedWaitHigh)}`
+                  : `at least ${formatWait(entry.estimatedWaitLow)}`}
+              </p>
+            )}
           </div>
           <div className="bg-white/5 rounded-xl p-4 text-center">
             <p className="text-gray-400 text-xs mb-1">People Ahead</p>
@@ -152,6 +166,44 @@ const QueueStatus: React.FC<QueueStatusProps> = ({ user }) => {
     return () => clearTimeout(timer);
   }, [user]);
 
+  // Server pushes a new estimate whenever it changes meaningfully
+  const events = useMemo(
+    () => ({
+      'queue:position': (data: unknown) => {
+        const d = data as {
+          saleId: string;
+          position: number;
+          estimatedWaitMs: number;
+          estimatedWaitLowMs?: number;
+          estimatedWaitHighMs?: number | null;
+        };
+        const toSeconds = (ms: number) => Math.round(ms / 1000);
+
+        setQueueEntries((prev) =>
+          prev.map((entry) =>
+            entry.saleId === d.saleId
+              ? {
+                  ...entry,
+                  position: d.position,
+                  estimatedWaitTime: toSeconds(d.estimatedWaitMs),
+                  estimatedWaitLow:
+                    d.estimatedWaitLowMs !== undefined
+                      ? toSeconds(d.estimatedWaitLowMs)
+                      : undefined,
+                  estimatedWaitHigh:
+                    typeof d.estimatedWaitHighMs === 'number'
+                      ? toSeconds(d.estimatedWaitHighMs)
+                      : null,
+                }
+              : entry,
+          ),
+        );
+      },
+    }),
+    [],
+  );
+  useSocket({ events });
+
   // Simulate real-time position updates
   useEffect(() => {
     if (queueEntries.length === 0) return;
@@ -167,6 +219,14 @@ const QueueStatus: React.FC<QueueStatusProps> = ({ user }) => {
               position: newPosition,
               status: newStatus,
               estimatedWaitTime: Math.max(0, entry.estimatedWaitTime - 5),
+              estimatedWaitLow:
+                entry.estimatedWaitLow !== undefined
+                  ? Math.max(0, entry.estimatedWaitLow - 5)
+                  : undefined,
+              estimatedWaitHigh:
+                typeof entry.estimatedWaitHigh === 'number'
+                  ? Math.max(0, entry.estimatedWaitHigh - 5)
+                  : null,
             };
           }
           return entry;
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { API } from '../../services/api';
+
+interface JobRun {
+  id: string;
+  instance_id: string;
+  fencing_token: number | null;
+  success: boolean;
+  message: string | null;
+  error: string | null;
+  duration_ms: number;
+  started_at: string;
+}
+
+interface Job {
+  name: string;
+  enabled: boolean;
+  leaderOnly: boolean;
+  interval: number;
+  lastRun: JobRun | null;
+  runs24h: number;
+  failures24h: number;
+  avgDurationMs24h: number;
+}
+
+interface LeaseHolder {
+  instanceId: string;
+  fencingToken: number;
+  acquiredAt: string;
+  expiresInMs: number;
+}
+
+interface JobsOverview {
+  leader: LeaseHolder | null;
+  instanceId: string;
+  isLeader: boolean;
+  jobs: Job[];
+}
+
+interface Props {
+  refreshKey?: unknown;
+}
+
+const formatInterval = (ms: number) => (ms >= 60000 ? `${ms / 60000}m` : `${ms / 1000}s`);
+
+export const BackgroundJobs: React.FC<Props> = ({ refreshKey }) => {
+  const [overview, setOverview] = useState<JobsOverview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedJob, setExpandedJob] = useState<string | null>(null);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await API.get<{ data: JobsOverview }>('/admin/jobs');
+      setOverview(response.data);
+      setError(null);
+    } catch (_error) {
+      setError('Failed to load background jobs');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs, refreshKey]);
+
+  const toggleRuns = async (jobName: string) => {
+    if (expandedJob === jobName) {
+      setExpandedJob(null);
+      return;
+    }
+
+    setExpandedJob(jobName);
+    setRuns([]);
+    try {
+      const response = await API.get<{ data: JobRun[] }>(`/admin/jobs/${jobName}/runs?limit=20`);
+      setRuns(response.data);
+    } catch (_error) {
+      setError(`Failed to load runs of ${jobName}`);
+    }
+  };
+
+  if (!overview) {
+    return error ? (
+      <div className="bg-red-100 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+        {error}
+      </div>
+    ) : (
+      <div className="h-32 bg-gray-200 rounded-lg animate-pulse"></div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div className="p-4 border-b border-gray-200 grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <span className="text-gray-600 text-sm">Leader</span>
+          <div className="font-medium text-gray-900 font-mono text-sm">
+            {overview.leader ? overview.leader.instanceId : 'none'}
+          </div>
+        </div>
+        <div>
+          <span className="text-gray-600 text-sm">Fencing Token</span>
+          <div className="font-medium text-gray-900">{overview.leader?.fencingToken ?? '-'}</div>
+        </div>
+        <div>
+          <span className="text-gray-600 text-sm">Leader Since</span>
+          <div className="font-medium text-gray-900">
+            {overview.leader ? new Date(overview.leader.acquiredAt).toLocaleTimeString() : '-'}
+          </div>
+        </div>
+        <div>
+          <span className="text-gray-600 text-sm">This Instance</span>
+          <div className={`font-medium ${overview.isLeader ? 'text-green-600' : 'text-gray-900'}`}>
+            {overview.isLeader ? 'leader' : 'follower'}
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="px-4 py-2 text-sm text-red-600">{error}</div>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-100 border-b">
+            <tr>
+              <th className="px-4 py-3 text-left text-sm font-semibold">Job</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold">Runs On</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold">Every</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold">Last Run</th>
+              <th className="px-4 py-3 text-right text-sm font-semibold">Duration</th>
+              <th className="px-4 py-3 text-right text-sm font-semibold">Runs (24h)</th>
+              <th className="px-4 py-3 text-right text-sm font-semibold">Failures (24h)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {overview.jobs.map((job) => (
+              <React.Fragment key={job.name}>
+                <tr
+                  onClick={() => toggleRuns(job.name)}
+                  className="border-b hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="px-4 py-3 text-sm font-medium">
+                    {job.name}
+                    {!job.enabled && <span className="ml-2 text-xs text-gray-500">(disabled)</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {job.leaderOnly ? 'leader' : 'all replicas'}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{formatInterval(job.interval)}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {job.lastRun ? (
+                      <span className={job.lastRun.success ? 'text-green-600' : 'text-red-600'}>
+                        {new Date(job.lastRun.started_at).toLocaleTimeString()}
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">never</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right">
+                    {job.lastRun ? `${job.lastRun.duration_ms}ms` : '-'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right">{job.runs24h}</td>
+                  <td
+                    className={`px-4 py-3 text-sm text-right ${job.failures24h > 0 ? 'text-red-600 font-semibold' : ''}`}
+                  >
+                    {job.failures24h}
+                  </td>
+                </tr>
+                {expandedJob === job.name && (
+                  <tr className="border-b bg-gray-50">
+                    <td colSpan={7} className="px-4 py-3">
+                      {runs.length === 0 ? (
+                        <div className="text-sm text-gray-500">No runs recorded</div>
+                      ) : (
+                        <ul className="space-y-1 text-xs font-mono">
+                          {runs.map((run) => (
+                            <li
+                              key={run.id}
+                              className={run.success ? 'text-gray-700' : 'text-red-600'}
+                            >
+                              {new Date(run.started_at).toLocaleString()} · {run.instance_id}
+                              {run.fencing_token !== null && ` · token ${run.fencing_token}`} ·{' '}
+                              {run.duration_ms}ms · {run.error || run.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundJobs;
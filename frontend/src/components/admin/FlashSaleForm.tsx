@@ -1,18 +1,75 @@
 /**
  * Flash Sale Form Component
- * Form for creating and editing flash sales
+ * Form for creating and editing flash sales, and the templates recurring sales are made from
  */
 
 import React, { useState, useEffect } from 'react';
 import { API } from '../../services/api';
 
+// One product/variant row of the sale, with its own flash price and stock
+interface SaleItemRow {
+  product_id: string;
+  variant_sku: string;
+  size: string;
+  color: string;
+  flash_price: number;
+  quantity_available: number;
+}
+
+interface SaleItemResponse {
+  product_id: string;
+  variant_sku: string | null;
+  variant_attributes?: { size?: string; color?: string };
+  flash_price: number | string;
+  quantity_available: number;
+}
+
+interface ProductOption {
+  id: string;
+  price: number | string;
+}
+
+type QueueOrdering = 'fifo' | 'priority' | 'lottery';
+
+// What every sale made from a template sells and how it queues
+export interface SaleTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  duration_minutes: number;
+  settings: {
+    items?: SaleItemResponse[];
+    max_per_user?: number | null;
+    queue_ordering?: QueueOrdering;
+  };
+}
+
 interface FlashSaleFormProps {
   saleId?: string;
+  // Create or edit a template instead of a sale
+  asTemplate?: boolean;
+  template?: SaleTemplate;
   onSuccess?: (sale: any) => void;
   onCancel?: () => void;
 }
 
-export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess, onCancel }) => {
+const toItemRows = (items: SaleItemResponse[] = []): SaleItemRow[] =>
+  items.map((item) => ({
+    product_id: item.product_id,
+    variant_sku: item.variant_sku || '',
+    size: item.variant_attributes?.size || '',
+    color: item.variant_attributes?.color || '',
+    flash_price: Number(item.flash_price),
+    quantity_available: item.quantity_available,
+  }));
+
+export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({
+  saleId,
+  asTemplate = false,
+  template,
+  onSuccess,
+  onCancel,
+}) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
@@ -21,21 +78,32 @@ export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess,
     discount_percentage: 10,
     start_time: new Date().toISOString().split('T')[0],
     end_time: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-    product_ids: [] as string[],
+    duration_minutes: 60,
+    queue_ordering: 'fifo' as QueueOrdering,
+    items: [] as SaleItemRow[],
     max_purchases_per_user: 1,
-    total_inventory: 1000,
   });
 
   const [products, setProducts] = useState<any[]>([]);
   const [productsLoading, setProductsLoading] = useState(true);
+  const [templates, setTemplates] = useState<SaleTemplate[]>([]);
 
   // Fetch existing sale if editing
   useEffect(() => {
     if (saleId) {
       fetchSale();
+    } else if (!asTemplate) {
+      fetchTemplates();
     }
     fetchProducts();
-  }, [saleId]);
+  }, [saleId, asTemplate]);
+
+  // Fill in the template being edited
+  useEffect(() => {
+    if (template) {
+      applyTemplate(template);
+    }
+  }, [template]);
 
   const fetchSale = async () => {
     try {
@@ -46,15 +114,38 @@ export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess,
         discount_percentage: response.discount_percentage,
         start_time: new Date(response.start_time).toISOString().split('T')[0],
         end_time: new Date(response.end_time).toISOString().split('T')[0],
-        product_ids: response.product_ids || [],
+        duration_minutes: 60,
+        queue_ordering: (response as { queue_ordering?: QueueOrdering }).queue_ordering || 'fifo',
+        items: toItemRows(response.items),
         max_purchases_per_user: response.max_purchases_per_user,
-        total_inventory: response.total_inventory,
       });
     } catch (err) {
       setError('Failed to load sale details');
     }
   };
 
+  const fetchTemplates = async () => {
+    try {
+      const response = await API.get<{ data: SaleTemplate[] }>('/admin/sale-templates');
+      setTemplates(response.data || []);
+    } catch (err) {
+      console.error('Error fetching sale templates:', err);
+    }
+  };
+
+  // Start from a template's products, limits and queue policy; dates are left as they are
+  const applyTemplate = (source: SaleTemplate) => {
+    setFormData((prev) => ({
+      ...prev,
+      name: source.name,
+      description: source.description || '',
+      duration_minutes: source.duration_minutes,
+      queue_ordering: source.settings.queue_ordering || 'fifo',
+      items: toItemRows(source.settings.items),
+      max_purchases_per_user: source.settings.max_per_user || 1,
+    }));
+  };
+
   const fetchProducts = async () => {
     try {
       setProductsLoading(true);
@@ -77,15 +168,57 @@ export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess,
     }));
   };
 
-  const handleProductSelect = (productId: string, checked: boolean) => {
+  const newItem = (product: ProductOption): SaleItemRow => ({
+    product_id: product.id,
+    variant_sku: '',
+    size: '',
+    color: '',
+    flash_price: Number(product.price) || 0,
+    quantity_available: 100,
+  });
+
+  const handleProductSelect = (product: ProductOption, checked: boolean) => {
     setFormData((prev) => ({
       ...prev,
-      product_ids: checked
-        ? [...prev.product_ids, productId]
-        : prev.product_ids.filter((id) => id !== productId),
+      items: checked
+        ? [...prev.items, newItem(product)]
+        : prev.items.filter((item) => item.product_id !== product.id),
     }));
   };
 
+  const handleAddVariant = (product: ProductOption) => {
+    setFormData((prev) => ({ ...prev, items: [...prev.items, newItem(product)] }));
+  };
+
+  const handleRemoveItem = (index: number) => {
+    setFormData((prev) => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }));
+  };
+
+  const handleItemChange = (index: number, field: keyof SaleItemRow, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      items: prev.items.map((item, i) =>
+        i === index
+          ? {
+              ...item,
+              [field]:
+                field === 'flash_price'
+                  ? parseFloat(value)
+                  : field === 'quantity_available'
+                    ? parseInt(value)
+                    : value,
+            }
+          : item
+      ),
+    }));
+  };
+
+  const productIds = Array.from(new Set(formData.items.map((item) => item.product_id)));
+  const totalInventory = formData.items.reduce(
+    (sum, item) => sum + (item.quantity_available || 0),
+    0
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -94,26 +227,75 @@ export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess,
     try {
       // Validation
       if (!formData.name.trim()) {
-        throw new Error('Sale name is required');
+        throw new Error(asTemplate ? 'Template name is required' : 'Sale name is required');
       }
 
-      if (formData.discount_percentage <= 0 || formData.discount_percentage > 100) {
+      if (
+        !asTemplate &&
+        (formData.discount_percentage <= 0 || formData.discount_percentage > 100)
+      ) {
         throw new Error('Discount must be between 0 and 100');
       }
 
       const startDate = new Date(formData.start_time);
       const endDate = new Date(formData.end_time);
 
-      if (startDate >= endDate) {
-        throw new Error('Start time must be before end time');
+      if (asTemplate ? !(formData.duration_minutes > 0) : startDate >= endDate) {
+        throw new Error(
+          asTemplate ? 'Duration must be at least a minute' : 'Start time must be before end time'
+        );
       }
 
-      if (formData.product_ids.length === 0) {
+      if (formData.items.length === 0) {
         throw new Error('Select at least one product');
       }
 
+      if (
+        formData.items.some((item) => !(item.flash_price > 0) || !(item.quantity_available > 0))
+      ) {
+        throw new Error('Every item needs a flash price and stock greater than zero');
+      }
+
+      const skus = formData.items.map((item) => `${item.product_id}:${item.variant_sku.trim()}`);
+      if (new Set(skus).size !== skus.length) {
+        throw new Error('Give each variant of a product a distinct SKU');
+      }
+
+      const items = formData.items.map(({ size, color, variant_sku, ...item }) => ({
+        ...item,
+        variant_sku: variant_sku.trim() || null,
+        variant_attributes: {
+          ...(size.trim() && { size: size.trim() }),
+          ...(color.trim() && { color: color.trim() }),
+        },
+      }));
+
+      if (asTemplate) {
+        const templatePayload = {
+          name: formData.name,
+          description: formData.description,
+          duration_minutes: formData.duration_minutes,
+          settings: {
+            items,
+            max_per_user: formData.max_purchases_per_user,
+            queue_ordering: formData.queue_ordering,
+          },
+        };
+        const response = await (template
+          ? API.put<{ data: SaleTemplate }>(`/admin/sale-templates/${template.id}`, templatePayload)
+          : API.post<{ data: SaleTemplate }>('/admin/sale-templates', templatePayload));
+
+        if (onSuccess) {
+          onSuccess(response.data);
+        }
+        return;
+      }
+
       const payload = {
         ...formData,
+        items,
+        product_ids: productIds,
+        total_inventory: totalInventory,
         start_time: startDate.toISOString(),
         end_time: endDate.toISOString(),
       };
@@ -138,7 +320,13 @@ export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess,
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       <h2 className="text-2xl font-bold mb-6">
-        {saleId ? 'Edit Flash Sale' : 'Create Flash Sale'}
+        {asTemplate
+          ? template
+            ? 'Edit Sale Template'
+            : 'Create Sale Template'
+          : saleId
+            ? 'Edit Flash Sale'
+            : 'Create Flash Sale'}
       </h2>
 
       {error && (
@@ -148,9 +336,35 @@ export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess,
       )}
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Start From Template */}
+        {templates.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Start From Template
+            </label>
+            <select
+              defaultValue=""
+              onChange={(e) => {
+                const selected = templates.find((t) => t.id === e.target.value);
+                if (selected) applyTemplate(selected);
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+            >
+              <option value="">None</option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Sale Name */}
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">Sale Name *</label>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {asTemplate ? 'Template Name *' : 'Sale Name *'}
+          </label>
           <input
             type="text"
             name="name"
@@ -177,19 +391,35 @@ export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess,
 
         <div className="grid grid-cols-2 gap-4">
           {/* Discount Percentage */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Discount % *</label>
-            <input
-              type="number"
-              name="discount_percentage"
-              value={formData.discount_percentage}
-              onChange={handleInputChange}
-              min="0"
-              max="100"
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
-              required
-            />
-          </div>
+          {asTemplate ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Queue Order *</label>
+              <select
+                name="queue_ordering"
+                value={formData.queue_ordering}
+                onChange={handleInputChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+              >
+                <option value="fifo">First come, first served</option>
+                <option value="priority">Priority tiers</option>
+                <option value="lottery">Lottery</option>
+              </select>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Discount % *</label>
+              <input
+                type="number"
+                name="discount_percentage"
+                value={formData.discount_percentage}
+                onChange={handleInputChange}
+                min="0"
+                max="100"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                required
+              />
+            </div>
+          )}
 
           {/* Max Purchases Per User */}
           <div>
@@ -208,75 +438,163 @@ export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess,
           </div>
         </div>
 
-        <div className="grid grid-cols-2 gap-4">
-          {/* Start Time */}
+        {asTemplate ? (
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Start Time *</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Duration (minutes) *
+            </label>
             <input
-              type="date"
-              name="start_time"
-              value={formData.start_time}
+              type="number"
+              name="duration_minutes"
+              value={formData.duration_minutes}
               onChange={handleInputChange}
+              min="1"
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
               required
             />
+            <p className="text-sm text-gray-500 mt-1">
+              Start times come from the template&apos;s recurrences
+            </p>
           </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            {/* Start Time */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Start Time *</label>
+              <input
+                type="date"
+                name="start_time"
+                value={formData.start_time}
+                onChange={handleInputChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                required
+              />
+            </div>
 
-          {/* End Time */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">End Time *</label>
-            <input
-              type="date"
-              name="end_time"
-              value={formData.end_time}
-              onChange={handleInputChange}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
-              required
-            />
+            {/* End Time */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">End Time *</label>
+              <input
+                type="date"
+                name="end_time"
+                value={formData.end_time}
+                onChange={handleInputChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
+                required
+              />
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Total Inventory */}
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">Total Inventory *</label>
-          <input
-            type="number"
-            name="total_inventory"
-            value={formData.total_inventory}
-            onChange={handleInputChange}
-            min="1"
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent"
-            required
-          />
+          <label className="block text-sm font-medium text-gray-700 mb-2">Total Inventory</label>
+          <p className="text-sm text-gray-600">
+            {totalInventory} units across {formData.items.length} item
+            {formData.items.length === 1 ? '' : 's'}
+          </p>
         </div>
 
-        {/* Products Selection */}
+        {/* Products & Variants */}
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-3">Select Products *</label>
+          <label className="block text-sm font-medium text-gray-700 mb-3">
+            Products &amp; Variants *
+          </label>
           {productsLoading ? (
             <div className="text-center text-gray-500">Loading products...</div>
           ) : (
-            <div className="max-h-64 overflow-y-auto border border-gray-300 rounded-lg p-4 space-y-2">
+            <div className="max-h-96 overflow-y-auto border border-gray-300 rounded-lg p-4 space-y-4">
               {products.length === 0 ? (
                 <div className="text-center text-gray-500">No products available</div>
               ) : (
                 products.map((product) => (
-                  <label key={product.id} className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={formData.product_ids.includes(product.id)}
-                      onChange={(e) => handleProductSelect(product.id, e.target.checked)}
-                      className="w-4 h-4 text-indigo-600 rounded"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">
-                      {product.name} (${product.price})
-                    </span>
-                  </label>
+                  <div key={product.id}>
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={productIds.includes(product.id)}
+                        onChange={(e) => handleProductSelect(product, e.target.checked)}
+                        className="w-4 h-4 text-indigo-600 rounded"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">
+                        {product.name} (${product.price})
+                      </span>
+                    </label>
+
+                    {productIds.includes(product.id) && (
+                      <div className="ml-6 mt-2 space-y-2">
+                        {formData.items.map((item, index) =>
+                          item.product_id !== product.id ? null : (
+                            <div key={index} className="grid grid-cols-6 gap-2 items-center">
+                              <input
+                                type="text"
+                                value={item.variant_sku}
+                                onChange={(e) =>
+                                  handleItemChange(index, 'variant_sku', e.target.value)
+                                }
+                                placeholder="SKU"
+                                className="px-2 py-1 border border-gray-300 rounded text-sm"
+                              />
+                              <input
+                                type="text"
+                                value={item.size}
+                                onChange={(e) => handleItemChange(index, 'size', e.target.value)}
+                                placeholder="Size"
+                                className="px-2 py-1 border border-gray-300 rounded text-sm"
+                              />
+                              <input
+                                type="text"
+                                value={item.color}
+                                onChange={(e) => handleItemChange(index, 'color', e.target.value)}
+                                placeholder="Colour"
+                                className="px-2 py-1 border border-gray-300 rounded text-sm"
+                              />
+                              <input
+                                type="number"
+                                value={item.flash_price}
+                                onChange={(e) =>
+                                  handleItemChange(index, 'flash_price', e.target.value)
+                                }
+                                min="0"
+                                step="0.01"
+                                title="Flash price"
+                                className="px-2 py-1 border border-gray-300 rounded text-sm"
+                              />
+                              <input
+                                type="number"
+                                value={item.quantity_available}
+                                onChange={(e) =>
+                                  handleItemChange(index, 'quantity_available', e.target.value)
+                                }
+                                min="1"
+                                title="Stock"
+                                className="px-2 py-1 border border-gray-300 rounded text-sm"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveItem(index)}
+                                className="text-sm text-red-600 hover:text-red-800"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                          )
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleAddVariant(product)}
+                          className="text-sm text-indigo-600 hover:text-indigo-800"
+                        >
+                          + Add variant
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 ))
               )}
             </div>
           )}
-          {formData.product_ids.length === 0 && (
+          {formData.items.length === 0 && (
             <p className="text-red-500 text-sm mt-2">Select at least one product</p>
           )}
         </div>
@@ -288,7 +606,15 @@ export const FlashSaleForm: React.FC<FlashSaleFormProps> = ({ saleId, onSuccess,
             disabled={loading}
             className="flex-1 bg-indigo-600 text-white py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-medium transition-colors"
           >
-            {loading ? 'Saving...' : saleId ? 'Update Sale' : 'Create Sale'}
+            {loading
+              ? 'Saving...'
+              : asTemplate
+                ? template
+                  ? 'Update Template'
+                  : 'Create Template'
+                : saleId
+                  ? 'Update Sale'
+                  : 'Create Sale'}
           </button>
           {onCancel && (
             <button
@@ -0,0 +1,282 @@
+/**
+ * Inventory Ledger Component
+ * Timeline of every stock movement of a sale, for tracing units during disputes
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { API } from '../../services/api';
+
+type MovementType =
+  | 'load'
+  | 'reserve'
+  | 'release'
+  | 'reclaim'
+  | 'confirm'
+  | 'adjust'
+  | 'correction'
+  | 'restock'
+  | 'wave';
+
+interface InventoryMovement {
+  id: string;
+  flash_sale_item_id: string | null;
+  movement_type: MovementType;
+  quantity: number;
+  available_delta: number | null;
+  available_after: number | null;
+  holder_id: string | null;
+  order_id: string | null;
+  reason: string | null;
+  created_at: string;
+  unit_from: number | null;
+  unit_to: number | null;
+}
+
+interface LedgerResponse {
+  data: { movements: InventoryMovement[]; nextCursor: string | null };
+}
+
+interface RestockSummary {
+  restocked: number;
+  waitlisted: number;
+  discarded: number;
+}
+
+interface InventoryLedgerProps {
+  saleId: string;
+}
+
+const MOVEMENT_STYLES: Record<MovementType, { label: string; dot: string }> = {
+  load: { label: 'Loaded', dot: 'bg-gray-400' },
+  reserve: { label: 'Reserved', dot: 'bg-yellow-500' },
+  release: { label: 'Released', dot: 'bg-blue-500' },
+  reclaim: { label: 'Reclaimed', dot: 'bg-purple-500' },
+  confirm: { label: 'Sold', dot: 'bg-green-600' },
+  adjust: { label: 'Adjusted', dot: 'bg-orange-500' },
+  correction: { label: 'Corrected', dot: 'bg-red-500' },
+  restock: { label: 'Restocked', dot: 'bg-teal-500' },
+  wave: { label: 'Wave released', dot: 'bg-indigo-500' },
+};
+
+const PAGE_SIZE = 50;
+
+export const InventoryLedger: React.FC<InventoryLedgerProps> = ({ saleId }) => {
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [type, setType] = useState('');
+  const [search, setSearch] = useState('');
+  const [unit, setUnit] = useState('');
+  const [restocks, setRestocks] = useState<RestockSummary | null>(null);
+  const [releasing, setReleasing] = useState(false);
+
+  const buildQuery = useCallback(
+    (before?: string) => {
+      const params = new URLSearchParams({ limit: PAGE_SIZE.toString() });
+      if (type) params.append('type', type);
+      if (unit) params.append('unit', unit);
+      // Order IDs and holder IDs share one search box
+      if (search) params.append(search.length === 36 ? 'orderId' : 'holderId', search);
+      if (before) params.append('before', before);
+      return params.toString();
+    },
+    [type, unit, search]
+  );
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await API.get<LedgerResponse>(
+        `/admin/sales/${saleId}/inventory/ledger?${buildQuery()}`
+      );
+      setMovements(response.data.movements);
+      setNextCursor(response.data.movements.length === PAGE_SIZE ? response.data.nextCursor : null);
+      setError(null);
+    } catch (_err) {
+      setError('Failed to load inventory ledger');
+    } finally {
+      setLoading(false);
+    }
+  }, [saleId, buildQuery]);
+
+  const fetchRestocks = useCallback(async () => {
+    try {
+      const response = await API.get<{ data: RestockSummary }>(
+        `/admin/sales/${saleId}/inventory/restocks`
+      );
+      setRestocks(response.data);
+    } catch (_err) {
+      setRestocks(null);
+    }
+  }, [saleId]);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  useEffect(() => {
+    fetchRestocks();
+  }, [fetchRestocks]);
+
+  const releaseWaitlist = async () => {
+    if (releasing) return;
+
+    try {
+      setReleasing(true);
+      await API.post(`/admin/sales/${saleId}/inventory/waitlist/release`);
+      await Promise.all([fetchRestocks(), fetchLedger()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to release waitlisted stock');
+    } finally {
+      setReleasing(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      const response = await API.get<LedgerResponse>(
+        `/admin/sales/${saleId}/inventory/ledger?${buildQuery(nextCursor)}`
+      );
+      setMovements((prev) => [...prev, ...response.data.movements]);
+      setNextCursor(response.data.movements.length === PAGE_SIZE ? response.data.nextCursor : null);
+    } catch (_err) {
+      setError('Failed to load more movements');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">Inventory Ledger</h3>
+        <button onClick={fetchLedger} className="text-sm text-blue-600 hover:underline">
+          Refresh
+        </button>
+      </div>
+
+      {restocks && restocks.restocked + restocks.waitlisted + restocks.discarded > 0 && (
+        <div className="flex justify-between items-center mb-4 p-3 bg-gray-50 rounded text-sm">
+          <span className="text-gray-700">
+            Refunded units: {restocks.restocked} restocked, {restocks.waitlisted} waitlisted,{' '}
+            {restocks.discarded} not restocked
+          </span>
+          {restocks.waitlisted > 0 && (
+            <button
+              onClick={releaseWaitlist}
+              disabled={releasing}
+              className="px-3 py-1 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50"
+            >
+              {releasing ? 'Releasing...' : 'Release waitlisted'}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded text-sm"
+        >
+          <option value="">All movements</option>
+          {(Object.keys(MOVEMENT_STYLES) as MovementType[]).map((key) => (
+            <option key={key} value={key}>
+              {MOVEMENT_STYLES[key].label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="User or order ID"
+          value={search}
+          onChange={(e) => setSearch(e.target.value.trim())}
+          className="px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+        <input
+          type="number"
+          min="1"
+          placeholder="Unit #"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+
+      {error && <div className="mb-4 text-sm text-red-600">{error}</div>}
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-6">Loading ledger...</div>
+      ) : movements.length === 0 ? (
+        <div className="text-center text-gray-500 py-6">No stock movements recorded</div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2">
+          {movements.map((movement) => {
+            const style = MOVEMENT_STYLES[movement.movement_type];
+            const delta = movement.available_delta;
+
+            return (
+              <li key={movement.id} className="mb-4 ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${style.dot}`}
+                ></span>
+                <div className="flex justify-between text-sm">
+                  <span className="font-semibold text-gray-900">
+                    {style.label} {movement.quantity}
+                    {delta !== null && delta !== 0 && (
+                      <span className={delta > 0 ? 'text-green-600' : 'text-red-600'}>
+                        {' '}
+                        ({delta > 0 ? '+' : ''}
+                        {delta})
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-gray-500">
+                    {new Date(movement.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-600 mt-1 space-x-3">
+                  {movement.available_after !== null && (
+                    <span>Available after: {movement.available_after}</span>
+                  )}
+                  {movement.unit_from !== null && (
+                    <span>
+                      Units #{movement.unit_from}
+                      {movement.unit_to !== movement.unit_from && `–#${movement.unit_to}`}
+                    </span>
+                  )}
+                  {movement.holder_id && (
+                    <span className="font-mono">User {movement.holder_id.substring(0, 8)}</span>
+                  )}
+                  {movement.order_id && (
+                    <span className="font-mono">Order {movement.order_id.substring(0, 8)}</span>
+                  )}
+                  {movement.flash_sale_item_id && (
+                    <span className="font-mono">
+                      Item {movement.flash_sale_item_id.substring(0, 8)}
+                    </span>
+                  )}
+                </div>
+                {movement.reason && (
+                  <div className="text-xs text-gray-500 mt-1">{movement.reason}</div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {nextCursor && (
+        <button
+          onClick={loadMore}
+          className="w-full mt-2 px-3 py-2 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+        >
+          Load older movements
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default InventoryLedger;
@@ -1,11 +1,29 @@
 /**
  * Sale Controls Component
- * Controls for managing sale status, scheduling, and inventory
+ * Controls for managing sale status, scheduling, inventory and release waves
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { API } from '../../services/api';
 
+interface ReleaseWave {
+  percent: number;
+  offset_minutes: number;
+  from: 'start' | 'end';
+  early_access_tiers?: string[];
+}
+
+interface ScheduledWave extends ReleaseWave {
+  wave: number;
+  releaseAt: string;
+  units: number;
+  released: boolean;
+}
+
+const VIP_TIERS = ['bronze', 'silver', 'gold', 'platinum'];
+
+const DEFAULT_WAVE: ReleaseWave = { percent: 100, offset_minutes: 0, from: 'start' };
+
 interface SaleControlsProps {
   saleId: string;
   currentStatus: string;
@@ -28,6 +46,7 @@ export const SaleControls: React.FC<SaleControlsProps> = ({
     scheduled_end: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
   });
   const [inventoryData, setInventoryData] = useState({
+    item_id: '',
     adjustment: 0,
     reason: '',
   });
@@ -35,6 +54,24 @@ export const SaleControls: React.FC<SaleControlsProps> = ({
     product_id: '',
     override_discount_percentage: 0,
   });
+  const [waves, setWaves] = useState<ScheduledWave[]>([]);
+  const [showWaveForm, setShowWaveForm] = useState(false);
+  const [waveRows, setWaveRows] = useState<ReleaseWave[]>([DEFAULT_WAVE]);
+
+  const fetchWaves = useCallback(async () => {
+    try {
+      const response = await API.get<{ data: ScheduledWave[] }>(
+        `/admin/sales/${saleId}/inventory/waves`
+      );
+      setWaves(response.data);
+    } catch (_err) {
+      setWaves([]);
+    }
+  }, [saleId]);
+
+  useEffect(() => {
+    fetchWaves();
+  }, [fetchWaves]);
 
   const handleStatusAction = async (action: string) => {
     if (loading) return;
@@ -84,7 +121,7 @@ export const SaleControls: React.FC<SaleControlsProps> = ({
       setLoading(true);
       await API.post(`/admin/sales/${saleId}/adjust-inventory`, inventoryData);
       setShowInventoryForm(false);
-      setInventoryData({ adjustment: 0, reason: '' });
+      setInventoryData({ item_id: '', adjustment: 0, reason: '' });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to adjust inventory';
       onError?.(message);
@@ -110,6 +147,69 @@ export const SaleControls: React.FC<SaleControlsProps> = ({
     }
   };
 
+  const openWaveForm = () => {
+    setWaveRows(
+      waves.length > 0
+        ? waves.map(({ percent, offset_minutes, from, early_access_tiers }) => ({
+            percent,
+            offset_minutes,
+            from,
+            early_access_tiers,
+          }))
+        : [DEFAULT_WAVE]
+    );
+    setShowWaveForm(true);
+  };
+
+  const updateWaveRow = (index: number, changes: Partial<ReleaseWave>) => {
+    setWaveRows(waveRows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const toggleWaveTier = (index: number, tier: string) => {
+    const tiers = waveRows[index].early_access_tiers || [];
+    updateWaveRow(index, {
+      early_access_tiers: tiers.includes(tier) ? tiers.filter((t) => t !== tier) : [...tiers, tier],
+    });
+  };
+
+  const handleSaveWaves = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+
+    try {
+      setLoading(true);
+      const response = await API.put<{ data: ScheduledWave[] }>(
+        `/admin/sales/${saleId}/inventory/waves`,
+        { waves: waveRows }
+      );
+      setWaves(response.data);
+      setShowWaveForm(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save release waves';
+      onError?.(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClearWaves = async () => {
+    if (loading) return;
+
+    try {
+      setLoading(true);
+      await API.put(`/admin/sales/${saleId}/inventory/waves`, { waves: [] });
+      setWaves([]);
+      setShowWaveForm(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to clear release waves';
+      onError?.(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const waveTotal = waveRows.reduce((sum, row) => sum + (row.percent || 0), 0);
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       <h3 className="text-lg font-semibold mb-6">Sale Controls</h3>
@@ -227,6 +327,17 @@ export const SaleControls: React.FC<SaleControlsProps> = ({
           </button>
         ) : (
           <form onSubmit={handleAdjustInventory} className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Item ID (multi-item sales)
+              </label>
+              <input
+                type="text"
+                value={inventoryData.item_id}
+                onChange={(e) => setInventoryData({ ...inventoryData, item_id: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Adjustment Amount
@@ -274,6 +385,171 @@ export const SaleControls: React.FC<SaleControlsProps> = ({
 
       <hr className="my-6" />
 
+      {/* Release Waves */}
+      <div className="mb-6">
+        <h4 className="font-medium text-gray-900 mb-3">Release Waves</h4>
+        {waves.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-3">All stock goes on sale at the start.</p>
+        ) : (
+          <ul className="space-y-2 mb-3">
+            {waves.map((wave) => (
+              <li key={wave.wave} className="flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium">Wave {wave.wave}</span>
+                  <span className="text-gray-600">
+                    {' '}
+                    · {new Date(wave.releaseAt).toLocaleString()} · {wave.percent}% ({wave.units}{' '}
+                    units)
+                  </span>
+                  {wave.early_access_tiers && wave.early_access_tiers.length > 0 && (
+                    <span className="text-gray-500">
+                      {' '}
+                      · early for {wave.early_access_tiers.join(', ')}
+                    </span>
+                  )}
+                </div>
+                <span
+                  className={`px-2 py-0.5 rounded text-xs font-medium ${
+                    wave.released ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {wave.released ? 'Released' : 'Pending'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {currentStatus === 'upcoming' &&
+          (!showWaveForm ? (
+            <button
+              onClick={openWaveForm}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium"
+            >
+              Edit Release Waves
+            </button>
+          ) : (
+            <form onSubmit={handleSaveWaves} className="space-y-3">
+              {waveRows.map((row, index) => (
+                <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        Stock %
+                      </label>
+                      <input
+                        type="number"
+                        value={row.percent}
+                        onChange={(e) =>
+                          updateWaveRow(index, { percent: parseInt(e.target.value) })
+                        }
+                        min="1"
+                        max="100"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">
+                        Minutes
+                      </label>
+                      <input
+                        type="number"
+                        value={row.offset_minutes}
+                        onChange={(e) =>
+                          updateWaveRow(index, { offset_minutes: parseInt(e.target.value) })
+                        }
+                        min="0"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                      <select
+                        value={row.from}
+                        onChange={(e) =>
+                          updateWaveRow(index, { from: e.target.value as ReleaseWave['from'] })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="start">After start</option>
+                        <option value="end">Before end</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-700">
+                    <span>Early access:</span>
+                    {VIP_TIERS.map((tier) => (
+                      <label key={tier} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={(row.early_access_tiers || []).includes(tier)}
+                          onChange={() => toggleWaveTier(index, tier)}
+                        />
+                        {tier}
+                      </label>
+                    ))}
+                    {waveRows.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setWaveRows(waveRows.filter((_, i) => i !== index))}
+                        className="ml-auto text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setWaveRows([
+                      ...waveRows,
+                      { percent: Math.max(100 - waveTotal, 1), offset_minutes: 0, from: 'start' },
+                    ])
+                  }
+                  className="text-indigo-600 hover:text-indigo-800 font-medium"
+                >
+                  + Add Wave
+                </button>
+                <span className={waveTotal === 100 ? 'text-gray-600' : 'text-red-600'}>
+                  Total: {waveTotal}%
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={loading || waveTotal !== 100}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+                >
+                  Save Waves
+                </button>
+                {waves.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={handleClearWaves}
+                    disabled={loading}
+                    className="flex-1 px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 disabled:opacity-50 text-sm font-medium"
+                  >
+                    Release All at Start
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setShowWaveForm(false)}
+                  className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 text-sm font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ))}
+      </div>
+
+      <hr className="my-6" />
+
       {/* Price Override */}
       <div>
         <h4 className="font-medium text-gray-900 mb-3">Price Override</h4>
@@ -0,0 +1,509 @@
+/**
+ * Sale Templates Component
+ * Templates for repeated sales, the schedules that repeat them, and the holidays and
+ * blackout dates on which no recurring sale is made
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { API } from '../../services/api';
+import { useToast } from '../../contexts/ToastContext';
+import { SaleTemplate } from './FlashSaleForm';
+
+interface SaleRecurrence {
+  id: string;
+  rule: string;
+  timezone: string;
+  starts_at: string;
+  horizon_days: number;
+  skip_holidays: boolean;
+  active: boolean;
+  generated_until: string | null;
+}
+
+type TemplateWithRecurrences = SaleTemplate & { recurrences: SaleRecurrence[] };
+
+type BlackoutKind = 'holiday' | 'blackout';
+
+interface BlackoutDate {
+  id: string;
+  date: string;
+  kind: BlackoutKind;
+  name: string | null;
+  recurrence_id: string | null;
+}
+
+interface Occurrence {
+  startsAt: string;
+  skipped?: BlackoutKind;
+}
+
+interface Props {
+  onCreate: () => void;
+  onEdit: (template: SaleTemplate) => void;
+}
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-600 focus:border-transparent';
+
+const emptySchedule = () => ({
+  freq: 'WEEKLY' as Frequency,
+  interval: 1,
+  weekdays: ['FR'],
+  first_date: new Date().toISOString().split('T')[0],
+  time: '20:00',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  horizon_days: 14,
+  skip_holidays: true,
+});
+
+type Schedule = ReturnType<typeof emptySchedule>;
+
+// The time of day is written into the rule so it is read in the schedule's time zone
+const toRecurrence = (schedule: Schedule) => {
+  const [hour, minute] = schedule.time.split(':').map(Number);
+  const parts = [`FREQ=${schedule.freq}`, `INTERVAL=${schedule.interval}`];
+  if (schedule.freq === 'WEEKLY') {
+    parts.push(`BYDAY=${schedule.weekdays.join(',')}`);
+  }
+  if (schedule.freq === 'MONTHLY') {
+    parts.push(`BYMONTHDAY=${Number(schedule.first_date.split('-')[2])}`);
+  }
+  parts.push(`BYHOUR=${hour}`, `BYMINUTE=${minute}`);
+
+  return {
+    rule: parts.join(';'),
+    timezone: schedule.timezone,
+    starts_at: new Date(`${schedule.first_date}T00:00`).toISOString(),
+    horizon_days: schedule.horizon_days,
+    skip_holidays: schedule.skip_holidays,
+  };
+};
+
+const SaleTemplates: React.FC<Props> = ({ onCreate, onEdit }) => {
+  const toast = useToast();
+  const [templates, setTemplates] = useState<TemplateWithRecurrences[]>([]);
+  const [blackoutDates, setBlackoutDates] = useState<BlackoutDate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scheduling, setScheduling] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<Schedule>(emptySchedule);
+  const [preview, setPreview] = useState<Occurrence[] | null>(null);
+  const [newBlackout, setNewBlackout] = useState({
+    date: '',
+    kind: 'blackout' as BlackoutKind,
+    name: '',
+  });
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [templateResponse, blackoutResponse] = await Promise.all([
+        API.get<{ data: TemplateWithRecurrences[] }>('/admin/sale-templates'),
+        API.get<{ data: BlackoutDate[] }>('/admin/sale-blackout-dates'),
+      ]);
+      setTemplates(templateResponse.data);
+      setBlackoutDates(blackoutResponse.data);
+    } catch (_error) {
+      toast.error('Failed to load sale templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast.success(success);
+      await fetchAll();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Request failed');
+    }
+  };
+
+  const handleDeleteTemplate = (template: SaleTemplate) => {
+    if (!window.confirm(`Delete "${template.name}" and its schedules? Sales already made stay.`)) {
+      return;
+    }
+    run(() => API.delete(`/admin/sale-templates/${template.id}`), 'Template deleted');
+  };
+
+  const handleOpenSchedule = (templateId: string) => {
+    setScheduling(scheduling === templateId ? null : templateId);
+    setSchedule(emptySchedule());
+    setPreview(null);
+  };
+
+  const handleScheduleChange = (field: keyof Schedule, value: string | number | boolean) => {
+    setSchedule((prev) => ({ ...prev, [field]: value }));
+    setPreview(null);
+  };
+
+  const handleToggleWeekday = (day: string) => {
+    setSchedule((prev) => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day)
+        ? prev.weekdays.filter((d) => d !== day)
+        : WEEKDAYS.filter((d) => d === day || prev.weekdays.includes(d)),
+    }));
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    try {
+      const response = await API.post<{ data: Occurrence[] }>(
+        '/admin/sale-recurrences/preview',
+        toRecurrence(schedule)
+      );
+      setPreview(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to preview schedule');
+    }
+  };
+
+  const handleCreateSchedule = (templateId: string) =>
+    run(async () => {
+      await API.post(`/admin/sale-templates/${templateId}/recurrences`, toRecurrence(schedule));
+      setScheduling(null);
+      setPreview(null);
+    }, 'Schedule created; upcoming sales have been made');
+
+  const handleAddBlackout = () =>
+    run(async () => {
+      await API.post('/admin/sale-blackout-dates', newBlackout);
+      setNewBlackout({ date: '', kind: 'blackout', name: '' });
+    }, 'Date added');
+
+  if (loading) {
+    return <div className="p-6 text-center">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-4">
+        <button
+          onClick={onCreate}
+          className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium transition-colors"
+        >
+          + Create Template
+        </button>
+        <button
+          onClick={() => run(() => API.post('/admin/sale-recurrences/generate'), 'Sales generated')}
+          className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 font-medium transition-colors"
+        >
+          Generate Upcoming Sales
+        </button>
+      </div>
+
+      {/* Templates */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-xl font-bold text-gray-800">Templates</h3>
+        </div>
+
+        {templates.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No templates yet</div>
+        ) : (
+          templates.map((template) => (
+            <div key={template.id} className="p-6 border-b border-gray-200">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h4 className="font-semibold text-gray-900">{template.name}</h4>
+                  <p className="text-sm text-gray-600">
+                    {template.duration_minutes} min · {template.settings.items?.length ?? 0} item
+                    {template.settings.items?.length === 1 ? '' : 's'} ·{' '}
+                    {template.settings.queue_ordering || 'fifo'} queue
+                  </p>
+                </div>
+                <div className="flex gap-3 text-sm">
+                  <button
+                    onClick={() => handleOpenSchedule(template.id)}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    Add schedule
+                  </button>
+                  <button
+                    onClick={() => onEdit(template)}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDeleteTemplate(template)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {/* Schedules */}
+              {template.recurrences.length > 0 && (
+                <table className="w-full mt-4">
+                  <thead className="bg-gray-100 border-b">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-sm font-semibold">Rule</th>
+                      <th className="px-4 py-2 text-left text-sm font-semibold">Time Zone</th>
+                      <th className="px-4 py-2 text-left text-sm font-semibold">Made Until</th>
+                      <th className="px-4 py-2 text-left text-sm font-semibold">Status</th>
+                      <th className="px-4 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {template.recurrences.map((recurrence) => (
+                      <tr key={recurrence.id} className="border-b">
+                        <td className="px-4 py-2 text-sm font-mono">{recurrence.rule}</td>
+                        <td className="px-4 py-2 text-sm">{recurrence.timezone}</td>
+                        <td className="px-4 py-2 text-sm">
+                          {recurrence.generated_until
+                            ? new Date(recurrence.generated_until).toLocaleDateString()
+                            : '-'}
+                        </td>
+                        <td className="px-4 py-2 text-sm">
+                          {recurrence.active ? 'Active' : 'Paused'}
+                          {recurrence.skip_holidays && ' · skips holidays'}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right space-x-3">
+                          <button
+                            onClick={() =>
+                              run(
+                                () =>
+                                  API.patch(`/admin/sale-recurrences/${recurrence.id}`, {
+                                    active: !recurrence.active,
+                                  }),
+                                recurrence.active ? 'Schedule paused' : 'Schedule resumed'
+                              )
+                            }
+                            className="text-indigo-600 hover:text-indigo-800"
+                          >
+                            {recurrence.active ? 'Pause' : 'Resume'}
+                          </button>
+                          <button
+                            onClick={() => {
+                              if (window.confirm('Stop this schedule? Sales already made stay.')) {
+                                run(
+                                  () => API.delete(`/admin/sale-recurrences/${recurrence.id}`),
+                                  'Schedule stopped'
+                                );
+                              }
+                            }}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            Stop
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {/* New Schedule */}
+              {scheduling === template.id && (
+                <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-4">
+                  <div className="grid grid-cols-4 gap-4">
+                    <label className="text-sm text-gray-700">
+                      Repeats
+                      <select
+                        value={schedule.freq}
+                        onChange={(e) => handleScheduleChange('freq', e.target.value)}
+                        className={`${inputClass} w-full mt-1`}
+                      >
+                        <option value="DAILY">Daily</option>
+                        <option value="WEEKLY">Weekly</option>
+                        <option value="MONTHLY">Monthly</option>
+                      </select>
+                    </label>
+                    <label className="text-sm text-gray-700">
+                      Every
+                      <input
+                        type="number"
+                        min="1"
+                        value={schedule.interval}
+                        onChange={(e) => handleScheduleChange('interval', parseInt(e.target.value))}
+                        className={`${inputClass} w-full mt-1`}
+                      />
+                    </label>
+                    <label className="text-sm text-gray-700">
+                      First Date
+                      <input
+                        type="date"
+                        value={schedule.first_date}
+                        onChange={(e) => handleScheduleChange('first_date', e.target.value)}
+                        className={`${inputClass} w-full mt-1`}
+                      />
+                    </label>
+                    <label className="text-sm text-gray-700">
+                      Start Time
+                      <input
+                        type="time"
+                        value={schedule.time}
+                        onChange={(e) => handleScheduleChange('time', e.target.value)}
+                        className={`${inputClass} w-full mt-1`}
+                      />
+                    </label>
+                  </div>
+
+                  {schedule.freq === 'WEEKLY' && (
+                    <div className="flex gap-3">
+                      {WEEKDAYS.map((day) => (
+                        <label key={day} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={schedule.weekdays.includes(day)}
+                            onChange={() => handleToggleWeekday(day)}
+                            className="w-4 h-4 text-indigo-600 rounded mr-1"
+                          />
+                          {day}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <label className="text-sm text-gray-700">
+                      Time Zone
+                      <input
+                        type="text"
+                        value={schedule.timezone}
+                        onChange={(e) => handleScheduleChange('timezone', e.target.value)}
+                        className={`${inputClass} w-full mt-1`}
+                      />
+                    </label>
+                    <label className="text-sm text-gray-700">
+                      Make Sales Days Ahead
+                      <input
+                        type="number"
+                        min="1"
+                        max="90"
+                        value={schedule.horizon_days}
+                        onChange={(e) =>
+                          handleScheduleChange('horizon_days', parseInt(e.target.value))
+                        }
+                        className={`${inputClass} w-full mt-1`}
+                      />
+                    </label>
+                    <label className="flex items-center text-sm text-gray-700 mt-6">
+                      <input
+                        type="checkbox"
+                        checked={schedule.skip_holidays}
+                        onChange={(e) => handleScheduleChange('skip_holidays', e.target.checked)}
+                        className="w-4 h-4 text-indigo-600 rounded mr-2"
+                      />
+                      Skip holidays
+                    </label>
+                  </div>
+
+                  {preview && (
+                    <ul className="text-sm space-y-1">
+                      {preview.length === 0 && (
+                        <li className="text-gray-500">No sales within the horizon</li>
+                      )}
+                      {preview.map((occurrence) => (
+                        <li
+                          key={occurrence.startsAt}
+                          className={occurrence.skipped ? 'text-gray-400 line-through' : ''}
+                        >
+                          {new Date(occurrence.startsAt).toLocaleString()}
+                          {occurrence.skipped && ` (${occurrence.skipped})`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="flex gap-4">
+                    <button
+                      onClick={handlePreview}
+                      className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm"
+                    >
+                      Preview
+                    </button>
+                    <button
+                      onClick={() => handleCreateSchedule(template.id)}
+                      className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm"
+                    >
+                      Save Schedule
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Holidays & Blackout Dates */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-xl font-bold text-gray-800 mb-4">Holidays &amp; Blackout Dates</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          No recurring sale is made on a blackout date. Holidays are skipped by schedules set to
+          skip holidays.
+        </p>
+
+        <div className="flex gap-3 mb-4">
+          <input
+            type="date"
+            value={newBlackout.date}
+            onChange={(e) => setNewBlackout((prev) => ({ ...prev, date: e.target.value }))}
+            className={inputClass}
+          />
+          <select
+            value={newBlackout.kind}
+            onChange={(e) =>
+              setNewBlackout((prev) => ({ ...prev, kind: e.target.value as BlackoutKind }))
+            }
+            className={inputClass}
+          >
+            <option value="blackout">Blackout</option>
+            <option value="holiday">Holiday</option>
+          </select>
+          <input
+            type="text"
+            value={newBlackout.name}
+            onChange={(e) => setNewBlackout((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder="Name (optional)"
+            className={`${inputClass} flex-1`}
+          />
+          <button
+            onClick={handleAddBlackout}
+            disabled={!newBlackout.date}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 text-sm"
+          >
+            Add
+          </button>
+        </div>
+
+        {blackoutDates.length === 0 ? (
+          <div className="text-center text-gray-500">No upcoming dates</div>
+        ) : (
+          <ul className="divide-y">
+            {blackoutDates.map((date) => (
+              <li key={date.id} className="py-2 flex justify-between text-sm">
+                <span>
+                  {date.date} · {date.kind}
+                  {date.name && ` · ${date.name}`}
+                  {date.recurrence_id && ' · one schedule only'}
+                </span>
+                <button
+                  onClick={() =>
+                    run(() => API.delete(`/admin/sale-blackout-dates/${date.id}`), 'Date removed')
+                  }
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SaleTemplates;
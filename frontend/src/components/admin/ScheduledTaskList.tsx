@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { API } from '../../services/api';
+import { useToast } from '../../contexts/ToastContext';
+
+type TaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+interface ScheduledTask {
+  id: string;
+  task_type: string;
+  task_key: string;
+  run_at: string;
+  status: TaskStatus;
+  attempts: number;
+  max_attempts: number;
+  locked_by: string | null;
+  last_error: string | null;
+}
+
+interface Props {
+  onSelectOrder: (orderId: string) => void;
+}
+
+const REFRESH_INTERVAL_MS = 10000;
+
+const formatCountdown = (runAt: string, now: number) => {
+  const seconds = Math.round((new Date(runAt).getTime() - now) / 1000);
+  if (seconds <= 0) return 'due';
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `in ${minutes}m ${seconds % 60}s` : `in ${seconds}s`;
+};
+
+const ScheduledTaskList: React.FC<Props> = ({ onSelectOrder }) => {
+  const toast = useToast();
+  const [tasks, setTasks] = useState<ScheduledTask[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<TaskStatus, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      const response = await API.get<{
+        data: { tasks: ScheduledTask[]; counts: Record<TaskStatus, number> };
+      }>('/admin/scheduled-tasks');
+      setTasks(response.data.tasks);
+      setCounts(response.data.counts);
+      setNow(Date.now());
+    } catch (_error) {
+      toast.error('Failed to load scheduled tasks');
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTasks();
+    const interval = setInterval(fetchTasks, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchTasks]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <h3 className="text-xl font-bold text-gray-800">Pending Timers</h3>
+        <div className="flex gap-4 text-sm text-gray-600">
+          <span>Pending: {counts.pending ?? 0}</span>
+          <span>Running: {counts.running ?? 0}</span>
+          <span className="text-red-600">Failed: {counts.failed ?? 0}</span>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-center">Loading...</div>
+      ) : tasks.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No pending timers</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-100 border-b">
+              <tr>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Type</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Key</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Runs</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Status</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Attempts</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Last Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tasks.map((task) => (
+                <tr key={task.id} className="border-b hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm">{task.task_type}</td>
+                  <td className="px-6 py-4 text-sm font-mono">
+                    {task.task_type === 'checkout_expiry' ? (
+                      <button
+                        onClick={() => onSelectOrder(task.task_key)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {task.task_key.substring(0, 8)}...
+                      </button>
+                    ) : (
+                      task.task_key
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm" title={new Date(task.run_at).toLocaleString()}>
+                    {formatCountdown(task.run_at, now)}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <span
+                      className={`inline-block px-3 py-1 rounded-full text-xs font-semibold ${
+                        task.status === 'running'
+                          ? 'bg-blue-100 text-blue-800'
+                          : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {task.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    {task.attempts}/{task.max_attempts}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-red-600">{task.last_error || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledTaskList;
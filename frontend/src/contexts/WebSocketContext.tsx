@@ -57,7 +57,7 @@ const WebSocketContext = createContext<WebSocketContextType | null>(null);
 
 // ─── Config ─────────────────────────────────────────────────
 
-const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3000';
+export const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3000';
 const MAX_RECONNECT_ATTEMPTS = 10;
 const INITIAL_RECONNECT_DELAY = 1000;
 const MAX_RECONNECT_DELAY = 30000;
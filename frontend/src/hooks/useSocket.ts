@@ -10,8 +10,9 @@
  * - Connection state awareness
  */
 
-import { useEffect, useCallback, useRef, useState } from 'react';
-import { useWebSocket, ConnectionState } from '../contexts/WebSocketContext';
+import { useEffect, useCallback, useMemo, useRef, useState } from 'react';
+import { io } from 'socket.io-client';
+import { useWebSocket, ConnectionState, WS_URL } from '../contexts/WebSocketContext';
 
 // ─── Types ──────────────────────────────────────────────────
 
@@ -89,6 +90,7 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
 export function useInventoryUpdates(saleId: string) {
   const [inventory, setInventory] = useState<{
     remaining: number;
+    inStock?: number;
     total: number;
     percentRemaining: number;
   } | null>(null);
@@ -100,13 +102,21 @@ export function useInventoryUpdates(saleId: string) {
     saleId,
     events: {
       'inventory:updated': (data: unknown) => {
-        const d = data as { remaining: number; total: number; percentRemaining: number };
+        const d = data as {
+          remaining: number;
+          inStock?: number;
+          total: number;
+          percentRemaining: number;
+        };
         setInventory({
           remaining: d.remaining,
+          inStock: d.inStock,
           total: d.total,
           percentRemaining: d.percentRemaining,
         });
         setIsLowStock(d.percentRemaining <= 10);
+        // Restocked units reopen a sold-out sale
+        setIsSoldOut(d.remaining === 0);
       },
       'inventory:soldout': () => {
         setIsSoldOut(true);
@@ -149,6 +159,59 @@ export function useQueuePosition(saleId: string) {
   return { position, estimatedWait, isYourTurn };
 }
 
+/**
+ * Hook for holding the user's place in a sale queue. Heartbeats on the /queue namespace;
+ * the server keeps the place through brief disconnects but evicts users who stay away.
+ */
+export function useQueuePresence(saleId: string | null, userId?: string) {
+  const [isEvicted, setIsEvicted] = useState(false);
+
+  useEffect(() => {
+    if (!saleId) return;
+    setIsEvicted(false);
+
+    const socket = io(`${WS_URL}/queue`, {
+      transports: ['websocket', 'polling'],
+      auth: userId ? { userId } : undefined,
+    });
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    // Re-subscribing after a reconnect picks the heartbeat back up
+    socket.on('connect', () => {
+      socket.emit('subscribe:queue', { saleId, userId });
+    });
+    socket.on('queue:heartbeatAck', (data: { heartbeatIntervalSeconds?: number }) => {
+      if (heartbeat || !data?.heartbeatIntervalSeconds) return;
+      heartbeat = setInterval(
+        () => socket.emit('queue:heartbeat'),
+        data.heartbeatIntervalSeconds * 1000,
+      );
+    });
+
+    return () => {
+      if (heartbeat) clearInterval(heartbeat);
+      socket.emit('unsubscribe:queue', { saleId });
+      socket.disconnect();
+    };
+  }, [saleId, userId]);
+
+  // Eviction notices arrive on the user's own room of the shared connection
+  const events = useMemo(
+    () => ({
+      'queue:left': (data: unknown) => {
+        const d = data as { saleId?: string; reason?: string };
+        if (d?.saleId === saleId && d.reason === 'evicted') {
+          setIsEvicted(true);
+        }
+      },
+    }),
+    [saleId],
+  );
+  useSocket({ events });
+
+  return { isEvicted };
+}
+
 /**
  * Hook for subscribing to sale lifecycle events.
  */
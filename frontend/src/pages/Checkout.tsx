@@ -13,6 +13,7 @@
 import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useCart } from '../contexts/CartContext';
+import { reserveCart } from '../services/api';
 
 // Types
 interface ShippingAddress {
@@ -101,6 +102,12 @@ const Checkout: React.FC = () => {
     setError(null);
 
     try {
+      // Flash sale items are held first, with the admission pass from each sale's queue
+      const saleIds = items.flatMap((item) => (item.saleId ? [item.saleId] : []));
+      if (saleIds.length > 0) {
+        await reserveCart(saleIds);
+      }
+
       // Simulate payment processing
       await new Promise((resolve) => setTimeout(resolve, 2000));
 
@@ -110,7 +117,7 @@ const Checkout: React.FC = () => {
       setCurrentStep('confirmation');
       clearCart(); // Clear cart after successful order
     } catch (err) {
-      setError('Payment failed. Please try again.');
+      setError(err instanceof Error ? err.message : 'Payment failed. Please try again.');
     } finally {
       setIsProcessing(false);
     }
@@ -1,12 +1,13 @@
 /**
  * Flash Sales Management Page
- * Main admin page for managing all flash sales
+ * Main admin page for managing all flash sales and the templates recurring sales are made from
  */
 
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import FlashSaleForm from '../../components/admin/FlashSaleForm';
+import FlashSaleForm, { SaleTemplate } from '../../components/admin/FlashSaleForm';
 import FlashSaleList from '../../components/admin/FlashSaleList';
+import SaleTemplates from '../../components/admin/SaleTemplates';
 import { useToast } from '../../contexts/ToastContext';
 
 interface FlashSale {
@@ -14,11 +15,12 @@ interface FlashSale {
   id?: string;
 }
 
-type ViewMode = 'list' | 'create' | 'edit';
+type ViewMode = 'list' | 'create' | 'edit' | 'templates' | 'create-template' | 'edit-template';
 
 export const FlashSalesPage: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedSaleId, setSelectedSaleId] = useState<string | null>(null);
+  const [selectedTemplate, setSelectedTemplate] = useState<SaleTemplate | null>(null);
   const navigate = useNavigate();
   const toast = useToast();
 
@@ -45,6 +47,16 @@ export const FlashSalesPage: React.FC = () => {
     setViewMode('list');
   };
 
+  const handleEditTemplate = (template: SaleTemplate) => {
+    setSelectedTemplate(template);
+    setViewMode('edit-template');
+  };
+
+  const handleTemplateSuccess = (template: SaleTemplate) => {
+    toast.success(`Template "${template.name}" saved successfully!`);
+    setViewMode('templates');
+  };
+
   return (
     <div className="p-6 bg-gray-100 min-h-screen">
       {/* Header */}
@@ -56,13 +68,19 @@ export const FlashSalesPage: React.FC = () => {
       {/* View Mode Switcher */}
       {viewMode === 'list' && (
         <>
-          <div className="mb-6">
+          <div className="mb-6 flex gap-4">
             <button
               onClick={handleCreateClick}
               className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium transition-colors"
             >
               + Create New Sale
             </button>
+            <button
+              onClick={() => setViewMode('templates')}
+              className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 font-medium transition-colors"
+            >
+              Templates &amp; Schedules
+            </button>
           </div>
           <FlashSaleList onEdit={handleEditClick} onViewDetails={handleViewDetailsClick} />
         </>
@@ -83,6 +101,44 @@ export const FlashSalesPage: React.FC = () => {
           />
         </div>
       )}
+
+      {viewMode === 'templates' && (
+        <>
+          <div className="mb-6">
+            <button
+              onClick={() => setViewMode('list')}
+              className="text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              &larr; Back to sales
+            </button>
+          </div>
+          <SaleTemplates
+            onCreate={() => setViewMode('create-template')}
+            onEdit={handleEditTemplate}
+          />
+        </>
+      )}
+
+      {viewMode === 'create-template' && (
+        <div className="max-w-4xl mx-auto">
+          <FlashSaleForm
+            asTemplate
+            onSuccess={handleTemplateSuccess}
+            onCancel={() => setViewMode('templates')}
+          />
+        </div>
+      )}
+
+      {viewMode === 'edit-template' && selectedTemplate && (
+        <div className="max-w-4xl mx-auto">
+          <FlashSaleForm
+            asTemplate
+            template={selectedTemplate}
+            onSuccess={handleTemplateSuccess}
+            onCancel={() => setViewMode('templates')}
+          />
+        </div>
+      )}
     </div>
   );
 };
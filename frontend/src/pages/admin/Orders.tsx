@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import OrderList from '../../components/admin/OrderList';
 import OrderDetails from '../../components/admin/OrderDetails';
+import ScheduledTaskList from '../../components/admin/ScheduledTaskList';
 
 const Orders: React.FC = () => {
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
@@ -14,7 +15,10 @@ const Orders: React.FC = () => {
         </div>
 
         {!selectedOrderId ? (
-          <OrderList onSelectOrder={setSelectedOrderId} />
+          <div className="space-y-6">
+            <OrderList onSelectOrder={setSelectedOrderId} />
+            <ScheduledTaskList onSelectOrder={setSelectedOrderId} />
+          </div>
         ) : (
           <div className="space-y-6">
             <button
@@ -7,6 +7,7 @@ import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import SaleMetrics from '../../components/admin/SaleMetrics';
 import SaleControls from '../../components/admin/SaleControls';
+import InventoryLedger from '../../components/admin/InventoryLedger';
 import { API } from '../../services/api';
 
 interface SaleInfo {
@@ -112,6 +113,7 @@ export const SaleDetailsPage: React.FC = () => {
         {/* Left Column - Metrics and Info */}
         <div className="col-span-2 space-y-6">
           <SaleMetrics key={refreshKey} saleId={id} refreshInterval={5000} />
+          <InventoryLedger saleId={id} />
         </div>
 
         {/* Right Column - Controls */}
@@ -6,6 +6,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { ServiceStatus, HealthSummary, MetricsCard } from '../../components/admin/ServiceStatus';
+import { BackgroundJobs } from '../../components/admin/BackgroundJobs';
 import { useToast } from '../../contexts/ToastContext';
 
 interface SystemHealth {
@@ -163,6 +164,11 @@ export const SystemHealth: React.FC = () => {
         <ServiceStatus services={services} loading={loading && services.length === 0} />
       </div>
 
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Background Jobs</h2>
+        <BackgroundJobs refreshKey={lastUpdated} />
+      </div>
+
       {metrics && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
           <MetricsCard
@@ -26,6 +26,18 @@ const apiClient: AxiosInstance = axios.create({
   },
 });
 
+// ─── Device ID ───────────────────────────────────────────────
+
+// Stable per-browser ID; queue admission passes are bound to the device that joined
+const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem('deviceId');
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem('deviceId', deviceId);
+  }
+  return deviceId;
+};
+
 // ─── Request Interceptor (auto-inject token) ─────────────────
 
 apiClient.interceptors.request.use(
@@ -39,6 +51,10 @@ apiClient.interceptors.request.use(
       config.headers.Authorization = `Bearer ${token}`;
     }
 
+    if (!isAdminRoute && config.headers) {
+      config.headers['X-Device-Id'] = getDeviceId();
+    }
+
     return config;
   },
   (error) => Promise.reject(error),
@@ -138,6 +154,59 @@ export async function loginUser(email: string, password: string): Promise<AuthRe
   return API.post<AuthResponse>('/auth/login', { email, password });
 }
 
+// ─── Queue Admission ─────────────────────────────────────────
+
+interface AdmissionPassResponse {
+  success: boolean;
+  data: { token: string; saleId: string; expiresAt: string };
+}
+
+interface CheckoutInput {
+  saleId: string;
+  itemId?: string;
+  productId: string;
+  quantity: number;
+  shippingAddress?: Record<string, string>;
+}
+
+// Signed pass of a user admitted from a sale's queue, or null while they still wait
+export async function getAdmissionPass(saleId: string): Promise<string | null> {
+  try {
+    const response = await API.get<AdmissionPassResponse>(`/queue/pass/${saleId}`);
+    return response.data.token;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Passes for every sale, as the comma-separated X-Admission-Pass header
+async function admissionPassHeader(saleIds: string[]): Promise<Record<string, string>> {
+  const passes = await Promise.all(Array.from(new Set(saleIds)).map(getAdmissionPass));
+  const tokens = passes.filter((pass): pass is string => Boolean(pass));
+  return tokens.length > 0 ? { 'X-Admission-Pass': tokens.join(',') } : {};
+}
+
+// Hold the cart's flash sale stock, redeeming the pass of each sale in it
+export async function reserveCart(saleIds: string[]): Promise<string> {
+  const response = await apiClient.post<{ data: { reservationId: string } }>(
+    '/cart/reserve',
+    undefined,
+    { headers: await admissionPassHeader(saleIds) },
+  );
+  return response.data.data.reservationId;
+}
+
+// Start checkout for a flash sale item with the pass the queue admitted the user with
+export async function initiateCheckout<T = unknown>(input: CheckoutInput): Promise<T> {
+  const response = await apiClient.post<T>('/orders/checkout', input, {
+    headers: await admissionPassHeader([input.saleId]),
+  });
+  return response.data;
+}
+
 // ─── Export raw client for advanced use ──────────────────────
 
 export { apiClient };